@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { GetBoatAuditLogParams, GetBoatAuditLogResponse } from '@/lib/types';
+
+/**
+ * GET /api/boats/:id/audit
+ * Who changed what on a boat, newest first (owner or admin only)
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: GetBoatAuditLogParams = { boat_id: id, caller_line_user_id: lineUserId };
+
+    const { data, error } = await supabase.rpc('get_boat_audit_log', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as GetBoatAuditLogResponse);
+  } catch (err) {
+    return handleRouteError('api/boats/audit', err);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import type { CheckBoatAvailabilityParams } from '@/lib/types';
+
+/**
+ * GET /api/boats/:id/availability?start_time=...&end_time=...
+ * Public – no identity required
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const startTime = searchParams.get('start_time');
+    const endTime = searchParams.get('end_time');
+
+    if (!startTime || !endTime) {
+      return jsonError('start_time and end_time are required', 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: CheckBoatAvailabilityParams = {
+      boat_id: id,
+      start_time: startTime,
+      end_time: endTime,
+    };
+
+    const { data, error } = await supabase.rpc('check_boat_availability', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json({ available: Boolean(data) });
+  } catch (err) {
+    return handleRouteError('api/boats/availability', err);
+  }
+}
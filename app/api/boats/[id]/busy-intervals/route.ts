@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import type { BusyInterval, GetBoatBusyIntervalsParams } from '@/lib/types';
+
+// Longest range a single request may ask for
+const MAX_RANGE_DAYS = 31;
+
+/**
+ * GET /api/boats/:id/busy-intervals?range_start=...&range_end=...
+ * Public – returns times only, no passenger details
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const rangeStart = searchParams.get('range_start');
+    const rangeEnd = searchParams.get('range_end');
+
+    if (!rangeStart || !rangeEnd) {
+      return jsonError('range_start and range_end are required', 400);
+    }
+
+    const startMs = new Date(rangeStart).getTime();
+    const endMs = new Date(rangeEnd).getTime();
+    if (isNaN(startMs) || isNaN(endMs) || endMs <= startMs) {
+      return jsonError('range_end must be after range_start', 400);
+    }
+    if (endMs - startMs > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return jsonError(`Range may not exceed ${MAX_RANGE_DAYS} days`, 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: GetBoatBusyIntervalsParams = {
+      boat_id: id,
+      range_start: rangeStart,
+      range_end: rangeEnd,
+    };
+
+    const { data, error } = await supabase.rpc('get_boat_busy_intervals', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json({ intervals: (data as BusyInterval[]) || [] });
+  } catch (err) {
+    return handleRouteError('api/boats/busy-intervals', err);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import { MAINTENANCE_WINDOW_ERROR_MESSAGES, validateMaintenanceWindow } from '@/lib/fleet';
+import type { ScheduleMaintenanceParams, ScheduleMaintenanceResponse } from '@/lib/types';
+
+/**
+ * POST /api/boats/:id/maintenance  { start_time, end_time, reason? }
+ * Schedules a maintenance window; the boat is unbookable during it and
+ * switches to maintenance while it runs
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (typeof body?.start_time !== 'string' || typeof body?.end_time !== 'string') {
+      return jsonError('start_time and end_time are required', 400);
+    }
+    if (body.reason != null && typeof body.reason !== 'string') {
+      return jsonError('reason must be a string', 400);
+    }
+
+    const reason = body.reason?.trim() || null;
+    const windowError = validateMaintenanceWindow(body.start_time, body.end_time, reason);
+    if (windowError) {
+      return jsonError(MAINTENANCE_WINDOW_ERROR_MESSAGES[windowError], 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: ScheduleMaintenanceParams = {
+      boat_id: id,
+      caller_line_user_id: lineUserId,
+      start_time: body.start_time,
+      end_time: body.end_time,
+      reason,
+    };
+
+    const { data, error } = await supabase.rpc('schedule_maintenance', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as ScheduleMaintenanceResponse);
+  } catch (err) {
+    return handleRouteError('api/boats/maintenance', err);
+  }
+}
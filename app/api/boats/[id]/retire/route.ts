@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { RetireBoatParams, RetireBoatResponse } from '@/lib/types';
+
+/**
+ * POST /api/boats/:id/retire
+ * Takes a boat off the map for good; refused while it has upcoming bookings
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: RetireBoatParams = { boat_id: id, caller_line_user_id: lineUserId };
+
+    const { data, error } = await supabase.rpc('retire_boat', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as RetireBoatResponse);
+  } catch (err) {
+    return handleRouteError('api/boats/retire', err);
+  }
+}
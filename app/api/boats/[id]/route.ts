@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import { describeBoatInputErrors, toBoatInput, validateBoatInput } from '@/lib/fleet';
+import type { SaveBoatParams, SaveBoatResponse } from '@/lib/types';
+
+/**
+ * POST /api/boats/:id  { name, boat_type, capacity, price_per_hour, home_latitude, home_longitude, owner_id? }
+ * Owner or admin edits a boat; changed fields go to the audit log
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+    const input = toBoatInput(await request.json().catch(() => null));
+
+    const errors = validateBoatInput(input);
+    if (Object.keys(errors).length > 0) {
+      return jsonError(describeBoatInputErrors(errors), 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: SaveBoatParams = {
+      ...input,
+      boat_id: id,
+      caller_line_user_id: lineUserId,
+    };
+
+    const { data, error } = await supabase.rpc('save_boat', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as SaveBoatResponse);
+  } catch (err) {
+    return handleRouteError('api/boats/update', err);
+  }
+}
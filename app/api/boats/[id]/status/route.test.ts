@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/boats/[id]/status/route';
+import { createDevIdTokenVerifier, setIdTokenVerifier } from '@/lib/server/lineAuth';
+import { resetMemoryBackend, type MemoryBackend } from '@/lib/memoryBackend';
+
+// Seeded: Udev-operator-2 owns boat-4 but not boat-7
+const setStatus = (id: string, body: unknown, token?: string) =>
+  POST(
+    new Request(`http://localhost/api/boats/${id}/status`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...(token ? { authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+
+describe('POST /api/boats/:id/status', () => {
+  let backend: MemoryBackend;
+
+  beforeEach(() => {
+    setIdTokenVerifier(createDevIdTokenVerifier());
+    backend = resetMemoryBackend();
+  });
+
+  afterEach(() => {
+    setIdTokenVerifier(null);
+  });
+
+  const statusOf = (id: string) => backend.db.boats.find((b) => b.id === id)?.status;
+
+  it('answers 401 without an ID token or with a bad one', async () => {
+    const before = statusOf('boat-4');
+
+    expect((await setStatus('boat-4', { status: 'maintenance' })).status).toBe(401);
+    expect((await setStatus('boat-4', { status: 'maintenance' }, 'dev:')).status).toBe(401);
+    expect(statusOf('boat-4')).toBe(before);
+  });
+
+  it('answers 400 for an unknown status', async () => {
+    const res = await setStatus('boat-4', { status: 'sunk' }, 'dev:Udev-operator-2');
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ success: false, error: 'Invalid status' });
+  });
+
+  it("refuses to change another operator's boat", async () => {
+    const before = statusOf('boat-7');
+
+    const res = await setStatus('boat-7', { status: 'maintenance' }, 'dev:Udev-operator-2');
+
+    expect(await res.json()).toEqual({ success: false, error: 'Not allowed to update this boat' });
+    expect(statusOf('boat-7')).toBe(before);
+  });
+
+  it("changes the status of the caller's own boat", async () => {
+    const res = await setStatus('boat-4', { status: 'maintenance' }, 'dev:Udev-operator-2');
+
+    expect(await res.json()).toMatchObject({ success: true, status: 'maintenance' });
+    expect(statusOf('boat-4')).toBe('maintenance');
+  });
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import type { BoatStatus, UpdateBoatStatusParams, UpdateBoatStatusResponse } from '@/lib/types';
+
+const BOAT_STATUSES: BoatStatus[] = ['available', 'busy', 'booked', 'maintenance'];
+
+/**
+ * POST /api/boats/:id/status  { status }
+ * Operator changes a boat's status; ownership is checked by the RPC
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (!body || !BOAT_STATUSES.includes(body.status)) {
+      return jsonError('Invalid status', 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: UpdateBoatStatusParams = {
+      boat_id: id,
+      new_status: body.status,
+      caller_line_user_id: lineUserId,
+    };
+
+    const { data, error } = await supabase.rpc('update_boat_status', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as UpdateBoatStatusResponse);
+  } catch (err) {
+    return handleRouteError('api/boats/status', err);
+  }
+}
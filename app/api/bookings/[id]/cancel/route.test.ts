@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/bookings/[id]/cancel/route';
+import { createDevIdTokenVerifier, setIdTokenVerifier } from '@/lib/server/lineAuth';
+import { resetMemoryBackend, type MemoryBackend } from '@/lib/memoryBackend';
+
+// booking-1 is a seeded booking of Udev-passenger
+const cancel = (id: string, token?: string) =>
+  POST(
+    new Request(`http://localhost/api/bookings/${id}/cancel`, {
+      method: 'POST',
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    }),
+    { params: Promise.resolve({ id }) }
+  );
+
+describe('POST /api/bookings/:id/cancel', () => {
+  let backend: MemoryBackend;
+
+  beforeEach(() => {
+    setIdTokenVerifier(createDevIdTokenVerifier());
+    backend = resetMemoryBackend();
+  });
+
+  afterEach(() => {
+    setIdTokenVerifier(null);
+  });
+
+  const statusOf = (id: string) => backend.db.bookings.find((b) => b.id === id)?.status;
+
+  it('answers 401 without an ID token', async () => {
+    const res = await cancel('booking-1');
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ success: false, error: 'Missing ID token' });
+    expect(statusOf('booking-1')).toBe('confirmed');
+  });
+
+  it('answers 401 for a token the verifier rejects', async () => {
+    const res = await cancel('booking-1', 'forged-token');
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ success: false, error: 'Invalid dev ID token' });
+  });
+
+  it("refuses to cancel someone else's booking", async () => {
+    const res = await cancel('booking-1', 'dev:Uintruder');
+
+    expect(await res.json()).toEqual({ success: false, error: 'Not allowed to cancel this booking' });
+    expect(statusOf('booking-1')).toBe('confirmed');
+  });
+
+  it('cancels the booking for the passenger who made it', async () => {
+    const res = await cancel('booking-1', 'dev:Udev-passenger');
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ success: true, booking_id: 'booking-1', status: 'cancelled' });
+    expect(statusOf('booking-1')).toBe('cancelled');
+  });
+});
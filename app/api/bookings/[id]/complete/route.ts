@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { CompleteBookingParams, CompleteBookingResponse } from '@/lib/types';
+
+/**
+ * POST /api/bookings/:id/complete
+ * Operator ends the trip, or the passenger's trip screen closes it after end_time
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: CompleteBookingParams = {
+      booking_id: id,
+      caller_line_user_id: lineUserId,
+    };
+
+    const { data, error } = await supabase.rpc('complete_booking', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as CompleteBookingResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/complete', err);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { GetBookingGroupParams, GetBookingGroupResponse } from '@/lib/types';
+
+/**
+ * GET /api/bookings/:id/group
+ * Passengers of a group booking with their shares – organizer or joined passenger only
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: GetBookingGroupParams = {
+      booking_id: id,
+      caller_line_user_id: lineUserId,
+    };
+
+    const { data, error } = await supabase.rpc('get_booking_group', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as GetBookingGroupResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/group', err);
+  }
+}
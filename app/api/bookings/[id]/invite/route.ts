@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { CreateBookingInviteParams, CreateBookingInviteResponse } from '@/lib/types';
+
+/**
+ * POST /api/bookings/:id/invite
+ * Organizer gets the join code for their booking – created on first call
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId, name } = await authenticateRequest(request);
+    const { id } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: CreateBookingInviteParams = {
+      booking_id: id,
+      caller_line_user_id: lineUserId,
+      caller_name: name ?? null,
+    };
+
+    const { data, error } = await supabase.rpc('create_booking_invite', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as CreateBookingInviteResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/invite', err);
+  }
+}
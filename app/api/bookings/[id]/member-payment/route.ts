@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import type { MarkMemberPaidParams, MarkMemberPaidResponse } from '@/lib/types';
+
+/**
+ * POST /api/bookings/:id/member-payment  { line_user_id, paid }
+ * Organizer marks a passenger's share as paid (or back to unpaid)
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (typeof body?.line_user_id !== 'string' || !body.line_user_id) {
+      return jsonError('line_user_id is required', 400);
+    }
+    if (typeof body?.paid !== 'boolean') {
+      return jsonError('paid must be true or false', 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: MarkMemberPaidParams = {
+      booking_id: id,
+      caller_line_user_id: lineUserId,
+      member_line_user_id: body.line_user_id,
+      paid: body.paid,
+    };
+
+    const { data, error } = await supabase.rpc('mark_member_paid', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as MarkMemberPaidResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/member-payment', err);
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { isPaymentCallback } from '@/lib/server/paymentCallback';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { MarkBookingPaidParams, MarkBookingPaidResponse } from '@/lib/types';
+
+/**
+ * POST /api/bookings/:id/paid
+ * Boat operator confirms a payment by hand, or the payment callback
+ * (x-payment-callback-secret header) confirms it automatically
+ * Body: { payment_ref?: string }
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const callerLineUserId = isPaymentCallback(request)
+      ? null
+      : (await authenticateRequest(request)).lineUserId;
+
+    const body = await request.json().catch(() => ({}));
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: MarkBookingPaidParams = {
+      booking_id: id,
+      caller_line_user_id: callerLineUserId,
+      payment_ref: typeof body?.payment_ref === 'string' ? body.payment_ref : null,
+    };
+
+    const { data, error } = await supabase.rpc('mark_booking_paid', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as MarkBookingPaidResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/paid', err);
+  }
+}
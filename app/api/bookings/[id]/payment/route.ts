@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import { toBookingPayment } from '@/lib/payments';
+import type { BookingPaymentRecord, GetBookingPaymentParams } from '@/lib/types';
+
+/**
+ * GET /api/bookings/:id/payment
+ * Amount, payment status and PromptPay QR payload – passenger or boat operator only
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: GetBookingPaymentParams = {
+      booking_id: id,
+      caller_line_user_id: lineUserId,
+    };
+
+    const { data, error } = await supabase.rpc('get_booking_payment', rpcParams);
+    if (error) throw error;
+
+    const record = data as BookingPaymentRecord;
+    if (!record?.success) {
+      const message = record?.error || 'Booking not found';
+      return jsonError(message, message === 'Booking not found' ? 404 : 403);
+    }
+
+    return NextResponse.json(toBookingPayment(record));
+  } catch (err) {
+    return handleRouteError('api/bookings/payment', err);
+  }
+}
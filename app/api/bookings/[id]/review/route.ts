@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import { isValidRating, normalizeReviewComment, REVIEW_COMMENT_MAX_LENGTH } from '@/lib/reviews';
+import type { SubmitReviewParams, SubmitReviewResponse } from '@/lib/types';
+
+/**
+ * POST /api/bookings/:id/review  { rating, comment? }
+ * Passenger rates a completed trip – once per booking
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (!isValidRating(body?.rating)) {
+      return jsonError('rating must be a whole number from 1 to 5', 400);
+    }
+    if (body?.comment != null && typeof body.comment !== 'string') {
+      return jsonError('comment must be a string', 400);
+    }
+
+    const comment = normalizeReviewComment(body?.comment);
+    if (comment && comment.length > REVIEW_COMMENT_MAX_LENGTH) {
+      return jsonError(`comment may not exceed ${REVIEW_COMMENT_MAX_LENGTH} characters`, 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: SubmitReviewParams = {
+      booking_id: id,
+      caller_line_user_id: lineUserId,
+      rating: body.rating,
+      comment,
+    };
+
+    const { data, error } = await supabase.rpc('submit_review', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as SubmitReviewResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/review', err);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { GetBookingParams, GetBookingResponse } from '@/lib/types';
+
+/**
+ * GET /api/bookings/:id
+ * One booking for the live trip screen – the passenger who made it only
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: GetBookingParams = {
+      booking_id: id,
+      caller_line_user_id: lineUserId,
+    };
+
+    const { data, error } = await supabase.rpc('get_booking', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as GetBookingResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/get', err);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import type { FareSplitMode, SetBookingSplitParams, SetBookingSplitResponse } from '@/lib/types';
+
+const SPLIT_MODES: FareSplitMode[] = ['even', 'custom'];
+
+const isShareMap = (value: unknown): value is Record<string, number> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  Object.values(value).every((amount) => typeof amount === 'number' && Number.isFinite(amount));
+
+/**
+ * POST /api/bookings/:id/split  { split_mode, shares? }
+ * Organizer splits the fare evenly or by custom shares ({ [line_user_id]: amount })
+ * – the database checks the shares against the passengers and the total
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (!SPLIT_MODES.includes(body?.split_mode)) {
+      return jsonError('Invalid split mode', 400);
+    }
+    if (body.split_mode === 'custom' && !isShareMap(body.shares)) {
+      return jsonError('shares must map each passenger to an amount', 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: SetBookingSplitParams = {
+      booking_id: id,
+      caller_line_user_id: lineUserId,
+      split_mode: body.split_mode,
+      shares: body.split_mode === 'custom' ? body.shares : null,
+    };
+
+    const { data, error } = await supabase.rpc('set_booking_split', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as SetBookingSplitResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/split', err);
+  }
+}
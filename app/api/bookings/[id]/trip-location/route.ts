@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import type {
+  GetTripLocationParams,
+  GetTripLocationResponse,
+  UpdateTripLocationParams,
+  UpdateTripLocationResponse,
+} from '@/lib/types';
+
+/**
+ * GET /api/bookings/:id/trip-location
+ * Boat operator reads the passenger's position while the trip runs
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: GetTripLocationParams = {
+      booking_id: id,
+      caller_line_user_id: lineUserId,
+    };
+
+    const { data, error } = await supabase.rpc('get_trip_location', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as GetTripLocationResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/trip-location', err);
+  }
+}
+
+/**
+ * POST /api/bookings/:id/trip-location  { lat, lon }
+ * Passenger shares their position – accepted only between start_time and end_time
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (typeof body?.lat !== 'number' || typeof body?.lon !== 'number' ||
+        Math.abs(body.lat) > 90 || Math.abs(body.lon) > 180) {
+      return jsonError('lat and lon are required', 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: UpdateTripLocationParams = {
+      booking_id: id,
+      caller_line_user_id: lineUserId,
+      lat: body.lat,
+      lon: body.lon,
+    };
+
+    const { data, error } = await supabase.rpc('update_trip_location', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as UpdateTripLocationResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/trip-location', err);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import { quoteBookingRequest, readBookingQuoteInput } from '@/lib/server/bookingQuote';
+import type { QuoteBookingResponse } from '@/lib/types';
+
+/**
+ * POST /api/bookings/quote  { boat_id, start_time, end_time, pickup_lat?, pickup_lon?, pickup_pier_id? }
+ * The price POST /api/bookings would charge right now
+ * Public – no identity required
+ */
+export async function POST(request: Request) {
+  try {
+    const input = readBookingQuoteInput(await request.json().catch(() => null));
+    if (!input) {
+      return jsonError('boat_id, start_time and end_time are required', 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const priced = await quoteBookingRequest(supabase, input);
+    if (!priced.success) return jsonError(priced.error, priced.status);
+
+    return NextResponse.json({ success: true, quote: priced.quote } satisfies QuoteBookingResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings/quote', err);
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import { PRICE_CHANGED_ERROR } from '@/lib/pricing';
+import { quoteBookingRequest, readBookingQuoteInput } from '@/lib/server/bookingQuote';
+import type {
+  CreateBookingParams,
+  CreateBookingResponse,
+  GetPassengerBookingsParams,
+  GetPassengerBookingsResponse,
+} from '@/lib/types';
+
+/**
+ * GET /api/bookings
+ * The verified LINE user's bookings, with their boats and reviews
+ */
+export async function GET(request: Request) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: GetPassengerBookingsParams = { caller_line_user_id: lineUserId };
+
+    const { data, error } = await supabase.rpc('get_passenger_bookings', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as GetPassengerBookingsResponse);
+  } catch (err) {
+    return handleRouteError('api/bookings', err);
+  }
+}
+
+/**
+ * POST /api/bookings  { boat_id, start_time, end_time, quoted_total, pickup_lat?, pickup_lon?, pickup_pier_id? }
+ * The booking is always made for the verified LINE user
+ * The price comes from lib/pricing.ts; quoted_total is the total the passenger
+ * confirmed, and the booking is refused when the server's quote differs
+ */
+export async function POST(request: Request) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const body = await request.json().catch(() => null);
+
+    const input = readBookingQuoteInput(body);
+    if (!input) {
+      return jsonError('boat_id, start_time and end_time are required', 400);
+    }
+    if (typeof body.quoted_total !== 'number') {
+      return jsonError('quoted_total is required', 400);
+    }
+    // Also catches bookings queued offline and sent after their window began
+    if (new Date(input.start_time).getTime() < Date.now()) {
+      return jsonError('start_time must not be in the past', 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const priced = await quoteBookingRequest(supabase, input);
+    if (!priced.success) return jsonError(priced.error, priced.status);
+
+    const { quote } = priced;
+    if (quote.total !== body.quoted_total) return jsonError(PRICE_CHANGED_ERROR, 409);
+
+    const rpcParams: CreateBookingParams = {
+      boat_id: input.boat_id,
+      line_user_id: lineUserId,
+      start_time: input.start_time,
+      end_time: input.end_time,
+      pickup_lat: priced.pickup_lat,
+      pickup_lon: priced.pickup_lon,
+      pickup_pier_id: input.pickup_pier_id,
+      quoted_price: quote.total,
+    };
+
+    const { data, error } = await supabase.rpc('create_booking', rpcParams);
+    if (error) throw error;
+
+    const response = data as CreateBookingResponse;
+    return NextResponse.json(response.success ? { ...response, quote } : response);
+  } catch (err) {
+    return handleRouteError('api/bookings', err);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { GetFleetParams, GetFleetResponse } from '@/lib/types';
+
+/**
+ * GET /api/fleet
+ * Boats the caller may manage (all boats for admins), possible owners
+ * and upcoming maintenance windows
+ */
+export async function GET(request: Request) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: GetFleetParams = { caller_line_user_id: lineUserId };
+
+    const { data, error } = await supabase.rpc('get_fleet', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as GetFleetResponse);
+  } catch (err) {
+    return handleRouteError('api/fleet', err);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { JoinBookingParams, JoinBookingResponse } from '@/lib/types';
+
+/**
+ * POST /api/invites/:code/join
+ * Caller joins the booking as a passenger – takes a seat and, when the
+ * fare is split evenly, a share of it. Joining twice is a no-op.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const { lineUserId, name } = await authenticateRequest(request);
+    const { code } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: JoinBookingParams = {
+      invite_code: code,
+      caller_line_user_id: lineUserId,
+      caller_name: name ?? null,
+    };
+
+    const { data, error } = await supabase.rpc('join_booking', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as JoinBookingResponse);
+  } catch (err) {
+    return handleRouteError('api/invites/join', err);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { GetBookingInviteParams, GetBookingInviteResponse } from '@/lib/types';
+
+/**
+ * GET /api/invites/:code
+ * Trip behind a join link, shown before the passenger joins
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { code } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: GetBookingInviteParams = {
+      invite_code: code,
+      caller_line_user_id: lineUserId,
+    };
+
+    const { data, error } = await supabase.rpc('get_booking_invite', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as GetBookingInviteResponse);
+  } catch (err) {
+    return handleRouteError('api/invites', err);
+  }
+}
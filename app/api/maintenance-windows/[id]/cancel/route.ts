@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, notConfigured } from '@/lib/server/apiResponse';
+import type { CancelMaintenanceParams, CancelMaintenanceResponse } from '@/lib/types';
+
+/**
+ * POST /api/maintenance-windows/:id/cancel
+ * Removes a maintenance window; a boat it put in maintenance reopens
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { id } = await params;
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: CancelMaintenanceParams = { window_id: id, caller_line_user_id: lineUserId };
+
+    const { data, error } = await supabase.rpc('cancel_maintenance', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as CancelMaintenanceResponse);
+  } catch (err) {
+    return handleRouteError('api/maintenance-windows/cancel', err);
+  }
+}
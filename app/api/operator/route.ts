@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/server/lineAuth';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import type { GetOperatorConsoleParams, GetOperatorConsoleResponse } from '@/lib/types';
+
+// The console shows one day; allow a little more for time zones and lookahead
+const MAX_RANGE_DAYS = 7;
+
+/**
+ * GET /api/operator?start=ISO&end=ISO
+ * The caller's operator profile, their boats in service and
+ * the bookings of those boats overlapping the range
+ */
+export async function GET(request: Request) {
+  try {
+    const { lineUserId } = await authenticateRequest(request);
+    const { searchParams } = new URL(request.url);
+    const start = searchParams.get('start');
+    const end = searchParams.get('end');
+
+    const startMs = start ? new Date(start).getTime() : NaN;
+    const endMs = end ? new Date(end).getTime() : NaN;
+    if (isNaN(startMs) || isNaN(endMs) || endMs <= startMs) {
+      return jsonError('start and end must be ISO dates with end after start', 400);
+    }
+    if (endMs - startMs > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return jsonError(`Range may not exceed ${MAX_RANGE_DAYS} days`, 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const rpcParams: GetOperatorConsoleParams = {
+      caller_line_user_id: lineUserId,
+      range_start: new Date(startMs).toISOString(),
+      range_end: new Date(endMs).toISOString(),
+    };
+
+    const { data, error } = await supabase.rpc('get_operator_console', rpcParams);
+    if (error) throw error;
+
+    return NextResponse.json(data as GetOperatorConsoleResponse);
+  } catch (err) {
+    return handleRouteError('api/operator', err);
+  }
+}
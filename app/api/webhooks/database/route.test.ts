@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/webhooks/database/route';
+import { resetMemoryBackend, type MemoryBackend } from '@/lib/memoryBackend';
+import { createStubMessagingClient, setMessagingClient } from '@/lib/server/lineMessaging';
+
+const SECRET = 'test-webhook-secret';
+
+const deliver = (body: unknown, secret = SECRET) =>
+  POST(new Request('http://localhost/api/webhooks/database', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-webhook-secret': secret },
+    body: JSON.stringify(body),
+  }));
+
+describe('POST /api/webhooks/database', () => {
+  let backend: MemoryBackend;
+
+  // What Supabase sends for a new row in daranee.bookings
+  const bookingInsert = () => ({
+    type: 'INSERT', schema: 'daranee', table: 'bookings',
+    record: backend.db.bookings.find((b) => b.id === 'booking-2'), old_record: null,
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('DATABASE_WEBHOOK_SECRET', SECRET);
+    backend = resetMemoryBackend();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setMessagingClient(null);
+  });
+
+  it('answers 401 without the shared secret', async () => {
+    const stub = createStubMessagingClient();
+    setMessagingClient(stub);
+
+    const res = await deliver(bookingInsert(), 'wrong-secret');
+
+    expect(res.status).toBe(401);
+    expect(stub.sent).toEqual([]);
+  });
+
+  it('pushes the booking to its passenger and operator', async () => {
+    const stub = createStubMessagingClient();
+    setMessagingClient(stub);
+
+    const res = await deliver(bookingInsert());
+
+    expect(await res.json()).toEqual({ success: true });
+    expect(stub.sent.map((message) => message.to).sort()).toEqual(['Udev-operator', 'Udev-passenger']);
+  });
+
+  it('still succeeds when LINE refuses the push', async () => {
+    const pushMessage = vi.fn().mockRejectedValue(new Error('LINE is down'));
+    setMessagingClient({ pushMessage });
+
+    const res = await deliver(bookingInsert());
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ success: true });
+    expect(pushMessage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/server/supabaseAdmin';
+import { hasSharedSecret } from '@/lib/server/sharedSecret';
+import { handleRowChange } from '@/lib/server/notifications';
+import { handleRouteError, jsonError, notConfigured } from '@/lib/server/apiResponse';
+import type { RealtimePayload } from '@/lib/types';
+
+const WEBHOOK_SECRET_HEADER = 'x-webhook-secret';
+
+/**
+ * POST /api/webhooks/database
+ * Supabase Database Webhook for daranee.bookings / daranee.boats
+ * Body: { type, table, schema, record, old_record }
+ */
+export async function POST(request: Request) {
+  try {
+    if (!hasSharedSecret(request, WEBHOOK_SECRET_HEADER, process.env.DATABASE_WEBHOOK_SECRET)) {
+      return jsonError('Invalid webhook secret', 401);
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body?.type || !body.table) {
+      return jsonError('type and table are required', 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return notConfigured();
+
+    const change: RealtimePayload<unknown> = {
+      eventType: body.type,
+      schema: body.schema,
+      table: body.table,
+      new: body.record ?? undefined,
+      old: body.old_record ?? undefined,
+    };
+
+    await handleRowChange(supabase, change);
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return handleRouteError('api/webhooks/database', err);
+  }
+}
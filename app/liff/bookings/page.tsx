@@ -0,0 +1,307 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import useLiff from '@/hooks/useLiff';
+import useMyBookings from '@/hooks/useMyBookings';
+import useBookingChanges from '@/hooks/useBookingChanges';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import useI18n from '@/hooks/useI18n';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import PromptPayPayment from '@/components/PromptPayPayment';
+import ReviewForm from '@/components/ReviewForm';
+import BookingGroupPanel from '@/components/BookingGroupPanel';
+import { BOOKING_STATUS_COLORS, PAYMENT_STATUS_COLORS } from '@/lib/format';
+import { tripPhase } from '@/lib/trips';
+import { ratingStars } from '@/lib/reviews';
+import { describeDataError } from '@/lib/apiClient';
+import type { MessageKey } from '@/lib/i18n';
+import type { Booking, BookingChangeSignal, Review } from '@/lib/types';
+
+type BookingTab = 'upcoming' | 'past' | 'cancelled';
+
+const TABS: { value: BookingTab; label: MessageKey }[] = [
+  { value: 'upcoming', label: 'myBookings.tab.upcoming' },
+  { value: 'past', label: 'myBookings.tab.past' },
+  { value: 'cancelled', label: 'myBookings.tab.cancelled' },
+];
+
+const tabFor = (booking: Booking, now: number): BookingTab => {
+  if (booking.status === 'cancelled') return 'cancelled';
+  if (booking.status === 'completed') return 'past';
+  return new Date(booking.end_time).getTime() >= now ? 'upcoming' : 'past';
+};
+
+const isCancellable = (booking: Booking) =>
+  booking.status === 'pending' || booking.status === 'confirmed';
+
+export default function MyBookingsPage() {
+  const { liffReady, lineUserId } = useLiff();
+  const {
+    bookings, boatsById, reviewsByBookingId, loading, error, setBookings, setReviewsByBookingId, refetch,
+  } = useMyBookings(lineUserId);
+  const { cancelBooking } = useBoatOperations();
+  const { t, fmt } = useI18n();
+  const [tab, setTab] = useState<BookingTab>('upcoming');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [reviewedId, setReviewedId] = useState<string | null>(null);
+  const [now] = useState(() => Date.now());
+
+  // Own and joined bookings in a ref so the handler keeps its identity
+  const bookingIdsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    bookingIdsRef.current = new Set(bookings.map((b) => b.id));
+  }, [bookings]);
+
+  // ✅ A listed booking changed → reload through the API (the signal has ids only)
+  const handleBookingChange = useCallback((signal: BookingChangeSignal) => {
+    if (!bookingIdsRef.current.has(signal.id)) return;
+    refetch();
+  }, [refetch]);
+
+  useBookingChanges(handleBookingChange, Boolean(lineUserId), refetch);
+
+  const handleCancel = async (booking: Booking) => {
+    if (!lineUserId) return;
+    if (!window.confirm(t('myBookings.confirmCancel'))) return;
+
+    setCancelling(true);
+    setActionError(null);
+
+    const result = await cancelBooking({
+      booking_id: booking.id,
+    });
+
+    setCancelling(false);
+
+    if (!result.ok) {
+      setActionError(describeDataError(result.error, t, t('myBookings.cancelFailed')));
+      return;
+    }
+
+    setBookings((current) =>
+      current.map((b) => (b.id === booking.id ? { ...b, status: 'cancelled' } : b))
+    );
+  };
+
+  const handleReviewed = (review: Review) => {
+    setReviewsByBookingId((current) => ({ ...current, [review.booking_id]: review }));
+    setReviewedId(review.booking_id);
+  };
+
+  const visible = bookings
+    .filter((b) => tabFor(b, now) === tab)
+    .sort((a, b) =>
+      tab === 'upcoming'
+        ? a.start_time.localeCompare(b.start_time)
+        : b.start_time.localeCompare(a.start_time)
+    );
+
+  const selected = bookings.find((b) => b.id === selectedId) || null;
+  // Joined passengers see the trip and their share; the rest stays with the organizer
+  const isOwn = selected?.line_user_id === lineUserId;
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#f5f6f8' }}>
+      <header style={{
+        padding: '12px 16px',
+        background: '#fff',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        borderBottom: '1px solid #eee',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 12
+      }}>
+        <Link href="/liff" style={{ color: '#007aff', textDecoration: 'none', fontSize: 20 }} aria-label={t('common.back')}>
+          ‹
+        </Link>
+        <div style={{ fontWeight: 700, fontSize: 16 }}>{t('myBookings.title')}</div>
+        <div style={{ marginLeft: 'auto' }}>
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      <nav style={{ display: 'flex', background: '#fff', borderBottom: '1px solid #eee' }}>
+        {TABS.map((tabOption) => (
+          <button
+            key={tabOption.value}
+            onClick={() => setTab(tabOption.value)}
+            style={{
+              flex: 1, padding: '10px 0', border: 'none', background: 'transparent', fontSize: 13,
+              fontWeight: tab === tabOption.value ? 700 : 400,
+              color: tab === tabOption.value ? '#007aff' : '#666',
+              borderBottom: tab === tabOption.value ? '2px solid #007aff' : '2px solid transparent',
+              cursor: 'pointer'
+            }}
+          >
+            {t(tabOption.label)} ({bookings.filter((b) => tabFor(b, now) === tabOption.value).length})
+          </button>
+        ))}
+      </nav>
+
+      {!liffReady ? (
+        <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666' }}>{t('common.connectingLine')}</div>
+      ) : !lineUserId ? (
+        <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666' }}>
+          {t('myBookings.loginRequired')}
+        </div>
+      ) : loading && bookings.length === 0 ? (
+        <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666' }}>{t('common.loading')}</div>
+      ) : error ? (
+        <div style={{ padding: '48px 16px', textAlign: 'center', color: '#e74c3c' }}>{t('common.loadFailedDetail', { detail: describeDataError(error, t) })}</div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {visible.length === 0 && (
+            <li style={{ padding: '48px 16px', textAlign: 'center', color: '#999' }}>{t('myBookings.empty')}</li>
+          )}
+          {visible.map((booking) => {
+            const boat = boatsById[booking.boat_id];
+            return (
+              <li
+                key={booking.id}
+                onClick={() => setSelectedId(booking.id)}
+                style={{
+                  margin: '12px 16px', padding: '12px 16px', background: '#fff',
+                  borderRadius: 12, boxShadow: '0 2px 8px rgba(0,0,0,0.08)', cursor: 'pointer'
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <span style={{ fontWeight: 600, fontSize: 14 }}>
+                    {boat?.name || t('myBookings.boat')}
+                    {booking.line_user_id !== lineUserId && (
+                      <span style={{ fontSize: 11, fontWeight: 400, color: '#2ecc71' }}> · 👥 {t('group.joinedTag')}</span>
+                    )}
+                  </span>
+                  <span style={{ fontSize: 12, fontWeight: 600, color: BOOKING_STATUS_COLORS[booking.status] }}>{fmt.bookingStatus(booking.status)}</span>
+                </div>
+                <div style={{ fontSize: 12, color: '#666', marginTop: 4 }}>
+                  {fmt.dateTime(booking.start_time)} – {fmt.dateTime(booking.end_time)}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {selected && (
+        <div
+          onClick={() => setSelectedId(null)}
+          style={{
+            position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.4)', zIndex: 1000,
+            display: 'flex', alignItems: 'flex-end'
+          }}
+        >
+          <div
+            onClick={(e) => e.stopPropagation()}
+            style={{
+              width: '100%', background: '#fff', borderRadius: '16px 16px 0 0',
+              padding: 16, fontSize: 14, lineHeight: 1.8
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <div style={{ fontWeight: 700, fontSize: 16 }}>{boatsById[selected.boat_id]?.name || t('myBookings.details')}</div>
+              <button
+                onClick={() => setSelectedId(null)}
+                aria-label={t('common.close')}
+                style={{ border: 'none', background: 'transparent', fontSize: 20, cursor: 'pointer', color: '#999' }}
+              >
+                ×
+              </button>
+            </div>
+            <div>{t('booking.bookingId')}: <span style={{ fontFamily: 'monospace', fontSize: 12 }}>{selected.id}</span></div>
+            <div>
+              {t('myBookings.status')}:{' '}
+              <span style={{ fontWeight: 600, color: BOOKING_STATUS_COLORS[selected.status] }}>
+                {fmt.bookingStatus(selected.status)}
+              </span>
+            </div>
+            {boatsById[selected.boat_id] && (
+              <div>
+                {t('myBookings.boatType')}: {fmt.boatType(boatsById[selected.boat_id].boat_type)} · {fmt.people(boatsById[selected.boat_id].capacity)}
+              </div>
+            )}
+            <div>{t('myBookings.start')}: {fmt.dateTime(selected.start_time)}</div>
+            <div>{t('myBookings.end')}: {fmt.dateTime(selected.end_time)}</div>
+            {selected.total_price != null && <div>{t('booking.totalPrice')}: {fmt.currency(selected.total_price, 2)}</div>}
+            {selected.status !== 'cancelled' && (
+              <div>
+                {t('payment.status')}:{' '}
+                <span style={{ fontWeight: 600, color: PAYMENT_STATUS_COLORS[selected.payment_status] }}>
+                  {fmt.paymentStatus(selected.payment_status)}
+                </span>
+              </div>
+            )}
+            <div style={{ fontSize: 12, color: '#999' }}>{t('myBookings.bookedAt', { time: fmt.dateTime(selected.created_at) })}</div>
+
+            {lineUserId && (
+              <BookingGroupPanel
+                key={selected.id}
+                booking={selected}
+                boat={boatsById[selected.boat_id]}
+                lineUserId={lineUserId}
+                now={now}
+              />
+            )}
+
+            {isOwn && selected.status === 'confirmed' && tripPhase(selected, now) !== 'ended' && (
+              <Link
+                href={`/liff/trips/${encodeURIComponent(selected.id)}`}
+                style={{
+                  display: 'block', marginTop: 12, padding: '10px', borderRadius: 8, textAlign: 'center',
+                  background: '#007aff', color: '#fff', fontWeight: 600, textDecoration: 'none'
+                }}
+              >
+                {t('trip.open')}
+              </Link>
+            )}
+
+            {isOwn && selected.status === 'completed' && (
+              reviewsByBookingId[selected.id] ? (
+                <div style={{ marginTop: 12, padding: 12, borderRadius: 8, background: '#f8f9fa' }}>
+                  <div style={{ fontWeight: 600 }}>
+                    {reviewedId === selected.id ? t('review.thanks') : t('review.yours')}
+                  </div>
+                  <div style={{ color: '#f39c12', letterSpacing: 1 }}>{ratingStars(reviewsByBookingId[selected.id].rating)}</div>
+                  {reviewsByBookingId[selected.id].comment && (
+                    <div style={{ fontSize: 13, color: '#444' }}>{reviewsByBookingId[selected.id].comment}</div>
+                  )}
+                </div>
+              ) : (
+                <ReviewForm
+                  key={selected.id}
+                  bookingId={selected.id}
+                  boatId={selected.boat_id}
+                  onSubmitted={handleReviewed}
+                />
+              )
+            )}
+
+            {isOwn && isCancellable(selected) && selected.payment_status === 'unpaid' && (
+              <PromptPayPayment bookingId={selected.id} />
+            )}
+
+            {actionError && (
+              <div style={{ fontSize: 13, color: '#e74c3c', marginTop: 8 }}>{actionError}</div>
+            )}
+
+            {isOwn && isCancellable(selected) && (
+              <button
+                onClick={() => handleCancel(selected)}
+                disabled={cancelling}
+                style={{
+                  marginTop: 12, width: '100%', padding: '10px', borderRadius: 8,
+                  border: '1px solid #e74c3c', background: '#fff', color: '#e74c3c',
+                  fontWeight: 600, cursor: cancelling ? 'wait' : 'pointer'
+                }}
+              >
+                {cancelling ? t('myBookings.cancelling') : t('myBookings.cancel')}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
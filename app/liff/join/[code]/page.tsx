@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import useLiff from '@/hooks/useLiff';
+import useBookingInvite from '@/hooks/useBookingInvite';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import useI18n from '@/hooks/useI18n';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import { BOOKING_STATUS_COLORS } from '@/lib/format';
+import { seatsLeft } from '@/lib/groupBookings';
+import { describeDataError } from '@/lib/apiClient';
+
+/**
+ * /liff/join/:code – opened from a group booking invite
+ * Shows the trip, then adds the passenger to it
+ */
+export default function JoinBookingPage() {
+  const { code } = useParams<{ code: string }>();
+  const { liffReady, lineUserId } = useLiff();
+  const { t, fmt } = useI18n();
+  const { invite, loading, error } = useBookingInvite(code ?? null, lineUserId);
+  const { joinBooking } = useBoatOperations();
+  const [joining, setJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [joinedShare, setJoinedShare] = useState<number | null>(null);
+
+  const handleJoin = async () => {
+    if (!code) return;
+
+    setJoining(true);
+    setJoinError(null);
+
+    const result = await joinBooking(code);
+
+    setJoining(false);
+
+    if (!result.ok) {
+      setJoinError(describeDataError(result.error, t, t('group.joinFailed')));
+      return;
+    }
+
+    setJoinedShare(result.data.share_amount ?? 0);
+  };
+
+  const joined = joinedShare !== null || !!invite?.is_member;
+  const free = invite ? seatsLeft(invite.capacity ?? 0, invite.member_count ?? 0) : 0;
+  const joinable = !!invite && (invite.status === 'pending' || invite.status === 'confirmed') && free > 0;
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#f5f6f8' }}>
+      <header style={{
+        padding: '12px 16px',
+        background: '#fff',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        borderBottom: '1px solid #eee',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 12
+      }}>
+        <Link href="/liff" style={{ color: '#007aff', textDecoration: 'none', fontSize: 20 }} aria-label={t('common.back')}>
+          ‹
+        </Link>
+        <div style={{ fontWeight: 700, fontSize: 16 }}>{t('group.joinTitle')}</div>
+        <div style={{ marginLeft: 'auto' }}>
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      {!liffReady ? (
+        <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666' }}>{t('common.connectingLine')}</div>
+      ) : !lineUserId ? (
+        <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666' }}>{t('group.loginRequired')}</div>
+      ) : loading && !invite ? (
+        <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666' }}>{t('common.loading')}</div>
+      ) : error ? (
+        <div style={{ padding: '48px 16px', textAlign: 'center', color: '#e74c3c' }}>
+          {error.kind === 'not_found' ? t('group.inviteNotFound') : t('common.loadFailedDetail', { detail: describeDataError(error, t) })}
+        </div>
+      ) : invite && (
+        <div style={{
+          margin: 16, padding: 16, background: '#fff', borderRadius: 12,
+          boxShadow: '0 2px 8px rgba(0,0,0,0.08)', fontSize: 14, lineHeight: 1.8
+        }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>
+            {t('group.invitedBy', { name: invite.organizer_name || t('group.organizer') })}
+          </div>
+          <div>🚤 {invite.boat_name}{invite.boat_type && ` · ${fmt.boatType(invite.boat_type)}`}</div>
+          {invite.start_time && invite.end_time && (
+            <div>{t('group.when')}: {fmt.dateTime(invite.start_time)} – {fmt.time(invite.end_time)}</div>
+          )}
+          {invite.status && (
+            <div>
+              {t('myBookings.status')}:{' '}
+              <span style={{ fontWeight: 600, color: BOOKING_STATUS_COLORS[invite.status] }}>{fmt.bookingStatus(invite.status)}</span>
+            </div>
+          )}
+          <div>{t('group.seats', { count: invite.member_count ?? 0, capacity: invite.capacity ?? 0 })}</div>
+
+          {joined ? (
+            <>
+              <div style={{ marginTop: 12, padding: 12, borderRadius: 8, background: '#eafaf1', color: '#1e8449', fontWeight: 600 }}>
+                ✅ {t('group.joined')}
+                {joinedShare !== null && (
+                  <div style={{ fontWeight: 400, fontSize: 13 }}>
+                    {t('group.yourShare')}: {fmt.currency(joinedShare, 2)}
+                  </div>
+                )}
+              </div>
+              <Link
+                href="/liff/bookings"
+                style={{
+                  display: 'block', marginTop: 12, padding: '10px', borderRadius: 8, textAlign: 'center',
+                  background: '#007aff', color: '#fff', fontWeight: 600, textDecoration: 'none'
+                }}
+              >
+                {t('finder.myBookings')}
+              </Link>
+            </>
+          ) : (
+            <>
+              {joinError && <div style={{ fontSize: 13, color: '#e74c3c', marginTop: 8 }}>{joinError}</div>}
+              <button
+                onClick={handleJoin}
+                disabled={joining || !joinable}
+                style={{
+                  marginTop: 12, width: '100%', padding: '10px', borderRadius: 8, border: 'none',
+                  background: joinable ? '#2ecc71' : '#bbb', color: '#fff', fontWeight: 600,
+                  cursor: joining ? 'wait' : joinable ? 'pointer' : 'not-allowed'
+                }}
+              >
+                {joining ? t('group.joining') : !joinable && free === 0 ? t('group.full') : joinable ? t('group.join') : t('group.closed')}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
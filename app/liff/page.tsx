@@ -1,37 +1,88 @@
 "use client";
 
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import useNearbyBoats from '@/hooks/useNearbyBoats';
 import useRealtimeBoats from '@/hooks/useRealtimeBoats';
-import type { NearbyBoat, RealtimePayload, Boat, MapCenter } from '@/lib/types';
+import useBoatPositions from '@/hooks/useBoatPositions';
+import useLiff from '@/hooks/useLiff';
+import useGeolocation from '@/hooks/useGeolocation';
+import useWaterwayGraph from '@/hooks/useWaterwayGraph';
+import usePiers from '@/hooks/usePiers';
+import useBoatDirectory from '@/hooks/useBoatDirectory';
+import useShareBoat from '@/hooks/useShareBoat';
+import useSharedBoatLink from '@/hooks/useSharedBoatLink';
+import useI18n from '@/hooks/useI18n';
+import useBookingQueue, { type QueuedBookingOutcome } from '@/hooks/useBookingQueue';
+import BookingSheet from '@/components/BookingSheet';
+import BoatFilterPanel from '@/components/BoatFilterPanel';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import RealtimeBadge from '@/components/RealtimeBadge';
+import SearchBox from '@/components/SearchBox';
+import { DEFAULT_BOAT_FILTERS } from '@/lib/boatFilters';
+import { BOAT_STATUS_COLORS } from '@/lib/format';
+import { worstStatus } from '@/lib/realtime';
+import { describeDataError, rpcRequest, toDataError } from '@/lib/apiClient';
+import { array, nearbyBoatSchema } from '@/lib/schema';
+import { canDock, nearestPier, pierName, pierPosition, piersByDistance } from '@/lib/piers';
+import type { SearchSuggestion } from '@/lib/search';
+import type { MessageKey, MessageVars } from '@/lib/i18n';
+import { createWaterRouter, estimateTravelMinutes } from '@/lib/waterways';
+import type { NearbyBoat, RealtimePayload, Boat, MapCenter, MapBounds, BoatSearchFilters, Pier, SearchPlace, GetBoatLocationParams } from '@/lib/types';
 
 // dynamic import to avoid SSR issues with Leaflet
 const LeafletMap = dynamic(() => import('@/components/LeafletMap'), { ssr: false });
 
-declare global {
-  interface Window {
-    liff: any;
-  }
-}
+const DEV_POSITION: MapCenter = { lat: 13.7563, lon: 100.5018 };
 
 export default function LiffPage() {
-  const [liffReady, setLiffReady] = useState(false);
-  const [lineUserId, setLineUserId] = useState<string | null>(null);
-  const [position, setPosition] = useState<MapCenter | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const { liffReady, lineUserId, devMode } = useLiff();
+  const { locale, t, fmt } = useI18n();
+  const { position: gpsPosition } = useGeolocation(liffReady);
+  // ✅ Use mock location for dev (Bangkok) until GPS reports a fix
+  const position = gpsPosition ?? (devMode ? DEV_POSITION : null);
   const [selectedBoat, setSelectedBoat] = useState<NearbyBoat | null>(null);
   const [isClient, setIsClient] = useState(false);
+  const [bookingBoat, setBookingBoat] = useState<NearbyBoat | null>(null);
+  const [pickup, setPickup] = useState<MapCenter | null>(null);
+  const [pickingPickup, setPickingPickup] = useState(false);
+  // Set when the pickup is a named pier rather than a dropped pin
+  const [pickupPierId, setPickupPierId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<BoatSearchFilters>(DEFAULT_BOAT_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  // Visible map area – boats are queried for what's on screen
+  const [mapBounds, setMapBounds] = useState<MapBounds | null>(null);
+  // Off while showing a boat opened from a shared link, so GPS fixes don't pan away
+  const [followPosition, setFollowPosition] = useState(true);
+  // Place chosen in the search box – boats are looked up around it instead of GPS
+  const [searchPlace, setSearchPlace] = useState<SearchPlace | null>(null);
+  const searchCenter = searchPlace ?? position;
+  const [searchQuery, setSearchQuery] = useState('');
+  const [notice, setNotice] = useState<{ key: MessageKey; vars?: MessageVars } | null>(null);
+  const { shareBoat, sharing } = useShareBoat();
 
   // Use new hook with object syntax
-  const { boats, loading, error: boatsError, setBoats, refetch } = useNearbyBoats({
-    lat: position?.lat ?? null,
-    lon: position?.lon ?? null,
-    radius_km: 5,
-    status: null, // Show all boats
+  const { boats, loading, error: boatsError, cachedAt, setBoats, refetch, applyPositionUpdate } = useNearbyBoats({
+    lat: searchCenter?.lat ?? null,
+    lon: searchCenter?.lon ?? null,
+    radius_km: filters.radius_km,
+    status: filters.available_only ? 'available' : null,
+    boat_types: filters.boat_types,
+    min_capacity: filters.min_capacity,
+    min_price: filters.min_price,
+    max_price: filters.max_price,
+    sort_by: filters.sort_by,
+    bounds: mapBounds,
     autoFetch: true,
   });
 
+  // Latest list for the realtime handler, which must keep a stable identity
+  const boatsRef = useRef(boats);
+  useEffect(() => {
+    boatsRef.current = boats;
+  });
+
   // Handle realtime boat updates with proper typing
   const handleRealtime = useCallback((payload: RealtimePayload<Boat>) => {
     console.log('[LIFF] Realtime update:', payload);
@@ -40,8 +91,8 @@ export default function LiffPage() {
 
     if (!newRow && !oldRow) return;
 
-    // ✅ แนะนำ: ไม่ update พิกัด (0,0) โดยตรง → trigger refetch แทน
-    // เพราะ realtime payload ไม่มี lat/lon จาก PostGIS geography
+    // ✅ realtime payload ไม่มี lat/lon จาก PostGIS geography
+    // → พิกัดมาจาก channel daranee:boat_positions แทน (useBoatPositions)
     if (eventType === 'DELETE') {
       // ลบเรือออกจาก list ทันที
       const id = oldRow?.id || newRow?.id;
@@ -49,10 +100,37 @@ export default function LiffPage() {
         setBoats((current) => current.filter((b) => b.id !== id));
         console.log(`[LIFF] Boat ${id} deleted`);
       }
-    } else if (eventType === 'INSERT' || eventType === 'UPDATE') {
-      // สำหรับ INSERT/UPDATE → refetch เพื่อให้ได้พิกัดที่ถูกต้อง
-      console.log(`[LIFF] Boat ${eventType} detected - refetching nearby boats...`);
-      
+    } else if (eventType === 'UPDATE' && newRow) {
+      // Filters and sort live in the query: a change they depend on reloads the list
+      if (boatsRef.current.some((b) => b.id === newRow.id && (
+        (newRow.status !== undefined && newRow.status !== b.status) ||
+        (newRow.boat_type !== undefined && newRow.boat_type !== b.boat_type) ||
+        (newRow.capacity !== undefined && newRow.capacity !== b.capacity) ||
+        (newRow.price_per_hour !== undefined && newRow.price_per_hour !== b.price_per_hour)
+      ))) {
+        refetch();
+      }
+
+      // Merge non-location fields (status, price, ...) in place
+      setBoats((current) =>
+        current.map((b) =>
+          b.id === newRow.id
+            ? {
+                ...b,
+                name: newRow.name ?? b.name,
+                status: newRow.status ?? b.status,
+                boat_type: newRow.boat_type ?? b.boat_type,
+                capacity: newRow.capacity ?? b.capacity,
+                price_per_hour: newRow.price_per_hour !== undefined ? newRow.price_per_hour : b.price_per_hour,
+                updated_at: newRow.updated_at ?? b.updated_at,
+              }
+            : b
+        )
+      );
+    } else if (eventType === 'INSERT') {
+      // เรือใหม่ → ยังไม่รู้พิกัด ต้อง refetch
+      console.log('[LIFF] Boat INSERT detected - refetching nearby boats...');
+
       // Debounce refetch เล็กน้อยเพื่อไม่ให้ยิงถี่เกิน
       setTimeout(() => {
         refetch();
@@ -60,166 +138,187 @@ export default function LiffPage() {
     }
   }, [setBoats, refetch]);
 
-  useRealtimeBoats(handleRealtime);
+  // ✅ After a reconnect / coming back from the background → reload the list in full
+  const boatsStatus = useRealtimeBoats(handleRealtime, refetch);
+  const positionsStatus = useBoatPositions(applyPositionUpdate);
+  const realtimeStatus = worstStatus(boatsStatus, positionsStatus);
 
-  // Set client flag
-  useEffect(() => {
-    setIsClient(true);
-  }, []);
+  // ✅ Piers: map layer, named pickups and "near <pier>" in the list
+  const { piers } = usePiers();
+  const { boats: boatDirectory } = useBoatDirectory();
 
-  // Initialize LIFF
-  useEffect(() => {
-    if (!isClient) return;
-    
-    const scriptId = 'liff-sdk';
-    
-    // ✅ Dev mode fallback: ถ้าไม่มี LIFF_ID หรือเปิดนอก LINE app
-    const LIFF_ID = process.env.NEXT_PUBLIC_LIFF_ID || '';
-    
-    if (!LIFF_ID || LIFF_ID === 'your_liff_id') {
-      console.warn('[LIFF] LIFF_ID missing or not configured – running in DEV mode');
-      setLiffReady(true);
-      setError('⚠️ Dev Mode: ไม่ได้เชื่อมต่อกับ LINE (ใช้สำหรับทดสอบเท่านั้น)');
-      
-      // Use mock location for dev (Bangkok)
-      setPosition({ lat: 13.7563, lon: 100.5018 });
-      return;
-    }
-    
-    if (!document.getElementById(scriptId)) {
-      const script = document.createElement('script');
-      script.id = scriptId;
-      script.src = 'https://static.line-scdn.net/liff/edge/2/sdk.js';
-      script.async = true;
-      script.onload = () => initLiff();
-      document.head.appendChild(script);
-    } else {
-      initLiff();
+  const nearestPierByBoat = useMemo(() => {
+    const result: Record<string, Pier> = {};
+    for (const boat of boats) {
+      const nearest = nearestPier(piers, { lat: boat.latitude, lon: boat.longitude }, boat.boat_type);
+      if (nearest) result[boat.id] = nearest.pier;
     }
+    return result;
+  }, [piers, boats]);
 
-    function initLiff() {
-      if (!window.liff) {
-        setError('LIFF SDK ไม่สามารถโหลดได้');
-        return;
-      }
+  // Piers the boat being booked can dock at, closest to the passenger first
+  const pickupPiers = useMemo(() => {
+    const origin = position ?? (bookingBoat ? { lat: bookingBoat.latitude, lon: bookingBoat.longitude } : null);
+    return bookingBoat && origin ? piersByDistance(piers, origin, bookingBoat.boat_type) : [];
+  }, [piers, position, bookingBoat]);
 
-      window.liff
-        .init({ liffId: LIFF_ID })
-        .then(() => {
-          console.log('[LIFF] Initialized successfully');
-          
-          // ✅ Check if running inside LINE app
-          if (!window.liff.isInClient()) {
-            console.warn('[LIFF] Not running in LINE app');
-            setError('⚠️ กรุณาเปิดใน LINE app เพื่อใช้งานเต็มรูปแบบ');
-            // Still allow usage for testing
-            setLiffReady(true);
-            return;
-          }
-          
-          setLiffReady(true);
-
-          // Get user profile
-          if (window.liff.isLoggedIn()) {
-            window.liff
-              .getProfile()
-              .then((profile: any) => {
-                if (profile && profile.userId) {
-                  setLineUserId(profile.userId);
-                  localStorage.setItem('lineUserId', profile.userId);
-                  console.log('[LIFF] User logged in:', profile.userId);
-                }
-              })
-              .catch((err: any) => {
-                console.error('[LIFF] Failed to get profile:', err);
-              });
-          }
-        })
-        .catch((err: any) => {
-          console.error('[LIFF] Init failed:', err);
-          setError('LIFF เริ่มต้นไม่สำเร็จ: ' + String(err));
-          
-          // ✅ Fallback: ให้ใช้งานได้แม้ LIFF fail (dev-friendly)
-          setLiffReady(true);
-        });
+  // ✅ Routes follow the waterway network (straight-line distance cuts across land)
+  const { graph: waterways } = useWaterwayGraph();
+  const routeTarget = pickup ?? position;
+  const routeTo = useMemo(
+    () => (waterways && routeTarget ? createWaterRouter(waterways, routeTarget) : null),
+    [waterways, routeTarget]
+  );
+
+  const etaByBoat = useMemo(() => {
+    const result: Record<string, number> = {};
+    if (!routeTo) return result;
+    for (const boat of boats) {
+      const route = routeTo({ lat: boat.latitude, lon: boat.longitude });
+      if (route) result[boat.id] = estimateTravelMinutes(route.distance_m, boat.boat_type);
     }
+    return result;
+  }, [routeTo, boats]);
+
+  // Use the live row so the route follows the boat as it moves
+  const liveSelectedBoat = selectedBoat ? boats.find((b) => b.id === selectedBoat.id) ?? selectedBoat : null;
+  const selectedRoute = useMemo(
+    () => (routeTo && liveSelectedBoat
+      ? routeTo({ lat: liveSelectedBoat.latitude, lon: liveSelectedBoat.longitude })
+      : null),
+    [routeTo, liveSelectedBoat]
+  );
+
+  // ✅ The selected boat stays on the map even when the query no longer returns it
+  const mapBoats = useMemo(
+    () => (selectedBoat && !boats.some((b) => b.id === selectedBoat.id) ? [...boats, selectedBoat] : boats),
+    [boats, selectedBoat]
+  );
+
+  const showNotice = useCallback((key: MessageKey, vars?: MessageVars, durationMs = 3000) => {
+    const next = { key, vars };
+    setNotice(next);
+    setTimeout(() => setNotice((current) => (current === next ? null : current)), durationMs);
   }, []);
 
-  // Watch user location with debounce to prevent excessive API calls
-  useEffect(() => {
-    if (!liffReady) return;
+  // Bookings made without signal are sent once the connection is back
+  // A repriced booking waits in the list below until the passenger decides
+  const handleQueuedBooking = useCallback((outcome: QueuedBookingOutcome) => {
+    const vars = { name: outcome.entry.boat_name };
+    if (outcome.status === 'sent') showNotice('offline.queuedSent', vars, 8000);
+    else if (outcome.status === 'expired') showNotice('offline.queuedExpired', vars, 8000);
+    else if (outcome.status === 'failed') {
+      showNotice('offline.queuedFailed', { ...vars, reason: describeDataError(outcome.error, t) }, 8000);
+    }
+  }, [showNotice, t]);
+  const {
+    queued: queuedBookings,
+    confirmPrice: confirmQueuedPrice,
+    discard: discardQueuedBooking,
+  } = useBookingQueue(lineUserId, handleQueuedBooking);
 
-    if (!('geolocation' in navigator)) {
-      setError('เบราว์เซอร์ไม่รองรับ Geolocation');
+  // Opened from a shared card (/liff?boat=<id>) → select it and center the map on it
+  const handleSharedBoat = useCallback((boat: NearbyBoat | null) => {
+    if (!boat) {
+      showNotice('finder.sharedBoatNotFound');
       return;
     }
+    setFollowPosition(false);
+    setSelectedBoat(boat);
+  }, [showNotice]);
 
-    let lastPosition: MapCenter | null = null;
+  useSharedBoatLink(liffReady, position, handleSharedBoat);
 
-    // Helper function to calculate distance between two points (Haversine formula)
-    const calculateDistance = (pos1: MapCenter, pos2: MapCenter): number => {
-      const R = 6371000; // Earth's radius in meters
-      const lat1 = pos1.lat * Math.PI / 180;
-      const lat2 = pos2.lat * Math.PI / 180;
-      const deltaLat = (pos2.lat - pos1.lat) * Math.PI / 180;
-      const deltaLon = (pos2.lon - pos1.lon) * Math.PI / 180;
+  // ✅ Search: a place moves the search there, a boat is loaded wherever it is
+  const handleSearchSelect = useCallback((suggestion: SearchSuggestion) => {
+    console.log('[LIFF] Search selected:', suggestion.kind, suggestion.id);
 
-      const a = Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-                Math.cos(lat1) * Math.cos(lat2) *
-                Math.sin(deltaLon / 2) * Math.sin(deltaLon / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    if (suggestion.kind !== 'boat') {
+      setSearchPlace({ ...suggestion.position, label: suggestion.label });
+      setSelectedBoat(null);
+      return;
+    }
 
-      return R * c; // Distance in meters
+    const rpcParams: GetBoatLocationParams = {
+      boat_id: suggestion.id,
+      ref_lat: searchCenter?.lat ?? null,
+      ref_lon: searchCenter?.lon ?? null,
     };
-
-    const watchId = navigator.geolocation.watchPosition(
-      (pos) => {
-        const newPosition: MapCenter = {
-          lat: pos.coords.latitude,
-          lon: pos.coords.longitude,
-        };
-
-        // ✅ Debounce: อัปเดตเฉพาะเมื่อขยับมากกว่า 50 เมตร
-        // ป้องกัน watchPosition ยิงทุก 2-5 วิ → battery drain + API quota
-        if (!lastPosition) {
-          // First position - always update
-          setPosition(newPosition);
-          lastPosition = newPosition;
-          console.log('[LIFF] Initial position set');
-        } else {
-          const distance = calculateDistance(lastPosition, newPosition);
-          
-          // Update only if moved more than 50 meters
-          if (distance > 50) {
-            setPosition(newPosition);
-            lastPosition = newPosition;
-            console.log(`[LIFF] Position updated (moved ${distance.toFixed(0)}m)`);
-          } else {
-            console.log(`[LIFF] Position change ignored (only ${distance.toFixed(0)}m)`);
-          }
+    rpcRequest('get_boat_location', rpcParams, array(nearbyBoatSchema))
+      .then((rows) => {
+        if (!rows[0]) {
+          showNotice('search.boatNotFound', { name: suggestion.label });
+          return;
         }
-      },
-      (err) => {
-        console.error('[LIFF] Geolocation error:', err);
-        setError('ไม่สามารถเข้าถึงตำแหน่งได้: ' + err.message);
-      },
-      {
-        enableHighAccuracy: true,
-        maximumAge: 5000,
-        timeout: 10000,
-      }
-    );
+        setFollowPosition(false);
+        setSelectedBoat(rows[0]);
+      })
+      .then(undefined, (err: unknown) => {
+        console.error('[LIFF] Search boat error:', err);
+        showNotice('search.boatLoadFailed', { reason: describeDataError(toDataError(err), t) });
+      });
+  }, [searchCenter, showNotice, t]);
 
-    return () => {
-      navigator.geolocation.clearWatch(watchId);
-    };
-  }, [liffReady, isClient]);
+  // Back to boats around the passenger
+  const handleSearchClear = useCallback(() => {
+    setSearchPlace(null);
+    setSearchQuery('');
+    setFollowPosition(true);
+  }, []);
+
+  const handleShareClick = useCallback(async (boat: NearbyBoat) => {
+    const result = await shareBoat(boat);
+    if (result === 'shared') showNotice('finder.shared');
+    else if (result === 'copied') showNotice('finder.linkCopied');
+    else if (result === 'failed') showNotice('finder.shareFailed');
+  }, [shareBoat, showNotice]);
+
+  // Set client flag
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
 
   const handleBoatClick = useCallback((boat: NearbyBoat) => {
     setSelectedBoat(boat);
     console.log('[LIFF] Boat selected:', boat);
   }, []);
 
+  const handleBookClick = useCallback((boat: NearbyBoat) => {
+    setSelectedBoat(boat);
+    setBookingBoat(boat);
+    setPickingPickup(false);
+    // A pier chosen for another boat may not take this one
+    const pier = piers.find((p) => p.id === pickupPierId);
+    if (pickupPierId && (!pier || !canDock(pier, boat.boat_type))) {
+      setPickup(null);
+      setPickupPierId(null);
+    }
+  }, [piers, pickupPierId]);
+
+  const handleMapClick = useCallback((point: MapCenter) => {
+    if (!pickingPickup) return;
+    setPickup(point);
+    setPickupPierId(null);
+    setPickingPickup(false);
+    console.log('[LIFF] Pickup point set:', point);
+  }, [pickingPickup]);
+
+  // Pier chosen from the map popup or the booking sheet (null = back to the pin / GPS)
+  const handleSelectPier = useCallback((pier: Pier | null) => {
+    if (pier && bookingBoat && !canDock(pier, bookingBoat.boat_type)) return;
+    setPickup(pier ? pierPosition(pier) : null);
+    setPickupPierId(pier?.id ?? null);
+    setPickingPickup(false);
+    console.log('[LIFF] Pickup pier set:', pier?.id ?? null);
+  }, [bookingBoat]);
+
+  const handleCloseBooking = useCallback(() => {
+    setBookingBoat(null);
+    setPickingPickup(false);
+    setPickup(null);
+    setPickupPierId(null);
+  }, []);
+
   return (
     <div style={{ width: '100%', height: '100vh', display: 'flex', flexDirection: 'column' }}>
       {/* Header */}
@@ -236,7 +335,7 @@ export default function LiffPage() {
               <path d="M3 18h18M3 18l3-9h12l3 9M6 18v-2M18 18v-2M12 9V3M8 5h8"/>
             </svg>
             <div>
-              <div style={{ fontWeight: 700, fontSize: 16 }}>ดารณี - Boat Finder</div>
+              <div style={{ fontWeight: 700, fontSize: 16 }}>{t('finder.title')}</div>
               <div style={{ fontSize: 11, color: '#999', display: 'flex', alignItems: 'center', gap: '4px' }}>
                 {lineUserId ? (
                   <>
@@ -250,12 +349,23 @@ export default function LiffPage() {
                     <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                       <circle cx="12" cy="12" r="3"/><path d="M12 1v6m0 6v6M5.64 5.64l4.24 4.24m4.24 4.24l4.24 4.24M1 12h6m6 0h6M5.64 18.36l4.24-4.24m4.24-4.24l4.24-4.24"/>
                     </svg>
-                    {isClient && typeof window !== 'undefined' && !window.liff?.isInClient?.() && 'Dev Mode'}
+                    {isClient && typeof window !== 'undefined' && !window.liff?.isInClient?.() && t('finder.devMode')}
                   </>
                 )}
               </div>
             </div>
           </div>
+          {lineUserId && (
+            <Link
+              href="/liff/bookings"
+              style={{ fontSize: 12, color: '#007aff', textDecoration: 'none', fontWeight: 600, marginLeft: 'auto', marginRight: 12 }}
+            >
+              {t('finder.myBookings')}
+            </Link>
+          )}
+          <div style={{ marginRight: 12 }}>
+            <LanguageSwitcher />
+          </div>
           {position && (
             <div style={{ fontSize: 11, color: '#666', textAlign: 'right', display: 'flex', alignItems: 'center', gap: '4px' }}>
               <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor">
@@ -265,15 +375,36 @@ export default function LiffPage() {
             </div>
           )}
         </div>
+        <SearchBox
+          boats={boatDirectory}
+          piers={piers}
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          onSelect={handleSearchSelect}
+          onClear={handleSearchClear}
+        />
       </header>
 
       {/* Main Content - Map */}
       <main style={{ flex: 1, position: 'relative' }}>
         <LeafletMap 
           center={position} 
-          boats={boats} 
+          followCenter={followPosition}
+          boats={mapBoats} 
           onBoatClick={handleBoatClick}
+          onBookClick={handleBookClick}
           selectedBoat={selectedBoat}
+          pickupPoint={bookingBoat ? (pickup ?? position) : null}
+          onMapClick={handleMapClick}
+          onBoundsChange={setMapBounds}
+          radiusKm={filters.radius_km}
+          route={selectedRoute}
+          routeEtaMinutes={liveSelectedBoat ? etaByBoat[liveSelectedBoat.id] ?? null : null}
+          piers={piers}
+          pickupPierId={bookingBoat ? pickupPierId : null}
+          pickupBoatType={bookingBoat?.boat_type ?? null}
+          onPierSelect={bookingBoat ? handleSelectPier : undefined}
+          searchPlace={searchPlace}
         />
 
         {/* Boat List Sidebar */}
@@ -300,7 +431,21 @@ export default function LiffPage() {
               <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                 <path d="M3 18h18M3 18l3-9h12l3 9M6 18v-2M18 18v-2M12 9V3M8 5h8"/>
               </svg>
-              เรือใกล้เคียง
+              {t('finder.boatsOnMap')}
+              <button
+                onClick={() => setShowFilters((v) => !v)}
+                aria-expanded={showFilters}
+                style={{
+                  marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 4, padding: '2px 8px',
+                  border: '1px solid #ddd', borderRadius: 12, background: showFilters ? '#e8f1ff' : '#fff',
+                  fontSize: 12, fontWeight: 500, color: '#007aff', cursor: 'pointer'
+                }}
+              >
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <polygon points="22 3 2 3 10 12.46 10 19 14 21 14 12.46 22 3"/>
+                </svg>
+                {t('finder.filters')}
+              </button>
             </div>
             <div style={{ fontSize: 12, color: '#666', marginTop: 4, display: 'flex', alignItems: 'center', gap: '4px' }}>
               {loading ? (
@@ -308,26 +453,83 @@ export default function LiffPage() {
                   <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{ animation: 'spin 1s linear infinite' }}>
                     <path d="M21 12a9 9 0 1 1-6.219-8.56"/>
                   </svg>
-                  กำลังโหลด...
+                  {t('common.loading')}
+                </>
+              ) : cachedAt ? (
+                <>
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="#ff9500" strokeWidth="2">
+                    <path d="M1 1l22 22M16.72 11.06A10.94 10.94 0 0 1 19 12.55M5 12.55a10.94 10.94 0 0 1 5.17-2.39M10.71 5.05A16 16 0 0 1 22.58 9M1.42 9a15.91 15.91 0 0 1 4.7-2.88M8.53 16.11a6 6 0 0 1 6.95 0M12 20h.01"/>
+                  </svg>
+                  <span style={{ color: '#ff9500', fontWeight: 600 }}>
+                    {t('offline.cachedBoats', { count: boats.length, time: fmt.dateTime(cachedAt) })}
+                  </span>
                 </>
               ) : boatsError ? (
                 <>
                   <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="#e74c3c" strokeWidth="2">
                     <circle cx="12" cy="12" r="10"/><line x1="12" y1="8" x2="12" y2="12"/><line x1="12" y1="16" x2="12.01" y2="16"/>
                   </svg>
-                  <span style={{ color: '#e74c3c' }}>ไม่สามารถโหลดข้อมูล</span>
+                  <span style={{ color: '#e74c3c' }}>
+                    {boatsError.kind === 'network' ? t('error.network') : t('common.loadFailed')}
+                  </span>
                 </>
               ) : (
-                `พบ ${boats.length} ลำ`
+                t('finder.found', { count: boats.length })
               )}
+              <span style={{ marginLeft: 'auto' }}>
+                <RealtimeBadge status={realtimeStatus} />
+              </span>
             </div>
+            {searchPlace && (
+              <div style={{ fontSize: 12, color: '#e74c3c', marginTop: 4, display: 'flex', alignItems: 'center', gap: 6 }}>
+                📍 {t('search.boatsAround', { place: searchPlace.label })}
+                <button
+                  onClick={handleSearchClear}
+                  style={{ marginLeft: 'auto', padding: 0, border: 'none', background: 'none', color: '#007aff', fontSize: 12, cursor: 'pointer' }}
+                >
+                  {t('search.backToMe')}
+                </button>
+              </div>
+            )}
+            {queuedBookings.length > 0 && (
+              <div role="status" style={{ fontSize: 12, color: '#ff9500', marginTop: 4 }}>
+                {t('offline.bookingsWaiting', { count: queuedBookings.length })}
+              </div>
+            )}
+            {queuedBookings.filter((entry) => entry.repriced_total != null).map((entry) => (
+              <div key={entry.id} role="alert" style={{ fontSize: 12, color: '#333', marginTop: 4, display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+                <span style={{ flex: 1 }}>
+                  {t('offline.queuedRepriced', {
+                    name: entry.boat_name,
+                    from: fmt.currency(entry.request.quoted_total),
+                    to: fmt.currency(entry.repriced_total ?? 0),
+                  })}
+                </span>
+                <button
+                  onClick={() => confirmQueuedPrice(entry)}
+                  style={{ padding: '2px 8px', borderRadius: 6, border: 'none', background: '#007aff', color: '#fff', fontSize: 12, cursor: 'pointer' }}
+                >
+                  {t('offline.bookAtNewPrice')}
+                </button>
+                <button
+                  onClick={() => discardQueuedBooking(entry)}
+                  style={{ padding: '2px 8px', borderRadius: 6, border: '1px solid #ddd', background: '#fff', color: '#666', fontSize: 12, cursor: 'pointer' }}
+                >
+                  {t('offline.discardBooking')}
+                </button>
+              </div>
+            ))}
+            {notice && (
+              <div role="status" style={{ fontSize: 12, color: '#007aff', marginTop: 4 }}>{t(notice.key, notice.vars)}</div>
+            )}
           </div>
+          {showFilters && <BoatFilterPanel filters={filters} onChange={setFilters} />}
           <style dangerouslySetInnerHTML={{ __html: '@keyframes spin { to { transform: rotate(360deg); } }' }} />
 
           <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
             {boats.length === 0 && !loading && (
               <li style={{ padding: '24px 16px', textAlign: 'center', color: '#999' }}>
-                ไม่พบเรือในบริเวณนี้
+                {t('finder.noBoats')}
               </li>
             )}
             {boats.map((boat) => (
@@ -352,51 +554,98 @@ export default function LiffPage() {
                         <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                           <path d="M3 18h18M3 18l3-9h12l3 9"/>
                         </svg>
-                        {boat.boat_type}
+                        {fmt.boatType(boat.boat_type)}
                       </div>
                       <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
-                        <svg width="10" height="10" viewBox="0 0 24 24" fill={
-                          boat.status === 'available' ? '#2ecc71' : 
-                          boat.status === 'busy' ? '#e74c3c' : 
-                          boat.status === 'booked' ? '#f1c40f' : '#95a5a6'
-                        }>
+                        <svg width="10" height="10" viewBox="0 0 24 24" fill={BOAT_STATUS_COLORS[boat.status]}>
                           <circle cx="12" cy="12" r="10"/>
                         </svg>
-                        <span style={{ 
-                          fontWeight: 600,
-                          color: boat.status === 'available' ? '#2ecc71' : 
-                                 boat.status === 'busy' ? '#e74c3c' : 
-                                 boat.status === 'booked' ? '#f1c40f' : '#95a5a6'
-                        }}>
-                          {boat.status === 'available' ? 'ว่าง' :
-                           boat.status === 'busy' ? 'ไม่ว่าง' :
-                           boat.status === 'booked' ? 'จองแล้ว' : 'ซ่อม'}
+                        <span style={{ fontWeight: 600, color: BOAT_STATUS_COLORS[boat.status] }}>
+                          {fmt.boatStatus(boat.status)}
                         </span>
                       </div>
                       <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
                         <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                           <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"/><circle cx="9" cy="7" r="4"/>
                         </svg>
-                        {boat.capacity} คน
+                        {fmt.people(boat.capacity)}
                       </div>
                       {boat.price_per_hour && (
                         <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
                           <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                             <line x1="12" y1="1" x2="12" y2="23"/><path d="M17 5H9.5a3.5 3.5 0 0 0 0 7h5a3.5 3.5 0 0 1 0 7H6"/>
                           </svg>
-                          {boat.price_per_hour.toFixed(0)}/ชม.
+                          {fmt.pricePerHour(boat.price_per_hour)}
+                        </div>
+                      )}
+                      {boat.operator_rating != null && (
+                        <div style={{ color: '#f39c12', fontWeight: 600 }}>
+                          {fmt.rating(boat.operator_rating, boat.operator_total_trips ?? 0)}
+                        </div>
+                      )}
+                      {nearestPierByBoat[boat.id] && (
+                        <div style={{ color: '#1f3a5f' }}>
+                          ⚓ {t('finder.nearPier', { pier: pierName(nearestPierByBoat[boat.id], locale) })}
                         </div>
                       )}
                     </div>
                   </div>
                   <div style={{ fontSize: 11, color: '#999', textAlign: 'right', marginLeft: 8 }}>
-                    {(boat.distance_m / 1000).toFixed(2)} กม.
+                    {fmt.km(boat.distance_m)}
+                    {etaByBoat[boat.id] != null && (
+                      <div style={{ color: '#007aff', fontWeight: 600 }}>{fmt.minutes(etaByBoat[boat.id])}</div>
+                    )}
+                    {boat.status !== 'maintenance' && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleBookClick(boat);
+                        }}
+                        style={{
+                          display: 'block', marginTop: 8, padding: '4px 10px', border: 'none', borderRadius: 6,
+                          background: '#007aff', color: '#fff', fontSize: 12, fontWeight: 600, cursor: 'pointer'
+                        }}
+                      >
+                        {t('finder.book')}
+                      </button>
+                    )}
+                    {selectedBoat?.id === boat.id && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleShareClick(boat);
+                        }}
+                        disabled={sharing}
+                        style={{
+                          display: 'block', marginTop: 6, padding: '4px 10px', border: '1px solid #06c755', borderRadius: 6,
+                          background: '#fff', color: '#06c755', fontSize: 12, fontWeight: 600,
+                          cursor: sharing ? 'wait' : 'pointer'
+                        }}
+                      >
+                        {t('finder.share')}
+                      </button>
+                    )}
                   </div>
                 </div>
               </li>
             ))}
           </ul>
         </aside>
+
+        {bookingBoat && (
+          <BookingSheet
+            key={bookingBoat.id}
+            boat={bookingBoat}
+            lineUserId={lineUserId}
+            pickup={pickup ?? position}
+            pickupPiers={pickupPiers}
+            pickupPierId={pickupPierId}
+            onSelectPier={handleSelectPier}
+            pickingPickup={pickingPickup}
+            onRequestPickup={() => setPickingPickup(true)}
+            onClose={handleCloseBooking}
+          />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import useLiff from '@/hooks/useLiff';
+import useGeolocation from '@/hooks/useGeolocation';
+import useTrip from '@/hooks/useTrip';
+import useShareTripLocation from '@/hooks/useShareTripLocation';
+import useWaterwayGraph from '@/hooks/useWaterwayGraph';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import useI18n from '@/hooks/useI18n';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import { BOOKING_STATUS_COLORS } from '@/lib/format';
+import { tripPhase } from '@/lib/trips';
+import { createWaterRouter, estimateTravelMinutes } from '@/lib/waterways';
+import { describeDataError } from '@/lib/apiClient';
+
+// dynamic import to avoid SSR issues with Leaflet
+const LeafletMap = dynamic(() => import('@/components/LeafletMap'), { ssr: false });
+
+// Phase re-check interval (start/end times pass while the screen is open)
+const TICK_MS = 30_000;
+
+export default function TripPage() {
+  const { id } = useParams<{ id: string }>();
+  const { liffReady, lineUserId } = useLiff();
+  const { t, fmt } = useI18n();
+  const { booking, boat, loading, error } = useTrip(id ?? null, lineUserId);
+  const { position } = useGeolocation(liffReady);
+  const { completeBooking } = useBoatOperations();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const phase = booking ? tripPhase(booking, now) : null;
+  const isPassenger = !!booking && booking.line_user_id === lineUserId;
+
+  // ✅ Position goes to the operator only while the trip runs
+  const { lastSharedAt } = useShareTripLocation(booking?.id ?? null, position, isPassenger && phase === 'active');
+
+  // ✅ Close the trip when end_time passes (the server sweep does the same)
+  const endTime = booking?.end_time;
+  const bookingStatus = booking?.status;
+  useEffect(() => {
+    if (!id || !isPassenger || !endTime || bookingStatus !== 'confirmed') return;
+
+    const complete = () => {
+      completeBooking(id).then((result) => {
+        if (!result.ok) console.warn('[Trip] Could not complete booking:', result.error.message);
+      });
+    };
+
+    const remaining = new Date(endTime).getTime() - Date.now();
+    if (remaining <= 0) {
+      complete();
+      return;
+    }
+    const timer = setTimeout(complete, remaining);
+    return () => clearTimeout(timer);
+  }, [id, isPassenger, endTime, bookingStatus, completeBooking]);
+
+  // Route and ETA from the boat to the passenger along the waterways
+  const { graph: waterways } = useWaterwayGraph();
+  const route = useMemo(
+    () => (waterways && position && boat
+      ? createWaterRouter(waterways, position)({ lat: boat.latitude, lon: boat.longitude })
+      : null),
+    [waterways, position, boat]
+  );
+  const etaMinutes = route && boat ? estimateTravelMinutes(route.distance_m, boat.boat_type) : null;
+
+  let content: React.ReactNode;
+  if (!liffReady) {
+    content = <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666' }}>{t('common.connectingLine')}</div>;
+  } else if (!lineUserId) {
+    content = <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666' }}>{t('myBookings.loginRequired')}</div>;
+  } else if (loading && !booking) {
+    content = <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666' }}>{t('common.loading')}</div>;
+  } else if (error) {
+    content = <div style={{ padding: '48px 16px', textAlign: 'center', color: '#e74c3c' }}>{t('common.loadFailedDetail', { detail: describeDataError(error, t) })}</div>;
+  } else if (!booking || !isPassenger) {
+    content = <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666' }}>{t('trip.notFound')}</div>;
+  } else {
+    content = (
+      <main style={{ flex: 1, position: 'relative' }}>
+        <LeafletMap
+          center={position}
+          followCenter={false}
+          boats={boat ? [boat] : []}
+          selectedBoat={boat}
+          route={phase === 'active' ? route : null}
+          routeEtaMinutes={phase === 'active' ? etaMinutes : null}
+        />
+
+        <section style={{
+          position: 'absolute', left: 8, right: 8, bottom: 8, zIndex: 999,
+          background: '#fff', borderRadius: 12, boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
+          padding: 16, fontSize: 14, lineHeight: 1.7
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <span style={{ fontWeight: 700, fontSize: 16 }}>{boat?.name ?? t('myBookings.boat')}</span>
+            <span style={{ fontSize: 12, fontWeight: 600, color: BOOKING_STATUS_COLORS[booking.status] }}>
+              {fmt.bookingStatus(booking.status)}
+            </span>
+          </div>
+          <div style={{ fontSize: 13, color: '#666' }}>
+            {phase === 'upcoming' && t('trip.upcoming', { time: fmt.dateTime(booking.start_time) })}
+            {phase === 'active' && t('trip.active', { time: fmt.time(booking.end_time) })}
+            {phase === 'ended' && t('trip.ended')}
+          </div>
+
+          {phase === 'active' && (
+            <div style={{ fontWeight: 600, color: '#007aff' }}>
+              {etaMinutes != null ? t('trip.boatEta', { minutes: fmt.minutes(etaMinutes) }) : t('trip.boatEtaUnknown')}
+            </div>
+          )}
+
+          {phase !== 'ended' && (
+            <div style={{ fontSize: 12, color: phase === 'active' ? '#06c755' : '#999', marginTop: 4 }}>
+              {phase === 'active' ? t('trip.sharingLocation') : t('trip.notSharing')}
+              {phase === 'active' && lastSharedAt && (
+                <span style={{ color: '#999' }}> · {t('trip.lastShared', { time: fmt.time(lastSharedAt) })}</span>
+              )}
+            </div>
+          )}
+        </section>
+      </main>
+    );
+  }
+
+  return (
+    <div style={{ width: '100%', height: '100vh', display: 'flex', flexDirection: 'column', background: '#f5f6f8' }}>
+      <header style={{
+        padding: '12px 16px',
+        background: '#fff',
+        zIndex: 1000,
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        borderBottom: '1px solid #eee',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 12
+      }}>
+        <Link href="/liff/bookings" style={{ color: '#007aff', textDecoration: 'none', fontSize: 20 }} aria-label={t('common.back')}>
+          ‹
+        </Link>
+        <div style={{ fontWeight: 700, fontSize: 16 }}>{t('trip.title')}</div>
+        <div style={{ marginLeft: 'auto' }}>
+          <LanguageSwitcher />
+        </div>
+      </header>
+      {content}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'ดารณี - Boat Finder',
+    short_name: 'Daranee',
+    description: 'Find nearby boats and make bookings with Daranee',
+    start_url: '/liff',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#007aff',
+    icons: [
+      { src: '/favicon.ico', sizes: 'any', type: 'image/x-icon' },
+    ],
+  };
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import useLiff from '@/hooks/useLiff';
+import useFleetAnalytics from '@/hooks/useFleetAnalytics';
+import useI18n from '@/hooks/useI18n';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import { describeDataError } from '@/lib/apiClient';
+import {
+  boatsCsv,
+  bookingsCsv,
+  lastDays,
+  revenueCsv,
+  summarizeAnalytics,
+  toAnalyticsRange,
+  type DayRange,
+} from '@/lib/analytics';
+
+const DemandHeatMap = dynamic(() => import('@/components/DemandHeatMap'), { ssr: false });
+
+const PRESET_DAYS = [7, 30, 90];
+
+const cardStyle: React.CSSProperties = {
+  margin: '12px 16px', padding: '12px 16px', background: '#fff',
+  borderRadius: 12, boxShadow: '0 2px 8px rgba(0,0,0,0.08)'
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: 6, border: '1px solid #ddd', borderRadius: 8, fontSize: 12,
+};
+
+// Save a CSV string as a file (Blob download – works in the LINE browser too)
+const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Horizontal bar for a 0–1 ratio
+const RatioBar = ({ ratio, color = '#007aff' }: { ratio: number; color?: string }) => (
+  <div style={{ height: 6, borderRadius: 3, background: '#eee', overflow: 'hidden', marginTop: 4 }}>
+    <div style={{ width: `${Math.round(ratio * 100)}%`, height: '100%', background: color }} />
+  </div>
+);
+
+export default function AnalyticsPage() {
+  const { liffReady, lineUserId } = useLiff();
+  const { t, fmt } = useI18n();
+  const [days, setDays] = useState<DayRange>(() => lastDays(30));
+  // Status time is counted up to when the page opened
+  const [now] = useState(() => Date.now());
+  const range = useMemo(() => toAnalyticsRange(days), [days]);
+  const { data, loading, error } = useFleetAnalytics(lineUserId, range);
+
+  const summary = useMemo(() => (data ? summarizeAnalytics(data, range, now) : null), [data, range, now]);
+  const maxDayRevenue = Math.max(1, ...(summary?.revenue_by_day.map((p) => p.revenue) ?? []));
+  const fileSuffix = `${days.startDay}_${days.endDay}`;
+
+  const setDay = (field: keyof DayRange, value: string) => {
+    if (!value) return;
+    setDays((current) => {
+      const next = { ...current, [field]: value };
+      // Keep the range the right way round
+      return next.startDay <= next.endDay ? next : { startDay: value, endDay: value };
+    });
+  };
+
+  const renderGate = (message: string) => (
+    <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666', fontSize: 14 }}>
+      {message}
+    </div>
+  );
+
+  let content: React.ReactNode;
+  if (!liffReady) {
+    content = renderGate(t('common.connectingLine'));
+  } else if (!lineUserId) {
+    content = renderGate(t('operator.loginRequired'));
+  } else if (error) {
+    content = renderGate(error.kind === 'authorization'
+      ? t('operator.notRegistered')
+      : t('common.loadFailedDetail', { detail: describeDataError(error, t) }));
+  } else if (!summary || !data) {
+    content = renderGate(t('common.loading'));
+  } else {
+    const stats = [
+      { label: t('analytics.revenue'), value: fmt.currency(summary.total_revenue) },
+      { label: t('analytics.bookings'), value: String(summary.total_bookings) },
+      { label: t('analytics.utilization'), value: fmt.percent(summary.utilization) },
+      { label: t('analytics.averageLength'), value: fmt.hours(summary.average_booking_hours) },
+      { label: t('analytics.cancellationRate'), value: fmt.percent(summary.cancellation_rate) },
+    ];
+
+    content = (
+      <div style={{ opacity: loading ? 0.6 : 1 }}>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(120px, 1fr))', gap: 8, margin: '12px 16px' }}>
+          {stats.map((stat) => (
+            <div key={stat.label} style={{ padding: 12, background: '#fff', borderRadius: 12, boxShadow: '0 2px 8px rgba(0,0,0,0.08)' }}>
+              <div style={{ fontSize: 11, color: '#666' }}>{stat.label}</div>
+              <div style={{ fontSize: 18, fontWeight: 700 }}>{stat.value}</div>
+            </div>
+          ))}
+        </div>
+
+        <section style={cardStyle}>
+          <div style={{ fontWeight: 700, fontSize: 14, marginBottom: 8 }}>{t('analytics.revenueOverTime')}</div>
+          <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: 120 }}>
+            {summary.revenue_by_day.map((point) => (
+              <div
+                key={point.day}
+                title={`${point.day} · ${fmt.currency(point.revenue)} · ${t('analytics.bookingCount', { count: point.bookings })}`}
+                style={{
+                  flex: 1, minWidth: 2, borderRadius: '2px 2px 0 0', background: '#2ecc71',
+                  height: `${Math.max(point.revenue > 0 ? 2 : 0, (point.revenue / maxDayRevenue) * 100)}%`
+                }}
+              />
+            ))}
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 11, color: '#999', marginTop: 4 }}>
+            <span>{fmt.day(range.start)}</span>
+            <span>{fmt.day(new Date(new Date(range.end).getTime() - 1))}</span>
+          </div>
+        </section>
+
+        <section style={cardStyle}>
+          <div style={{ fontWeight: 700, fontSize: 14, marginBottom: 8 }}>{t('analytics.byBoat')}</div>
+          {summary.boats.length === 0 ? (
+            <div style={{ fontSize: 12, color: '#999' }}>{t('operator.noBoats')}</div>
+          ) : (
+            summary.boats.map((boat) => (
+              <div key={boat.boat_id} style={{ padding: '6px 0', borderTop: '1px solid #f0f0f0', fontSize: 12 }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                  <span style={{ fontWeight: 600 }}>{boat.name}</span>
+                  <span>{fmt.percent(boat.utilization)}</span>
+                </div>
+                <RatioBar ratio={boat.utilization} />
+                <div style={{ color: '#666', marginTop: 2 }}>
+                  {t('analytics.bookedOfOpen', { booked: fmt.hours(boat.booked_hours), open: fmt.hours(boat.open_hours, 0) })}
+                  {' · '}{fmt.currency(boat.revenue)}
+                  {' · '}{t('analytics.bookingCount', { count: boat.bookings })}
+                  {boat.status_hours.maintenance > 0 && (
+                    <> · {t('analytics.maintenanceHours', { hours: fmt.hours(boat.status_hours.maintenance, 0) })}</>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </section>
+
+        <section style={cardStyle}>
+          <div style={{ fontWeight: 700, fontSize: 14, marginBottom: 8 }}>{t('analytics.byType')}</div>
+          {summary.types.map((type) => (
+            <div key={type.boat_type} style={{ padding: '6px 0', borderTop: '1px solid #f0f0f0', fontSize: 12 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                <span style={{ fontWeight: 600 }}>{fmt.boatType(type.boat_type)} ({type.boats})</span>
+                <span>{fmt.percent(type.utilization)}</span>
+              </div>
+              <RatioBar ratio={type.utilization} color="#9b59b6" />
+              <div style={{ color: '#666', marginTop: 2 }}>{fmt.currency(type.revenue)}</div>
+            </div>
+          ))}
+        </section>
+
+        <section style={cardStyle}>
+          <div style={{ fontWeight: 700, fontSize: 14, marginBottom: 8 }}>{t('analytics.demandMap')}</div>
+          {summary.heat_cells.length === 0 ? (
+            <div style={{ fontSize: 12, color: '#999' }}>{t('analytics.noPickups')}</div>
+          ) : (
+            <DemandHeatMap cells={summary.heat_cells} />
+          )}
+        </section>
+
+        <section style={{ ...cardStyle, display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+          <div style={{ width: '100%', fontWeight: 700, fontSize: 14 }}>{t('analytics.export')}</div>
+          {[
+            { label: t('analytics.exportBoats'), file: `boats_${fileSuffix}.csv`, csv: () => boatsCsv(summary) },
+            { label: t('analytics.exportRevenue'), file: `revenue_${fileSuffix}.csv`, csv: () => revenueCsv(summary) },
+            { label: t('analytics.exportBookings'), file: `bookings_${fileSuffix}.csv`, csv: () => bookingsCsv(data) },
+          ].map((item) => (
+            <button
+              key={item.file}
+              onClick={() => downloadCsv(item.file, item.csv())}
+              style={{
+                padding: '6px 10px', borderRadius: 8, fontSize: 12, fontWeight: 600,
+                border: '1px solid #007aff', background: '#fff', color: '#007aff', cursor: 'pointer'
+              }}
+            >
+              {item.label}
+            </button>
+          ))}
+        </section>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#f5f6f8' }}>
+      <header style={{
+        padding: '12px 16px',
+        background: '#fff',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        borderBottom: '1px solid #eee'
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+            <Link href="/operator" style={{ color: '#007aff', textDecoration: 'none', fontSize: 20 }} aria-label={t('common.back')}>
+              ‹
+            </Link>
+            <div style={{ fontWeight: 700, fontSize: 16 }}>{t('analytics.title')}</div>
+          </div>
+          <LanguageSwitcher />
+        </div>
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 6, marginTop: 8, fontSize: 12 }}>
+          <input type="date" value={days.startDay} onChange={(e) => setDay('startDay', e.target.value)} style={inputStyle} />
+          –
+          <input type="date" value={days.endDay} onChange={(e) => setDay('endDay', e.target.value)} style={inputStyle} />
+          {PRESET_DAYS.map((count) => (
+            <button
+              key={count}
+              onClick={() => setDays(lastDays(count))}
+              style={{
+                padding: '4px 8px', borderRadius: 12, fontSize: 11, border: '1px solid #ddd',
+                background: '#fff', cursor: 'pointer'
+              }}
+            >
+              {t('analytics.lastDays', { count })}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      {content}
+    </div>
+  );
+}
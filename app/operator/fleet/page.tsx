@@ -0,0 +1,234 @@
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import useLiff from '@/hooks/useLiff';
+import useFleet from '@/hooks/useFleet';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import useI18n from '@/hooks/useI18n';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import BoatForm from '@/components/BoatForm';
+import MaintenanceWindows from '@/components/MaintenanceWindows';
+import BoatAuditLog from '@/components/BoatAuditLog';
+import { BOAT_STATUS_COLORS } from '@/lib/format';
+import { describeDataError } from '@/lib/apiClient';
+import type { Boat } from '@/lib/types';
+
+type Panel = 'edit' | 'maintenance' | 'audit';
+
+export default function FleetPage() {
+  const { liffReady, lineUserId } = useLiff();
+  const { fleet, loading, loaded, error, refetch } = useFleet(lineUserId);
+  const { retireBoat } = useBoatOperations();
+  const { t, fmt } = useI18n();
+  const [adding, setAdding] = useState(false);
+  const [open, setOpen] = useState<{ boatId: string; panel: Panel } | null>(null);
+  const [retiringBoatId, setRetiringBoatId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  // Reloads the open audit trail after a change
+  const [auditVersion, setAuditVersion] = useState(0);
+
+  const operators = fleet?.operators ?? [];
+  const ownerName = (ownerId: string | null) => operators.find((o) => o.id === ownerId)?.name ?? '–';
+
+  const handleChanged = () => {
+    setAuditVersion((v) => v + 1);
+    refetch();
+  };
+
+  const togglePanel = (boatId: string, panel: Panel) => {
+    setAdding(false);
+    setOpen((current) => (current?.boatId === boatId && current.panel === panel ? null : { boatId, panel }));
+  };
+
+  const handleRetire = async (boat: Boat) => {
+    if (!window.confirm(t('fleet.confirmRetire', { name: boat.name }))) return;
+
+    setRetiringBoatId(boat.id);
+    setActionError(null);
+
+    const result = await retireBoat(boat.id);
+
+    setRetiringBoatId(null);
+
+    if (!result.ok) {
+      setActionError(describeDataError(result.error, t, t('fleet.retireFailed', { name: boat.name })));
+      return;
+    }
+
+    setOpen(null);
+    handleChanged();
+  };
+
+  const renderGate = (message: string) => (
+    <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666', fontSize: 14 }}>
+      {message}
+    </div>
+  );
+
+  const panelButton = (boat: Boat, panel: Panel, label: string) => {
+    const active = open?.boatId === boat.id && open.panel === panel;
+    return (
+      <button
+        onClick={() => togglePanel(boat.id, panel)}
+        style={{
+          padding: '6px 10px', borderRadius: 8, fontSize: 12, fontWeight: 600,
+          border: '1px solid #007aff', background: active ? '#007aff' : '#fff',
+          color: active ? '#fff' : '#007aff', cursor: 'pointer'
+        }}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  let content: React.ReactNode;
+  if (!liffReady) {
+    content = renderGate(t('common.connectingLine'));
+  } else if (!lineUserId) {
+    content = renderGate(t('operator.loginRequired'));
+  } else if (!loaded || (loading && !fleet)) {
+    content = renderGate(t('common.loading'));
+  } else if (error || !fleet) {
+    // get_fleet refuses callers who aren't operators
+    content = renderGate(!error || error.kind === 'authorization'
+      ? t('operator.notRegistered')
+      : t('common.loadFailedDetail', { detail: describeDataError(error, t) }));
+  } else {
+    const boats = fleet.boats ?? [];
+    const windows = fleet.maintenance_windows ?? [];
+
+    content = (
+      <>
+        <div style={{ margin: '12px 16px 0' }}>
+          {adding ? (
+            <BoatForm
+              boat={null}
+              operators={operators}
+              canChooseOwner={!!fleet.is_admin}
+              onSaved={() => { setAdding(false); handleChanged(); }}
+              onCancel={() => setAdding(false)}
+            />
+          ) : (
+            <button
+              onClick={() => { setAdding(true); setOpen(null); }}
+              style={{
+                width: '100%', padding: 12, borderRadius: 12, border: '2px dashed #007aff',
+                background: '#fff', color: '#007aff', fontWeight: 700, cursor: 'pointer'
+              }}
+            >
+              + {t('fleet.addBoat')}
+            </button>
+          )}
+        </div>
+
+        {boats.length === 0 && renderGate(t('operator.noBoats'))}
+
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {boats.map((boat) => {
+            const retired = !!boat.retired_at;
+            const panel = open?.boatId === boat.id ? open.panel : null;
+
+            return (
+              <li
+                key={boat.id}
+                style={{
+                  margin: '12px 16px', padding: '12px 16px', background: '#fff',
+                  borderRadius: 12, boxShadow: '0 2px 8px rgba(0,0,0,0.08)', opacity: retired ? 0.6 : 1
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+                  <div style={{ fontWeight: 700, fontSize: 15 }}>{boat.name}</div>
+                  {retired ? (
+                    <span style={{ fontSize: 12, color: '#999' }}>{t('fleet.retired', { date: fmt.day(boat.retired_at!) })}</span>
+                  ) : (
+                    <span style={{ fontSize: 12, fontWeight: 600, color: BOAT_STATUS_COLORS[boat.status] }}>
+                      {fmt.boatStatus(boat.status)}
+                    </span>
+                  )}
+                </div>
+                <div style={{ fontSize: 12, color: '#666' }}>
+                  {fmt.boatType(boat.boat_type)} · {fmt.people(boat.capacity)}
+                  {boat.price_per_hour != null && <> · {fmt.pricePerHour(boat.price_per_hour)}</>}
+                </div>
+                {fleet.is_admin && (
+                  <div style={{ fontSize: 12, color: '#666' }}>{t('fleet.ownedBy', { name: ownerName(boat.owner_id) })}</div>
+                )}
+
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 8 }}>
+                  {!retired && panelButton(boat, 'edit', t('fleet.edit'))}
+                  {!retired && panelButton(boat, 'maintenance', t('fleet.maintenance.title'))}
+                  {panelButton(boat, 'audit', t('fleet.audit.title'))}
+                  {!retired && (
+                    <button
+                      onClick={() => handleRetire(boat)}
+                      disabled={retiringBoatId === boat.id}
+                      style={{
+                        padding: '6px 10px', borderRadius: 8, fontSize: 12, fontWeight: 600,
+                        border: '1px solid #e74c3c', background: '#fff', color: '#e74c3c',
+                        cursor: retiringBoatId === boat.id ? 'wait' : 'pointer'
+                      }}
+                    >
+                      {t('fleet.retire')}
+                    </button>
+                  )}
+                </div>
+
+                {panel === 'edit' && (
+                  <BoatForm
+                    key={boat.updated_at}
+                    boat={boat}
+                    operators={operators}
+                    canChooseOwner
+                    onSaved={() => { setOpen(null); handleChanged(); }}
+                    onCancel={() => setOpen(null)}
+                  />
+                )}
+                {panel === 'maintenance' && (
+                  <MaintenanceWindows
+                    boatId={boat.id}
+                    windows={windows.filter((w) => w.boat_id === boat.id)}
+                    onChanged={handleChanged}
+                  />
+                )}
+                {panel === 'audit' && <BoatAuditLog boatId={boat.id} version={auditVersion} />}
+              </li>
+            );
+          })}
+        </ul>
+      </>
+    );
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#f5f6f8' }}>
+      <header style={{
+        padding: '12px 16px',
+        background: '#fff',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        borderBottom: '1px solid #eee'
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+            <Link href="/operator" style={{ color: '#007aff', textDecoration: 'none', fontSize: 20 }} aria-label={t('common.back')}>
+              ‹
+            </Link>
+            <div>
+              <div style={{ fontWeight: 700, fontSize: 16 }}>{t('fleet.title')}</div>
+              {fleet?.is_admin && (
+                <div style={{ fontSize: 11, color: '#999' }}>{t('fleet.adminBadge')}</div>
+              )}
+            </div>
+          </div>
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      {actionError && (
+        <div style={{ margin: '12px 16px 0', fontSize: 13, color: '#e74c3c' }}>{actionError}</div>
+      )}
+
+      {content}
+    </div>
+  );
+}
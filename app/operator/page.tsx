@@ -0,0 +1,290 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import useLiff from '@/hooks/useLiff';
+import useOperatorBoats from '@/hooks/useOperatorBoats';
+import useRealtimeBoats from '@/hooks/useRealtimeBoats';
+import useBookingChanges from '@/hooks/useBookingChanges';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import useI18n from '@/hooks/useI18n';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import RealtimeBadge from '@/components/RealtimeBadge';
+import PassengerLocation from '@/components/PassengerLocation';
+import { BOAT_STATUSES, BOAT_STATUS_COLORS, PAYMENT_STATUS_COLORS } from '@/lib/format';
+import { isTripActive } from '@/lib/trips';
+import { worstStatus } from '@/lib/realtime';
+import { describeDataError } from '@/lib/apiClient';
+import type { Boat, Booking, BookingChangeSignal, BoatStatus, RealtimePayload } from '@/lib/types';
+
+export default function OperatorPage() {
+  const { liffReady, lineUserId } = useLiff();
+  const { operator, boats, bookings, loading, loaded, error, setBoats, refetch } = useOperatorBoats(lineUserId);
+  const { updateBoatStatus, markBookingPaid, completeBooking } = useBoatOperations();
+  const { t, fmt } = useI18n();
+  const [pendingBoatId, setPendingBoatId] = useState<string | null>(null);
+  const [payingBookingId, setPayingBookingId] = useState<string | null>(null);
+  const [endingBookingId, setEndingBookingId] = useState<string | null>(null);
+  // Trips start and end while the console is open
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Merge boat row changes into the owned list (status is in the realtime payload)
+  const handleBoatRealtime = useCallback((payload: RealtimePayload<Boat>) => {
+    const row = payload.new;
+    if (payload.eventType !== 'UPDATE' || !row?.id) return;
+
+    setBoats((current) =>
+      current.map((b) => (b.id === row.id ? { ...b, ...row } : b))
+    );
+  }, [setBoats]);
+
+  // Keep owned ids in a ref so the bookings subscription doesn't churn on status changes
+  const ownedIdsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    ownedIdsRef.current = new Set(boats.map((b) => b.id));
+  }, [boats]);
+
+  // Bookings for owned boats changed → reload today's schedule
+  const handleBookingChange = useCallback((signal: BookingChangeSignal) => {
+    if (!ownedIdsRef.current.has(signal.boat_id)) return;
+
+    console.log('[Operator] Booking change for owned boat - refetching');
+    refetch();
+  }, [refetch]);
+
+  // One full reload covers both channels after a reconnect / return to the page
+  const boatsStatus = useRealtimeBoats(handleBoatRealtime);
+  const bookingsStatus = useBookingChanges(handleBookingChange, Boolean(operator), refetch);
+
+  const handleStatusChange = async (boat: Boat, newStatus: BoatStatus) => {
+    if (!lineUserId || boat.status === newStatus) return;
+
+    setPendingBoatId(boat.id);
+    setActionError(null);
+
+    const result = await updateBoatStatus({
+      boat_id: boat.id,
+      new_status: newStatus,
+    });
+
+    setPendingBoatId(null);
+
+    if (!result.ok) {
+      setActionError(describeDataError(result.error, t, t('operator.statusChangeFailed', { name: boat.name })));
+      return;
+    }
+
+    const response = result.data;
+
+    setBoats((current) =>
+      current.map((b) =>
+        b.id === boat.id
+          ? { ...b, status: response.status ?? newStatus, updated_at: response.updated_at ?? b.updated_at }
+          : b
+      )
+    );
+  };
+
+  // Cash / transfer received outside the app – the bookings realtime refetch picks up the change
+  const handleMarkPaid = async (booking: Booking) => {
+    setPayingBookingId(booking.id);
+    setActionError(null);
+
+    const result = await markBookingPaid(booking.id);
+
+    setPayingBookingId(null);
+
+    if (!result.ok) {
+      setActionError(describeDataError(result.error, t, t('operator.markPaidFailed')));
+      return;
+    }
+
+    refetch();
+  };
+
+  const handleEndTrip = async (booking: Booking) => {
+    if (!window.confirm(t('operator.confirmEndTrip'))) return;
+
+    setEndingBookingId(booking.id);
+    setActionError(null);
+
+    const result = await completeBooking(booking.id);
+
+    setEndingBookingId(null);
+
+    if (!result.ok) {
+      setActionError(describeDataError(result.error, t, t('operator.endTripFailed')));
+      return;
+    }
+
+    refetch();
+  };
+
+  const renderGate = (message: string) => (
+    <div style={{ padding: '48px 16px', textAlign: 'center', color: '#666', fontSize: 14 }}>
+      {message}
+    </div>
+  );
+
+  let content: React.ReactNode;
+  if (!liffReady) {
+    content = renderGate(t('common.connectingLine'));
+  } else if (!lineUserId) {
+    content = renderGate(t('operator.loginRequired'));
+  } else if (!loaded || (loading && !operator)) {
+    content = renderGate(t('common.loading'));
+  } else if (error || !operator) {
+    // get_operator_console refuses callers who aren't operators
+    content = renderGate(!error || error.kind === 'authorization'
+      ? t('operator.notRegistered')
+      : t('common.loadFailedDetail', { detail: describeDataError(error, t) }));
+  } else if (boats.length === 0) {
+    content = renderGate(t('operator.noBoats'));
+  } else {
+    content = (
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {boats.map((boat) => {
+          const boatBookings = bookings.filter((bk) => bk.boat_id === boat.id && bk.status !== 'cancelled');
+          const isPending = pendingBoatId === boat.id;
+
+          return (
+            <li
+              key={boat.id}
+              style={{
+                margin: '12px 16px', padding: '12px 16px', background: '#fff',
+                borderRadius: 12, boxShadow: '0 2px 8px rgba(0,0,0,0.08)'
+              }}
+            >
+              <div style={{ fontWeight: 700, fontSize: 15 }}>{boat.name}</div>
+              <div style={{ fontSize: 12, color: '#666', marginBottom: 8 }}>
+                {fmt.boatType(boat.boat_type)} · {fmt.people(boat.capacity)}
+              </div>
+
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 6 }}>
+                {BOAT_STATUSES.map((status) => {
+                  const active = boat.status === status;
+                  const color = BOAT_STATUS_COLORS[status];
+                  return (
+                    <button
+                      key={status}
+                      onClick={() => handleStatusChange(boat, status)}
+                      disabled={isPending}
+                      style={{
+                        padding: '8px 4px', borderRadius: 8, fontSize: 12, fontWeight: 600,
+                        border: `2px solid ${color}`,
+                        background: active ? color : '#fff',
+                        color: active ? '#fff' : color,
+                        opacity: isPending && !active ? 0.5 : 1,
+                        cursor: isPending ? 'wait' : 'pointer'
+                      }}
+                    >
+                      {fmt.boatStatus(status)}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div style={{ marginTop: 12, fontSize: 12, color: '#666' }}>
+                <div style={{ fontWeight: 600, marginBottom: 4 }}>{t('operator.todayBookings', { count: boatBookings.length })}</div>
+                {boatBookings.length === 0 ? (
+                  <div style={{ color: '#999' }}>{t('operator.noBookings')}</div>
+                ) : (
+                  boatBookings.map((bk) => (
+                    <div key={bk.id} style={{ padding: '2px 0' }}>
+                      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+                        <span>{fmt.time(bk.start_time)} – {fmt.time(bk.end_time)}</span>
+                        <span style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                          {fmt.bookingStatus(bk.status)}
+                          <span style={{ color: PAYMENT_STATUS_COLORS[bk.payment_status], fontWeight: 600 }}>
+                            {fmt.paymentStatus(bk.payment_status)}
+                          </span>
+                          {bk.payment_status === 'unpaid' && bk.status !== 'completed' && (
+                            <button
+                              onClick={() => handleMarkPaid(bk)}
+                              disabled={payingBookingId === bk.id}
+                              style={{
+                                padding: '2px 8px', borderRadius: 6, fontSize: 11, border: '1px solid #2ecc71',
+                                background: '#fff', color: '#2ecc71', fontWeight: 600,
+                                cursor: payingBookingId === bk.id ? 'wait' : 'pointer'
+                              }}
+                            >
+                              {t('operator.markPaid')}
+                            </button>
+                          )}
+                        </span>
+                      </div>
+                      {isTripActive(bk, now) && (
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8, marginTop: 2 }}>
+                          <PassengerLocation bookingId={bk.id} active />
+                          <button
+                            onClick={() => handleEndTrip(bk)}
+                            disabled={endingBookingId === bk.id}
+                            style={{
+                              padding: '2px 8px', borderRadius: 6, fontSize: 11, border: '1px solid #3498db',
+                              background: '#fff', color: '#3498db', fontWeight: 600,
+                              cursor: endingBookingId === bk.id ? 'wait' : 'pointer'
+                            }}
+                          >
+                            {t('operator.endTrip')}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', background: '#f5f6f8' }}>
+      <header style={{
+        padding: '12px 16px',
+        background: '#fff',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        borderBottom: '1px solid #eee'
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div>
+            <div style={{ fontWeight: 700, fontSize: 16 }}>{t('operator.title')}</div>
+            {operator && (
+              <div style={{ fontSize: 11, color: '#999', display: 'flex', alignItems: 'center', gap: 6 }}>
+                {operator.name}
+                <RealtimeBadge status={worstStatus(boatsStatus, bookingsStatus)} />
+              </div>
+            )}
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+            {operator && (
+              <>
+                <Link href="/operator/analytics" style={{ color: '#007aff', textDecoration: 'none', fontSize: 13, fontWeight: 600 }}>
+                  {t('analytics.open')}
+                </Link>
+                <Link href="/operator/fleet" style={{ color: '#007aff', textDecoration: 'none', fontSize: 13, fontWeight: 600 }}>
+                  {t('fleet.manage')}
+                </Link>
+              </>
+            )}
+            <LanguageSwitcher />
+          </div>
+        </div>
+      </header>
+
+      {actionError && (
+        <div style={{ margin: '12px 16px 0', fontSize: 13, color: '#e74c3c' }}>{actionError}</div>
+      )}
+
+      {content}
+    </div>
+  );
+}
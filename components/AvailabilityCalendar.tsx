@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import useBoatSchedule from '@/hooks/useBoatSchedule';
+import useI18n from '@/hooks/useI18n';
+import { buildSchedule, isWindowFree, SCHEDULE_DAYS, type SlotState } from '@/lib/schedule';
+
+interface AvailabilityCalendarProps {
+  boatId: string;
+  // Current booking window, highlighted in the timeline
+  selectedStart?: Date | null;
+  selectedEnd?: Date | null;
+  onSelectSlot: (start: Date, end: Date) => void;
+}
+
+const SLOT_STYLES: Record<SlotState, React.CSSProperties> = {
+  free: { background: '#eafaf1', color: '#1e8449', border: '1px solid #abebc6', cursor: 'pointer' },
+  booking: { background: '#fdecea', color: '#c0392b', border: '1px solid #f5b7b1', cursor: 'not-allowed' },
+  maintenance: {
+    background: 'repeating-linear-gradient(45deg, #eee, #eee 4px, #ddd 4px, #ddd 8px)',
+    color: '#777', border: '1px solid #ccc', cursor: 'not-allowed',
+  },
+  past: { background: '#f7f7f7', color: '#bbb', border: '1px solid #eee', cursor: 'default' },
+};
+
+const LEGEND: SlotState[] = ['free', 'booking', 'maintenance'];
+
+export default function AvailabilityCalendar({
+  boatId,
+  selectedStart,
+  selectedEnd,
+  onSelectSlot,
+}: AvailabilityCalendarProps) {
+  const { t, fmt } = useI18n();
+  const { intervals, loading, error } = useBoatSchedule(boatId);
+  const [now] = useState(() => Date.now());
+  const [dayIndex, setDayIndex] = useState(0);
+
+  const days = useMemo(() => buildSchedule(intervals, now), [intervals, now]);
+  const day = days[dayIndex];
+
+  const isSelected = (start: Date, end: Date) =>
+    !!selectedStart && !!selectedEnd &&
+    start.getTime() < selectedEnd.getTime() && end.getTime() > selectedStart.getTime();
+
+  // ✅ Keep the chosen duration when that whole stretch is free, else book one slot
+  const handleSlotClick = (start: Date, end: Date) => {
+    const duration = selectedStart && selectedEnd ? selectedEnd.getTime() - selectedStart.getTime() : 0;
+    const stretchEnd = new Date(start.getTime() + duration);
+    onSelectSlot(
+      start,
+      duration > 0 && isWindowFree(intervals, start, stretchEnd) ? stretchEnd : end
+    );
+  };
+
+  return (
+    <div style={{ marginBottom: 12 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 6 }}>
+        <div style={{ fontSize: 13, fontWeight: 600 }}>{t('schedule.title', { days: SCHEDULE_DAYS })}</div>
+        <div style={{ fontSize: 11, color: '#999' }}>{loading ? t('common.loading') : t('schedule.hint')}</div>
+      </div>
+
+      {error && (
+        <div style={{ fontSize: 12, color: '#e74c3c', marginBottom: 6 }}>{t('schedule.loadFailed')}</div>
+      )}
+
+      {/* Day strip */}
+      <div style={{ display: 'flex', gap: 6, overflowX: 'auto', paddingBottom: 6 }}>
+        {days.map((d, i) => {
+          const active = i === dayIndex;
+          return (
+            <button
+              key={d.date.toISOString()}
+              onClick={() => setDayIndex(i)}
+              style={{
+                flex: '0 0 auto', padding: '4px 8px', borderRadius: 8, fontSize: 11, cursor: 'pointer',
+                border: `1px solid ${active ? '#007aff' : '#ddd'}`,
+                background: active ? '#007aff' : '#fff',
+                color: active ? '#fff' : '#444',
+                textAlign: 'center', lineHeight: 1.4
+              }}
+            >
+              <div style={{ fontWeight: 600 }}>{fmt.day(d.date)}</div>
+              <div style={{ opacity: 0.8 }}>{t('schedule.freeHours', { count: d.freeSlots })}</div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Hour slots for the chosen day */}
+      {day && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 4 }}>
+          {day.slots.map((slot) => {
+            const selected = slot.state === 'free' && isSelected(slot.start, slot.end);
+            return (
+              <button
+                key={slot.start.toISOString()}
+                onClick={() => handleSlotClick(slot.start, slot.end)}
+                disabled={slot.state !== 'free'}
+                title={slot.state === 'free' ? undefined : t(`schedule.${slot.state}`)}
+                style={{
+                  padding: '6px 0', borderRadius: 6, fontSize: 11, fontWeight: 600,
+                  ...SLOT_STYLES[slot.state],
+                  ...(selected ? { background: '#007aff', color: '#fff', border: '1px solid #007aff' } : {}),
+                }}
+              >
+                {fmt.time(slot.start)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: 12, marginTop: 6, fontSize: 11, color: '#666' }}>
+        {LEGEND.map((state) => (
+          <span key={state} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+            <span style={{ width: 10, height: 10, borderRadius: 2, display: 'inline-block', ...SLOT_STYLES[state] }} />
+            {t(`schedule.${state}`)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import useBoatAuditLog from '@/hooks/useBoatAuditLog';
+import useI18n from '@/hooks/useI18n';
+import { describeDataError } from '@/lib/apiClient';
+
+interface BoatAuditLogProps {
+  boatId: string;
+  // Bumped by the page after each change so the trail reloads
+  version: number;
+}
+
+// Audit values are raw column values (ISO timestamps, ids, numbers)
+const formatValue = (value: unknown): string => (value == null || value === '' ? '–' : String(value));
+
+/**
+ * Who changed what on a boat, newest first
+ */
+export default function BoatAuditLog({ boatId, version }: BoatAuditLogProps) {
+  const { entries, loading, error } = useBoatAuditLog(boatId, version);
+  const { t, fmt } = useI18n();
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, borderRadius: 8, background: '#f8f9fa' }}>
+      <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 8 }}>{t('fleet.audit.title')}</div>
+
+      {error ? (
+        <div style={{ fontSize: 12, color: '#e74c3c' }}>{t('common.loadFailedDetail', { detail: describeDataError(error, t) })}</div>
+      ) : loading && entries.length === 0 ? (
+        <div style={{ fontSize: 12, color: '#999' }}>{t('common.loading')}</div>
+      ) : entries.length === 0 ? (
+        <div style={{ fontSize: 12, color: '#999' }}>{t('fleet.audit.empty')}</div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {entries.map((entry) => (
+            <li key={entry.id} style={{ padding: '6px 0', borderTop: '1px solid #eee', fontSize: 12 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                <span style={{ fontWeight: 600 }}>{t(`fleet.audit.action.${entry.action}`)}</span>
+                <span style={{ color: '#999' }}>{fmt.dateTime(entry.created_at)}</span>
+              </div>
+              <div style={{ color: '#666' }}>
+                {entry.actor_name ?? entry.actor_line_user_id ?? t('fleet.audit.system')}
+              </div>
+              {entry.changes && Object.entries(entry.changes).map(([field, change]) => (
+                <div key={field} style={{ color: '#666' }}>
+                  {field}: {formatValue(change.from)} → {formatValue(change.to)}
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import React from 'react';
+import useI18n from '@/hooks/useI18n';
+import { DEFAULT_BOAT_FILTERS } from '@/lib/boatFilters';
+import { BOAT_TYPES } from '@/lib/format';
+import type { MessageKey } from '@/lib/i18n';
+import type { BoatSearchFilters, BoatSort, BoatType } from '@/lib/types';
+
+interface BoatFilterPanelProps {
+  filters: BoatSearchFilters;
+  onChange: (filters: BoatSearchFilters) => void;
+}
+
+const SORT_OPTIONS: { value: BoatSort; label: MessageKey }[] = [
+  { value: 'distance', label: 'filters.sort.distance' },
+  { value: 'price', label: 'filters.sort.price' },
+  { value: 'capacity', label: 'filters.sort.capacity' },
+];
+
+const RADIUS_OPTIONS = [1, 2, 5, 10, 20];
+
+// Empty input → null (no filter)
+const parseOptionalNumber = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%', padding: '6px 8px', border: '1px solid #ddd', borderRadius: 6, fontSize: 12,
+};
+
+export default function BoatFilterPanel({ filters, onChange }: BoatFilterPanelProps) {
+  const { t, fmt } = useI18n();
+  const update = (patch: Partial<BoatSearchFilters>) => onChange({ ...filters, ...patch });
+
+  const toggleType = (type: BoatType) => {
+    const next = filters.boat_types.includes(type)
+      ? filters.boat_types.filter((t) => t !== type)
+      : [...filters.boat_types, type];
+    update({ boat_types: next });
+  };
+
+  return (
+    <div style={{ padding: '12px 16px', borderBottom: '1px solid #eee', fontSize: 12, color: '#444' }}>
+      <div style={{ fontWeight: 600, marginBottom: 6 }}>{t('filters.boatType')}</div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 10 }}>
+        {BOAT_TYPES.map((type) => {
+          const active = filters.boat_types.includes(type);
+          return (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              style={{
+                padding: '4px 10px', borderRadius: 12, fontSize: 12, cursor: 'pointer',
+                border: `1px solid ${active ? '#007aff' : '#ddd'}`,
+                background: active ? '#007aff' : '#fff',
+                color: active ? '#fff' : '#444'
+              }}
+            >
+              {fmt.boatType(type)}
+            </button>
+          );
+        })}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 6, marginBottom: 10 }}>
+        <label>
+          {t('filters.minCapacity')}
+          <input
+            type="number"
+            min={1}
+            inputMode="numeric"
+            value={filters.min_capacity ?? ''}
+            onChange={(e) => update({ min_capacity: parseOptionalNumber(e.target.value) })}
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          {t('filters.minPrice')}
+          <input
+            type="number"
+            min={0}
+            inputMode="numeric"
+            value={filters.min_price ?? ''}
+            onChange={(e) => update({ min_price: parseOptionalNumber(e.target.value) })}
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          {t('filters.maxPrice')}
+          <input
+            type="number"
+            min={0}
+            inputMode="numeric"
+            value={filters.max_price ?? ''}
+            onChange={(e) => update({ max_price: parseOptionalNumber(e.target.value) })}
+            style={inputStyle}
+          />
+        </label>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6, marginBottom: 10 }}>
+        <label>
+          {t('filters.radius')}
+          <select
+            value={filters.radius_km}
+            onChange={(e) => update({ radius_km: Number(e.target.value) })}
+            style={inputStyle}
+          >
+            {RADIUS_OPTIONS.map((km) => (
+              <option key={km} value={km}>{t('common.km', { km })}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {t('filters.sortBy')}
+          <select
+            value={filters.sort_by}
+            onChange={(e) => update({ sort_by: e.target.value as BoatSort })}
+            style={inputStyle}
+          >
+            {SORT_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>{t(opt.label)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={filters.available_only}
+            onChange={(e) => update({ available_only: e.target.checked })}
+          />
+          {t('filters.availableOnly')}
+        </label>
+        <button
+          onClick={() => onChange(DEFAULT_BOAT_FILTERS)}
+          style={{ border: 'none', background: 'transparent', color: '#007aff', cursor: 'pointer', fontSize: 12 }}
+        >
+          {t('filters.reset')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import useI18n from '@/hooks/useI18n';
+import { describeDataError } from '@/lib/apiClient';
+import { BOAT_TYPES } from '@/lib/format';
+import { BOAT_NAME_MAX_LENGTH, MAX_BOAT_CAPACITY, toBoatInput, validateBoatInput } from '@/lib/fleet';
+import type { BoatInputErrors } from '@/lib/fleet';
+import type { Boat, BoatInput, FleetOperator } from '@/lib/types';
+
+interface BoatFormProps {
+  // null adds a new boat
+  boat: Boat | null;
+  operators: FleetOperator[];
+  // Admins pick any owner when adding; owners may hand over boats they edit
+  canChooseOwner: boolean;
+  onSaved: (boatId: string) => void;
+  onCancel: () => void;
+}
+
+type FormValues = Record<keyof BoatInput, string>;
+
+const toFormValues = (boat: Boat | null): FormValues => ({
+  name: boat?.name ?? '',
+  boat_type: boat?.boat_type ?? 'standard',
+  capacity: boat ? String(boat.capacity) : '',
+  price_per_hour: boat?.price_per_hour != null ? String(boat.price_per_hour) : '',
+  home_latitude: boat?.home_latitude != null ? String(boat.home_latitude) : '',
+  home_longitude: boat?.home_longitude != null ? String(boat.home_longitude) : '',
+  owner_id: boat?.owner_id ?? '',
+});
+
+// Empty inputs stay null so validation reports them as missing
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const inputStyle: React.CSSProperties = {
+  display: 'block', width: '100%', padding: 8, marginTop: 4, border: '1px solid #ddd', borderRadius: 8,
+};
+
+/**
+ * Add / edit form for a boat; the same rules are enforced again by the API
+ */
+export default function BoatForm({ boat, operators, canChooseOwner, onSaved, onCancel }: BoatFormProps) {
+  const { saveBoat } = useBoatOperations();
+  const { t, fmt } = useI18n();
+  const [values, setValues] = useState<FormValues>(() => toFormValues(boat));
+  const [errors, setErrors] = useState<BoatInputErrors>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const setField = (field: keyof BoatInput, value: string) => {
+    setValues((current) => ({ ...current, [field]: value }));
+    setErrors((current) => ({ ...current, [field]: undefined }));
+  };
+
+  const handleSubmit = async () => {
+    const input = toBoatInput({
+      ...values,
+      capacity: toNumber(values.capacity),
+      price_per_hour: toNumber(values.price_per_hour),
+      home_latitude: toNumber(values.home_latitude),
+      home_longitude: toNumber(values.home_longitude),
+    });
+
+    const fieldErrors = validateBoatInput(input);
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
+    setSaving(true);
+    setSaveError(null);
+
+    const result = await saveBoat(boat?.id ?? null, input);
+
+    setSaving(false);
+
+    if (!result.ok || !result.data.boat_id) {
+      setSaveError(result.ok ? t('fleet.saveFailed') : describeDataError(result.error, t, t('fleet.saveFailed')));
+      return;
+    }
+
+    onSaved(result.data.boat_id);
+  };
+
+  // Fill the home location from the device (operators usually add boats at the pier)
+  const handleUseMyLocation = () => {
+    navigator.geolocation?.getCurrentPosition(
+      (position) => {
+        setField('home_latitude', position.coords.latitude.toFixed(6));
+        setField('home_longitude', position.coords.longitude.toFixed(6));
+      },
+      (err) => console.warn('[BoatForm] Geolocation error:', err.message)
+    );
+  };
+
+  const renderError = (field: keyof BoatInput) => {
+    const error = errors[field];
+    if (!error) return null;
+    return (
+      <div style={{ fontSize: 11, color: '#e74c3c', marginTop: 2 }}>
+        {t(`fleet.error.${error}`, { max: field === 'name' ? BOAT_NAME_MAX_LENGTH : MAX_BOAT_CAPACITY })}
+      </div>
+    );
+  };
+
+  const renderInput = (field: keyof BoatInput, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <label style={{ display: 'block', fontSize: 12, color: '#666', marginBottom: 8 }}>
+      {label}
+      <input
+        value={values[field]}
+        onChange={(e) => setField(field, e.target.value)}
+        style={{ ...inputStyle, borderColor: errors[field] ? '#e74c3c' : '#ddd' }}
+        {...props}
+      />
+      {renderError(field)}
+    </label>
+  );
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, borderRadius: 8, background: '#f8f9fa' }}>
+      <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 8 }}>
+        {boat ? t('fleet.editBoat') : t('fleet.addBoat')}
+      </div>
+
+      {renderInput('name', t('fleet.field.name'), { maxLength: BOAT_NAME_MAX_LENGTH })}
+
+      <label style={{ display: 'block', fontSize: 12, color: '#666', marginBottom: 8 }}>
+        {t('fleet.field.boatType')}
+        <select
+          value={values.boat_type}
+          onChange={(e) => setField('boat_type', e.target.value)}
+          style={inputStyle}
+        >
+          {BOAT_TYPES.map((type) => (
+            <option key={type} value={type}>{fmt.boatType(type)}</option>
+          ))}
+        </select>
+        {renderError('boat_type')}
+      </label>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+        {renderInput('capacity', t('fleet.field.capacity'), { type: 'number', min: 1, max: MAX_BOAT_CAPACITY, step: 1 })}
+        {renderInput('price_per_hour', t('fleet.field.pricePerHour'), { type: 'number', min: 0, step: 10 })}
+        {renderInput('home_latitude', t('fleet.field.homeLatitude'), { type: 'number', step: 'any' })}
+        {renderInput('home_longitude', t('fleet.field.homeLongitude'), { type: 'number', step: 'any' })}
+      </div>
+
+      <button
+        onClick={handleUseMyLocation}
+        style={{ border: 'none', background: 'transparent', color: '#007aff', cursor: 'pointer', fontSize: 12, padding: 0, marginBottom: 8 }}
+      >
+        {t('fleet.useMyLocation')}
+      </button>
+
+      {canChooseOwner && (
+        <label style={{ display: 'block', fontSize: 12, color: '#666', marginBottom: 8 }}>
+          {t('fleet.field.owner')}
+          <select
+            value={values.owner_id}
+            onChange={(e) => setField('owner_id', e.target.value)}
+            style={inputStyle}
+          >
+            {!boat && <option value="">{t('fleet.ownerSelf')}</option>}
+            {operators.map((o) => (
+              <option key={o.id} value={o.id}>{o.name}</option>
+            ))}
+          </select>
+          {renderError('owner_id')}
+        </label>
+      )}
+
+      {saveError && (
+        <div style={{ fontSize: 12, color: '#e74c3c', marginBottom: 8 }}>{saveError}</div>
+      )}
+
+      <div style={{ display: 'flex', gap: 8 }}>
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          style={{
+            flex: 1, padding: 10, borderRadius: 8, border: '1px solid #ddd', background: '#fff',
+            fontWeight: 600, cursor: 'pointer'
+          }}
+        >
+          {t('fleet.cancel')}
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={saving}
+          style={{
+            flex: 1, padding: 10, borderRadius: 8, border: 'none', background: '#007aff', color: '#fff',
+            fontWeight: 600, opacity: saving ? 0.6 : 1, cursor: saving ? 'wait' : 'pointer'
+          }}
+        >
+          {saving ? t('fleet.saving') : t('fleet.save')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import useBoatReviews from '@/hooks/useBoatReviews';
+import useI18n from '@/hooks/useI18n';
+import { ratingStars } from '@/lib/reviews';
+
+interface BoatReviewsProps {
+  boatId: string;
+}
+
+/**
+ * Most recent passenger reviews of a boat
+ */
+export default function BoatReviews({ boatId }: BoatReviewsProps) {
+  const { t, fmt } = useI18n();
+  const { reviews, loading, error } = useBoatReviews(boatId);
+
+  return (
+    <div style={{ marginBottom: 12 }}>
+      <div style={{ fontSize: 13, fontWeight: 600, marginBottom: 6 }}>{t('review.recent')}</div>
+
+      {error ? (
+        <div style={{ fontSize: 12, color: '#e74c3c' }}>{t('common.loadFailed')}</div>
+      ) : loading && reviews.length === 0 ? (
+        <div style={{ fontSize: 12, color: '#999' }}>{t('common.loading')}</div>
+      ) : reviews.length === 0 ? (
+        <div style={{ fontSize: 12, color: '#999' }}>{t('review.none')}</div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {reviews.map((review) => (
+            <li key={review.id} style={{ padding: '6px 0', borderBottom: '1px solid #f0f0f0', fontSize: 12 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span style={{ color: '#f39c12', letterSpacing: 1 }} aria-label={t('review.star', { count: review.rating })}>
+                  {ratingStars(review.rating)}
+                </span>
+                <span style={{ color: '#999' }}>{fmt.day(review.created_at)}</span>
+              </div>
+              {review.comment && <div style={{ color: '#444', marginTop: 2 }}>{review.comment}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
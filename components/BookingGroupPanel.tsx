@@ -0,0 +1,287 @@
+'use client';
+
+import React, { useState } from 'react';
+import useBookingGroup from '@/hooks/useBookingGroup';
+import useShareBookingInvite from '@/hooks/useShareBookingInvite';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import useI18n from '@/hooks/useI18n';
+import { describeDataError } from '@/lib/apiClient';
+import { PAYMENT_STATUS_COLORS } from '@/lib/format';
+import { seatsLeft, sharesTotal, validateShares } from '@/lib/groupBookings';
+import type { MessageKey } from '@/lib/i18n';
+import type { Boat, Booking, BookingMember, FareSplitMode } from '@/lib/types';
+
+interface BookingGroupPanelProps {
+  booking: Booking;
+  boat: Boat | undefined;
+  lineUserId: string;
+  now: number;
+}
+
+const SPLIT_MODES: { value: FareSplitMode; label: MessageKey }[] = [
+  { value: 'even', label: 'group.split.even' },
+  { value: 'custom', label: 'group.split.custom' },
+];
+
+/**
+ * Passengers of a booking and their shares of the fare
+ * The organizer invites friends, splits the fare and ticks off who paid;
+ * a joined passenger sees their own share
+ */
+export default function BookingGroupPanel({ booking, boat, lineUserId, now }: BookingGroupPanelProps) {
+  const { t, fmt } = useI18n();
+  const { group, error, refetch } = useBookingGroup(booking.id);
+  const { createBookingInvite, setBookingSplit, markMemberPaid } = useBoatOperations();
+  const { shareInvite, sharing } = useShareBookingInvite();
+  // Amounts being typed in the custom split editor; null when not editing
+  const [drafts, setDrafts] = useState<Record<string, string> | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  if (error) {
+    return <div style={{ fontSize: 12, color: '#e74c3c', marginTop: 8 }}>{t('group.loadFailed')}</div>;
+  }
+  if (!group) return null;
+
+  const members = group.members ?? [];
+  const isOrganizer = !!group.is_organizer;
+  const capacity = group.capacity ?? boat?.capacity ?? 0;
+  const total = group.total_price ?? booking.total_price ?? 0;
+  const open = (booking.status === 'pending' || booking.status === 'confirmed') &&
+    new Date(booking.end_time).getTime() > now;
+
+  // Nothing to show on a solo booking that can't be shared any more
+  if (members.length === 0 && !(isOrganizer && open)) return null;
+
+  const memberName = (member: BookingMember, index: number) =>
+    member.display_name || t('group.passenger', { number: index + 1 });
+
+  const handleInvite = async () => {
+    setNotice(null);
+    let code = group.invite_code;
+    if (!code) {
+      setBusy(true);
+      const result = await createBookingInvite(booking.id);
+      setBusy(false);
+      if (!result.ok) {
+        setNotice(describeDataError(result.error, t, t('group.inviteFailed')));
+        return;
+      }
+      code = result.data.invite_code ?? null;
+      refetch();
+    }
+    if (!code) return;
+
+    const shared = await shareInvite({
+      boat_name: boat?.name ?? t('myBookings.boat'),
+      boat_type: boat?.boat_type ?? 'standard',
+      start_time: booking.start_time,
+      end_time: booking.end_time,
+      // The organizer takes a seat as soon as the invite exists
+      seats_left: seatsLeft(capacity, Math.max(members.length, 1)),
+    }, code);
+    if (shared === 'shared') setNotice(t('group.inviteShared'));
+    else if (shared === 'copied') setNotice(t('group.inviteCopied'));
+    else if (shared === 'failed') setNotice(t('finder.shareFailed'));
+  };
+
+  const handleSplitMode = async (mode: FareSplitMode) => {
+    setNotice(null);
+    if (mode === 'custom') {
+      setDrafts(Object.fromEntries(members.map((m) => [m.line_user_id, String(m.share_amount)])));
+      return;
+    }
+    setDrafts(null);
+    if (group.split_mode === 'even') return;
+
+    setBusy(true);
+    const result = await setBookingSplit({ booking_id: booking.id, split_mode: 'even' });
+    setBusy(false);
+    if (!result.ok) setNotice(describeDataError(result.error, t, t('group.splitFailed')));
+  };
+
+  const handleSaveShares = async () => {
+    if (!drafts) return;
+    const shares = Object.fromEntries(Object.entries(drafts).map(([id, value]) => [id, Number(value)]));
+    const shareError = validateShares(total, members.map((m) => m.line_user_id), shares);
+    if (shareError) {
+      setNotice(t(`group.shareError.${shareError}`, { total: fmt.currency(total, 2) }));
+      return;
+    }
+
+    setNotice(null);
+    setBusy(true);
+    const result = await setBookingSplit({ booking_id: booking.id, split_mode: 'custom', shares });
+    setBusy(false);
+    if (!result.ok) {
+      setNotice(describeDataError(result.error, t, t('group.splitFailed')));
+      return;
+    }
+    setDrafts(null);
+  };
+
+  const handleTogglePaid = async (member: BookingMember) => {
+    setNotice(null);
+    setBusy(true);
+    const result = await markMemberPaid({
+      booking_id: booking.id,
+      member_line_user_id: member.line_user_id,
+      paid: member.payment_status !== 'paid',
+    });
+    setBusy(false);
+    if (!result.ok) setNotice(describeDataError(result.error, t, t('group.markPaidFailed')));
+  };
+
+  const mine = members.find((m) => m.line_user_id === lineUserId);
+  const organizer = members.find((m) => m.role === 'organizer');
+  const paidCount = members.filter((m) => m.payment_status === 'paid').length;
+  const editing = isOrganizer && drafts !== null;
+  const draftTotal = drafts ? sharesTotal(Object.values(drafts).map((value) => Number(value) || 0)) : 0;
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, border: '1px solid #eee', borderRadius: 10 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span style={{ fontSize: 13, fontWeight: 600 }}>👥 {t('group.title')}</span>
+        <span style={{ fontSize: 12, color: '#666' }}>
+          {t('group.seats', { count: Math.max(members.length, 1), capacity })}
+        </span>
+      </div>
+
+      {!isOrganizer && mine && (
+        <div style={{ fontSize: 13, marginTop: 4 }}>
+          {t('group.joinedFrom', { name: organizer?.display_name || t('group.organizer') })}
+          <div>
+            {t('group.yourShare')}: <strong>{fmt.currency(mine.share_amount, 2)}</strong>{' '}
+            <span style={{ fontWeight: 600, color: PAYMENT_STATUS_COLORS[mine.payment_status] }}>
+              {fmt.paymentStatus(mine.payment_status)}
+            </span>
+          </div>
+          <div style={{ fontSize: 12, color: '#999' }}>{t('group.payOrganizer')}</div>
+        </div>
+      )}
+
+      {members.length > 0 && (
+        <ul style={{ listStyle: 'none', margin: '8px 0 0', padding: 0 }}>
+          {members.map((member, index) => (
+            <li
+              key={member.id}
+              style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '4px 0', borderTop: index ? '1px solid #f5f5f5' : 'none', fontSize: 13 }}
+            >
+              <div style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {memberName(member, index)}
+                {member.role === 'organizer' && <span style={{ fontSize: 11, color: '#999' }}> · {t('group.organizer')}</span>}
+                {member.line_user_id === lineUserId && <span style={{ fontSize: 11, color: '#999' }}> · {t('group.you')}</span>}
+              </div>
+              {editing ? (
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  inputMode="decimal"
+                  aria-label={t('group.shareOf', { name: memberName(member, index) })}
+                  value={drafts[member.line_user_id] ?? ''}
+                  onChange={(e) => setDrafts((current) => ({ ...current, [member.line_user_id]: e.target.value }))}
+                  style={{ width: 90, padding: '4px 6px', border: '1px solid #ddd', borderRadius: 6, fontSize: 13, textAlign: 'right' }}
+                />
+              ) : (
+                <span style={{ fontWeight: 600 }}>{fmt.currency(member.share_amount, 2)}</span>
+              )}
+              {isOrganizer && !editing ? (
+                <button
+                  onClick={() => handleTogglePaid(member)}
+                  disabled={busy}
+                  aria-pressed={member.payment_status === 'paid'}
+                  style={{
+                    padding: '2px 8px', borderRadius: 999, fontSize: 11, fontWeight: 600, cursor: busy ? 'wait' : 'pointer',
+                    border: `1px solid ${PAYMENT_STATUS_COLORS[member.payment_status]}`,
+                    background: member.payment_status === 'paid' ? PAYMENT_STATUS_COLORS.paid : '#fff',
+                    color: member.payment_status === 'paid' ? '#fff' : PAYMENT_STATUS_COLORS.unpaid
+                  }}
+                >
+                  {fmt.paymentStatus(member.payment_status)}
+                </button>
+              ) : !editing && (
+                <span style={{ fontSize: 11, fontWeight: 600, color: PAYMENT_STATUS_COLORS[member.payment_status] }}>
+                  {fmt.paymentStatus(member.payment_status)}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isOrganizer && members.length > 1 && (
+        <div style={{ fontSize: 12, color: '#666', marginTop: 4 }}>
+          {t('group.paidCount', { paid: paidCount, count: members.length })}
+        </div>
+      )}
+
+      {isOrganizer && members.length > 1 && open && (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ display: 'flex', gap: 6 }}>
+            {SPLIT_MODES.map((mode) => {
+              const active = editing ? mode.value === 'custom' : mode.value === group.split_mode;
+              return (
+                <button
+                  key={mode.value}
+                  onClick={() => handleSplitMode(mode.value)}
+                  disabled={busy}
+                  aria-pressed={active}
+                  style={{
+                    flex: 1, padding: '6px 0', borderRadius: 8, fontSize: 12, cursor: busy ? 'wait' : 'pointer',
+                    border: `1px solid ${active ? '#007aff' : '#ddd'}`,
+                    background: active ? '#f0f8ff' : '#fff', color: active ? '#007aff' : '#666',
+                    fontWeight: active ? 600 : 400
+                  }}
+                >
+                  {t(mode.label)}
+                </button>
+              );
+            })}
+          </div>
+
+          {editing && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+              <span style={{ flex: 1, fontSize: 12, color: draftTotal === sharesTotal([total]) ? '#2ecc71' : '#e67e22' }}>
+                {t('group.sharesSum', { sum: fmt.currency(draftTotal, 2), total: fmt.currency(total, 2) })}
+              </span>
+              <button
+                onClick={() => setDrafts(null)}
+                disabled={busy}
+                style={{ padding: '6px 10px', borderRadius: 8, border: '1px solid #ddd', background: '#fff', fontSize: 12, cursor: 'pointer' }}
+              >
+                {t('group.cancelEdit')}
+              </button>
+              <button
+                onClick={handleSaveShares}
+                disabled={busy}
+                style={{
+                  padding: '6px 10px', borderRadius: 8, border: 'none', background: '#007aff', color: '#fff',
+                  fontSize: 12, fontWeight: 600, cursor: busy ? 'wait' : 'pointer'
+                }}
+              >
+                {t('group.saveShares')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {notice && <div style={{ fontSize: 12, color: '#666', marginTop: 8 }}>{notice}</div>}
+
+      {isOrganizer && open && (
+        <button
+          onClick={handleInvite}
+          disabled={busy || sharing || seatsLeft(capacity, members.length) === 0}
+          style={{
+            marginTop: 10, width: '100%', padding: '10px', borderRadius: 8,
+            border: '1px solid #2ecc71', background: '#fff', color: '#2ecc71',
+            fontWeight: 600, cursor: busy || sharing ? 'wait' : 'pointer'
+          }}
+        >
+          {seatsLeft(capacity, members.length) === 0 ? t('group.full') : t('group.invite')}
+        </button>
+      )}
+    </div>
+  );
+}
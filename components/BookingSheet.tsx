@@ -0,0 +1,355 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import useI18n from '@/hooks/useI18n';
+import { describeDataError } from '@/lib/apiClient';
+import AvailabilityCalendar from '@/components/AvailabilityCalendar';
+import PromptPayPayment from '@/components/PromptPayPayment';
+import BoatReviews from '@/components/BoatReviews';
+import QuoteBreakdown from '@/components/QuoteBreakdown';
+import { MAX_BOOKING_HOURS, PRICE_CHANGED_ERROR, quoteBooking } from '@/lib/pricing';
+import { toLocalInputValue } from '@/lib/format';
+import { enqueueBooking, isOffline } from '@/lib/offline';
+import { pierName } from '@/lib/piers';
+import type { NearbyBoat, MapCenter, CreateBookingResponse, Pier, PriceQuote } from '@/lib/types';
+
+interface BookingSheetProps {
+  boat: NearbyBoat;
+  lineUserId: string | null;
+  pickup: MapCenter | null;
+  // Piers this boat can dock at, closest first; pickupPierId = the chosen one
+  pickupPiers?: { pier: Pier; distance_m: number }[];
+  pickupPierId?: string | null;
+  onSelectPier?: (pier: Pier | null) => void;
+  pickingPickup?: boolean;
+  onRequestPickup?: () => void;
+  onClose: () => void;
+}
+
+// 'offline' = couldn't check; the booking can still be queued
+type AvailabilityState = 'idle' | 'checking' | 'available' | 'unavailable' | 'offline';
+
+// Default window: next full hour, for one hour
+const defaultWindow = () => {
+  const start = new Date();
+  start.setMinutes(0, 0, 0);
+  start.setHours(start.getHours() + 1);
+  const end = new Date(start.getTime() + 60 * 60 * 1000);
+  return { start: toLocalInputValue(start), end: toLocalInputValue(end) };
+};
+
+export default function BookingSheet({
+  boat,
+  lineUserId,
+  pickup,
+  pickupPiers = [],
+  pickupPierId = null,
+  onSelectPier,
+  pickingPickup = false,
+  onRequestPickup,
+  onClose,
+}: BookingSheetProps) {
+  const { checkAvailability, quoteBooking: fetchQuote, createBooking } = useBoatOperations();
+  const { locale, t, fmt } = useI18n();
+  const [startTime, setStartTime] = useState(() => defaultWindow().start);
+  const [endTime, setEndTime] = useState(() => defaultWindow().end);
+  const [availability, setAvailability] = useState<AvailabilityState>('idle');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<CreateBookingResponse | null>(null);
+  const [queued, setQueued] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [openedAt] = useState(() => Date.now());
+  // Server's quote after POST /api/bookings refused a changed price, for the request it priced
+  const [serverQuote, setServerQuote] = useState<{ key: string; quote: PriceQuote } | null>(null);
+
+  const start = new Date(startTime);
+  const end = new Date(endTime);
+  const validWindow = !isNaN(start.getTime()) && !isNaN(end.getTime()) && end > start;
+  const inPast = validWindow && start.getTime() < openedAt - 60 * 1000;
+  const hours = validWindow ? (end.getTime() - start.getTime()) / (60 * 60 * 1000) : 0;
+  const tooLong = hours > MAX_BOOKING_HOURS;
+  // ✅ Same engine as create_booking; the total is sent along and the booking
+  // is refused if the server prices it differently (e.g. the boat moved)
+  const requestKey = [boat.id, startTime, endTime, pickup?.lat, pickup?.lon, pickupPierId].join('|');
+  const quote = serverQuote?.key === requestKey
+    ? serverQuote.quote
+    : validWindow ? quoteBooking({ ...boat, start_time: start, end_time: end, pickup }) : null;
+
+  // ✅ Live availability check (debounced เพื่อไม่ยิง RPC ทุกครั้งที่พิมพ์)
+  useEffect(() => {
+    if (!validWindow || inPast || tooLong) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setAvailability('checking');
+      const result = await checkAvailability({
+        boat_id: boat.id,
+        start_time: new Date(startTime).toISOString(),
+        end_time: new Date(endTime).toISOString(),
+      });
+      if (cancelled) return;
+      if (!result.ok && result.error.kind === 'network') setAvailability('offline');
+      else setAvailability(result.ok && result.data ? 'available' : 'unavailable');
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [boat.id, startTime, endTime, validWindow, inPast, tooLong, checkAvailability]);
+
+  // Tapping a free slot in the calendar prefills the window
+  const handleSelectSlot = (slotStart: Date, slotEnd: Date) => {
+    setStartTime(toLocalInputValue(slotStart));
+    setEndTime(toLocalInputValue(slotEnd));
+    setAvailability('idle');
+  };
+
+  const handleConfirm = async () => {
+    if (!lineUserId) {
+      setSubmitError(t('booking.loginRequired'));
+      return;
+    }
+    if (!validWindow || inPast || !quote) return;
+
+    setSubmitting(true);
+    setSubmitError(null);
+
+    const request = {
+      boat_id: boat.id,
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      pickup_lat: pickup?.lat,
+      pickup_lon: pickup?.lon,
+      pickup_pier_id: pickupPierId ?? undefined,
+      quoted_total: quote.total,
+    };
+
+    // ✅ No signal → keep it and send when the connection returns (useBookingQueue)
+    if (isOffline()) {
+      enqueueBooking(lineUserId, request, boat.name);
+      setSubmitting(false);
+      setQueued(true);
+      return;
+    }
+
+    const result = await createBooking(request);
+
+    setSubmitting(false);
+
+    if (!result.ok && result.error.kind === 'network') {
+      enqueueBooking(lineUserId, request, boat.name);
+      setQueued(true);
+    } else if (!result.ok && result.error.message === PRICE_CHANGED_ERROR) {
+      // Show the new total; confirming again books at that price
+      const fresh = await fetchQuote(request);
+      if (fresh.ok) setServerQuote({ key: requestKey, quote: fresh.data });
+      setSubmitError(fresh.ok
+        ? t('booking.priceChanged', { total: fmt.currency(fresh.data.total) })
+        : describeDataError(fresh.error, t, t('booking.failedRetry')));
+    } else if (!result.ok) {
+      // Someone else took the slot since the availability check
+      if (result.error.kind === 'conflict') setAvailability('unavailable');
+      setSubmitError(result.error.kind === 'conflict'
+        ? t('booking.conflict')
+        : describeDataError(result.error, t, t('booking.failedRetry')));
+    } else {
+      console.log('[BookingSheet] Booking created:', result.data);
+      setResult(result.data);
+    }
+  };
+
+  const windowMessage = !validWindow
+    ? t('booking.endBeforeStart')
+    : inPast
+      ? t('booking.inPast')
+      : tooLong
+        ? t('booking.tooLong', { hours: MAX_BOOKING_HOURS })
+        : availability === 'checking' || availability === 'idle'
+          ? t('booking.checking')
+          : availability === 'available'
+            ? t('booking.available')
+            : availability === 'offline'
+              ? t('offline.availabilityUnknown')
+              : t('booking.unavailable');
+
+  const windowColor = !validWindow || inPast || tooLong || availability === 'unavailable'
+    ? '#e74c3c'
+    : availability === 'available' ? '#2ecc71' : availability === 'offline' ? '#ff9500' : '#999';
+
+  const pickupPier = pickupPiers.find((p) => p.pier.id === pickupPierId)?.pier ?? null;
+
+  const canConfirm = validWindow && !inPast && !tooLong && !!quote && (availability === 'available' || availability === 'offline') && !submitting;
+
+  // Keep the sheet out of the way while the passenger taps the map
+  if (pickingPickup) {
+    return (
+      <div style={{
+        position: 'absolute', left: 8, right: 8, bottom: 16, zIndex: 1001,
+        background: '#fff', borderRadius: 12, padding: '12px 16px',
+        boxShadow: '0 4px 16px rgba(0,0,0,0.2)', fontSize: 13, textAlign: 'center'
+      }}>
+        {t('booking.tapMapForPickup')}
+      </div>
+    );
+  }
+
+  return (
+    <div style={{
+      position: 'absolute', left: 0, right: 0, bottom: 0, zIndex: 1001,
+      background: '#fff', borderRadius: '16px 16px 0 0',
+      boxShadow: '0 -4px 16px rgba(0,0,0,0.15)', padding: '16px',
+      maxHeight: '75vh', overflow: 'auto'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+        <div>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>{t('booking.title', { name: boat.name })}</div>
+          <div style={{ fontSize: 12, color: '#666' }}>
+            {fmt.boatType(boat.boat_type)} · {fmt.people(boat.capacity)}
+            {boat.price_per_hour != null && ` · ${fmt.pricePerHour(boat.price_per_hour)}`}
+          </div>
+          {boat.operator_rating != null && (
+            <div style={{ fontSize: 12, color: '#f39c12', fontWeight: 600 }}>
+              {fmt.rating(boat.operator_rating, boat.operator_total_trips ?? 0)}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          aria-label={t('common.close')}
+          style={{ border: 'none', background: 'transparent', fontSize: 20, cursor: 'pointer', color: '#999' }}
+        >
+          ×
+        </button>
+      </div>
+
+      {queued ? (
+        <div style={{ fontSize: 14, lineHeight: 1.8 }}>
+          <div style={{ fontWeight: 700, color: '#ff9500', marginBottom: 8 }}>{t('offline.bookingQueued')}</div>
+          <div style={{ fontSize: 13, color: '#666' }}>{t('offline.bookingQueuedHint')}</div>
+          <button
+            onClick={onClose}
+            style={{
+              marginTop: 12, width: '100%', padding: '10px', border: 'none', borderRadius: 8,
+              background: '#007aff', color: '#fff', fontWeight: 600, cursor: 'pointer'
+            }}
+          >
+            {t('common.done')}
+          </button>
+        </div>
+      ) : result ? (
+        <div style={{ fontSize: 14, lineHeight: 1.8 }}>
+          <div style={{ fontWeight: 700, color: '#2ecc71', marginBottom: 8 }}>{t('booking.success')}</div>
+          <div>{t('booking.bookingId')}: <span style={{ fontFamily: 'monospace' }}>{result.booking_id}</span></div>
+          {result.total_hours != null && <div>{t('booking.duration')}: {fmt.hours(result.total_hours, 2)}</div>}
+          {result.total_price != null && <div>{t('booking.totalPrice')}: {fmt.currency(result.total_price, 2)}</div>}
+          {result.booking_id && <PromptPayPayment bookingId={result.booking_id} />}
+          <button
+            onClick={onClose}
+            style={{
+              marginTop: 12, width: '100%', padding: '10px', border: 'none', borderRadius: 8,
+              background: '#007aff', color: '#fff', fontWeight: 600, cursor: 'pointer'
+            }}
+          >
+            {t('common.done')}
+          </button>
+        </div>
+      ) : (
+        <>
+          <AvailabilityCalendar
+            boatId={boat.id}
+            selectedStart={validWindow ? start : null}
+            selectedEnd={validWindow ? end : null}
+            onSelectSlot={handleSelectSlot}
+          />
+
+          <BoatReviews boatId={boat.id} />
+
+          <label style={{ display: 'block', fontSize: 12, color: '#666', marginBottom: 8 }}>
+            {t('booking.startTime')}
+            <input
+              type="datetime-local"
+              value={startTime}
+              onChange={(e) => { setStartTime(e.target.value); setAvailability('idle'); }}
+              style={{ display: 'block', width: '100%', padding: 8, marginTop: 4, border: '1px solid #ddd', borderRadius: 8 }}
+            />
+          </label>
+          <label style={{ display: 'block', fontSize: 12, color: '#666', marginBottom: 8 }}>
+            {t('booking.endTime')}
+            <input
+              type="datetime-local"
+              value={endTime}
+              onChange={(e) => { setEndTime(e.target.value); setAvailability('idle'); }}
+              style={{ display: 'block', width: '100%', padding: 8, marginTop: 4, border: '1px solid #ddd', borderRadius: 8 }}
+            />
+          </label>
+
+          <div style={{ fontSize: 12, color: '#666', marginBottom: 8 }}>
+            {t('booking.pickup')}:{' '}
+            {pickupPier
+              ? pierName(pickupPier, locale)
+              : pickup ? `${pickup.lat.toFixed(4)}, ${pickup.lon.toFixed(4)}` : t('booking.pickupNotSet')}
+            {onRequestPickup && (
+              <button
+                onClick={onRequestPickup}
+                style={{ marginLeft: 8, border: 'none', background: 'transparent', color: '#007aff', cursor: 'pointer', fontSize: 12 }}
+              >
+                {t('booking.dropPin')}
+              </button>
+            )}
+          </div>
+
+          {onSelectPier && pickupPiers.length > 0 && (
+            <label style={{ display: 'block', fontSize: 12, color: '#666', marginBottom: 8 }}>
+              {t('booking.pickupPier')}
+              <select
+                value={pickupPierId ?? ''}
+                onChange={(e) => onSelectPier(pickupPiers.find((p) => p.pier.id === e.target.value)?.pier ?? null)}
+                style={{ display: 'block', width: '100%', padding: 8, marginTop: 4, border: '1px solid #ddd', borderRadius: 8, background: '#fff' }}
+              >
+                <option value="">{t('booking.pickupNoPier')}</option>
+                {pickupPiers.map(({ pier, distance_m }) => (
+                  <option key={pier.id} value={pier.id}>
+                    {pierName(pier, locale)} · {fmt.km(distance_m)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <div style={{ fontSize: 13, color: windowColor, fontWeight: 600, marginBottom: 8 }}>
+            {windowMessage}
+          </div>
+
+          {validWindow && !tooLong && (quote ? (
+            <QuoteBreakdown quote={quote} boatType={boat.boat_type} />
+          ) : (
+            <div style={{ fontSize: 13, marginBottom: 12, display: 'flex', justifyContent: 'space-between' }}>
+              <span>{fmt.hours(hours)}</span>
+              <span style={{ fontWeight: 700 }}>{t('booking.noPrice')}</span>
+            </div>
+          ))}
+
+          {submitError && (
+            <div style={{ fontSize: 13, color: '#e74c3c', marginBottom: 8 }}>{submitError}</div>
+          )}
+
+          <button
+            onClick={handleConfirm}
+            disabled={!canConfirm}
+            style={{
+              width: '100%', padding: '10px', border: 'none', borderRadius: 8,
+              background: canConfirm ? '#007aff' : '#ccc', color: '#fff', fontWeight: 600,
+              cursor: canConfirm ? 'pointer' : 'not-allowed'
+            }}
+          >
+            {submitting
+              ? t('booking.submitting')
+              : availability === 'offline' ? t('offline.queueBooking') : t('booking.confirm')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
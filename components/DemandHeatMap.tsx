@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { MapContainer, Rectangle, TileLayer, Tooltip } from 'react-leaflet';
+import useI18n from '@/hooks/useI18n';
+import type { HeatCell } from '@/lib/analytics';
+
+interface DemandHeatMapProps {
+  cells: HeatCell[];
+}
+
+// Rattanakosin, where most pickups are
+const DEFAULT_CENTER: [number, number] = [13.7435, 100.4950];
+
+// Pale yellow → deep red by share of the busiest cell
+const heatColor = (ratio: number) => `hsl(${Math.round(50 - 50 * ratio)}, 90%, ${Math.round(60 - 20 * ratio)}%)`;
+
+/**
+ * Pickup demand as a grid of shaded cells
+ * Client-only (Leaflet needs window) – load with next/dynamic, ssr: false
+ */
+export default function DemandHeatMap({ cells }: DemandHeatMapProps) {
+  const { t } = useI18n();
+  const maxCount = Math.max(1, ...cells.map((c) => c.count));
+
+  // Fit the map to the cells once they load
+  const bounds = useMemo<[[number, number], [number, number]] | undefined>(() => {
+    if (cells.length === 0) return undefined;
+    return [
+      [Math.min(...cells.map((c) => c.south)), Math.min(...cells.map((c) => c.west))],
+      [Math.max(...cells.map((c) => c.north)), Math.max(...cells.map((c) => c.east))],
+    ];
+  }, [cells]);
+
+  return (
+    <MapContainer
+      // Remount when the data changes so the view follows the new bounds
+      key={bounds ? bounds.flat().join(',') : 'empty'}
+      center={DEFAULT_CENTER}
+      zoom={13}
+      bounds={bounds}
+      boundsOptions={{ padding: [20, 20] }}
+      scrollWheelZoom={false}
+      style={{ width: '100%', height: 280, borderRadius: 8 }}
+    >
+      <TileLayer
+        url="https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png"
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+      />
+      {cells.map((cell) => {
+        const ratio = cell.count / maxCount;
+        return (
+          <Rectangle
+            key={`${cell.south}:${cell.west}`}
+            bounds={[[cell.south, cell.west], [cell.north, cell.east]]}
+            pathOptions={{ stroke: false, fillColor: heatColor(ratio), fillOpacity: 0.25 + 0.5 * ratio }}
+          >
+            <Tooltip>{t('analytics.pickups', { count: cell.count })}</Tooltip>
+          </Rectangle>
+        );
+      })}
+    </MapContainer>
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import React from 'react';
+import useI18n from '@/hooks/useI18n';
+import { LOCALES, type Locale } from '@/lib/i18n';
+
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={t('common.language')}
+      style={{ fontSize: 12, padding: '2px 4px', border: '1px solid #ddd', borderRadius: 6, background: '#fff' }}
+    >
+      {LOCALES.map((opt) => (
+        <option key={opt.value} value={opt.value}>{opt.label}</option>
+      ))}
+    </select>
+  );
+}
@@ -1,24 +1,333 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
-import type { NearbyBoat, BoatStatus, BoatType, MapCenter } from '@/lib/types';
+import React, { useEffect, useRef, useState } from 'react';
+import useI18n from '@/hooks/useI18n';
+import { clusterBoats, type BoatCluster } from '@/lib/clustering';
+import { BOAT_STATUS_COLORS } from '@/lib/format';
+import { canDock, pierName } from '@/lib/piers';
+import type { WaterRoute } from '@/lib/waterways';
+import type { NearbyBoat, BoatStatus, BoatType, MapCenter, MapBounds, Pier, SearchPlace } from '@/lib/types';
 
 let MapContainer: any;
 let TileLayer: any;
 let CircleMarker: any;
+let Marker: typeof import('react-leaflet').Marker;
 let Popup: any;
+let Polyline: typeof import('react-leaflet').Polyline;
+let Tooltip: typeof import('react-leaflet').Tooltip;
+let LayersControl: typeof import('react-leaflet').LayersControl;
+let LayerGroup: typeof import('react-leaflet').LayerGroup;
 let useMap: any;
+let useMapEvents: typeof import('react-leaflet').useMapEvents;
+let Leaflet: typeof import('leaflet');
 
 interface LeafletMapProps {
   center: MapCenter | null;
   boats: NearbyBoat[];
   onBoatClick?: (boat: NearbyBoat) => void;
+  onBookClick?: (boat: NearbyBoat) => void;
   selectedBoat?: NearbyBoat | null;
+  // Re-center on `center` whenever it changes (off while showing a shared boat)
+  followCenter?: boolean;
+  pickupPoint?: MapCenter | null;
+  onMapClick?: (point: MapCenter) => void;
+  // Reported (debounced) whenever the visible area changes
+  onBoundsChange?: (bounds: MapBounds) => void;
+  // Search radius from the filter panel – the map zooms to fit it when it changes
+  radiusKm?: number;
+  // Water route from the selected boat to the pickup point
+  route?: WaterRoute | null;
+  routeEtaMinutes?: number | null;
+  // Pier layer; with onPierSelect each popup offers "pick up here"
+  // (only where a boat of pickupBoatType can dock)
+  piers?: Pier[];
+  pickupPierId?: string | null;
+  pickupBoatType?: BoatType | null;
+  onPierSelect?: (pier: Pier) => void;
+  // Place picked in the search box – the map moves there and the radius
+  // is drawn around it instead of `center`
+  searchPlace?: SearchPlace | null;
 }
 
-export default function LeafletMap({ center, boats, onBoatClick, selectedBoat }: LeafletMapProps) {
+const MARKER_ANIMATION_MS = 1000;
+const BOUNDS_DEBOUNCE_MS = 400;
+const INITIAL_ZOOM = 13;
+// From this zoom on every boat gets its own marker
+const CLUSTER_MAX_ZOOM = 17;
+
+const STATUS_ORDER: BoatStatus[] = ['available', 'booked', 'busy', 'maintenance'];
+
+
+/**
+ * Interpolate a marker position between GPS fixes instead of jumping
+ * (defined at module level so the animation state survives map re-renders)
+ */
+const useAnimatedPosition = (lat: number, lon: number): [number, number] => {
+  const [displayed, setDisplayed] = useState<[number, number]>([lat, lon]);
+  const displayedRef = useRef(displayed);
+
+  useEffect(() => {
+    const [fromLat, fromLon] = displayedRef.current;
+    if (fromLat === lat && fromLon === lon) return;
+
+    const startedAt = performance.now();
+    let frame = 0;
+
+    const step = (now: number) => {
+      const t = Math.min(1, (now - startedAt) / MARKER_ANIMATION_MS);
+      // ease-out so the marker settles gently on the new fix
+      const eased = 1 - Math.pow(1 - t, 3);
+      const next: [number, number] = [
+        fromLat + (lat - fromLat) * eased,
+        fromLon + (lon - fromLon) * eased,
+      ];
+      displayedRef.current = next;
+      setDisplayed(next);
+      if (t < 1) frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [lat, lon]);
+
+  return displayed;
+};
+
+const AnimatedCircleMarker = ({ latitude, longitude, children, ...props }: {
+  latitude: number;
+  longitude: number;
+  children?: React.ReactNode;
+  [key: string]: unknown;
+}) => {
+  const center = useAnimatedPosition(latitude, longitude);
+  return (
+    <CircleMarker center={center} {...props}>
+      {children}
+    </CircleMarker>
+  );
+};
+
+const FlyTo = ({ center }: { center: MapCenter | null }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (center) {
+      map.setView([center.lat, center.lon], 14, { animate: true });
+    }
+  }, [center, map]);
+  return null;
+};
+
+// ✅ Fly to selected boat when user clicks from list
+const FlyToBoat = ({ boat }: { boat: NearbyBoat | null }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (boat && boat.latitude !== 0 && boat.longitude !== 0) {
+      console.log('[LeafletMap] Flying to selected boat:', boat.name);
+      map.setView([boat.latitude, boat.longitude], Math.max(15, map.getZoom()), {
+        animate: true,
+        duration: 0.5
+      });
+
+      // Optional: Open popup after flying
+      setTimeout(() => {
+        map.eachLayer((layer: import('leaflet').Layer) => {
+          if ((layer.options as { boatId?: string }).boatId === boat.id) {
+            layer.openPopup();
+          }
+        });
+      }, 600);
+    }
+  }, [boat, map]);
+  return null;
+};
+
+// Forward raw map clicks (used for dropping the pickup pin)
+const MapClickHandler = ({ onClick }: { onClick?: (point: MapCenter) => void }) => {
+  useMapEvents({
+    click: (e: { latlng: { lat: number; lng: number } }) => {
+      onClick?.({ lat: e.latlng.lat, lon: e.latlng.lng });
+    },
+  });
+  return null;
+};
+
+/**
+ * Report zoom right away (clustering) and the visible bounds after the
+ * user stops panning (queries). Fires once on mount as well.
+ */
+const ViewportWatcher = ({ onBoundsChange, onZoomChange }: {
+  onBoundsChange?: (bounds: MapBounds) => void;
+  onZoomChange: (zoom: number) => void;
+}) => {
+  const map = useMap();
+  const onBoundsChangeRef = useRef(onBoundsChange);
+  const onZoomChangeRef = useRef(onZoomChange);
+
+  useEffect(() => {
+    onBoundsChangeRef.current = onBoundsChange;
+    onZoomChangeRef.current = onZoomChange;
+  });
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleMove = () => {
+      onZoomChangeRef.current(map.getZoom());
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        const b = map.getBounds();
+        onBoundsChangeRef.current?.({
+          south: b.getSouth(),
+          west: b.getWest(),
+          north: b.getNorth(),
+          east: b.getEast(),
+        });
+      }, BOUNDS_DEBOUNCE_MS);
+    };
+
+    handleMove();
+    // moveend also fires at the end of every zoom
+    map.on('moveend', handleMove);
+    return () => {
+      map.off('moveend', handleMove);
+      if (timer) clearTimeout(timer);
+    };
+  }, [map]);
+
+  return null;
+};
+
+// Zoom to the filter-panel radius when it changes (not on first render)
+const FitRadius = ({ center, radiusKm }: { center: MapCenter | null; radiusKm?: number }) => {
+  const map = useMap();
+  const lastRadius = useRef(radiusKm);
+
+  useEffect(() => {
+    if (radiusKm === lastRadius.current) return;
+    lastRadius.current = radiusKm;
+    if (!center || !radiusKm) return;
+    map.fitBounds(Leaflet.latLng(center.lat, center.lon).toBounds(radiusKm * 2000), { animate: true });
+  }, [center, radiusKm, map]);
+
+  return null;
+};
+
+const clusterIcon = (cluster: BoatCluster) => {
+  const total = cluster.boats.length;
+  const size = total < 10 ? 36 : total < 50 ? 42 : 48;
+  const dots = STATUS_ORDER
+    .filter((status) => cluster.counts[status] > 0)
+    .map((status) =>
+      `<span style="display:inline-flex;align-items:center;gap:1px"><span style="width:6px;height:6px;border-radius:50%;background:${BOAT_STATUS_COLORS[status]}"></span>${cluster.counts[status]}</span>`
+    )
+    .join('');
+
+  return Leaflet.divIcon({
+    className: '',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:rgba(0,122,255,0.9);border:3px solid #fff;box-shadow:0 2px 6px rgba(0,0,0,0.3);color:#fff;display:flex;flex-direction:column;align-items:center;justify-content:center;font-family:sans-serif;line-height:1">`
+      + `<span style="font-weight:700;font-size:13px">${total}</span>`
+      + `<span style="display:flex;gap:3px;font-size:8px;margin-top:2px">${dots}</span>`
+      + `</div>`,
+  });
+};
+
+const pierIcon = (selected: boolean) =>
+  Leaflet.divIcon({
+    className: '',
+    iconSize: [22, 22],
+    iconAnchor: [11, 11],
+    html: `<div style="width:22px;height:22px;border-radius:6px;background:${selected ? '#8e44ad' : '#1f3a5f'};border:2px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,0.3);color:#fff;display:flex;align-items:center;justify-content:center;font-size:12px;line-height:1">⚓</div>`,
+  });
+
+// Pier with its names, dockable boat types and (while booking) a pickup button
+const PierMarker = ({ pier, isPickup, pickupBoatType, onSelect }: {
+  pier: Pier;
+  isPickup: boolean;
+  pickupBoatType: BoatType | null;
+  onSelect?: (pier: Pier) => void;
+}) => {
+  const { t, fmt } = useI18n();
+  const dockable = !pickupBoatType || canDock(pier, pickupBoatType);
+
+  return (
+    <Marker position={[pier.latitude, pier.longitude]} icon={pierIcon(isPickup)} zIndexOffset={-100}>
+      <Popup>
+        <div style={{ minWidth: '180px' }}>
+          <div style={{ fontWeight: 700, fontSize: 14 }}>{pier.name_th}</div>
+          <div style={{ fontSize: 12, color: '#666' }}>{pier.name_en}</div>
+          <div style={{ fontSize: 12, color: '#666', marginTop: 6 }}>
+            {t('map.pierDocks', { types: pier.boat_types.map((type) => fmt.boatType(type)).join(', ') })}
+          </div>
+          {onSelect && (
+            <button
+              onClick={() => onSelect(pier)}
+              disabled={isPickup || !dockable}
+              style={{
+                marginTop: 8, width: '100%', padding: '6px', border: 'none', borderRadius: 6,
+                background: isPickup || !dockable ? '#ccc' : '#8e44ad',
+                color: '#fff', fontWeight: 600, cursor: isPickup || !dockable ? 'default' : 'pointer'
+              }}
+            >
+              {isPickup
+                ? t('map.pierIsPickup')
+                : dockable || !pickupBoatType
+                  ? t('map.pickUpHere')
+                  : t('map.pierCannotDock', { type: fmt.boatType(pickupBoatType) })}
+            </button>
+          )}
+        </div>
+      </Popup>
+    </Marker>
+  );
+};
+
+// ✅ Tap a cluster → zoom into the boats it contains
+const ClusterMarker = ({ cluster }: { cluster: BoatCluster }) => {
+  const map = useMap();
+  const { south, west, north, east } = cluster.bounds;
+
+  const handleClick = () => {
+    if (south === north && west === east) {
+      map.setView([south, west], Math.min(map.getZoom() + 2, CLUSTER_MAX_ZOOM), { animate: true });
+      return;
+    }
+    map.fitBounds([[south, west], [north, east]], { padding: [40, 40], animate: true });
+  };
+
+  return (
+    <Marker
+      position={[cluster.latitude, cluster.longitude]}
+      icon={clusterIcon(cluster)}
+      eventHandlers={{ click: handleClick }}
+    />
+  );
+};
+
+export default function LeafletMap({
+  center,
+  followCenter = true,
+  boats,
+  onBoatClick,
+  onBookClick,
+  selectedBoat,
+  pickupPoint,
+  onMapClick,
+  onBoundsChange,
+  radiusKm,
+  route,
+  routeEtaMinutes,
+  piers = [],
+  pickupPierId = null,
+  pickupBoatType = null,
+  onPierSelect,
+  searchPlace = null,
+}: LeafletMapProps) {
   const [leafletLoaded, setLeafletLoaded] = useState(false);
   const [mapReady, setMapReady] = useState(false);
+  const [zoom, setZoom] = useState(INITIAL_ZOOM);
+  const { locale, t, fmt } = useI18n();
   const hasInitialized = React.useRef(false);
 
   useEffect(() => {
@@ -26,12 +335,19 @@ export default function LeafletMap({ center, boats, onBoatClick, selectedBoat }:
     if (hasInitialized.current) return;
     hasInitialized.current = true;
 
-    import('react-leaflet').then((m) => {
+    Promise.all([import('react-leaflet'), import('leaflet')]).then(([m, leaflet]) => {
       MapContainer = m.MapContainer;
       TileLayer = m.TileLayer;
       CircleMarker = m.CircleMarker;
+      Marker = m.Marker;
       Popup = m.Popup;
+      Polyline = m.Polyline;
+      Tooltip = m.Tooltip;
+      LayersControl = m.LayersControl;
+      LayerGroup = m.LayerGroup;
+      Leaflet = leaflet;
       useMap = m.useMap;
+      useMapEvents = m.useMapEvents;
       setLeafletLoaded(true);
       
       // Small delay to ensure everything is ready
@@ -44,7 +360,7 @@ export default function LeafletMap({ center, boats, onBoatClick, selectedBoat }:
   if (!leafletLoaded || !mapReady) {
     return (
       <div style={{ width: '100%', height: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-        <div>Loading map...</div>
+        <div>{t('map.loading')}</div>
       </div>
     );
   }
@@ -53,55 +369,20 @@ export default function LeafletMap({ center, boats, onBoatClick, selectedBoat }:
     ? [center.lat, center.lon]
     : [13.7563, 100.5018];
 
-  const colorFor = (status: BoatStatus) => {
-    switch (status) {
-      case 'available': return '#2ecc71';
-      case 'busy': return '#e74c3c';
-      case 'booked': return '#f1c40f';
-      default: return '#95a5a6';
-    }
-  };
-
-  const FlyTo = ({ center }: { center: MapCenter | null }) => {
-    const map = useMap();
-    useEffect(() => {
-      if (center) {
-        map.setView([center.lat, center.lon], 14, { animate: true });
-      }
-    }, [center, map]);
-    return null;
-  };
-
-  // ✅ Fly to selected boat when user clicks from list
-  const FlyToBoat = ({ boat }: { boat: NearbyBoat | null }) => {
-    const map = useMap();
-    useEffect(() => {
-      if (boat && boat.latitude !== 0 && boat.longitude !== 0) {
-        console.log('[LeafletMap] Flying to selected boat:', boat.name);
-        map.setView([boat.latitude, boat.longitude], 15, { 
-          animate: true,
-          duration: 0.5
-        });
-        
-        // Optional: Open popup after flying
-        setTimeout(() => {
-          map.eachLayer((layer: any) => {
-            if (layer.options?.boatId === boat.id && layer.openPopup) {
-              layer.openPopup();
-            }
-          });
-        }, 600);
-      }
-    }, [boat, map]);
-    return null;
-  };
+  // The selected boat always keeps its own marker
+  const clusters = zoom >= CLUSTER_MAX_ZOOM
+    ? []
+    : clusterBoats(boats.filter((b) => b.id !== selectedBoat?.id), zoom).filter((c) => c.boats.length > 1);
+  const clusteredIds = new Set(clusters.flatMap((c) => c.boats.map((b) => b.id)));
+  const singles = boats.filter((b) => !clusteredIds.has(b.id));
+  const pickupPier = pickupPierId ? piers.find((p) => p.id === pickupPierId) ?? null : null;
 
   return (
     <div style={{ width: '100%', height: '100vh' }}>
       {MapContainer && (
         <MapContainer
           center={defaultCenter}
-          zoom={13}
+          zoom={INITIAL_ZOOM}
           style={{ width: '100%', height: '100%' }}
           zoomControl={true}
           scrollWheelZoom={true}
@@ -122,8 +403,42 @@ export default function LeafletMap({ center, boats, onBoatClick, selectedBoat }:
             attribution='Map data: &copy; <a href="http://www.openseamap.org">OpenSeaMap</a> contributors'
           />
 
-          <FlyTo center={center} />
+          {/* Piers (ท่าเรือ) – own layer so passengers can hide them */}
+          {piers.length > 0 && (
+            <LayersControl position="bottomleft">
+              <LayersControl.Overlay checked name={t('map.piersLayer')}>
+                <LayerGroup>
+                  {piers.map((pier) => (
+                    <PierMarker
+                      key={pier.id}
+                      pier={pier}
+                      isPickup={pier.id === pickupPierId}
+                      pickupBoatType={pickupBoatType}
+                      onSelect={onPierSelect}
+                    />
+                  ))}
+                </LayerGroup>
+              </LayersControl.Overlay>
+            </LayersControl>
+          )}
+
+          {searchPlace ? <FlyTo center={searchPlace} /> : followCenter && <FlyTo center={center} />}
           <FlyToBoat boat={selectedBoat || null} />
+          <MapClickHandler onClick={onMapClick} />
+          <ViewportWatcher onBoundsChange={onBoundsChange} onZoomChange={setZoom} />
+          <FitRadius center={searchPlace ?? center} radiusKm={radiusKm} />
+
+          {route && (
+            <Polyline
+              positions={route.path.map((p) => [p.lat, p.lon])}
+              pathOptions={{ color: '#007aff', weight: 4, opacity: 0.8, dashArray: '8 6' }}
+            >
+              <Tooltip sticky>
+                {t('map.waterDistance', { km: (route.distance_m / 1000).toFixed(2) })}
+                {routeEtaMinutes != null && ` · ${fmt.minutes(routeEtaMinutes)}`}
+              </Tooltip>
+            </Polyline>
+          )}
 
           {center && (
             <CircleMarker
@@ -136,27 +451,55 @@ export default function LeafletMap({ center, boats, onBoatClick, selectedBoat }:
                   <svg width="14" height="14" viewBox="0 0 24 24" fill="#007aff">
                     <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/>
                   </svg>
-                  คุณอยู่ที่นี่
+                  {t('map.youAreHere')}
                 </div>
               </Popup>
             </CircleMarker>
           )}
 
-          {boats.map((boat) => (
+          {searchPlace && (
+            <CircleMarker
+              center={[searchPlace.lat, searchPlace.lon]}
+              radius={8}
+              pathOptions={{ color: '#e74c3c', fillColor: '#e74c3c', fillOpacity: 0.9, weight: 3 }}
+            >
+              <Tooltip permanent direction="top" offset={[0, -8]}>{searchPlace.label}</Tooltip>
+            </CircleMarker>
+          )}
+
+          {pickupPoint && (
             <CircleMarker
+              center={[pickupPoint.lat, pickupPoint.lon]}
+              radius={9}
+              pathOptions={{ color: '#8e44ad', fillColor: '#fff', fillOpacity: 1, weight: 4 }}
+            >
+              <Popup>
+                <div style={{ fontWeight: 600 }}>{t('map.pickup')}</div>
+                {pickupPier && <div style={{ fontSize: 12, color: '#666' }}>{pierName(pickupPier, locale)}</div>}
+              </Popup>
+            </CircleMarker>
+          )}
+
+          {clusters.map((cluster) => (
+            <ClusterMarker key={cluster.id} cluster={cluster} />
+          ))}
+
+          {singles.map((boat) => (
+            <AnimatedCircleMarker
               key={boat.id}
-              center={[boat.latitude, boat.longitude]}
+              latitude={boat.latitude}
+              longitude={boat.longitude}
               radius={selectedBoat?.id === boat.id ? 12 : 8}
               pathOptions={{
-                color: selectedBoat?.id === boat.id ? '#007aff' : colorFor(boat.status),
-                fillColor: colorFor(boat.status),
+                color: selectedBoat?.id === boat.id ? '#007aff' : BOAT_STATUS_COLORS[boat.status],
+                fillColor: BOAT_STATUS_COLORS[boat.status],
                 fillOpacity: selectedBoat?.id === boat.id ? 1 : 0.8,
                 weight: selectedBoat?.id === boat.id ? 3 : 2,
               }}
               eventHandlers={{
                 click: () => onBoatClick?.(boat),
               }}
-              // @ts-ignore - custom property for layer identification
+              // custom property for layer identification
               boatId={boat.id}
             >
               <Popup>
@@ -169,42 +512,49 @@ export default function LeafletMap({ center, boats, onBoatClick, selectedBoat }:
                   </div>
                   <div style={{ fontSize: 13, color: '#666', lineHeight: 1.6 }}>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: 4 }}>
-                      <svg width="12" height="12" viewBox="0 0 24 24" fill={
-                        boat.status === 'available' ? '#2ecc71' : 
-                        boat.status === 'busy' ? '#e74c3c' : 
-                        boat.status === 'booked' ? '#f1c40f' : '#95a5a6'
-                      }>
+                      <svg width="12" height="12" viewBox="0 0 24 24" fill={BOAT_STATUS_COLORS[boat.status]}>
                         <circle cx="12" cy="12" r="10"/>
                       </svg>
-                      <span style={{ 
-                        fontWeight: 600,
-                        color: boat.status === 'available' ? '#2ecc71' : 
-                               boat.status === 'busy' ? '#e74c3c' : 
-                               boat.status === 'booked' ? '#f1c40f' : '#95a5a6'
-                      }}>
-                        {boat.status === 'available' ? 'ว่าง' :
-                         boat.status === 'busy' ? 'ไม่ว่าง' :
-                         boat.status === 'booked' ? 'จองแล้ว' : 'ซ่อม'}
+                      <span style={{ fontWeight: 600, color: BOAT_STATUS_COLORS[boat.status] }}>
+                        {fmt.boatStatus(boat.status)}
                       </span>
                     </div>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: 4 }}>
                       <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                         <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"/><circle cx="9" cy="7" r="4"/>
                       </svg>
-                      {boat.capacity} คน
+                      {fmt.people(boat.capacity)}
                     </div>
                     {boat.price_per_hour && (
                       <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
                         <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                           <line x1="12" y1="1" x2="12" y2="23"/><path d="M17 5H9.5a3.5 3.5 0 0 0 0 7h5a3.5 3.5 0 0 1 0 7H6"/>
                         </svg>
-                        ฿{boat.price_per_hour.toFixed(0)}/ชม.
+                        {fmt.pricePerHour(boat.price_per_hour)}
+                      </div>
+                    )}
+                    {boat.operator_rating != null && (
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#f39c12', fontWeight: 600 }}>
+                        {fmt.rating(boat.operator_rating, boat.operator_total_trips ?? 0)}
                       </div>
                     )}
                   </div>
+                  {onBookClick && (
+                    <button
+                      onClick={() => onBookClick(boat)}
+                      disabled={boat.status === 'maintenance'}
+                      style={{
+                        marginTop: 8, width: '100%', padding: '6px', border: 'none', borderRadius: 6,
+                        background: boat.status === 'maintenance' ? '#ccc' : '#007aff',
+                        color: '#fff', fontWeight: 600, cursor: 'pointer'
+                      }}
+                    >
+                      {t('map.bookThisBoat')}
+                    </button>
+                  )}
                 </div>
               </Popup>
-            </CircleMarker>
+            </AnimatedCircleMarker>
           ))}
         </MapContainer>
       )}
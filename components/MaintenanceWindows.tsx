@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import useI18n from '@/hooks/useI18n';
+import { describeDataError } from '@/lib/apiClient';
+import { toLocalInputValue } from '@/lib/format';
+import { MAINTENANCE_REASON_MAX_LENGTH, validateMaintenanceWindow } from '@/lib/fleet';
+import type { MaintenanceWindow } from '@/lib/types';
+
+interface MaintenanceWindowsProps {
+  boatId: string;
+  // Upcoming and running windows of this boat
+  windows: MaintenanceWindow[];
+  onChanged: () => void;
+}
+
+// Default window: tomorrow 08:00–17:00
+const defaultWindow = () => {
+  const start = new Date();
+  start.setDate(start.getDate() + 1);
+  start.setHours(8, 0, 0, 0);
+  const end = new Date(start);
+  end.setHours(17);
+  return { start: toLocalInputValue(start), end: toLocalInputValue(end) };
+};
+
+const inputStyle: React.CSSProperties = {
+  display: 'block', width: '100%', padding: 8, marginTop: 4, border: '1px solid #ddd', borderRadius: 8,
+};
+
+/**
+ * Maintenance windows of a boat: list with cancel + schedule form
+ * The boat can't be booked during a window and is set to maintenance while it runs
+ */
+export default function MaintenanceWindows({ boatId, windows, onChanged }: MaintenanceWindowsProps) {
+  const { scheduleMaintenance, cancelMaintenance } = useBoatOperations();
+  const { t, fmt } = useI18n();
+  const [startTime, setStartTime] = useState(() => defaultWindow().start);
+  const [endTime, setEndTime] = useState(() => defaultWindow().end);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSchedule = async () => {
+    const windowError = validateMaintenanceWindow(startTime, endTime, reason.trim());
+    if (windowError) {
+      setFormError(t(`fleet.maintenance.error.${windowError}`));
+      return;
+    }
+
+    setBusy(true);
+    setFormError(null);
+
+    const result = await scheduleMaintenance(boatId, {
+      start_time: new Date(startTime).toISOString(),
+      end_time: new Date(endTime).toISOString(),
+      reason: reason.trim() || null,
+    });
+
+    setBusy(false);
+
+    if (!result.ok) {
+      setFormError(describeDataError(result.error, t, t('fleet.maintenance.failed')));
+      return;
+    }
+
+    setReason('');
+    onChanged();
+  };
+
+  const handleCancel = async (maintenanceWindow: MaintenanceWindow) => {
+    if (!window.confirm(t('fleet.maintenance.confirmCancel'))) return;
+
+    setBusy(true);
+    setFormError(null);
+
+    const result = await cancelMaintenance(maintenanceWindow.id);
+
+    setBusy(false);
+
+    if (!result.ok) {
+      setFormError(describeDataError(result.error, t, t('fleet.maintenance.failed')));
+      return;
+    }
+
+    onChanged();
+  };
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, borderRadius: 8, background: '#f8f9fa' }}>
+      <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 8 }}>{t('fleet.maintenance.title')}</div>
+
+      {windows.length === 0 ? (
+        <div style={{ fontSize: 12, color: '#999', marginBottom: 8 }}>{t('fleet.maintenance.none')}</div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: '0 0 8px', padding: 0 }}>
+          {windows.map((w) => (
+            <li
+              key={w.id}
+              style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8, padding: '4px 0', fontSize: 12 }}
+            >
+              <span>
+                {fmt.dateTime(w.start_time)} – {fmt.dateTime(w.end_time)}
+                {w.reason && <span style={{ color: '#666' }}> · {w.reason}</span>}
+              </span>
+              <button
+                onClick={() => handleCancel(w)}
+                disabled={busy}
+                style={{
+                  padding: '2px 8px', borderRadius: 6, fontSize: 11, border: '1px solid #e74c3c',
+                  background: '#fff', color: '#e74c3c', fontWeight: 600, cursor: busy ? 'wait' : 'pointer'
+                }}
+              >
+                {t('fleet.maintenance.cancel')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+        <label style={{ display: 'block', fontSize: 12, color: '#666' }}>
+          {t('booking.startTime')}
+          <input type="datetime-local" value={startTime} onChange={(e) => setStartTime(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={{ display: 'block', fontSize: 12, color: '#666' }}>
+          {t('booking.endTime')}
+          <input type="datetime-local" value={endTime} onChange={(e) => setEndTime(e.target.value)} style={inputStyle} />
+        </label>
+      </div>
+
+      <input
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={MAINTENANCE_REASON_MAX_LENGTH}
+        placeholder={t('fleet.maintenance.reason')}
+        style={{ ...inputStyle, margin: '8px 0' }}
+      />
+
+      {formError && (
+        <div style={{ fontSize: 12, color: '#e74c3c', marginBottom: 8 }}>{formError}</div>
+      )}
+
+      <button
+        onClick={handleSchedule}
+        disabled={busy}
+        style={{
+          width: '100%', padding: 10, borderRadius: 8, border: 'none', background: '#95a5a6', color: '#fff',
+          fontWeight: 600, opacity: busy ? 0.6 : 1, cursor: busy ? 'wait' : 'pointer'
+        }}
+      >
+        {t('fleet.maintenance.schedule')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import React from 'react';
+import useTripLocation from '@/hooks/useTripLocation';
+import useI18n from '@/hooks/useI18n';
+
+interface PassengerLocationProps {
+  bookingId: string;
+  // Only polls while the trip is running
+  active: boolean;
+}
+
+/**
+ * Operator view of the passenger's shared position during a trip
+ */
+export default function PassengerLocation({ bookingId, active }: PassengerLocationProps) {
+  const { t, fmt } = useI18n();
+  const { location } = useTripLocation(bookingId, active);
+
+  if (!active) return null;
+
+  if (!location) {
+    return <div style={{ fontSize: 11, color: '#999' }}>{t('operator.passengerLocationWaiting')}</div>;
+  }
+
+  return (
+    <div style={{ fontSize: 11, color: '#06c755', display: 'flex', gap: 8 }}>
+      <span>{t('operator.passengerLocation', { time: fmt.time(location.updated_at) })}</span>
+      <a
+        href={`https://www.google.com/maps?q=${location.latitude},${location.longitude}`}
+        target="_blank"
+        rel="noreferrer"
+        style={{ color: '#007aff', fontWeight: 600 }}
+      >
+        {t('operator.openMap')}
+      </a>
+    </div>
+  );
+}
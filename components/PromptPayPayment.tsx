@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import PromptPayQr from '@/components/PromptPayQr';
+import useBookingPayment from '@/hooks/useBookingPayment';
+import useI18n from '@/hooks/useI18n';
+import { PAYMENT_STATUS_COLORS } from '@/lib/format';
+
+interface PromptPayPaymentProps {
+  bookingId: string;
+}
+
+/**
+ * PromptPay QR for an unpaid booking; switches to "paid" live
+ * when the operator or the payment callback records the payment
+ */
+export default function PromptPayPayment({ bookingId }: PromptPayPaymentProps) {
+  const { t, fmt } = useI18n();
+  const { payment, loading, error } = useBookingPayment(bookingId);
+
+  if (error) {
+    return <div style={{ fontSize: 12, color: '#e74c3c', marginTop: 8 }}>{t('payment.loadFailed')}</div>;
+  }
+
+  if (!payment) {
+    return loading ? <div style={{ fontSize: 12, color: '#999', marginTop: 8 }}>{t('common.loading')}</div> : null;
+  }
+
+  const paid = payment.payment_status === 'paid';
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, border: '1px solid #eee', borderRadius: 10, textAlign: 'center' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+        <span style={{ fontSize: 13, fontWeight: 600 }}>{t('payment.title')}</span>
+        <span style={{
+          padding: '2px 8px', borderRadius: 999, fontSize: 11, fontWeight: 600, color: '#fff',
+          background: PAYMENT_STATUS_COLORS[payment.payment_status]
+        }}>
+          {fmt.paymentStatus(payment.payment_status)}
+        </span>
+      </div>
+
+      {paid ? (
+        payment.paid_at && (
+          <div style={{ fontSize: 12, color: '#666' }}>{t('payment.paidAt', { time: fmt.dateTime(payment.paid_at) })}</div>
+        )
+      ) : payment.promptpay_payload ? (
+        <>
+          <PromptPayQr payload={payment.promptpay_payload} />
+          <div style={{ fontSize: 12, color: '#666', marginTop: 6 }}>
+            {t('payment.scanHint', { amount: fmt.currency(payment.amount, 2) })}
+          </div>
+        </>
+      ) : (
+        <div style={{ fontSize: 12, color: '#666' }}>
+          {t('payment.amount')}: {fmt.currency(payment.amount, 2)}
+          <div style={{ marginTop: 4 }}>{t('payment.notAvailable')}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { encodeQr } from '@/lib/qrcode';
+
+interface PromptPayQrProps {
+  payload: string;
+  size?: number;
+}
+
+// Blank modules around the code, required by scanners
+const QUIET_ZONE = 4;
+
+export default function PromptPayQr({ payload, size = 200 }: PromptPayQrProps) {
+  // ✅ One path for all dark modules keeps the SVG small
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQr(payload);
+    const segments: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) segments.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`);
+      });
+    });
+    return { path: segments.join(''), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [payload]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="PromptPay QR"
+      style={{ display: 'block', margin: '0 auto', background: '#fff' }}
+    >
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import useI18n from '@/hooks/useI18n';
+import type { BoatType, PriceLine, PriceQuote } from '@/lib/types';
+
+interface QuoteBreakdownProps {
+  quote: PriceQuote;
+  boatType: BoatType;
+}
+
+/**
+ * Itemized price quote from lib/pricing.ts
+ */
+export default function QuoteBreakdown({ quote, boatType }: QuoteBreakdownProps) {
+  const { t, fmt } = useI18n();
+
+  const label = (line: PriceLine) => {
+    const hours = fmt.hours(line.hours ?? 0, 2);
+    const percent = Math.round((line.multiplier ?? 0) * 100);
+    switch (line.kind) {
+      case 'base':
+        return t('quote.line.base', { hours, rate: fmt.pricePerHour(line.rate ?? 0) });
+      case 'minimum_hours':
+        return t('quote.line.minimum_hours', { hours });
+      case 'boat_type':
+        return t('quote.line.boat_type', { type: fmt.boatType(boatType), multiplier: line.multiplier ?? 1 });
+      case 'peak':
+        return t('quote.line.peak', { percent, hours });
+      case 'holiday':
+        return t('quote.line.holiday', { percent, hours });
+      case 'pickup':
+        return t('quote.line.pickup', { distance: fmt.km(line.distance_m ?? 0) });
+    }
+  };
+
+  return (
+    <div style={{ fontSize: 12, color: '#444', marginBottom: 12 }}>
+      <div style={{ fontSize: 13, fontWeight: 600, marginBottom: 4 }}>{t('quote.title')}</div>
+      {quote.lines.map((line) => (
+        <div key={line.kind} style={{ display: 'flex', justifyContent: 'space-between', lineHeight: 1.7 }}>
+          <span>{label(line)}</span>
+          <span>{fmt.currency(line.amount, 2)}</span>
+        </div>
+      ))}
+      <div style={{
+        display: 'flex', justifyContent: 'space-between', marginTop: 4, paddingTop: 4,
+        borderTop: '1px solid #eee', fontSize: 14, fontWeight: 700, color: '#222'
+      }}>
+        <span>{t('quote.total')}</span>
+        <span>{fmt.currency(quote.total, 2)}</span>
+      </div>
+      <div style={{ fontSize: 11, color: '#999', marginTop: 2 }}>{t('quote.chargedAtBooking')}</div>
+    </div>
+  );
+}
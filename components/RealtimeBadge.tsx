@@ -0,0 +1,35 @@
+'use client';
+
+import React from 'react';
+import useI18n from '@/hooks/useI18n';
+import type { RealtimeStatus } from '@/lib/realtime';
+
+const BADGE_COLORS: Record<RealtimeStatus, string> = {
+  live: '#34c759',
+  connecting: '#999',
+  reconnecting: '#ff9500',
+  stale: '#e74c3c',
+};
+
+/**
+ * Small "● Live" pill for screens fed by realtime channels
+ */
+export default function RealtimeBadge({ status }: { status: RealtimeStatus }) {
+  const { t } = useI18n();
+  const color = BADGE_COLORS[status];
+
+  return (
+    <span
+      role="status"
+      title={status === 'stale' ? t('realtime.staleHint') : undefined}
+      style={{
+        display: 'inline-flex', alignItems: 'center', gap: 4, padding: '1px 8px',
+        border: `1px solid ${color}`, borderRadius: 10, fontSize: 11, fontWeight: 600, color,
+        whiteSpace: 'nowrap'
+      }}
+    >
+      <span style={{ width: 6, height: 6, borderRadius: '50%', background: color }} />
+      {t(`realtime.${status}`)}
+    </span>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import useI18n from '@/hooks/useI18n';
+import { describeDataError } from '@/lib/apiClient';
+import { MAX_RATING, REVIEW_COMMENT_MAX_LENGTH } from '@/lib/reviews';
+import type { Review } from '@/lib/types';
+
+interface ReviewFormProps {
+  bookingId: string;
+  boatId: string;
+  onSubmitted: (review: Review) => void;
+}
+
+const STAR_VALUES = Array.from({ length: MAX_RATING }, (_, i) => i + 1);
+
+/**
+ * Star rating + optional comment for a completed trip
+ */
+export default function ReviewForm({ bookingId, boatId, onSubmitted }: ReviewFormProps) {
+  const { submitReview } = useBoatOperations();
+  const { t } = useI18n();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (rating === 0) return;
+
+    setSubmitting(true);
+    setSubmitError(null);
+
+    const result = await submitReview({ booking_id: bookingId, rating, comment });
+
+    setSubmitting(false);
+
+    if (!result.ok || !result.data.review_id) {
+      setSubmitError(result.ok ? t('review.failed') : describeDataError(result.error, t, t('review.failed')));
+      return;
+    }
+
+    onSubmitted({
+      id: result.data.review_id,
+      booking_id: bookingId,
+      boat_id: boatId,
+      operator_id: null,
+      rating,
+      comment: comment.trim() || null,
+      created_at: new Date().toISOString(),
+    });
+  };
+
+  const canSubmit = rating > 0 && !submitting;
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, borderRadius: 8, background: '#f8f9fa' }}>
+      <div style={{ fontWeight: 600, fontSize: 14 }}>{t('review.title')}</div>
+
+      <div role="radiogroup" style={{ display: 'flex', gap: 4, margin: '4px 0 8px' }}>
+        {STAR_VALUES.map((value) => (
+          <button
+            key={value}
+            role="radio"
+            aria-checked={rating === value}
+            aria-label={t('review.star', { count: value })}
+            onClick={() => setRating(value)}
+            style={{
+              border: 'none', background: 'transparent', padding: 0, fontSize: 28, lineHeight: 1,
+              color: value <= rating ? '#f39c12' : '#ccc', cursor: 'pointer'
+            }}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        maxLength={REVIEW_COMMENT_MAX_LENGTH}
+        placeholder={t('review.commentPlaceholder')}
+        rows={3}
+        style={{
+          display: 'block', width: '100%', padding: 8, border: '1px solid #ddd', borderRadius: 8,
+          fontSize: 13, fontFamily: 'inherit', resize: 'vertical', boxSizing: 'border-box'
+        }}
+      />
+
+      {submitError && (
+        <div style={{ fontSize: 13, color: '#e74c3c', marginTop: 8 }}>{submitError}</div>
+      )}
+
+      <button
+        onClick={handleSubmit}
+        disabled={!canSubmit}
+        style={{
+          marginTop: 8, width: '100%', padding: '10px', border: 'none', borderRadius: 8,
+          background: canSubmit ? '#007aff' : '#ccc', color: '#fff', fontWeight: 600,
+          cursor: canSubmit ? 'pointer' : 'not-allowed'
+        }}
+      >
+        {submitting ? t('review.submitting') : t('review.submit')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import useI18n from '@/hooks/useI18n';
+import { LANDMARKS } from '@/lib/gazetteer';
+import { searchSuggestions, type SearchSuggestion } from '@/lib/search';
+import type { Boat, Pier } from '@/lib/types';
+
+const KIND_ICONS: Record<SearchSuggestion['kind'], string> = {
+  boat: '🚤',
+  pier: '⚓',
+  landmark: '📍',
+};
+
+interface SearchBoxProps {
+  boats: Pick<Boat, 'id' | 'name' | 'boat_type' | 'status'>[];
+  piers: Pier[];
+  // Controlled so the page can empty the box when it leaves a search
+  query: string;
+  onQueryChange: (query: string) => void;
+  onSelect: (suggestion: SearchSuggestion) => void;
+  // Called by ✕ – the page empties `query` and goes back to searching around the passenger
+  onClear: () => void;
+}
+
+/**
+ * Header search with autocomplete over boat names, piers and landmarks
+ */
+export default function SearchBox({ boats, piers, query, onQueryChange, onSelect, onClear }: SearchBoxProps) {
+  const { locale, t, fmt } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(
+    () => searchSuggestions(query, { boats, piers, landmarks: LANDMARKS }, locale),
+    [query, boats, piers, locale]
+  );
+
+  const choose = (suggestion: SearchSuggestion) => {
+    onQueryChange(suggestion.label);
+    setOpen(false);
+    onSelect(suggestion);
+  };
+
+  const clear = () => {
+    setOpen(false);
+    onClear();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!suggestions.length) return;
+      setOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((i) => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' && open && suggestions[highlighted]) {
+      e.preventDefault();
+      choose(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && query.trim().length > 0;
+
+  return (
+    <div style={{ position: 'relative', marginTop: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '6px 10px', border: '1px solid #ddd', borderRadius: 18, background: '#f8f9fa' }}>
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="#999" strokeWidth="2">
+          <circle cx="11" cy="11" r="8"/><line x1="21" y1="21" x2="16.65" y2="16.65"/>
+        </svg>
+        <input
+          type="search"
+          role="combobox"
+          aria-expanded={showList}
+          aria-controls="search-suggestions"
+          aria-autocomplete="list"
+          aria-label={t('search.placeholder')}
+          placeholder={t('search.placeholder')}
+          value={query}
+          onChange={(e) => {
+            onQueryChange(e.target.value);
+            setHighlighted(0);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          style={{ flex: 1, minWidth: 0, border: 'none', outline: 'none', background: 'transparent', fontSize: 14 }}
+        />
+        {query && (
+          <button
+            onClick={clear}
+            aria-label={t('search.clear')}
+            style={{ border: 'none', background: 'none', color: '#999', fontSize: 14, cursor: 'pointer', padding: 0 }}
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {showList && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          style={{
+            position: 'absolute', top: '100%', left: 0, right: 0, marginTop: 4, padding: 0, listStyle: 'none',
+            background: '#fff', borderRadius: 12, boxShadow: '0 4px 16px rgba(0,0,0,0.15)', maxHeight: 320,
+            overflow: 'auto', zIndex: 1100
+          }}
+        >
+          {suggestions.length === 0 && (
+            <li style={{ padding: '10px 14px', fontSize: 13, color: '#999' }}>{t('search.noResults')}</li>
+          )}
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.kind}:${suggestion.id}`}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(suggestion);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              style={{
+                display: 'flex', alignItems: 'center', gap: 10, padding: '8px 14px', cursor: 'pointer',
+                background: index === highlighted ? '#f0f8ff' : 'transparent', borderBottom: '1px solid #f5f5f5'
+              }}
+            >
+              <span aria-hidden style={{ fontSize: 16 }}>{KIND_ICONS[suggestion.kind]}</span>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: 14, fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {suggestion.label}
+                </div>
+                <div style={{ fontSize: 11, color: '#999' }}>
+                  {suggestion.kind === 'boat'
+                    ? `${fmt.boatType(suggestion.boat.boat_type)} · ${fmt.boatStatus(suggestion.boat.status)}`
+                    : t(`search.${suggestion.kind}`)}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { useEffect } from 'react';
+
+/**
+ * Registers public/sw.js (tile + page cache for offline use)
+ * Production only – in dev it would serve stale bundles over hot reload
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then((registration) => console.log('[ServiceWorker] Registered:', registration.scope))
+      .catch((err) => console.error('[ServiceWorker] Registration failed:', err));
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { getBoatAuditLogResponseSchema } from '@/lib/schema';
+import type { BoatAuditEntry } from '@/lib/types';
+
+/**
+ * Hook that loads a boat's audit trail (newest first)
+ * `version` reloads it after a change made on the same page
+ */
+export default function useBoatAuditLog(boatId: string | null, version = 0) {
+  const [entries, setEntries] = useState<BoatAuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    if (!boatId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await apiRequest(
+        `/api/boats/${encodeURIComponent(boatId)}/audit`,
+        getBoatAuditLogResponseSchema
+      );
+
+      setEntries(data.entries ?? []);
+    } catch (err) {
+      console.error('[useBoatAuditLog] Error:', err);
+      setError(toDataError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [boatId]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries, version]);
+
+  return { entries, loading, error, refetch: fetchEntries } as const;
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { parseRows, toDataError, type DataError } from '@/lib/apiClient';
+import { boatSchema } from '@/lib/schema';
+import type { Boat } from '@/lib/types';
+
+// Columns of daranee.boats without the PostGIS location column
+const BOAT_COLUMNS =
+  'id, name, status, boat_type, capacity, price_per_hour, owner_id, home_latitude, home_longitude, retired_at, created_at, updated_at';
+
+// Shared across components – one list of names per page load is enough for search
+let directoryPromise: Promise<Boat[]> | null = null;
+
+const loadDirectory = () => {
+  if (!directoryPromise) {
+    directoryPromise = (async () => {
+      const boats = parseRows(
+        await supabase.schema('daranee').from('boats').select(BOAT_COLUMNS).order('name'),
+        boatSchema
+      ).filter((boat) => !boat.retired_at);
+      console.log(`[useBoatDirectory] Loaded ${boats.length} boats`);
+      return boats;
+    })().catch((err) => {
+      // Allow a retry on the next mount
+      directoryPromise = null;
+      throw err;
+    });
+  }
+  return directoryPromise;
+};
+
+/**
+ * Hook that loads every active boat (not only nearby ones) so the search
+ * box can find a boat by name wherever it is
+ */
+export default function useBoatDirectory() {
+  const [boats, setBoats] = useState<Boat[]>([]);
+  const [error, setError] = useState<DataError | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadDirectory()
+      .then((rows) => {
+        if (!cancelled) setBoats(rows);
+      })
+      .catch((err) => {
+        console.error('[useBoatDirectory] Error:', err);
+        if (!cancelled) setError(toDataError(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { boats, error } as const;
+}
@@ -1,114 +1,306 @@
 "use client";
 
-import { useState } from 'react';
-import { supabase } from '@/lib/supabaseClient';
+import { useCallback, useState } from 'react';
+import { apiRequest, toResult, type DataError, type Result } from '@/lib/apiClient';
+import {
+  availabilityResponseSchema,
+  cancelBookingResponseSchema,
+  cancelMaintenanceResponseSchema,
+  completeBookingResponseSchema,
+  createBookingInviteResponseSchema,
+  createBookingResponseSchema,
+  quoteBookingResponseSchema,
+  joinBookingResponseSchema,
+  markBookingPaidResponseSchema,
+  markMemberPaidResponseSchema,
+  retireBoatResponseSchema,
+  saveBoatResponseSchema,
+  scheduleMaintenanceResponseSchema,
+  setBookingSplitResponseSchema,
+  submitReviewResponseSchema,
+  updateBoatStatusResponseSchema,
+} from '@/lib/schema';
 import type {
-  UpdateBoatStatusParams,
+  UpdateBoatStatusRequest,
   UpdateBoatStatusResponse,
-  CreateBookingParams,
+  CreateBookingRequest,
   CreateBookingResponse,
+  QuoteBookingRequest,
+  PriceQuote,
   CheckBoatAvailabilityParams,
+  CancelBookingRequest,
+  CancelBookingResponse,
+  MarkBookingPaidResponse,
+  CompleteBookingResponse,
+  SubmitReviewRequest,
+  SubmitReviewResponse,
+  SaveBoatRequest,
+  SaveBoatResponse,
+  RetireBoatResponse,
+  ScheduleMaintenanceRequest,
+  ScheduleMaintenanceResponse,
+  CancelMaintenanceResponse,
+  CreateBookingInviteResponse,
+  JoinBookingResponse,
+  SetBookingSplitRequest,
+  SetBookingSplitResponse,
+  MarkMemberPaidRequest,
+  MarkMemberPaidResponse,
 } from '@/lib/types';
 
 /**
  * Hook for boat operation functions
  * Handles booking, status updates, and availability checks
+ * All calls go through /api routes, which verify the LIFF ID token
+ * Each operation resolves to a Result – branch on `error.kind`
+ * (e.g. 'conflict' when the slot was taken meanwhile)
  */
 export function useBoatOperations() {
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<DataError | null>(null);
 
-  /**
-   * Update boat status (e.g., available, busy, booked, maintenance)
-   */
-  const updateBoatStatus = async (
-    params: UpdateBoatStatusParams
-  ): Promise<UpdateBoatStatusResponse | null> => {
+  const run = useCallback(async <T,>(name: string, request: () => Promise<T>): Promise<Result<T>> => {
     setLoading(true);
     setError(null);
 
-    try {
-      const { data, error: rpcError } = await supabase.rpc('update_boat_status', {
-        boat_id: params.boat_id,
-        new_status: params.new_status,
-        caller_line_user_id: params.caller_line_user_id,
-      });
-
-      if (rpcError) throw rpcError;
+    const result = await toResult(request());
 
-      return data as UpdateBoatStatusResponse;
-    } catch (err: any) {
-      console.error('[useBoatOperations] updateBoatStatus error:', err);
-      setError(err.message || String(err));
-      return null;
-    } finally {
-      setLoading(false);
+    if (!result.ok) {
+      console.error(`[useBoatOperations] ${name} error:`, result.error);
+      setError(result.error);
     }
-  };
+    setLoading(false);
+
+    return result;
+  }, []);
+
+  /**
+   * Update boat status (e.g., available, busy, booked, maintenance)
+   */
+  const updateBoatStatus = useCallback((
+    params: UpdateBoatStatusRequest
+  ): Promise<Result<UpdateBoatStatusResponse>> =>
+    run('updateBoatStatus', () => apiRequest(
+      `/api/boats/${encodeURIComponent(params.boat_id)}/status`,
+      updateBoatStatusResponseSchema,
+      { method: 'POST', body: { status: params.new_status } }
+    )), [run]);
 
   /**
    * Check if a boat is available for a specific time period
    */
-  const checkAvailability = async (
+  const checkAvailability = useCallback((
     params: CheckBoatAvailabilityParams
-  ): Promise<boolean> => {
-    setLoading(true);
-    setError(null);
+  ): Promise<Result<boolean>> => {
+    const query = new URLSearchParams({
+      start_time: params.start_time,
+      end_time: params.end_time,
+    });
 
-    try {
-      const { data, error: rpcError } = await supabase.rpc('check_boat_availability', {
-        boat_id: params.boat_id,
-        start_time: params.start_time,
-        end_time: params.end_time,
-      });
-
-      if (rpcError) throw rpcError;
-
-      return data as boolean;
-    } catch (err: any) {
-      console.error('[useBoatOperations] checkAvailability error:', err);
-      setError(err.message || String(err));
-      return false;
-    } finally {
-      setLoading(false);
-    }
-  };
+    return run('checkAvailability', async () => {
+      const data = await apiRequest(
+        `/api/boats/${encodeURIComponent(params.boat_id)}/availability?${query}`,
+        availabilityResponseSchema,
+        { auth: false }
+      );
+      return data.available;
+    });
+  }, [run]);
 
   /**
-   * Create a new boat booking
+   * Price a booking window as POST /api/bookings would charge it right now
    */
-  const createBooking = async (
-    params: CreateBookingParams
-  ): Promise<CreateBookingResponse | null> => {
-    setLoading(true);
-    setError(null);
+  const quoteBooking = useCallback((
+    params: QuoteBookingRequest
+  ): Promise<Result<PriceQuote>> =>
+    run('quoteBooking', async () => {
+      const data = await apiRequest('/api/bookings/quote', quoteBookingResponseSchema, {
+        method: 'POST',
+        body: params,
+        auth: false,
+      });
+      return data.quote;
+    }), [run]);
 
-    try {
-      const { data, error: rpcError } = await supabase.rpc('create_booking', {
+  /**
+   * Create a new boat booking at the total the passenger confirmed
+   */
+  const createBooking = useCallback((
+    params: CreateBookingRequest
+  ): Promise<Result<CreateBookingResponse>> =>
+    run('createBooking', () => apiRequest('/api/bookings', createBookingResponseSchema, {
+      method: 'POST',
+      body: {
         boat_id: params.boat_id,
-        line_user_id: params.line_user_id,
         start_time: params.start_time,
         end_time: params.end_time,
         pickup_lat: params.pickup_lat,
         pickup_lon: params.pickup_lon,
-      });
+        pickup_pier_id: params.pickup_pier_id,
+        quoted_total: params.quoted_total,
+      },
+    })), [run]);
 
-      if (rpcError) throw rpcError;
+  /**
+   * Cancel a pending/confirmed booking owned by the caller
+   */
+  const cancelBooking = useCallback((
+    params: CancelBookingRequest
+  ): Promise<Result<CancelBookingResponse>> =>
+    run('cancelBooking', () => apiRequest(
+      `/api/bookings/${encodeURIComponent(params.booking_id)}/cancel`,
+      cancelBookingResponseSchema,
+      { method: 'POST' }
+    )), [run]);
 
-      return data as CreateBookingResponse;
-    } catch (err: any) {
-      console.error('[useBoatOperations] createBooking error:', err);
-      setError(err.message || String(err));
-      return null;
-    } finally {
-      setLoading(false);
-    }
-  };
+  /**
+   * Operator confirms a booking's payment received outside the app
+   */
+  const markBookingPaid = useCallback((
+    bookingId: string
+  ): Promise<Result<MarkBookingPaidResponse>> =>
+    run('markBookingPaid', () => apiRequest(
+      `/api/bookings/${encodeURIComponent(bookingId)}/paid`,
+      markBookingPaidResponseSchema,
+      { method: 'POST' }
+    )), [run]);
+
+  /**
+   * End a trip: operator once it has started, passenger once end_time has passed
+   */
+  const completeBooking = useCallback((
+    bookingId: string
+  ): Promise<Result<CompleteBookingResponse>> =>
+    run('completeBooking', () => apiRequest(
+      `/api/bookings/${encodeURIComponent(bookingId)}/complete`,
+      completeBookingResponseSchema,
+      { method: 'POST' }
+    )), [run]);
+
+  /**
+   * Rate a completed trip (1–5) with an optional comment
+   */
+  const submitReview = useCallback((
+    params: SubmitReviewRequest
+  ): Promise<Result<SubmitReviewResponse>> =>
+    run('submitReview', () => apiRequest(
+      `/api/bookings/${encodeURIComponent(params.booking_id)}/review`,
+      submitReviewResponseSchema,
+      { method: 'POST', body: { rating: params.rating, comment: params.comment ?? null } }
+    )), [run]);
+
+  /**
+   * Join code for a booking the caller made – created on first call
+   */
+  const createBookingInvite = useCallback((
+    bookingId: string
+  ): Promise<Result<CreateBookingInviteResponse>> =>
+    run('createBookingInvite', () => apiRequest(
+      `/api/bookings/${encodeURIComponent(bookingId)}/invite`,
+      createBookingInviteResponseSchema,
+      { method: 'POST' }
+    )), [run]);
+
+  /**
+   * Join someone else's booking through its invite code
+   */
+  const joinBooking = useCallback((
+    inviteCode: string
+  ): Promise<Result<JoinBookingResponse>> =>
+    run('joinBooking', () => apiRequest(
+      `/api/invites/${encodeURIComponent(inviteCode)}/join`,
+      joinBookingResponseSchema,
+      { method: 'POST' }
+    )), [run]);
+
+  /**
+   * Organizer splits the fare evenly or by custom shares
+   */
+  const setBookingSplit = useCallback((
+    params: SetBookingSplitRequest
+  ): Promise<Result<SetBookingSplitResponse>> =>
+    run('setBookingSplit', () => apiRequest(
+      `/api/bookings/${encodeURIComponent(params.booking_id)}/split`,
+      setBookingSplitResponseSchema,
+      { method: 'POST', body: { split_mode: params.split_mode, shares: params.shares ?? null } }
+    )), [run]);
+
+  /**
+   * Organizer marks a passenger's share paid or unpaid
+   */
+  const markMemberPaid = useCallback((
+    params: MarkMemberPaidRequest
+  ): Promise<Result<MarkMemberPaidResponse>> =>
+    run('markMemberPaid', () => apiRequest(
+      `/api/bookings/${encodeURIComponent(params.booking_id)}/member-payment`,
+      markMemberPaidResponseSchema,
+      { method: 'POST', body: { line_user_id: params.member_line_user_id, paid: params.paid } }
+    )), [run]);
+
+  /**
+   * Create a boat (boatId null) or edit one – fleet administration
+   */
+  const saveBoat = useCallback((
+    boatId: string | null,
+    input: SaveBoatRequest
+  ): Promise<Result<SaveBoatResponse>> =>
+    run('saveBoat', () => apiRequest(
+      boatId ? `/api/boats/${encodeURIComponent(boatId)}` : '/api/boats',
+      saveBoatResponseSchema,
+      { method: 'POST', body: input }
+    )), [run]);
+
+  /**
+   * Retire a boat (no upcoming bookings allowed)
+   */
+  const retireBoat = useCallback((
+    boatId: string
+  ): Promise<Result<RetireBoatResponse>> =>
+    run('retireBoat', () => apiRequest(
+      `/api/boats/${encodeURIComponent(boatId)}/retire`,
+      retireBoatResponseSchema,
+      { method: 'POST' }
+    )), [run]);
+
+  /**
+   * Schedule a maintenance window for a boat
+   */
+  const scheduleMaintenance = useCallback((
+    boatId: string,
+    params: ScheduleMaintenanceRequest
+  ): Promise<Result<ScheduleMaintenanceResponse>> =>
+    run('scheduleMaintenance', () => apiRequest(
+      `/api/boats/${encodeURIComponent(boatId)}/maintenance`,
+      scheduleMaintenanceResponseSchema,
+      { method: 'POST', body: params }
+    )), [run]);
+
+  const cancelMaintenance = useCallback((
+    windowId: string
+  ): Promise<Result<CancelMaintenanceResponse>> =>
+    run('cancelMaintenance', () => apiRequest(
+      `/api/maintenance-windows/${encodeURIComponent(windowId)}/cancel`,
+      cancelMaintenanceResponseSchema,
+      { method: 'POST' }
+    )), [run]);
 
   return {
     updateBoatStatus,
     checkAvailability,
+    quoteBooking,
     createBooking,
+    cancelBooking,
+    markBookingPaid,
+    completeBooking,
+    submitReview,
+    createBookingInvite,
+    joinBooking,
+    setBookingSplit,
+    markMemberPaid,
+    saveBoat,
+    retireBoat,
+    scheduleMaintenance,
+    cancelMaintenance,
     loading,
     error,
   };
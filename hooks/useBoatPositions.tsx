@@ -0,0 +1,27 @@
+"use client";
+
+import useRealtimeChannel from '@/hooks/useRealtimeChannel';
+import { parseRealtimePayload } from '@/lib/apiClient';
+import { boatPositionUpdateSchema } from '@/lib/schema';
+import type { RealtimeStatus } from '@/lib/realtime';
+import type { BoatPositionUpdate } from '@/lib/types';
+
+/**
+ * Hook to listen for boat GPS fixes on the position broadcast channel
+ * Payloads carry coordinates, unlike postgres_changes on daranee.boats
+ * `onResync` – see useRealtimeBoats
+ */
+export default function useBoatPositions(
+  onUpdate: (update: BoatPositionUpdate) => void,
+  onResync?: () => void
+): RealtimeStatus {
+  return useRealtimeChannel(
+    'daranee:boat_positions',
+    (channel, emit) => channel.on('broadcast', { event: 'position' }, ({ payload }) => emit(payload)),
+    (payload) => {
+      const update = parseRealtimePayload(payload, boatPositionUpdateSchema, 'useBoatPositions');
+      if (update) onUpdate(update);
+    },
+    onResync
+  );
+}
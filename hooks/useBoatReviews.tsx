@@ -0,0 +1,51 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { parseRows, toDataError, type DataError } from '@/lib/apiClient';
+import { reviewSchema } from '@/lib/schema';
+import { RECENT_REVIEWS_LIMIT } from '@/lib/reviews';
+import type { Review } from '@/lib/types';
+
+/**
+ * Hook that loads the most recent reviews of a boat (public)
+ */
+export default function useBoatReviews(boatId: string | null, limit = RECENT_REVIEWS_LIMIT) {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchReviews = useCallback(async () => {
+    if (!boatId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const rows = parseRows(
+        await supabase
+          .schema('daranee')
+          .from('reviews')
+          .select('id, booking_id, boat_id, operator_id, rating, comment, created_at')
+          .eq('boat_id', boatId)
+          .order('created_at', { ascending: false })
+          .limit(limit),
+        reviewSchema
+      );
+
+      setReviews(rows);
+      console.log(`[useBoatReviews] Loaded ${rows.length} reviews for ${boatId}`);
+    } catch (err) {
+      console.error('[useBoatReviews] Error:', err);
+      setError(toDataError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [boatId, limit]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  return { reviews, loading, error, refetch: fetchReviews } as const;
+}
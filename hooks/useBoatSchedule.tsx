@@ -0,0 +1,59 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { busyIntervalsResponseSchema } from '@/lib/schema';
+import { scheduleRange, SCHEDULE_DAYS } from '@/lib/schedule';
+import useBookingChanges from '@/hooks/useBookingChanges';
+import type { BookingChangeSignal, BusyInterval } from '@/lib/types';
+
+/**
+ * Hook that loads a boat's busy intervals for the next `days` days
+ * and reloads them when one of the boat's bookings changes
+ */
+export default function useBoatSchedule(boatId: string | null, days = SCHEDULE_DAYS) {
+  const [intervals, setIntervals] = useState<BusyInterval[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchSchedule = useCallback(async () => {
+    if (!boatId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { start, end } = scheduleRange(Date.now(), days);
+      const query = new URLSearchParams({
+        range_start: start.toISOString(),
+        range_end: end.toISOString(),
+      });
+      const data = await apiRequest(
+        `/api/boats/${encodeURIComponent(boatId)}/busy-intervals?${query}`,
+        busyIntervalsResponseSchema,
+        { auth: false }
+      );
+
+      setIntervals(data.intervals);
+      console.log(`[useBoatSchedule] Loaded ${data.intervals.length} busy intervals for ${boatId}`);
+    } catch (err) {
+      console.error('[useBoatSchedule] Error:', err);
+      setError(toDataError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [boatId, days]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  // Any change to this boat's bookings can free or take a slot
+  const handleBookingChange = useCallback((signal: BookingChangeSignal) => {
+    if (signal.boat_id === boatId) fetchSchedule();
+  }, [boatId, fetchSchedule]);
+
+  useBookingChanges(handleBookingChange, Boolean(boatId));
+
+  return { intervals, loading, error, refetch: fetchSchedule } as const;
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import useRealtimeChannel from '@/hooks/useRealtimeChannel';
+import { parseRealtimePayload } from '@/lib/apiClient';
+import { bookingChangeSignalSchema } from '@/lib/schema';
+import type { RealtimeStatus } from '@/lib/realtime';
+import type { BookingChangeSignal } from '@/lib/types';
+
+const TOPIC = 'daranee:booking_changes';
+
+interface Subscriber {
+  onChange: (signal: BookingChangeSignal) => void;
+  onResync?: () => void;
+}
+
+// supabase.channel() hands out one instance per topic and it can only be
+// subscribed once, so the first mounted hook owns the channel and fans
+// messages out to every other one on the page
+const subscribers: { current: Subscriber }[] = [];
+let sharedStatus: RealtimeStatus = 'connecting';
+const storeListeners = new Set<() => void>();
+
+const notify = () => storeListeners.forEach((listener) => listener());
+
+const subscribeStore = (listener: () => void) => {
+  storeListeners.add(listener);
+  return () => {
+    storeListeners.delete(listener);
+  };
+};
+
+/**
+ * Hook that signals booking changes from the booking broadcast channel
+ * The signal carries the booking and boat ids only: callers check whether
+ * it concerns them and refetch through the API
+ * `enabled` false = caller is not ready yet; `onResync` – see useRealtimeBoats
+ */
+export default function useBookingChanges(
+  onChange: (signal: BookingChangeSignal) => void,
+  enabled = true,
+  onResync?: () => void
+): RealtimeStatus {
+  const self = useRef<Subscriber>({ onChange, onResync });
+
+  useEffect(() => {
+    self.current = { onChange, onResync };
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    subscribers.push(self);
+    notify();
+    return () => {
+      subscribers.splice(subscribers.indexOf(self), 1);
+      if (subscribers.length === 0) sharedStatus = 'connecting';
+      notify();
+    };
+  }, [enabled]);
+
+  const owner = useSyncExternalStore(subscribeStore, () => subscribers[0] === self, () => false);
+
+  const ownStatus = useRealtimeChannel(
+    owner ? TOPIC : null,
+    (channel, emit) => channel.on('broadcast', { event: 'booking_change' }, ({ payload }) => emit(payload)),
+    (payload) => {
+      const signal = parseRealtimePayload(payload, bookingChangeSignalSchema, 'useBookingChanges');
+      if (signal) subscribers.forEach((s) => s.current.onChange(signal));
+    },
+    () => subscribers.forEach((s) => s.current.onResync?.())
+  );
+
+  useEffect(() => {
+    if (!owner) return;
+    sharedStatus = ownStatus;
+    notify();
+  }, [owner, ownStatus]);
+
+  const status = useSyncExternalStore(subscribeStore, () => sharedStatus, () => 'connecting' as const);
+  return enabled ? status : 'connecting';
+}
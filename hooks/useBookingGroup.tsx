@@ -0,0 +1,52 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { getBookingGroupResponseSchema } from '@/lib/schema';
+import useBookingChanges from '@/hooks/useBookingChanges';
+import type { BookingChangeSignal, GetBookingGroupResponse } from '@/lib/types';
+
+/**
+ * Hook that loads the passengers of a group booking with their shares
+ * Joining, re-splitting and payments touch the booking row, so a change
+ * to it reloads the group
+ */
+export default function useBookingGroup(bookingId: string | null) {
+  const [group, setGroup] = useState<GetBookingGroupResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchGroup = useCallback(async () => {
+    if (!bookingId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await apiRequest(
+        `/api/bookings/${encodeURIComponent(bookingId)}/group`,
+        getBookingGroupResponseSchema
+      );
+
+      setGroup(data);
+      console.log(`[useBookingGroup] ${bookingId}: ${data.members?.length ?? 0} passengers`);
+    } catch (err) {
+      console.error('[useBookingGroup] Error:', err);
+      setError(toDataError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    fetchGroup();
+  }, [fetchGroup]);
+
+  const handleBookingChange = useCallback((signal: BookingChangeSignal) => {
+    if (signal.id === bookingId) fetchGroup();
+  }, [bookingId, fetchGroup]);
+
+  useBookingChanges(handleBookingChange, Boolean(bookingId));
+
+  return { group, loading, error, refetch: fetchGroup } as const;
+}
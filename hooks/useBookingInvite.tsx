@@ -0,0 +1,43 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { getBookingInviteResponseSchema } from '@/lib/schema';
+import type { GetBookingInviteResponse } from '@/lib/types';
+
+/**
+ * Hook that loads the trip behind a join link once the user is known
+ */
+export default function useBookingInvite(inviteCode: string | null, lineUserId: string | null) {
+  const [invite, setInvite] = useState<GetBookingInviteResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchInvite = useCallback(async () => {
+    if (!inviteCode || !lineUserId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await apiRequest(
+        `/api/invites/${encodeURIComponent(inviteCode)}`,
+        getBookingInviteResponseSchema
+      );
+
+      setInvite(data);
+      console.log(`[useBookingInvite] ${inviteCode}: ${data.member_count}/${data.capacity} seats taken`);
+    } catch (err) {
+      console.error('[useBookingInvite] Error:', err);
+      setError(toDataError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [inviteCode, lineUserId]);
+
+  useEffect(() => {
+    fetchInvite();
+  }, [fetchInvite]);
+
+  return { invite, loading, error, refetch: fetchInvite } as const;
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { bookingPaymentSchema } from '@/lib/schema';
+import useBookingChanges from '@/hooks/useBookingChanges';
+import type { BookingChangeSignal, BookingPayment } from '@/lib/types';
+
+/**
+ * Hook that loads a booking's payment (amount, status, PromptPay payload)
+ * and reloads it when the booking row changes, e.g. the operator marks it paid
+ */
+export default function useBookingPayment(bookingId: string | null) {
+  const [payment, setPayment] = useState<BookingPayment | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchPayment = useCallback(async () => {
+    if (!bookingId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await apiRequest(
+        `/api/bookings/${encodeURIComponent(bookingId)}/payment`,
+        bookingPaymentSchema
+      );
+
+      setPayment(data);
+      console.log(`[useBookingPayment] ${bookingId}: ${data.payment_status}`);
+    } catch (err) {
+      console.error('[useBookingPayment] Error:', err);
+      setError(toDataError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    fetchPayment();
+  }, [fetchPayment]);
+
+  const handleBookingChange = useCallback((signal: BookingChangeSignal) => {
+    if (signal.id === bookingId) fetchPayment();
+  }, [bookingId, fetchPayment]);
+
+  useBookingChanges(handleBookingChange, Boolean(bookingId));
+
+  return { payment, loading, error, refetch: fetchPayment } as const;
+}
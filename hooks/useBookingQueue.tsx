@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { useBoatOperations } from '@/hooks/useBoatOperations';
+import {
+  getQueuedBookings,
+  getServerQueuedBookings,
+  isOffline,
+  isQueuedBookingExpired,
+  removeQueuedBooking,
+  subscribeBookingQueue,
+  updateQueuedBooking,
+  type QueuedBooking,
+} from '@/lib/offline';
+import { PRICE_CHANGED_ERROR } from '@/lib/pricing';
+import type { DataError } from '@/lib/apiClient';
+import type { CreateBookingResponse } from '@/lib/types';
+
+export type QueuedBookingOutcome =
+  | { entry: QueuedBooking; status: 'sent'; data: CreateBookingResponse }
+  | { entry: QueuedBooking; status: 'failed'; error: DataError }
+  // The window started before the booking could be sent
+  | { entry: QueuedBooking; status: 'expired' }
+  // The price changed; the entry waits for confirmPrice or discard
+  | { entry: QueuedBooking; status: 'repriced'; total: number };
+
+const keepsQueue = (error: DataError) => error.kind === 'network' || error.kind === 'authorization';
+
+/**
+ * Hook that sends the signed-in passenger's bookings queued while offline
+ * (see enqueueBooking). Flushes once `lineUserId` is known (LIFF logged in –
+ * requests need the ID token) and whenever the browser comes back online,
+ * oldest first. Each entry is re-quoted before it is sent: when the total
+ * differs from the one the passenger saw, it is held until they confirm the
+ * new price. Network / auth failures leave the rest queued; bookings whose
+ * start time has passed and any other failure (slot taken) drop the entry.
+ * Everything that happens to an entry is reported via `onOutcome`.
+ */
+export default function useBookingQueue(
+  lineUserId: string | null,
+  onOutcome?: (outcome: QueuedBookingOutcome) => void
+) {
+  const getSnapshot = useCallback(() => getQueuedBookings(lineUserId), [lineUserId]);
+  const queued = useSyncExternalStore(subscribeBookingQueue, getSnapshot, getServerQueuedBookings);
+  const { quoteBooking, createBooking } = useBoatOperations();
+  const flushing = useRef(false);
+  const outcomeRef = useRef(onOutcome);
+
+  useEffect(() => {
+    outcomeRef.current = onOutcome;
+  });
+
+  const flush = useCallback(async () => {
+    if (!lineUserId || flushing.current || isOffline()) return;
+    flushing.current = true;
+
+    const drop = (outcome: QueuedBookingOutcome) => {
+      removeQueuedBooking(lineUserId, outcome.entry.id);
+      outcomeRef.current?.(outcome);
+    };
+
+    // 'send' at the quoted total, 'skip' (held or dropped), or 'stop' and keep the rest queued
+    const checkPrice = async (entry: QueuedBooking): Promise<'send' | 'skip' | 'stop'> => {
+      const quote = await quoteBooking(entry.request);
+      if (!quote.ok) {
+        if (keepsQueue(quote.error)) return 'stop';
+        drop({ entry, status: 'failed', error: quote.error });
+        return 'skip';
+      }
+      if (quote.data.total === entry.request.quoted_total) return 'send';
+
+      const held = { ...entry, repriced_total: quote.data.total };
+      updateQueuedBooking(lineUserId, entry.id, held);
+      outcomeRef.current?.({ entry: held, status: 'repriced', total: quote.data.total });
+      return 'skip';
+    };
+
+    try {
+      for (const entry of getQueuedBookings(lineUserId)) {
+        if (entry.repriced_total != null) continue;
+
+        if (isQueuedBookingExpired(entry, Date.now())) {
+          drop({ entry, status: 'expired' });
+          continue;
+        }
+
+        const priced = await checkPrice(entry);
+        if (priced === 'stop') {
+          console.log('[useBookingQueue] Could not re-quote - keeping queue');
+          return;
+        }
+        if (priced === 'skip') continue;
+
+        const result = await createBooking(entry.request);
+
+        if (!result.ok && keepsQueue(result.error)) {
+          console.log(`[useBookingQueue] ${result.error.kind} error - keeping queue`);
+          return;
+        }
+
+        // The price moved between the quote and the booking
+        if (!result.ok && result.error.message === PRICE_CHANGED_ERROR) {
+          if ((await checkPrice(entry)) === 'stop') return;
+          continue;
+        }
+
+        console.log(`[useBookingQueue] Queued booking for ${entry.boat_name}:`, result.ok ? 'sent' : result.error.message);
+        drop(result.ok
+          ? { entry, status: 'sent', data: result.data }
+          : { entry, status: 'failed', error: result.error });
+      }
+    } finally {
+      flushing.current = false;
+    }
+  }, [lineUserId, quoteBooking, createBooking]);
+
+  /**
+   * Accept the new total of a repriced entry and send it
+   */
+  const confirmPrice = useCallback((entry: QueuedBooking) => {
+    if (!lineUserId || entry.repriced_total == null) return;
+    const { repriced_total: total, ...rest } = entry;
+    updateQueuedBooking(lineUserId, entry.id, { ...rest, request: { ...entry.request, quoted_total: total } });
+    flush();
+  }, [lineUserId, flush]);
+
+  const discard = useCallback((entry: QueuedBooking) => {
+    if (lineUserId) removeQueuedBooking(lineUserId, entry.id);
+  }, [lineUserId]);
+
+  useEffect(() => {
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, [flush]);
+
+  return { queued, flush, confirmPrice, discard } as const;
+}
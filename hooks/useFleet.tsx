@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { getFleetResponseSchema } from '@/lib/schema';
+import type { GetFleetResponse } from '@/lib/types';
+
+/**
+ * Hook that loads the fleet the caller administers: their boats
+ * (every boat for admins, retired ones included), possible owners
+ * and upcoming maintenance windows
+ */
+export default function useFleet(lineUserId: string | null) {
+  const [fleet, setFleet] = useState<GetFleetResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchFleet = useCallback(async () => {
+    if (!lineUserId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await apiRequest('/api/fleet', getFleetResponseSchema);
+
+      setFleet(data);
+      console.log(`[useFleet] Loaded ${data.boats?.length ?? 0} boats`);
+    } catch (err) {
+      console.error('[useFleet] Error:', err);
+      setError(toDataError(err));
+    } finally {
+      setLoading(false);
+      setLoaded(true);
+    }
+  }, [lineUserId]);
+
+  useEffect(() => {
+    fetchFleet();
+  }, [fetchFleet]);
+
+  return { fleet, loading, loaded, error, refetch: fetchFleet } as const;
+}
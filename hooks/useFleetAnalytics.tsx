@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { getFleetAnalyticsResponseSchema } from '@/lib/schema';
+import type { AnalyticsData, AnalyticsRange } from '@/lib/analytics';
+
+/**
+ * Hook that loads the raw analytics rows (boats, bookings, status history)
+ * of the caller's fleet for a date range
+ */
+export default function useFleetAnalytics(lineUserId: string | null, range: AnalyticsRange) {
+  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!lineUserId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const query = new URLSearchParams({ start: range.start, end: range.end });
+      const response = await apiRequest(`/api/analytics?${query}`, getFleetAnalyticsResponseSchema);
+
+      setData({
+        boats: response.boats ?? [],
+        bookings: response.bookings ?? [],
+        status_history: response.status_history ?? [],
+      });
+      console.log(`[useFleetAnalytics] Loaded ${response.bookings?.length ?? 0} bookings`);
+    } catch (err) {
+      console.error('[useFleetAnalytics] Error:', err);
+      setError(toDataError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [lineUserId, range.start, range.end]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  return { data, loading, error, refetch: fetchAnalytics } as const;
+}
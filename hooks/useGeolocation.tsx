@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { distanceMeters } from '@/lib/geo';
+import type { MessageKey } from '@/lib/i18n';
+import type { MapCenter } from '@/lib/types';
+
+// Smaller moves are ignored (watchPosition fires every few seconds)
+const MIN_MOVE_METERS = 50;
+
+type GeolocationError = { key: MessageKey; detail?: string };
+
+const UNSUPPORTED: GeolocationError = { key: 'error.geolocationUnsupported' };
+
+/**
+ * Hook that watches the device position once `enabled`
+ * Only reports moves larger than MIN_MOVE_METERS
+ */
+export default function useGeolocation(enabled: boolean) {
+  const [position, setPosition] = useState<MapCenter | null>(null);
+  const [error, setError] = useState<GeolocationError | null>(null);
+  // Known up front, so the effect never has to set it
+  const [unsupported] = useState(() => typeof navigator !== 'undefined' && !('geolocation' in navigator));
+
+  useEffect(() => {
+    if (!enabled || unsupported) return;
+
+    let lastPosition: MapCenter | null = null;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        const newPosition: MapCenter = {
+          lat: pos.coords.latitude,
+          lon: pos.coords.longitude,
+        };
+
+        // ✅ Debounce: อัปเดตเฉพาะเมื่อขยับมากกว่า 50 เมตร
+        // ป้องกัน watchPosition ยิงทุก 2-5 วิ → battery drain + API quota
+        if (!lastPosition) {
+          // First position - always update
+          setPosition(newPosition);
+          lastPosition = newPosition;
+          console.log('[useGeolocation] Initial position set');
+        } else {
+          const distance = distanceMeters(lastPosition, newPosition);
+
+          if (distance > MIN_MOVE_METERS) {
+            setPosition(newPosition);
+            lastPosition = newPosition;
+            console.log(`[useGeolocation] Position updated (moved ${distance.toFixed(0)}m)`);
+          } else {
+            console.log(`[useGeolocation] Position change ignored (only ${distance.toFixed(0)}m)`);
+          }
+        }
+      },
+      (err) => {
+        console.error('[useGeolocation] Geolocation error:', err);
+        setError({ key: 'error.geolocationFailed', detail: err.message });
+      },
+      {
+        enableHighAccuracy: true,
+        maximumAge: 5000,
+        timeout: 10000,
+      }
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+    };
+  }, [enabled, unsupported]);
+
+  return { position, error: enabled && unsupported ? UNSUPPORTED : error } as const;
+}
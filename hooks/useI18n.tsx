@@ -0,0 +1,25 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { createFormatter } from '@/lib/format';
+import {
+  DEFAULT_LOCALE,
+  getLocale,
+  setLocale,
+  subscribeLocale,
+  translate,
+  type Translate,
+} from '@/lib/i18n';
+
+/**
+ * Hook that exposes the active locale, a translator and shared formatters.
+ * Server render (and hydration) always uses the default locale.
+ */
+export default function useI18n() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale, () => DEFAULT_LOCALE);
+
+  return useMemo(() => {
+    const t: Translate = (key, vars) => translate(locale, key, vars);
+    return { locale, setLocale, t, fmt: createFormatter(locale) };
+  }, [locale]);
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import useI18n from '@/hooks/useI18n';
+import { applyLiffLanguage, type MessageKey } from '@/lib/i18n';
+
+declare global {
+  interface Window {
+    liff: any;
+  }
+}
+
+// ✅ Dev mode fallback: ถ้าไม่มี LIFF_ID หรือเปิดนอก LINE app
+const LIFF_ID = process.env.NEXT_PUBLIC_LIFF_ID || '';
+const DEV_MODE = !LIFF_ID || LIFF_ID === 'your_liff_id';
+
+// Optional fixed identity for testing user-specific screens in DEV mode
+const DEV_LINE_USER_ID = process.env.NEXT_PUBLIC_DEV_LINE_USER_ID || null;
+
+/**
+ * Hook that loads the LIFF SDK and resolves the current LINE profile
+ * Falls back to DEV mode when NEXT_PUBLIC_LIFF_ID is not configured
+ */
+export default function useLiff() {
+  const [liffReady, setLiffReady] = useState(DEV_MODE);
+  const [lineUserId, setLineUserId] = useState<string | null>(DEV_MODE ? DEV_LINE_USER_ID : null);
+  const { t } = useI18n();
+  // Kept as a message key so the text follows language changes
+  const [error, setError] = useState<{ key: MessageKey; detail?: string } | null>(
+    DEV_MODE ? { key: 'error.liffDevMode' } : null
+  );
+
+  useEffect(() => {
+    const scriptId = 'liff-sdk';
+
+    if (DEV_MODE) {
+      console.warn('[LIFF] LIFF_ID missing or not configured – running in DEV mode');
+      return;
+    }
+
+    if (!document.getElementById(scriptId)) {
+      const script = document.createElement('script');
+      script.id = scriptId;
+      script.src = 'https://static.line-scdn.net/liff/edge/2/sdk.js';
+      script.async = true;
+      script.onload = () => initLiff();
+      document.head.appendChild(script);
+    } else {
+      initLiff();
+    }
+
+    function initLiff() {
+      if (!window.liff) {
+        setError({ key: 'error.liffSdkFailed' });
+        return;
+      }
+
+      window.liff
+        .init({ liffId: LIFF_ID })
+        .then(() => {
+          console.log('[LIFF] Initialized successfully');
+
+          // ✅ Follow the language the passenger uses in LINE
+          applyLiffLanguage(window.liff.getAppLanguage?.() ?? window.liff.getLanguage?.());
+
+          // ✅ Check if running inside LINE app
+          if (!window.liff.isInClient()) {
+            console.warn('[LIFF] Not running in LINE app');
+            setError({ key: 'error.liffNotInClient' });
+            // Still allow usage for testing
+            setLiffReady(true);
+            return;
+          }
+
+          setLiffReady(true);
+
+          // Get user profile
+          if (window.liff.isLoggedIn()) {
+            window.liff
+              .getProfile()
+              .then((profile: any) => {
+                if (profile && profile.userId) {
+                  setLineUserId(profile.userId);
+                  localStorage.setItem('lineUserId', profile.userId);
+                  console.log('[LIFF] User logged in:', profile.userId);
+                }
+              })
+              .catch((err: any) => {
+                console.error('[LIFF] Failed to get profile:', err);
+              });
+          }
+        })
+        .catch((err: any) => {
+          console.error('[LIFF] Init failed:', err);
+          setError({ key: 'error.liffInitFailed', detail: String(err) });
+
+          // ✅ Fallback: ให้ใช้งานได้แม้ LIFF fail (dev-friendly)
+          setLiffReady(true);
+        });
+    }
+  }, []);
+
+  return {
+    liffReady,
+    lineUserId,
+    devMode: DEV_MODE,
+    error: error ? t(error.key, { detail: error.detail ?? '' }) : null,
+  } as const;
+}
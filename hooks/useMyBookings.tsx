@@ -0,0 +1,50 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { getPassengerBookingsResponseSchema } from '@/lib/schema';
+import type { Boat, Booking, Review } from '@/lib/types';
+
+/**
+ * Hook that loads every booking made by the signed-in LINE user,
+ * plus the boats referenced by those bookings and the reviews left on them
+ * Served by GET /api/bookings, which takes the user from the verified ID token
+ */
+export default function useMyBookings(lineUserId: string | null) {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [boatsById, setBoatsById] = useState<Record<string, Boat>>({});
+  const [reviewsByBookingId, setReviewsByBookingId] = useState<Record<string, Review>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchBookings = useCallback(async () => {
+    if (!lineUserId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await apiRequest('/api/bookings', getPassengerBookingsResponseSchema);
+      const rows = data.bookings ?? [];
+
+      setBookings(rows);
+      setBoatsById(Object.fromEntries((data.boats ?? []).map((b) => [b.id, b])));
+      setReviewsByBookingId(Object.fromEntries((data.reviews ?? []).map((r) => [r.booking_id, r])));
+
+      console.log(`[useMyBookings] Loaded ${rows.length} bookings`);
+    } catch (err) {
+      console.error('[useMyBookings] Error:', err);
+      setError(toDataError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [lineUserId]);
+
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings]);
+
+  return {
+    bookings, boatsById, reviewsByBookingId, loading, error, setBookings, setReviewsByBookingId, refetch: fetchBookings,
+  } as const;
+}
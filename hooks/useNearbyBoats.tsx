@@ -1,17 +1,41 @@
 "use client";
 
-import { useEffect, useState } from 'react';
-import { supabase } from '@/lib/supabaseClient';
-import type { NearbyBoat, BoatStatus, FindNearbyBoatsParams } from '@/lib/types';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { rpcRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { array, nearbyBoatSchema } from '@/lib/schema';
+import { distanceMeters } from '@/lib/geo';
+import { readFleetSnapshot, saveFleetSnapshot } from '@/lib/offline';
+import type {
+  NearbyBoat,
+  BoatStatus,
+  BoatType,
+  BoatSort,
+  FindNearbyBoatsParams,
+  FindBoatsInBoundsParams,
+  BoatPositionUpdate,
+  MapBounds,
+} from '@/lib/types';
 
 interface UseNearbyBoatsOptions {
   lat: number | null;
   lon: number | null;
   radius_km?: number;
   status?: BoatStatus | null;
+  boat_types?: BoatType[] | null;
+  min_capacity?: number | null;
+  min_price?: number | null;
+  max_price?: number | null;
+  sort_by?: BoatSort;
+  // When set, query the visible map area, still limited to radius_km
+  // around lat/lon (or around the middle of the viewport)
+  bounds?: MapBounds | null;
   autoFetch?: boolean;
 }
 
+const insideBounds = (bounds: MapBounds, latitude: number, longitude: number) =>
+  latitude >= bounds.south && latitude <= bounds.north &&
+  longitude >= bounds.west && longitude <= bounds.east;
+
 export default function useNearbyBoats(
   options: UseNearbyBoatsOptions | number | null,
   lon?: number | null,
@@ -22,15 +46,37 @@ export default function useNearbyBoats(
     ? options
     : { lat: options, lon: lon ?? null, radius_km, autoFetch: true };
 
-  const { lat, lon: longitude, radius_km: radiusKm = 5, status = null, autoFetch = true } = opts;
+  const {
+    lat,
+    lon: longitude,
+    radius_km: radiusKm = 5,
+    status = null,
+    boat_types: boatTypes = null,
+    min_capacity: minCapacity = null,
+    min_price: minPrice = null,
+    max_price: maxPrice = null,
+    sort_by: sortBy = 'distance',
+    bounds = null,
+    autoFetch = true,
+  } = opts;
+
+  // Arrays/objects get a new identity every render – key effects on their contents
+  const boatTypesKey = boatTypes?.length ? [...boatTypes].sort().join(',') : '';
+  const boundsKey = bounds ? [bounds.south, bounds.west, bounds.north, bounds.east].map((v) => v.toFixed(5)).join(',') : '';
 
   const [boats, setBoats] = useState<NearbyBoat[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<DataError | null>(null);
+  // Set while showing the last saved result because the network is down
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  // Only the latest request may update state (pans fire many in a row)
+  const requestSeq = useRef(0);
 
   const fetchNearby = async (params?: Partial<FindNearbyBoatsParams>) => {
-    const queryLat = params?.lat ?? lat;
-    const queryLon = params?.lon ?? longitude;
+    const queryBounds = params ? null : bounds;
+    // Distance reference: the passenger, or the middle of the viewport
+    const queryLat = params?.lat ?? lat ?? (queryBounds ? (queryBounds.south + queryBounds.north) / 2 : null);
+    const queryLon = params?.lon ?? longitude ?? (queryBounds ? (queryBounds.west + queryBounds.east) / 2 : null);
     const queryRadius = params?.radius_km ?? radiusKm;
     const queryStatus = params?.boat_status ?? status;
 
@@ -39,50 +85,155 @@ export default function useNearbyBoats(
       return;
     }
 
+    const seq = ++requestSeq.current;
     setLoading(true);
     setError(null);
 
     try {
-      const rpcParams: FindNearbyBoatsParams = {
-        lat: queryLat,
-        lon: queryLon,
-        radius_km: queryRadius,
+      // ✅ Filters and sort go into the query
+      const filterParams = {
         boat_status: queryStatus,
+        boat_types: params?.boat_types ?? (boatTypesKey ? (boatTypesKey.split(',') as BoatType[]) : null),
+        min_capacity: params?.min_capacity ?? minCapacity,
+        min_price: params?.min_price ?? minPrice,
+        max_price: params?.max_price ?? maxPrice,
+        sort_by: params?.sort_by ?? sortBy,
       };
 
-      // ✅ Call RPC function in daranee schema
-      const { data, error: rpcError } = await supabase
-        .schema('daranee')
-        .rpc('find_nearby_boats', rpcParams);
-
-      if (rpcError) throw rpcError;
-
-      setBoats((data as NearbyBoat[]) || []);
-      console.log(`[useNearbyBoats] Found ${data?.length || 0} boats`);
-    } catch (err: any) {
+      let data: NearbyBoat[];
+
+      if (queryBounds) {
+        const rpcParams: FindBoatsInBoundsParams = {
+          min_lat: queryBounds.south,
+          min_lon: queryBounds.west,
+          max_lat: queryBounds.north,
+          max_lon: queryBounds.east,
+          ref_lat: queryLat,
+          ref_lon: queryLon,
+          radius_km: queryRadius,
+          ...filterParams,
+        };
+        data = await rpcRequest('find_boats_in_bounds', rpcParams, array(nearbyBoatSchema));
+      } else {
+        const rpcParams: FindNearbyBoatsParams = {
+          lat: queryLat,
+          lon: queryLon,
+          radius_km: queryRadius,
+          ...filterParams,
+        };
+        // ✅ Call RPC function in daranee schema
+        data = await rpcRequest('find_nearby_boats', rpcParams, array(nearbyBoatSchema));
+      }
+
+      if (seq !== requestSeq.current) return;
+
+      setBoats(data);
+      setCachedAt(null);
+      saveFleetSnapshot(data);
+      console.log(`[useNearbyBoats] Found ${data.length} boats`);
+    } catch (err) {
+      if (seq !== requestSeq.current) return;
       console.error('[useNearbyBoats] Error:', err);
-      setError(err.message || String(err));
+      const dataError = toDataError(err);
+      setError(dataError);
+
+      // ✅ No signal on the river → keep showing the last known fleet
+      const snapshot = dataError.kind === 'network' ? readFleetSnapshot() : null;
+      if (snapshot) {
+        setBoats(snapshot.boats.map((b) => ({
+          ...b,
+          distance_m: distanceMeters({ lat: queryLat, lon: queryLon }, { lat: b.latitude, lon: b.longitude }),
+        })));
+        setCachedAt(snapshot.saved_at);
+        console.log(`[useNearbyBoats] Offline - showing ${snapshot.boats.length} boats from ${snapshot.saved_at}`);
+      }
     } finally {
-      setLoading(false);
+      if (seq === requestSeq.current) setLoading(false);
     }
   };
 
+  // Keep the latest fetch/boats in refs so stable callbacks can use them
+  const fetchRef = useRef(fetchNearby);
+  const boatsRef = useRef(boats);
+  const boundsRef = useRef(bounds);
   useEffect(() => {
-    if (!autoFetch) return;
+    fetchRef.current = fetchNearby;
+    boatsRef.current = boats;
+    boundsRef.current = bounds;
+  });
+  const refetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Unknown boats that already triggered a refetch for the current query
+  const probedIds = useRef<Set<string>>(new Set());
 
-    let mounted = true;
+  useEffect(() => {
+    probedIds.current = new Set();
+  }, [lat, longitude, radiusKm, status, boatTypesKey, minCapacity, minPrice, maxPrice, boundsKey]);
+
+  /**
+   * Merge a GPS fix in place: move the boat, recompute distance_m,
+   * drop it if it left the search area (radius, and viewport). An unknown
+   * boat entering the area triggers one debounced refetch (we don't have
+   * its details yet).
+   */
+  const applyPositionUpdate = useCallback((update: BoatPositionUpdate) => {
+    const bounds = boundsRef.current;
+    const refLat = lat ?? (bounds ? (bounds.south + bounds.north) / 2 : null);
+    const refLon = longitude ?? (bounds ? (bounds.west + bounds.east) / 2 : null);
+    if (refLat == null || refLon == null) return;
+
+    const distance = distanceMeters(
+      { lat: refLat, lon: refLon },
+      { lat: update.latitude, lon: update.longitude }
+    );
+    const inside = distance <= radiusKm * 1000 &&
+      (!bounds || insideBounds(bounds, update.latitude, update.longitude));
+    const known = boatsRef.current.some((b) => b.id === update.id);
+
+    if (known) {
+      setBoats((current) => {
+        if (!inside) return current.filter((b) => b.id !== update.id);
+
+        return current.map((b) =>
+          b.id === update.id
+            ? {
+                ...b,
+                latitude: update.latitude,
+                longitude: update.longitude,
+                heading: update.heading,
+                distance_m: distance,
+              }
+            : b
+        );
+      });
+      return;
+    }
+
+    if (inside && !probedIds.current.has(update.id)) {
+      probedIds.current.add(update.id);
+      if (!refetchTimer.current) {
+        refetchTimer.current = setTimeout(() => {
+          refetchTimer.current = null;
+          fetchRef.current();
+        }, 1000);
+      }
+    }
+  }, [lat, longitude, radiusKm]);
 
-    const runFetch = async () => {
-      if (lat == null || longitude == null) return;
-      await fetchNearby();
-    };
+  useEffect(() => () => {
+    if (refetchTimer.current) clearTimeout(refetchTimer.current);
+  }, []);
 
-    runFetch();
+  // Stable identity – callers put it in effect/callback deps (e.g. realtime resync)
+  const refetch = useCallback(
+    (params?: Partial<FindNearbyBoatsParams>) => fetchRef.current(params),
+    []
+  );
 
-    return () => {
-      mounted = false;
-    };
-  }, [lat, longitude, radiusKm, status, autoFetch]);
+  useEffect(() => {
+    if (!autoFetch) return;
+    if ((lat == null || longitude == null) && !boundsKey) return;
+    fetchNearby();
+  }, [lat, longitude, radiusKm, status, boatTypesKey, minCapacity, minPrice, maxPrice, boundsKey, autoFetch]);
 
-  return { boats, loading, error, setBoats, refetch: fetchNearby } as const;
+  return { boats, loading, error, cachedAt, setBoats, refetch, applyPositionUpdate } as const;
 }
@@ -0,0 +1,60 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { getOperatorConsoleResponseSchema } from '@/lib/schema';
+import type { Boat, Booking, ConsoleOperator } from '@/lib/types';
+
+// [start, end) of the current local day as ISO strings
+const todayRange = () => {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return { start: start.toISOString(), end: end.toISOString() };
+};
+
+/**
+ * Hook that loads the signed-in operator's profile,
+ * the boats they own and today's bookings for those boats
+ */
+export default function useOperatorBoats(lineUserId: string | null) {
+  const [operator, setOperator] = useState<ConsoleOperator | null>(null);
+  const [boats, setBoats] = useState<Boat[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchAll = useCallback(async () => {
+    if (!lineUserId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const query = new URLSearchParams(todayRange());
+      const response = await apiRequest(`/api/operator?${query}`, getOperatorConsoleResponseSchema);
+
+      setOperator(response.operator ?? null);
+      setBoats(response.boats ?? []);
+      setBookings(response.bookings ?? []);
+      console.log(`[useOperatorBoats] Loaded ${response.boats?.length ?? 0} boats, ${response.bookings?.length ?? 0} bookings today`);
+    } catch (err) {
+      console.error('[useOperatorBoats] Error:', err);
+      // get_operator_console refuses callers who aren't operators
+      setOperator(null);
+      setBoats([]);
+      setBookings([]);
+      setError(toDataError(err));
+    } finally {
+      setLoading(false);
+      setLoaded(true);
+    }
+  }, [lineUserId]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  return { operator, boats, bookings, loading, loaded, error, setBoats, setBookings, refetch: fetchAll } as const;
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { parseRows, toDataError, type DataError } from '@/lib/apiClient';
+import { pierSchema } from '@/lib/schema';
+import type { Pier } from '@/lib/types';
+
+// Shared across components – piers rarely change, load them once per page load
+let piersPromise: Promise<Pier[]> | null = null;
+
+const loadPiers = () => {
+  if (!piersPromise) {
+    piersPromise = (async () => {
+      const piers = parseRows(
+        await supabase.schema('daranee').from('piers').select('*').order('name_en'),
+        pierSchema
+      );
+      console.log(`[usePiers] Loaded ${piers.length} piers`);
+      return piers;
+    })().catch((err) => {
+      // Allow a retry on the next mount
+      piersPromise = null;
+      throw err;
+    });
+  }
+  return piersPromise;
+};
+
+/**
+ * Hook that loads the pier (ท่าเรือ) dataset for the map layer and pickups
+ */
+export default function usePiers() {
+  const [piers, setPiers] = useState<Pier[]>([]);
+  const [error, setError] = useState<DataError | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadPiers()
+      .then((rows) => {
+        if (!cancelled) setPiers(rows);
+      })
+      .catch((err) => {
+        console.error('[usePiers] Error:', err);
+        if (!cancelled) setError(toDataError(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { piers, error } as const;
+}
@@ -1,45 +1,34 @@
 "use client";
 
-import { useEffect } from 'react';
-import { supabase } from '@/lib/supabaseClient';
+import useRealtimeChannel from '@/hooks/useRealtimeChannel';
+import { parseRealtimePayload } from '@/lib/apiClient';
+import { boatChangeSchema } from '@/lib/schema';
+import type { RealtimeStatus } from '@/lib/realtime';
 import type { RealtimePayload, Boat } from '@/lib/types';
 
 /**
  * Hook to listen for real-time changes on boats table
  * Uses new 'daranee' schema
+ *
+ * Reconnects on its own; `onResync` runs when changes may have been missed
+ * (after a reconnect or when the page is visible again) so the caller can
+ * reload in full. Returns the connection state for a live badge.
  */
-export default function useRealtimeBoats(onChange: (payload: RealtimePayload<Boat>) => void) {
-  useEffect(() => {
-    // Subscribe to changes in daranee.boats table
-    const channel = supabase
-      .channel('daranee:boats')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'daranee',
-          table: 'boats',
-        },
-        (payload: any) => {
-          console.log('[useRealtimeBoats] Received change:', payload);
-          // Convert Supabase payload to our RealtimePayload type
-          const realtimePayload: RealtimePayload<Boat> = {
-            eventType: payload.eventType as 'INSERT' | 'UPDATE' | 'DELETE',
-            schema: payload.schema,
-            table: payload.table,
-            new: payload.new,
-            old: payload.old,
-          };
-          onChange(realtimePayload);
-        }
-      )
-      .subscribe((status) => {
-        console.log('[useRealtimeBoats] Subscription status:', status);
-      });
-
-    return () => {
-      console.log('[useRealtimeBoats] Unsubscribing');
-      channel.unsubscribe();
-    };
-  }, [onChange]);
+export default function useRealtimeBoats(
+  onChange: (payload: RealtimePayload<Boat>) => void,
+  onResync?: () => void
+): RealtimeStatus {
+  return useRealtimeChannel(
+    'daranee:boats',
+    (channel, emit) =>
+      // Subscribe to changes in daranee.boats table
+      channel.on('postgres_changes', { event: '*', schema: 'daranee', table: 'boats' }, emit),
+    (payload) => {
+      console.log('[useRealtimeBoats] Received change:', payload);
+      // ✅ Check the row against lib/types before it reaches the UI
+      const realtimePayload = parseRealtimePayload(payload, boatChangeSchema, 'useRealtimeBoats');
+      if (realtimePayload) onChange(realtimePayload);
+    },
+    onResync
+  );
 }
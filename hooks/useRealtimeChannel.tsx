@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabaseClient';
+import { reconnectDelay, STALE_AFTER_ATTEMPTS, type RealtimeStatus } from '@/lib/realtime';
+
+/**
+ * Hook that keeps one realtime channel subscribed and reports its state
+ *
+ * - `bind` attaches the .on() handlers to a fresh channel and routes each
+ *   message to `emit`, which forwards it to the latest `onMessage`
+ * - On CHANNEL_ERROR / TIMED_OUT / CLOSED the channel is rebuilt with backoff;
+ *   going back online or returning to the page retries immediately
+ * - `onResync` runs after a reconnect and whenever the page becomes visible
+ *   again (the LIFF webview stops JS in the background), since changes may
+ *   have been missed meanwhile
+ *
+ * Callbacks are read through refs – passing new functions every render does
+ * not resubscribe. `topic` null = not ready yet.
+ */
+export default function useRealtimeChannel(
+  topic: string | null,
+  bind: (channel: RealtimeChannel, emit: (message: unknown) => void) => RealtimeChannel,
+  onMessage: (message: unknown) => void,
+  onResync?: () => void
+): RealtimeStatus {
+  const [status, setStatus] = useState<RealtimeStatus>('connecting');
+  const bindRef = useRef(bind);
+  const messageRef = useRef(onMessage);
+  const resyncRef = useRef(onResync);
+
+  useEffect(() => {
+    bindRef.current = bind;
+    messageRef.current = onMessage;
+    resyncRef.current = onResync;
+  });
+
+  useEffect(() => {
+    if (!topic) return;
+
+    const tag = `[useRealtimeChannel] ${topic}`;
+    let channel: RealtimeChannel | null = null;
+    let disposed = false;
+    let live = false;
+    let wasLive = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const emit = (message: unknown) => messageRef.current(message);
+
+    const clearRetry = () => {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+    };
+
+    const scheduleReconnect = () => {
+      live = false;
+      if (retryTimer) return;
+
+      attempt += 1;
+      const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+      setStatus(offline || attempt > STALE_AFTER_ATTEMPTS ? 'stale' : 'reconnecting');
+      // The 'online' event reconnects – no point retrying without a network
+      if (offline) return;
+
+      const delay = reconnectDelay(attempt);
+      console.log(`${tag}: reconnecting in ${delay} ms (attempt ${attempt})`);
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        connect();
+      }, delay);
+    };
+
+    const connect = () => {
+      clearRetry();
+      if (channel) supabase.removeChannel(channel);
+
+      const current = bindRef.current(supabase.channel(topic), emit);
+      channel = current;
+
+      current.subscribe((state, err) => {
+        // Ignore callbacks from channels we already replaced or removed
+        if (disposed || channel !== current) return;
+        console.log(`${tag}: ${state}`, err ?? '');
+
+        if (state === 'SUBSCRIBED') {
+          live = true;
+          attempt = 0;
+          setStatus('live');
+          if (wasLive) resyncRef.current?.();
+          wasLive = true;
+        } else if (state === 'CHANNEL_ERROR' || state === 'TIMED_OUT' || state === 'CLOSED') {
+          scheduleReconnect();
+        }
+      });
+    };
+
+    const handleOnline = () => {
+      if (!live) connect();
+    };
+
+    const handleOffline = () => {
+      live = false;
+      setStatus('stale');
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'visible') return;
+      if (live) resyncRef.current?.();
+      else connect();
+    };
+
+    connect();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      disposed = true;
+      clearRetry();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      if (channel) supabase.removeChannel(channel);
+      console.log(`${tag}: unsubscribed`);
+    };
+  }, [topic]);
+
+  return status;
+}
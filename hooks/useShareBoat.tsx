@@ -0,0 +1,48 @@
+"use client";
+
+import { useCallback, useState } from 'react';
+import useI18n from '@/hooks/useI18n';
+import { boatShareUrl, buildBoatShareMessage } from '@/lib/share';
+import type { NearbyBoat } from '@/lib/types';
+
+export type ShareResult = 'shared' | 'copied' | 'cancelled' | 'failed';
+
+/**
+ * Hook that shares a boat card to LINE chats with liff.shareTargetPicker
+ * Outside LINE it falls back to the Web Share API, then to copying the link
+ */
+export default function useShareBoat() {
+  const { t, fmt } = useI18n();
+  const [sharing, setSharing] = useState(false);
+
+  const shareBoat = useCallback(async (boat: NearbyBoat): Promise<ShareResult> => {
+    setSharing(true);
+
+    try {
+      const liff = typeof window !== 'undefined' ? window.liff : null;
+      const url = boatShareUrl(boat.id);
+
+      if (liff?.isApiAvailable?.('shareTargetPicker')) {
+        // Resolves undefined when the user closes the picker
+        const res = await liff.shareTargetPicker([buildBoatShareMessage(boat, t, fmt)], { isMultiple: true });
+        return res ? 'shared' : 'cancelled';
+      }
+
+      if (navigator.share) {
+        await navigator.share({ title: t('share.title', { name: boat.name }), url });
+        return 'shared';
+      }
+
+      await navigator.clipboard.writeText(url);
+      return 'copied';
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return 'cancelled';
+      console.error('[useShareBoat] Error:', err);
+      return 'failed';
+    } finally {
+      setSharing(false);
+    }
+  }, [t, fmt]);
+
+  return { shareBoat, sharing } as const;
+}
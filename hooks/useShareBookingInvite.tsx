@@ -0,0 +1,45 @@
+"use client";
+
+import { useCallback, useState } from 'react';
+import useI18n from '@/hooks/useI18n';
+import { bookingInviteUrl, buildBookingInviteMessage, type InviteTrip } from '@/lib/share';
+import type { ShareResult } from '@/hooks/useShareBoat';
+
+/**
+ * Hook that sends a group booking's join link to LINE chats
+ * Same fallbacks as useShareBoat: Web Share API, then the clipboard
+ */
+export default function useShareBookingInvite() {
+  const { t, fmt } = useI18n();
+  const [sharing, setSharing] = useState(false);
+
+  const shareInvite = useCallback(async (trip: InviteTrip, inviteCode: string): Promise<ShareResult> => {
+    setSharing(true);
+
+    try {
+      const liff = typeof window !== 'undefined' ? window.liff : null;
+      const url = bookingInviteUrl(inviteCode);
+
+      if (liff?.isApiAvailable?.('shareTargetPicker')) {
+        const res = await liff.shareTargetPicker([buildBookingInviteMessage(trip, inviteCode, t, fmt)], { isMultiple: true });
+        return res ? 'shared' : 'cancelled';
+      }
+
+      if (navigator.share) {
+        await navigator.share({ title: t('group.inviteTitle', { name: trip.boat_name }), url });
+        return 'shared';
+      }
+
+      await navigator.clipboard.writeText(url);
+      return 'copied';
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return 'cancelled';
+      console.error('[useShareBookingInvite] Error:', err);
+      return 'failed';
+    } finally {
+      setSharing(false);
+    }
+  }, [t, fmt]);
+
+  return { shareInvite, sharing } as const;
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { apiRequest } from '@/lib/apiClient';
+import { updateTripLocationResponseSchema } from '@/lib/schema';
+import type { MapCenter } from '@/lib/types';
+
+// Re-send an unchanged position so the operator can tell it's still live
+const HEARTBEAT_MS = 60_000;
+
+/**
+ * Hook that shares the passenger's position with the boat operator
+ * while `active` (the trip window) – nothing is sent outside it
+ */
+export default function useShareTripLocation(
+  bookingId: string | null,
+  position: MapCenter | null,
+  active: boolean
+) {
+  const [lastSharedAt, setLastSharedAt] = useState<string | null>(null);
+  const positionRef = useRef(position);
+
+  useEffect(() => {
+    positionRef.current = position;
+  }, [position]);
+
+  useEffect(() => {
+    if (!bookingId || !active || !position) return;
+
+    const send = async () => {
+      const current = positionRef.current;
+      if (!current) return;
+
+      try {
+        const response = await apiRequest(
+          `/api/bookings/${encodeURIComponent(bookingId)}/trip-location`,
+          updateTripLocationResponseSchema,
+          { method: 'POST', body: { lat: current.lat, lon: current.lon } }
+        );
+        if (response.updated_at) setLastSharedAt(response.updated_at);
+      } catch (err) {
+        console.error('[useShareTripLocation] Error:', err);
+      }
+    };
+
+    send();
+    const heartbeat = setInterval(send, HEARTBEAT_MS);
+    return () => clearInterval(heartbeat);
+  }, [bookingId, active, position]);
+
+  return { lastSharedAt: active ? lastSharedAt : null } as const;
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useRef } from 'react';
+import { rpcRequest } from '@/lib/apiClient';
+import { array, nearbyBoatSchema } from '@/lib/schema';
+import { readSharedBoatId } from '@/lib/share';
+import type { GetBoatLocationParams, MapCenter, NearbyBoat } from '@/lib/types';
+
+/**
+ * Hook for pages opened from a shared boat card (/liff?boat=<id>)
+ * Loads that boat once, with no radius limit, and hands it to `onResolved`
+ * (null when the id is unknown). Waits for `enabled` – LIFF restores the
+ * query from liff.state only after init.
+ */
+export default function useSharedBoatLink(
+  enabled: boolean,
+  position: MapCenter | null,
+  onResolved: (boat: NearbyBoat | null) => void
+) {
+  const handled = useRef(false);
+  const positionRef = useRef(position);
+
+  useEffect(() => {
+    positionRef.current = position;
+  }, [position]);
+
+  useEffect(() => {
+    if (!enabled || handled.current) return;
+
+    const boatId = readSharedBoatId(window.location.search);
+    if (!boatId) return;
+    handled.current = true;
+
+    const rpcParams: GetBoatLocationParams = {
+      boat_id: boatId,
+      ref_lat: positionRef.current?.lat ?? null,
+      ref_lon: positionRef.current?.lon ?? null,
+    };
+
+    rpcRequest('get_boat_location', rpcParams, array(nearbyBoatSchema))
+      .then((boats) => {
+        const boat = boats[0] ?? null;
+        console.log(`[useSharedBoatLink] Shared boat ${boatId}:`, boat ? boat.name : 'not found');
+        onResolved(boat);
+      })
+      .then(undefined, (err: unknown) => {
+        console.error('[useSharedBoatLink] Error:', err);
+        onResolved(null);
+      });
+  }, [enabled, onResolved]);
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, rpcRequest, toDataError, type DataError } from '@/lib/apiClient';
+import { array, getBookingResponseSchema, nearbyBoatSchema } from '@/lib/schema';
+import useBookingChanges from '@/hooks/useBookingChanges';
+import useBoatPositions from '@/hooks/useBoatPositions';
+import type {
+  Booking,
+  BookingChangeSignal,
+  BoatPositionUpdate,
+  GetBoatLocationParams,
+  NearbyBoat,
+} from '@/lib/types';
+
+/**
+ * Hook for the live trip screen: one booking plus its boat,
+ * kept current from booking changes and the boat's GPS broadcasts
+ * The booking comes from GET /api/bookings/:id, so it loads once the user is known
+ */
+export default function useTrip(bookingId: string | null, lineUserId: string | null) {
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [boat, setBoat] = useState<NearbyBoat | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<DataError | null>(null);
+
+  const fetchTrip = useCallback(async () => {
+    if (!bookingId || !lineUserId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { booking: row = null } = await apiRequest(
+        `/api/bookings/${encodeURIComponent(bookingId)}`,
+        getBookingResponseSchema
+      );
+      setBooking(row);
+      if (!row) return;
+
+      const rpcParams: GetBoatLocationParams = { boat_id: row.boat_id };
+      const boatRows = await rpcRequest('get_boat_location', rpcParams, array(nearbyBoatSchema));
+
+      setBoat(boatRows[0] ?? null);
+      console.log(`[useTrip] Loaded booking ${bookingId} (${row.status})`);
+    } catch (err) {
+      const dataError = toDataError(err);
+      // Someone else's booking looks the same as a missing one
+      if (dataError.kind === 'not_found' || dataError.kind === 'authorization') {
+        setBooking(null);
+        return;
+      }
+      console.error('[useTrip] Error:', err);
+      setError(dataError);
+    } finally {
+      setLoading(false);
+    }
+  }, [bookingId, lineUserId]);
+
+  useEffect(() => {
+    fetchTrip();
+  }, [fetchTrip]);
+
+  // Status changes (confirmed → completed) → reload the booking through the API
+  const handleBookingChange = useCallback((signal: BookingChangeSignal) => {
+    if (signal.id === bookingId) fetchTrip();
+  }, [bookingId, fetchTrip]);
+
+  useBookingChanges(handleBookingChange, Boolean(bookingId && lineUserId), fetchTrip);
+
+  const handlePosition = useCallback((update: BoatPositionUpdate) => {
+    setBoat((current) =>
+      current && current.id === update.id
+        ? { ...current, latitude: update.latitude, longitude: update.longitude, heading: update.heading, updated_at: update.timestamp }
+        : current
+    );
+  }, []);
+
+  useBoatPositions(handlePosition);
+
+  return { booking, boat, loading, error, refetch: fetchTrip } as const;
+}
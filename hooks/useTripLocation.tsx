@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { apiRequest } from '@/lib/apiClient';
+import { getTripLocationResponseSchema } from '@/lib/schema';
+import { TRIP_LOCATION_POLL_MS } from '@/lib/trips';
+import type { TripLocation } from '@/lib/types';
+
+/**
+ * Hook for operators: polls the passenger's shared position while `active`
+ */
+export default function useTripLocation(bookingId: string | null, active: boolean) {
+  const [location, setLocation] = useState<TripLocation | null>(null);
+
+  useEffect(() => {
+    if (!bookingId || !active) return;
+
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const response = await apiRequest(
+          `/api/bookings/${encodeURIComponent(bookingId)}/trip-location`,
+          getTripLocationResponseSchema
+        );
+        if (!cancelled) setLocation(response.location ?? null);
+      } catch (err) {
+        console.error('[useTripLocation] Error:', err);
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, TRIP_LOCATION_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [bookingId, active]);
+
+  return { location: active ? location : null } as const;
+}
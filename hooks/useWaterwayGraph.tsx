@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { buildWaterwayGraph, type WaterwayFeatureCollection, type WaterwayGraph } from '@/lib/waterways';
+
+const WATERWAYS_URL = '/geo/waterways.geojson';
+
+// Shared across components – the file is loaded and parsed once per page load
+let graphPromise: Promise<WaterwayGraph> | null = null;
+
+const loadGraph = () => {
+  if (!graphPromise) {
+    graphPromise = fetch(WATERWAYS_URL)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json() as Promise<WaterwayFeatureCollection>;
+      })
+      .then((collection) => {
+        const graph = buildWaterwayGraph(collection);
+        console.log(`[useWaterwayGraph] Loaded ${graph.nodes.length} waterway nodes`);
+        return graph;
+      })
+      .catch((err) => {
+        // Allow a retry on the next mount
+        graphPromise = null;
+        throw err;
+      });
+  }
+  return graphPromise;
+};
+
+/**
+ * Hook that loads the waterway network used for routing boats
+ */
+export default function useWaterwayGraph() {
+  const [graph, setGraph] = useState<WaterwayGraph | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadGraph()
+      .then((g) => {
+        if (!cancelled) setGraph(g);
+      })
+      .catch((err) => {
+        console.error('[useWaterwayGraph] Error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { graph, error } as const;
+}
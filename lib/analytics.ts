@@ -0,0 +1,355 @@
+// ============================================
+// Fleet analytics – aggregates the raw rows of GET /api/analytics
+// Pure functions: the dashboard and the CSV export use the same numbers
+// ============================================
+
+import { BOAT_STATUSES, BOAT_TYPES, toLocalInputValue } from '@/lib/format';
+import { HOUR_MS, round2 } from '@/lib/pricing';
+import type { BoatStatus, BoatType, GetFleetAnalyticsResponse } from '@/lib/types';
+
+const DAY_MS = 24 * HOUR_MS;
+
+// Longest range the API serves
+export const MAX_ANALYTICS_RANGE_DAYS = 366;
+
+// Boats can only earn during service hours, so utilization is measured
+// against these local hours [start, end) of each day
+export const OPERATING_HOURS = { start: 8, end: 20 };
+
+// Heat map cells in degrees (~550 m on the Chao Phraya)
+export const HEAT_CELL_DEGREES = 0.005;
+
+// Bookings that earn money and occupy the boat
+const EARNING_STATUSES = ['confirmed', 'completed'];
+
+export type AnalyticsData = Required<Pick<GetFleetAnalyticsResponse, 'boats' | 'bookings' | 'status_history'>>;
+type AnalyticsBoat = AnalyticsData['boats'][number];
+
+export interface AnalyticsRange {
+  start: string;
+  end: string;
+}
+
+export interface BoatUtilization {
+  boat_id: string;
+  name: string;
+  boat_type: BoatType;
+  // Operating hours the boat was in the fleet and not in maintenance
+  open_hours: number;
+  // Booked hours within operating hours
+  booked_hours: number;
+  // booked_hours / open_hours, 0–1
+  utilization: number;
+  // Time spent in each status (around the clock), from the status history
+  status_hours: Record<BoatStatus, number>;
+  bookings: number;
+  cancelled: number;
+  revenue: number;
+}
+
+export interface TypeUtilization {
+  boat_type: BoatType;
+  boats: number;
+  open_hours: number;
+  booked_hours: number;
+  utilization: number;
+  revenue: number;
+}
+
+export interface RevenuePoint {
+  // Local date, YYYY-MM-DD
+  day: string;
+  revenue: number;
+  bookings: number;
+}
+
+export interface HeatCell {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  count: number;
+}
+
+export interface AnalyticsSummary {
+  boats: BoatUtilization[];
+  types: TypeUtilization[];
+  revenue_by_day: RevenuePoint[];
+  total_revenue: number;
+  total_bookings: number;
+  average_booking_hours: number;
+  // cancelled / all bookings, 0–1
+  cancellation_rate: number;
+  utilization: number;
+  heat_cells: HeatCell[];
+}
+
+const ms = (iso: string) => new Date(iso).getTime();
+
+// Cell edges without float noise (13.745000000000001)
+const roundDegrees = (value: number) => Math.round(value * 1e6) / 1e6;
+
+// Length of [start, end) ∩ [from, to) in hours
+const overlapHours = (start: number, end: number, from: number, to: number) =>
+  Math.max(0, Math.min(end, to) - Math.max(start, from)) / HOUR_MS;
+
+const emptyStatusHours = (): Record<BoatStatus, number> =>
+  Object.fromEntries(BOAT_STATUSES.map((s) => [s, 0])) as Record<BoatStatus, number>;
+
+/**
+ * Local calendar day (YYYY-MM-DD) of an instant
+ */
+export const localDay = (value: string | number | Date): string => toLocalInputValue(new Date(value)).slice(0, 10);
+
+// Inclusive local days as picked in the date inputs (YYYY-MM-DD)
+export interface DayRange {
+  startDay: string;
+  endDay: string;
+}
+
+/**
+ * The last `days` local days including today
+ */
+export const lastDays = (days: number, now = new Date()): DayRange => {
+  const start = new Date(now);
+  start.setDate(start.getDate() - (days - 1));
+  return { startDay: localDay(start), endDay: localDay(now) };
+};
+
+/**
+ * [start of startDay, end of endDay) as ISO instants
+ */
+export const toAnalyticsRange = ({ startDay, endDay }: DayRange): AnalyticsRange => {
+  const start = new Date(`${startDay}T00:00`);
+  const end = new Date(`${endDay}T00:00`);
+  end.setDate(end.getDate() + 1);
+  return { start: start.toISOString(), end: end.toISOString() };
+};
+
+/**
+ * Hours per status over [from, to) from a boat's change log
+ * (sorted oldest first; the first entry may predate `from`)
+ */
+const statusHours = (changes: AnalyticsData['status_history'], from: number, to: number) => {
+  const hours = emptyStatusHours();
+
+  changes.forEach((change, i) => {
+    const start = ms(change.changed_at);
+    const end = i + 1 < changes.length ? ms(changes[i + 1].changed_at) : to;
+    hours[change.status] += overlapHours(start, end, from, to);
+  });
+
+  return hours;
+};
+
+/**
+ * Local operating windows [open, close) of every day touching [from, to)
+ */
+const operatingWindows = (from: number, to: number): [number, number][] => {
+  const windows: [number, number][] = [];
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+
+  for (; day.getTime() < to; day.setDate(day.getDate() + 1)) {
+    const open = new Date(day);
+    open.setHours(OPERATING_HOURS.start);
+    const close = new Date(day);
+    close.setHours(OPERATING_HOURS.end);
+    windows.push([open.getTime(), close.getTime()]);
+  }
+
+  return windows;
+};
+
+const summarizeBoat = (
+  boat: AnalyticsBoat, data: AnalyticsData, from: number, to: number, now: number
+): BoatUtilization => {
+  // The boat only counts while it was in the fleet
+  const activeFrom = Math.max(from, ms(boat.created_at));
+  const activeTo = Math.min(to, boat.retired_at ? ms(boat.retired_at) : to);
+
+  const changes = data.status_history
+    .filter((c) => c.boat_id === boat.id)
+    .sort((a, b) => ms(a.changed_at) - ms(b.changed_at));
+  // Status time is history – it stops at now
+  const hoursByStatus = statusHours(changes, activeFrom, Math.min(activeTo, now));
+
+  const bookings = data.bookings.filter((bk) => bk.boat_id === boat.id);
+  const earning = bookings.filter((bk) => EARNING_STATUSES.includes(bk.status));
+
+  // Both sides of the ratio only count operating hours while the boat was in the fleet
+  let openHours = 0;
+  let bookedHours = 0;
+  operatingWindows(activeFrom, activeTo).forEach(([open, close]) => {
+    const windowFrom = Math.max(open, activeFrom);
+    const windowTo = Math.min(close, activeTo);
+    if (windowTo <= windowFrom) return;
+
+    const maintenance = statusHours(changes, windowFrom, Math.min(windowTo, now)).maintenance;
+    openHours += (windowTo - windowFrom) / HOUR_MS - maintenance;
+    bookedHours += earning.reduce(
+      (sum, bk) => sum + overlapHours(ms(bk.start_time), ms(bk.end_time), windowFrom, windowTo), 0
+    );
+  });
+  openHours = Math.max(0, openHours);
+
+  return {
+    boat_id: boat.id,
+    name: boat.name,
+    boat_type: boat.boat_type,
+    open_hours: round2(openHours),
+    booked_hours: round2(bookedHours),
+    utilization: openHours > 0 ? Math.min(1, bookedHours / openHours) : 0,
+    status_hours: Object.fromEntries(
+      Object.entries(hoursByStatus).map(([status, hours]) => [status, round2(hours)])
+    ) as Record<BoatStatus, number>,
+    bookings: bookings.length,
+    cancelled: bookings.filter((bk) => bk.status === 'cancelled').length,
+    // Revenue belongs to the day the trip starts (matches revenue_by_day)
+    revenue: round2(
+      earning
+        .filter((bk) => ms(bk.start_time) >= from && ms(bk.start_time) < to)
+        .reduce((sum, bk) => sum + (bk.total_price ?? 0), 0)
+    ),
+  };
+};
+
+/**
+ * Every metric of the dashboard for one date range
+ */
+export const summarizeAnalytics = (data: AnalyticsData, range: AnalyticsRange, now = Date.now()): AnalyticsSummary => {
+  const from = ms(range.start);
+  const to = ms(range.end);
+
+  const boats = data.boats
+    .map((boat) => summarizeBoat(boat, data, from, to, now))
+    .sort((a, b) => b.utilization - a.utilization || a.name.localeCompare(b.name));
+
+  const types: TypeUtilization[] = BOAT_TYPES
+    .map((type) => {
+      const ofType = boats.filter((b) => b.boat_type === type);
+      const openHours = ofType.reduce((sum, b) => sum + b.open_hours, 0);
+      const bookedHours = ofType.reduce((sum, b) => sum + b.booked_hours, 0);
+      return {
+        boat_type: type,
+        boats: ofType.length,
+        open_hours: round2(openHours),
+        booked_hours: round2(bookedHours),
+        utilization: openHours > 0 ? Math.min(1, bookedHours / openHours) : 0,
+        revenue: round2(ofType.reduce((sum, b) => sum + b.revenue, 0)),
+      };
+    })
+    .filter((t) => t.boats > 0);
+
+  // Revenue by the local day the trip starts, with empty days filled in
+  const earning = data.bookings.filter((bk) => EARNING_STATUSES.includes(bk.status));
+  const byDay = new Map<string, RevenuePoint>();
+  for (let t = from; t < to; t += DAY_MS) {
+    const day = localDay(t);
+    byDay.set(day, { day, revenue: 0, bookings: 0 });
+  }
+  earning.forEach((bk) => {
+    const day = localDay(bk.start_time);
+    const point = byDay.get(day);
+    if (!point) return;
+    point.revenue = round2(point.revenue + (bk.total_price ?? 0));
+    point.bookings += 1;
+  });
+
+  const totalHours = earning.reduce((sum, bk) => sum + (ms(bk.end_time) - ms(bk.start_time)) / HOUR_MS, 0);
+  const openHours = boats.reduce((sum, b) => sum + b.open_hours, 0);
+  const bookedHours = boats.reduce((sum, b) => sum + b.booked_hours, 0);
+  const cancelled = data.bookings.filter((bk) => bk.status === 'cancelled').length;
+
+  return {
+    boats,
+    types,
+    revenue_by_day: Array.from(byDay.values()),
+    total_revenue: round2(boats.reduce((sum, b) => sum + b.revenue, 0)),
+    total_bookings: data.bookings.length,
+    average_booking_hours: earning.length > 0 ? round2(totalHours / earning.length) : 0,
+    cancellation_rate: data.bookings.length > 0 ? cancelled / data.bookings.length : 0,
+    utilization: openHours > 0 ? Math.min(1, bookedHours / openHours) : 0,
+    heat_cells: demandHeatCells(data.bookings),
+  };
+};
+
+/**
+ * Pickup points binned into HEAT_CELL_DEGREES squares – every request
+ * counts as demand, cancelled ones included
+ */
+export const demandHeatCells = (bookings: AnalyticsData['bookings'], cellDegrees = HEAT_CELL_DEGREES): HeatCell[] => {
+  const cells = new Map<string, HeatCell>();
+
+  bookings.forEach((bk) => {
+    if (bk.pickup_lat == null || bk.pickup_lon == null) return;
+    const row = Math.floor(bk.pickup_lat / cellDegrees);
+    const col = Math.floor(bk.pickup_lon / cellDegrees);
+    const key = `${row}:${col}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.count += 1;
+      return;
+    }
+    cells.set(key, {
+      south: roundDegrees(row * cellDegrees),
+      west: roundDegrees(col * cellDegrees),
+      north: roundDegrees((row + 1) * cellDegrees),
+      east: roundDegrees((col + 1) * cellDegrees),
+      count: 1,
+    });
+  });
+
+  return Array.from(cells.values()).sort((a, b) => b.count - a.count);
+};
+
+// ============================================
+// CSV export
+// ============================================
+
+type CsvValue = string | number | null | undefined;
+
+// Text that spreadsheets would run as a formula (boat names are operator input)
+const FORMULA_START = /^[=+\-@]/;
+
+const csvCell = (value: CsvValue) => {
+  const raw = value == null ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV with a BOM so Excel opens Thai boat names as UTF-8
+ */
+export const toCsv = (rows: CsvValue[][]): string =>
+  '\uFEFF' + rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+
+export const boatsCsv = (summary: AnalyticsSummary): string =>
+  toCsv([
+    [
+      'boat_id', 'name', 'boat_type', 'open_hours', 'booked_hours', 'utilization_pct',
+      ...BOAT_STATUSES.map((s) => `${s}_hours`), 'bookings', 'cancelled', 'revenue',
+    ],
+    ...summary.boats.map((b) => [
+      b.boat_id, b.name, b.boat_type, b.open_hours, b.booked_hours, round2(b.utilization * 100),
+      ...BOAT_STATUSES.map((s) => b.status_hours[s]), b.bookings, b.cancelled, b.revenue,
+    ]),
+  ]);
+
+export const bookingsCsv = (data: AnalyticsData): string => {
+  const boatNames = new Map(data.boats.map((b) => [b.id, b.name]));
+  return toCsv([
+    ['booking_id', 'boat_id', 'boat_name', 'start_time', 'end_time', 'hours', 'status', 'total_price', 'pickup_lat', 'pickup_lon', 'created_at'],
+    ...data.bookings.map((bk) => [
+      bk.id, bk.boat_id, boatNames.get(bk.boat_id), bk.start_time, bk.end_time,
+      round2((ms(bk.end_time) - ms(bk.start_time)) / HOUR_MS), bk.status, bk.total_price,
+      bk.pickup_lat, bk.pickup_lon, bk.created_at,
+    ]),
+  ]);
+};
+
+export const revenueCsv = (summary: AnalyticsSummary): string =>
+  toCsv([
+    ['day', 'bookings', 'revenue'],
+    ...summary.revenue_by_day.map((p) => [p.day, p.bookings, p.revenue]),
+  ]);
@@ -0,0 +1,407 @@
+// ============================================
+// Typed data access for the browser
+// API routes (with the LIFF ID token attached so the server can verify
+// the LINE user), daranee RPCs and table reads, and realtime payloads.
+// Every response is checked against lib/schema.ts; every failure
+// becomes a DataError whose `kind` callers can branch on.
+// ============================================
+
+import { isMemoryBackend, supabase } from '@/lib/supabaseClient';
+import { getLocale, translate, type Translate } from '@/lib/i18n';
+import { toBookingPayment } from '@/lib/payments';
+import { toBoatInput } from '@/lib/fleet';
+import { SchemaError, array, type Schema } from '@/lib/schema';
+import type { BookingPaymentRecord } from '@/lib/types';
+
+export type DataErrorKind =
+  | 'network'
+  | 'validation'
+  | 'authorization'
+  | 'conflict'
+  | 'not_found'
+  | 'not_configured'
+  | 'unknown';
+
+/**
+ * Why a request failed. `message` is the server's text (English)
+ * for display when no better translation exists – see describeDataError
+ */
+export class DataError extends Error {
+  constructor(
+    readonly kind: DataErrorKind,
+    message: string,
+    readonly status?: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'DataError';
+  }
+}
+
+export type Result<T> = { ok: true; data: T } | { ok: false; error: DataError };
+
+const STATUS_KINDS: Record<number, DataErrorKind> = {
+  400: 'validation',
+  401: 'authorization',
+  403: 'authorization',
+  404: 'not_found',
+  409: 'conflict',
+  422: 'validation',
+  503: 'not_configured',
+};
+
+// RPCs report business failures as 200 { success: false, error } – the
+// message is the only signal, so the wording used in supabase/sql maps here
+const FAILURE_KINDS: [RegExp, DataErrorKind][] = [
+  [/^Not (allowed|registered)\b/, 'authorization'],
+  [/not found$/, 'not_found'],
+  [/not available|overlaps|already|upcoming bookings|no longer|not in progress|not started|is retired|is full|has changed|^Only /, 'conflict'],
+  [/must|may not exceed|^Invalid|required|cannot dock|no price/, 'validation'],
+];
+
+export const classifyFailure = (message: string): DataErrorKind =>
+  FAILURE_KINDS.find(([pattern]) => pattern.test(message))?.[1] ?? 'unknown';
+
+// Postgres / PostgREST error codes → kinds
+const classifyPostgrestCode = (code: string): DataErrorKind => {
+  if (code === '42501' || code === 'PGRST301' || code === 'PGRST302') return 'authorization';
+  if (code === '23505' || code === '23P01' || code === '40001') return 'conflict';
+  if (code.startsWith('22') || code === '23502' || code === '23514') return 'validation';
+  if (code === 'PGRST116') return 'not_found';
+  return 'unknown';
+};
+
+/**
+ * Normalize anything thrown by fetch, supabase-js or a schema into a DataError
+ */
+export const toDataError = (err: unknown): DataError => {
+  if (err instanceof DataError) return err;
+  if (err instanceof SchemaError) return new DataError('validation', `Unexpected response: ${err.message}`, undefined, { cause: err });
+  // fetch() rejects with a TypeError when the network is down
+  if (err instanceof TypeError) return new DataError('network', err.message, undefined, { cause: err });
+
+  const { message, code } = (err ?? {}) as { message?: unknown; code?: unknown };
+  const text = typeof message === 'string' && message ? message : String(err);
+  if (/fetch|network/i.test(text)) return new DataError('network', text, undefined, { cause: err });
+
+  return new DataError(typeof code === 'string' && code ? classifyPostgrestCode(code) : 'unknown', text, undefined, { cause: err });
+};
+
+/**
+ * User-facing text for a DataError: translated for kinds whose server text
+ * isn't helpful (offline, misconfigured, garbled), `fallback` for unexpected
+ * server errors, and the server's reason (e.g. "Booking not found") otherwise
+ */
+export const describeDataError = (error: DataError, t: Translate, fallback = error.message): string => {
+  if (error.kind === 'network') return t('error.network');
+  if (error.kind === 'not_configured') return t('error.notConfigured');
+  if (error.cause instanceof SchemaError) return t('error.unexpectedResponse');
+  if (error.kind === 'unknown') return fallback;
+  return error.message;
+};
+
+// { success: false, error } bodies become DataErrors; successful ones pass through
+const unwrapFailure = <T>(data: T, status?: number): T => {
+  const body = data as { success?: unknown; error?: unknown } | null;
+  if (body && typeof body === 'object' && body.success === false) {
+    const message = typeof body.error === 'string' ? body.error : 'Request failed';
+    throw new DataError(status ? STATUS_KINDS[status] ?? classifyFailure(message) : classifyFailure(message), message, status);
+  }
+  return data;
+};
+
+/**
+ * Current LIFF ID token, or a `dev:` token in DEV mode
+ * (accepted only by the server's local verifier)
+ */
+export const getIdToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+
+  const token = window.liff?.getIDToken?.();
+  if (token) return token;
+
+  const devUserId = process.env.NEXT_PUBLIC_DEV_LINE_USER_ID;
+  return devUserId ? `dev:${devUserId}` : null;
+};
+
+// LINE user id behind a token, without server verification (in-memory mode only)
+const localIdentity = (token: string | null): string | null => {
+  if (!token) return null;
+  if (token.startsWith('dev:')) return token.slice(4);
+  return window.liff?.getDecodedIDToken?.()?.sub ?? null;
+};
+
+type LocalRoute = {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  rpc: string;
+  args: (id: string, body: Record<string, unknown> | undefined, query: URLSearchParams, lineUserId: string) => Record<string, unknown>;
+  auth: boolean;
+  map?: (data: unknown) => unknown;
+};
+
+// Mirrors app/api/** – same RPCs, same identity rules
+const LOCAL_ROUTES: LocalRoute[] = [
+  {
+    method: 'POST', pattern: /^\/api\/boats\/([^/]+)\/status$/, rpc: 'update_boat_status', auth: true,
+    args: (id, body, _q, lineUserId) => ({ boat_id: id, new_status: body?.status, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/fleet$/, rpc: 'get_fleet', auth: true,
+    args: (_id, _b, _q, lineUserId) => ({ caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/operator$/, rpc: 'get_operator_console', auth: true,
+    args: (_id, _b, query, lineUserId) => ({
+      caller_line_user_id: lineUserId, range_start: query.get('start'), range_end: query.get('end'),
+    }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/analytics$/, rpc: 'get_fleet_analytics', auth: true,
+    args: (_id, _b, query, lineUserId) => ({
+      caller_line_user_id: lineUserId, range_start: query.get('start'), range_end: query.get('end'),
+    }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/boats$/, rpc: 'save_boat', auth: true,
+    args: (_id, body, _q, lineUserId) => ({ ...toBoatInput(body), boat_id: null, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/boats\/([^/]+)$/, rpc: 'save_boat', auth: true,
+    args: (id, body, _q, lineUserId) => ({ ...toBoatInput(body), boat_id: id, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/boats\/([^/]+)\/retire$/, rpc: 'retire_boat', auth: true,
+    args: (id, _b, _q, lineUserId) => ({ boat_id: id, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/boats\/([^/]+)\/audit$/, rpc: 'get_boat_audit_log', auth: true,
+    args: (id, _b, _q, lineUserId) => ({ boat_id: id, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/boats\/([^/]+)\/maintenance$/, rpc: 'schedule_maintenance', auth: true,
+    args: (id, body, _q, lineUserId) => ({
+      boat_id: id, caller_line_user_id: lineUserId,
+      start_time: body?.start_time, end_time: body?.end_time, reason: body?.reason ?? null,
+    }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/maintenance-windows\/([^/]+)\/cancel$/, rpc: 'cancel_maintenance', auth: true,
+    args: (id, _b, _q, lineUserId) => ({ window_id: id, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/boats\/([^/]+)\/availability$/, rpc: 'check_boat_availability', auth: false,
+    args: (id, _b, query) => ({ boat_id: id, start_time: query.get('start_time'), end_time: query.get('end_time') }),
+    map: (data) => ({ available: Boolean(data) }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/boats\/([^/]+)\/busy-intervals$/, rpc: 'get_boat_busy_intervals', auth: false,
+    args: (id, _b, query) => ({ boat_id: id, range_start: query.get('range_start'), range_end: query.get('range_end') }),
+    map: (data) => ({ intervals: data ?? [] }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/bookings$/, rpc: 'get_passenger_bookings', auth: true,
+    args: (_id, _b, _q, lineUserId) => ({ caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/bookings\/([^/]+)$/, rpc: 'get_booking', auth: true,
+    args: (id, _b, _q, lineUserId) => ({ booking_id: id, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/bookings$/, rpc: 'create_booking', auth: true,
+    args: (_id, body, _q, lineUserId) => {
+      const { quoted_total, ...request } = body ?? {};
+      return { ...request, line_user_id: lineUserId, quoted_price: quoted_total };
+    },
+  },
+  {
+    method: 'POST', pattern: /^\/api\/bookings\/quote$/, rpc: 'quote_booking', auth: false,
+    args: (_id, body) => ({ ...body }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/bookings\/([^/]+)\/cancel$/, rpc: 'cancel_booking', auth: true,
+    args: (id, _b, _q, lineUserId) => ({ booking_id: id, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/bookings\/([^/]+)\/trip-location$/, rpc: 'get_trip_location', auth: true,
+    args: (id, _b, _q, lineUserId) => ({ booking_id: id, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/bookings\/([^/]+)\/trip-location$/, rpc: 'update_trip_location', auth: true,
+    args: (id, body, _q, lineUserId) => ({ booking_id: id, caller_line_user_id: lineUserId, lat: body?.lat, lon: body?.lon }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/bookings\/([^/]+)\/complete$/, rpc: 'complete_booking', auth: true,
+    args: (id, _b, _q, lineUserId) => ({ booking_id: id, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/bookings\/([^/]+)\/review$/, rpc: 'submit_review', auth: true,
+    args: (id, body, _q, lineUserId) => ({
+      booking_id: id, caller_line_user_id: lineUserId, rating: body?.rating, comment: body?.comment ?? null,
+    }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/bookings\/([^/]+)\/payment$/, rpc: 'get_booking_payment', auth: true,
+    args: (id, _b, _q, lineUserId) => ({ booking_id: id, caller_line_user_id: lineUserId }),
+    map: (data) => toBookingPayment(data as BookingPaymentRecord),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/bookings\/([^/]+)\/paid$/, rpc: 'mark_booking_paid', auth: true,
+    args: (id, body, _q, lineUserId) => ({
+      booking_id: id, caller_line_user_id: lineUserId, payment_ref: body?.payment_ref ?? null,
+    }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/bookings\/([^/]+)\/group$/, rpc: 'get_booking_group', auth: true,
+    args: (id, _b, _q, lineUserId) => ({ booking_id: id, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/bookings\/([^/]+)\/invite$/, rpc: 'create_booking_invite', auth: true,
+    args: (id, _b, _q, lineUserId) => ({ booking_id: id, caller_line_user_id: lineUserId, caller_name: null }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/bookings\/([^/]+)\/split$/, rpc: 'set_booking_split', auth: true,
+    args: (id, body, _q, lineUserId) => ({
+      booking_id: id, caller_line_user_id: lineUserId, split_mode: body?.split_mode, shares: body?.shares ?? null,
+    }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/bookings\/([^/]+)\/member-payment$/, rpc: 'mark_member_paid', auth: true,
+    args: (id, body, _q, lineUserId) => ({
+      booking_id: id, caller_line_user_id: lineUserId, member_line_user_id: body?.line_user_id, paid: body?.paid === true,
+    }),
+  },
+  {
+    method: 'GET', pattern: /^\/api\/invites\/([^/]+)$/, rpc: 'get_booking_invite', auth: true,
+    args: (code, _b, _q, lineUserId) => ({ invite_code: code, caller_line_user_id: lineUserId }),
+  },
+  {
+    method: 'POST', pattern: /^\/api\/invites\/([^/]+)\/join$/, rpc: 'join_booking', auth: true,
+    args: (code, _b, _q, lineUserId) => ({ invite_code: code, caller_line_user_id: lineUserId, caller_name: null }),
+  },
+];
+
+/**
+ * In-memory mode: the browser holds the only copy of the data,
+ * so API calls are served against it directly instead of over HTTP
+ */
+async function localApiRequest(path: string, method: string, body: unknown, auth: boolean): Promise<unknown> {
+  const url = new URL(path, 'http://local');
+  const route = LOCAL_ROUTES.find((r) => r.method === method && r.pattern.test(url.pathname));
+  if (!route) throw new Error(`No local handler for ${method} ${url.pathname}`);
+
+  const lineUserId = localIdentity(getIdToken());
+  if ((auth || route.auth) && !lineUserId) {
+    throw new DataError('authorization', translate(getLocale(), 'error.loginRequired'), 401);
+  }
+
+  const id = decodeURIComponent(url.pathname.match(route.pattern)?.[1] ?? '');
+  const { data, error } = await supabase.rpc(route.rpc, route.args(id, body as Record<string, unknown> | undefined, url.searchParams, lineUserId ?? ''));
+  if (error) throw error;
+
+  const result = unwrapFailure(data);
+  return route.map ? route.map(result) : result;
+}
+
+interface ApiRequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  auth?: boolean;
+}
+
+/**
+ * Call an API route and return its JSON body, checked against `schema`
+ * Throws a DataError on network failures, non-2xx responses,
+ * `{ success: false }` bodies and responses that don't match the schema
+ */
+export async function apiRequest<T>(path: string, schema: Schema<T>, options: ApiRequestOptions = {}): Promise<T> {
+  try {
+    return schema(await sendApiRequest(path, options));
+  } catch (err) {
+    throw toDataError(err);
+  }
+}
+
+async function sendApiRequest(path: string, options: ApiRequestOptions): Promise<unknown> {
+  const { method = 'GET', body, auth = true } = options;
+
+  if (isMemoryBackend && typeof window !== 'undefined') {
+    return localApiRequest(path, method, body, auth);
+  }
+
+  const headers: Record<string, string> = {};
+
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+
+  if (auth) {
+    const token = getIdToken();
+    if (!token) throw new DataError('authorization', translate(getLocale(), 'error.loginRequired'), 401);
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const res = await fetch(path, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    const message = typeof json?.error === 'string' ? json.error : `Request failed (${res.status})`;
+    throw new DataError(STATUS_KINDS[res.status] ?? (res.status >= 500 ? 'unknown' : classifyFailure(message)), message, res.status);
+  }
+
+  return unwrapFailure(json, res.status);
+}
+
+/**
+ * Call a daranee-schema RPC directly (public, read-only functions)
+ */
+export async function rpcRequest<T>(fn: string, params: object, schema: Schema<T>): Promise<T> {
+  try {
+    const { data, error } = await supabase.schema('daranee').rpc(fn, params);
+    if (error) throw error;
+    return schema(unwrapFailure(data));
+  } catch (err) {
+    throw toDataError(err);
+  }
+}
+
+/**
+ * Check rows from a table query (`{ data, error }` of supabase-js)
+ */
+export const parseRows = <T>(
+  result: { data: unknown; error: unknown },
+  schema: Schema<T>
+): T[] => {
+  if (result.error) throw toDataError(result.error);
+  try {
+    return result.data == null ? [] : array(schema)(result.data);
+  } catch (err) {
+    throw toDataError(err);
+  }
+};
+
+/**
+ * Check a realtime payload; a malformed one is logged and dropped (null)
+ */
+export const parseRealtimePayload = <T>(payload: unknown, schema: Schema<T>, tag: string): T | null => {
+  try {
+    return schema(payload);
+  } catch (err) {
+    console.warn(`[${tag}] Ignoring malformed payload:`, err instanceof Error ? err.message : err, payload);
+    return null;
+  }
+};
+
+/**
+ * Run a request and capture its failure as a value
+ */
+export const toResult = async <T>(request: Promise<T>): Promise<Result<T>> => {
+  try {
+    return { ok: true, data: await request };
+  } catch (err) {
+    return { ok: false, error: toDataError(err) };
+  }
+};
@@ -0,0 +1,62 @@
+import type { BoatSearchFilters, BoatSort, FindNearbyBoatsParams, NearbyBoat } from '@/lib/types';
+
+export const DEFAULT_BOAT_FILTERS: BoatSearchFilters = {
+  boat_types: [],
+  min_capacity: null,
+  min_price: null,
+  max_price: null,
+  radius_km: 5,
+  available_only: false,
+  sort_by: 'distance',
+};
+
+type FilterParams = Pick<
+  FindNearbyBoatsParams,
+  'boat_status' | 'boat_types' | 'min_capacity' | 'min_price' | 'max_price'
+>;
+
+/**
+ * Twin of the find_nearby_boats / find_boats_in_bounds WHERE clause
+ * (the in-memory backend filters with it)
+ */
+export const matchesBoatFilters = (boat: NearbyBoat, params: FilterParams): boolean => {
+  if (params.boat_status && boat.status !== params.boat_status) return false;
+  if (params.boat_types?.length && !params.boat_types.includes(boat.boat_type)) return false;
+  if (params.min_capacity != null && boat.capacity < params.min_capacity) return false;
+
+  // Boats without a price only pass when no price range is set
+  if (params.min_price != null || params.max_price != null) {
+    if (boat.price_per_hour == null) return false;
+    if (params.min_price != null && boat.price_per_hour < params.min_price) return false;
+    if (params.max_price != null && boat.price_per_hour > params.max_price) return false;
+  }
+
+  return true;
+};
+
+/**
+ * distance ↑, price ↑ (unpriced last), capacity ↓ – ties broken by distance
+ */
+export const compareBoats = (sort: BoatSort) => (a: NearbyBoat, b: NearbyBoat): number => {
+  if (sort === 'price') {
+    const pa = a.price_per_hour ?? Infinity;
+    const pb = b.price_per_hour ?? Infinity;
+    if (pa !== pb) return pa - pb;
+  } else if (sort === 'capacity') {
+    if (a.capacity !== b.capacity) return b.capacity - a.capacity;
+  }
+  return a.distance_m - b.distance_m;
+};
+
+/**
+ * Map panel filters to RPC parameters
+ */
+export const filtersToParams = (filters: BoatSearchFilters): Omit<FindNearbyBoatsParams, 'lat' | 'lon'> => ({
+  radius_km: filters.radius_km,
+  boat_status: filters.available_only ? 'available' : null,
+  boat_types: filters.boat_types.length ? filters.boat_types : null,
+  min_capacity: filters.min_capacity,
+  min_price: filters.min_price,
+  max_price: filters.max_price,
+  sort_by: filters.sort_by,
+});
@@ -0,0 +1,64 @@
+import type { BoatStatus, MapBounds, NearbyBoat } from '@/lib/types';
+
+export interface BoatCluster {
+  id: string;
+  latitude: number;
+  longitude: number;
+  boats: NearbyBoat[];
+  counts: Record<BoatStatus, number>;
+  bounds: MapBounds;
+}
+
+const TILE_SIZE = 256;
+
+// Web Mercator projection to world pixels at a zoom level
+const project = (lat: number, lon: number, zoom: number) => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sin = Math.sin((Math.max(-85, Math.min(85, lat)) * Math.PI) / 180);
+  return {
+    x: ((lon + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+/**
+ * Grid clustering in screen space: boats whose markers fall into the same
+ * `cellPx` square at this zoom become one cluster. Single boats stay clusters
+ * of one so callers can render them as normal markers.
+ */
+export const clusterBoats = (boats: NearbyBoat[], zoom: number, cellPx = 64): BoatCluster[] => {
+  const cells = new Map<string, NearbyBoat[]>();
+
+  for (const boat of boats) {
+    const { x, y } = project(boat.latitude, boat.longitude, zoom);
+    const key = `${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(boat);
+    else cells.set(key, [boat]);
+  }
+
+  return Array.from(cells.entries()).map(([key, members]) => {
+    const counts: Record<BoatStatus, number> = { available: 0, busy: 0, booked: 0, maintenance: 0 };
+    let south = Infinity, west = Infinity, north = -Infinity, east = -Infinity;
+    let latSum = 0, lonSum = 0;
+
+    for (const b of members) {
+      counts[b.status] += 1;
+      latSum += b.latitude;
+      lonSum += b.longitude;
+      south = Math.min(south, b.latitude);
+      north = Math.max(north, b.latitude);
+      west = Math.min(west, b.longitude);
+      east = Math.max(east, b.longitude);
+    }
+
+    return {
+      id: members.length === 1 ? members[0].id : `cluster:${zoom}:${key}`,
+      latitude: latSum / members.length,
+      longitude: lonSum / members.length,
+      boats: members,
+      counts,
+      bounds: { south, west, north, east },
+    };
+  });
+};
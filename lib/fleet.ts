@@ -0,0 +1,102 @@
+// ============================================
+// Fleet administration – input rules shared by the admin form,
+// the API routes and the in-memory backend
+// ============================================
+
+import { BOAT_TYPES } from '@/lib/format';
+import type { BoatInput } from '@/lib/types';
+
+export const BOAT_NAME_MAX_LENGTH = 60;
+export const MAX_BOAT_CAPACITY = 100;
+export const MAX_PRICE_PER_HOUR = 100_000;
+export const MAINTENANCE_REASON_MAX_LENGTH = 200;
+
+export type FleetFieldError = 'required' | 'tooLong' | 'invalid' | 'outOfRange';
+export type BoatInputErrors = Partial<Record<keyof BoatInput, FleetFieldError>>;
+
+export type MaintenanceWindowError = 'invalidWindow' | 'inPast' | 'reasonTooLong';
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Normalize a JSON body into BoatInput (no validation – see validateBoatInput)
+ */
+export const toBoatInput = (body: Record<string, unknown> | null | undefined): BoatInput => ({
+  name: typeof body?.name === 'string' ? body.name.trim() : '',
+  boat_type: body?.boat_type as BoatInput['boat_type'],
+  capacity: body?.capacity as number,
+  price_per_hour: body?.price_per_hour == null || body.price_per_hour === '' ? null : (body.price_per_hour as number),
+  home_latitude: body?.home_latitude as number,
+  home_longitude: body?.home_longitude as number,
+  owner_id: typeof body?.owner_id === 'string' && body.owner_id ? body.owner_id : null,
+});
+
+/**
+ * Field errors of a boat form; empty object when valid
+ */
+export const validateBoatInput = (input: BoatInput): BoatInputErrors => {
+  const errors: BoatInputErrors = {};
+
+  if (!input.name) errors.name = 'required';
+  else if (input.name.length > BOAT_NAME_MAX_LENGTH) errors.name = 'tooLong';
+
+  if (!BOAT_TYPES.includes(input.boat_type)) errors.boat_type = 'invalid';
+
+  if (!isNumber(input.capacity) || !Number.isInteger(input.capacity)) errors.capacity = 'invalid';
+  else if (input.capacity < 1 || input.capacity > MAX_BOAT_CAPACITY) errors.capacity = 'outOfRange';
+
+  if (input.price_per_hour !== null) {
+    if (!isNumber(input.price_per_hour)) errors.price_per_hour = 'invalid';
+    else if (input.price_per_hour < 0 || input.price_per_hour > MAX_PRICE_PER_HOUR) errors.price_per_hour = 'outOfRange';
+  }
+
+  if (!isNumber(input.home_latitude)) errors.home_latitude = 'required';
+  else if (Math.abs(input.home_latitude) > 90) errors.home_latitude = 'outOfRange';
+
+  if (!isNumber(input.home_longitude)) errors.home_longitude = 'required';
+  else if (Math.abs(input.home_longitude) > 180) errors.home_longitude = 'outOfRange';
+
+  return errors;
+};
+
+/**
+ * One-line summary of field errors for API responses
+ */
+export const describeBoatInputErrors = (errors: BoatInputErrors): string =>
+  `Invalid boat: ${Object.entries(errors).map(([field, error]) => `${field} ${error}`).join(', ')}`;
+
+export const validateMaintenanceWindow = (
+  startTime: string, endTime: string, reason: string | null | undefined, now = Date.now()
+): MaintenanceWindowError | null => {
+  const startMs = new Date(startTime).getTime();
+  const endMs = new Date(endTime).getTime();
+
+  if (isNaN(startMs) || isNaN(endMs) || endMs <= startMs) return 'invalidWindow';
+  if (endMs <= now) return 'inPast';
+  if (reason && reason.length > MAINTENANCE_REASON_MAX_LENGTH) return 'reasonTooLong';
+  return null;
+};
+
+export const MAINTENANCE_WINDOW_ERROR_MESSAGES: Record<MaintenanceWindowError, string> = {
+  invalidWindow: 'end_time must be after start_time',
+  inPast: 'Maintenance window has already ended',
+  reasonTooLong: `Reason may not exceed ${MAINTENANCE_REASON_MAX_LENGTH} characters`,
+};
+
+/**
+ * Changed fields as { field: { from, to } } for the audit trail; null when nothing changed
+ */
+export const diffBoatInput = (
+  before: Partial<Record<keyof BoatInput, unknown>>, after: BoatInput
+): Record<string, { from: unknown; to: unknown }> | null => {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  (Object.keys(after) as (keyof BoatInput)[]).forEach((field) => {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (from !== to) changes[field] = { from, to };
+  });
+
+  return Object.keys(changes).length > 0 ? changes : null;
+};
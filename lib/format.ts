@@ -0,0 +1,74 @@
+import { INTL_LOCALES, translate, type Locale } from '@/lib/i18n';
+import type { BoatStatus, BoatType, BookingStatus, PaymentStatus } from '@/lib/types';
+
+export const BOAT_STATUSES: BoatStatus[] = ['available', 'busy', 'booked', 'maintenance'];
+export const BOAT_TYPES: BoatType[] = ['standard', 'premium', 'speedboat', 'longtail'];
+
+export const BOAT_STATUS_COLORS: Record<BoatStatus, string> = {
+  available: '#2ecc71',
+  busy: '#e74c3c',
+  booked: '#f1c40f',
+  maintenance: '#95a5a6',
+};
+
+export const BOOKING_STATUS_COLORS: Record<BookingStatus, string> = {
+  pending: '#f39c12',
+  confirmed: '#2ecc71',
+  cancelled: '#95a5a6',
+  completed: '#3498db',
+};
+
+export const PAYMENT_STATUS_COLORS: Record<PaymentStatus, string> = {
+  unpaid: '#e67e22',
+  paid: '#2ecc71',
+};
+
+/**
+ * Locale-aware labels and number/date formatting shared by every screen
+ */
+// Format a Date for <input type="datetime-local"> (local time, minute precision)
+export const toLocalInputValue = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const createFormatter = (locale: Locale) => {
+  const intlLocale = INTL_LOCALES[locale];
+
+  const currency = (amount: number, fractionDigits = 0) =>
+    new Intl.NumberFormat(intlLocale, {
+      style: 'currency',
+      currency: 'THB',
+      currencyDisplay: 'narrowSymbol',
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(amount);
+
+  return {
+    boatStatus: (status: BoatStatus) => translate(locale, `boatStatus.${status}`),
+    boatType: (type: BoatType) => translate(locale, `boatType.${type}`),
+    bookingStatus: (status: BookingStatus) => translate(locale, `bookingStatus.${status}`),
+    paymentStatus: (status: PaymentStatus) => translate(locale, `payment.status.${status}`),
+    currency,
+    pricePerHour: (amount: number) => translate(locale, 'common.perHour', { price: currency(amount) }),
+    people: (count: number) => translate(locale, 'common.people', { count }),
+    hours: (hours: number, fractionDigits = 1) =>
+      translate(locale, 'common.hours', { hours: Number(hours.toFixed(fractionDigits)) }),
+    km: (meters: number) => translate(locale, 'common.km', { km: (meters / 1000).toFixed(2) }),
+    minutes: (minutes: number) => translate(locale, 'common.minutes', { minutes }),
+    percent: (ratio: number) =>
+      new Intl.NumberFormat(intlLocale, { style: 'percent', maximumFractionDigits: 0 }).format(ratio),
+    rating: (rating: number, trips: number) =>
+      translate(locale, 'common.rating', { rating: Number(rating).toFixed(1), trips }),
+    dateTime: (iso: string) =>
+      new Date(iso).toLocaleString(intlLocale, {
+        day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit',
+      }),
+    time: (value: string | Date) =>
+      new Date(value).toLocaleTimeString(intlLocale, { hour: '2-digit', minute: '2-digit' }),
+    day: (value: string | Date) =>
+      new Date(value).toLocaleDateString(intlLocale, { weekday: 'short', day: 'numeric', month: 'short' }),
+  };
+};
+
+export type Formatter = ReturnType<typeof createFormatter>;
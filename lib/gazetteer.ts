@@ -0,0 +1,38 @@
+import type { Locale } from '@/lib/i18n';
+import type { Landmark, MapCenter } from '@/lib/types';
+
+// ============================================
+// Gazetteer – landmarks along the river for the search box
+// Piers come from the database (usePiers); these are the places
+// passengers ask for by name but that aren't pickup points
+// ============================================
+
+export const LANDMARKS: Landmark[] = [
+  { id: 'grand-palace', name_th: 'พระบรมมหาราชวัง', name_en: 'Grand Palace', aliases: ['วังหลวง', 'Wat Phra Kaew', 'วัดพระแก้ว'], latitude: 13.7500, longitude: 100.4913 },
+  { id: 'wat-pho', name_th: 'วัดโพธิ์', name_en: 'Wat Pho', aliases: ['วัดพระเชตุพนฯ', 'Reclining Buddha'], latitude: 13.7465, longitude: 100.4930 },
+  { id: 'wat-arun', name_th: 'วัดอรุณราชวราราม', name_en: 'Wat Arun', aliases: ['วัดอรุณ', 'Temple of Dawn', 'วัดแจ้ง'], latitude: 13.7437, longitude: 100.4889 },
+  { id: 'museum-siam', name_th: 'มิวเซียมสยาม', name_en: 'Museum Siam', latitude: 13.7440, longitude: 100.4940 },
+  { id: 'wat-kalayanamit', name_th: 'วัดกัลยาณมิตร', name_en: 'Wat Kalayanamit', latitude: 13.7405, longitude: 100.4925 },
+  { id: 'santa-cruz', name_th: 'โบสถ์ซางตาครู้ส', name_en: 'Santa Cruz Church', aliases: ['กุฎีจีน', 'Kudi Chin'], latitude: 13.7395, longitude: 100.4945 },
+  { id: 'pak-khlong-talat', name_th: 'ปากคลองตลาด', name_en: 'Pak Khlong Talat', aliases: ['ตลาดดอกไม้', 'Flower Market'], latitude: 13.7433, longitude: 100.4966 },
+  { id: 'yaowarat', name_th: 'เยาวราช', name_en: 'Yaowarat', aliases: ['Chinatown', 'ไชน่าทาวน์'], latitude: 13.7400, longitude: 100.5090 },
+  { id: 'khao-san', name_th: 'ถนนข้าวสาร', name_en: 'Khao San Road', aliases: ['ข้าวสาร', 'Khaosan'], latitude: 13.7590, longitude: 100.4974 },
+  { id: 'phra-sumen-fort', name_th: 'ป้อมพระสุเมรุ', name_en: 'Phra Sumen Fort', aliases: ['สวนสันติชัยปราการ', 'Santichaiprakan Park'], latitude: 13.7640, longitude: 100.4955 },
+  { id: 'siriraj', name_th: 'โรงพยาบาลศิริราช', name_en: 'Siriraj Hospital', aliases: ['ศิริราช'], latitude: 13.7590, longitude: 100.4850 },
+  { id: 'wang-lang-market', name_th: 'ตลาดวังหลัง', name_en: 'Wang Lang Market', latitude: 13.7565, longitude: 100.4858 },
+  { id: 'rama-8-bridge', name_th: 'สะพานพระราม 8', name_en: 'Rama VIII Bridge', aliases: ['สะพานพระราม8', 'Rama 8 Bridge'], latitude: 13.7700, longitude: 100.5000 },
+  { id: 'memorial-bridge', name_th: 'สะพานพระพุทธยอดฟ้า', name_en: 'Memorial Bridge', aliases: ['สะพานพุทธ', 'Phra Phuttha Yodfa Bridge'], latitude: 13.7390, longitude: 100.4990 },
+  { id: 'lhong-1919', name_th: 'ล้ง 1919', name_en: 'Lhong 1919', aliases: ['ล้ง1919'], latitude: 13.7370, longitude: 100.5105 },
+  { id: 'iconsiam', name_th: 'ไอคอนสยาม', name_en: 'ICONSIAM', aliases: ['Icon Siam'], latitude: 13.7267, longitude: 100.5105 },
+  { id: 'sathorn-bridge', name_th: 'สะพานสาทร', name_en: 'Sathorn Bridge', aliases: ['สะพานตากสิน', 'Taksin Bridge'], latitude: 13.7185, longitude: 100.5140 },
+  { id: 'asiatique', name_th: 'เอเชียทีค', name_en: 'Asiatique The Riverfront', aliases: ['Asiatique'], latitude: 13.7045, longitude: 100.5035 },
+];
+
+// Thai name for Thai, English otherwise – same rule as pierName
+export const landmarkName = (landmark: Landmark, locale: Locale) =>
+  locale === 'th' ? landmark.name_th : landmark.name_en;
+
+export const landmarkPosition = (landmark: Landmark): MapCenter => ({
+  lat: landmark.latitude,
+  lon: landmark.longitude,
+});
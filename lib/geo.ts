@@ -0,0 +1,20 @@
+import type { MapCenter } from '@/lib/types';
+
+const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Great-circle distance between two points in meters (Haversine formula)
+ */
+export const distanceMeters = (pos1: MapCenter, pos2: MapCenter): number => {
+  const lat1 = pos1.lat * Math.PI / 180;
+  const lat2 = pos2.lat * Math.PI / 180;
+  const deltaLat = (pos2.lat - pos1.lat) * Math.PI / 180;
+  const deltaLon = (pos2.lon - pos1.lon) * Math.PI / 180;
+
+  const a = Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
+            Math.cos(lat1) * Math.cos(lat2) *
+            Math.sin(deltaLon / 2) * Math.sin(deltaLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS_M * c;
+};
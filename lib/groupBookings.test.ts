@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { resplitMembers, seatsLeft, sharesTotal, sortMembers, splitEvenly, validateShares } from '@/lib/groupBookings';
+import type { BookingMember } from '@/lib/types';
+
+const PAID_AT = '2026-03-02T04:00:00.000Z';
+
+const member = (line_user_id: string, values: Partial<BookingMember> = {}): BookingMember => ({
+  id: `member-${line_user_id}`,
+  booking_id: 'booking-1',
+  line_user_id,
+  display_name: null,
+  role: 'member',
+  share_amount: 0,
+  payment_status: 'unpaid',
+  paid_at: null,
+  joined_at: '2026-03-02T03:00:00.000Z',
+  ...values,
+});
+
+describe('splitEvenly', () => {
+  it('gives leftover satang to the first shares', () => {
+    expect(splitEvenly(100, 3)).toEqual([33.34, 33.33, 33.33]);
+    expect(splitEvenly(1000.05, 4)).toEqual([250.02, 250.01, 250.01, 250.01]);
+  });
+
+  it('always adds up to the total', () => {
+    expect(sharesTotal(splitEvenly(999.99, 7))).toBe(999.99);
+  });
+
+  it('splits between nobody as no shares', () => {
+    expect(splitEvenly(100, 0)).toEqual([]);
+  });
+});
+
+describe('validateShares', () => {
+  const ids = ['Ua', 'Ub'];
+
+  it('accepts shares that add up to the total in satang', () => {
+    expect(validateShares(0.3, ids, { Ua: 0.1, Ub: 0.2 })).toBeNull();
+  });
+
+  it('refuses a missing, negative or mismatched share', () => {
+    expect(validateShares(100, ids, { Ua: 100 })).toBe('missing');
+    expect(validateShares(100, ids, { Ua: 100, Ub: NaN })).toBe('missing');
+    expect(validateShares(100, ids, { Ua: 110, Ub: -10 })).toBe('negative');
+    expect(validateShares(100, ids, { Ua: 50, Ub: 49.99 })).toBe('total');
+  });
+});
+
+describe('sortMembers', () => {
+  it('puts the organizer first, then members by join time', () => {
+    const members = [
+      member('Uc', { joined_at: '2026-03-02T05:00:00.000Z' }),
+      member('Ub', { joined_at: '2026-03-02T04:00:00.000Z' }),
+      member('Ua', { role: 'organizer', joined_at: '2026-03-02T06:00:00.000Z' }),
+    ];
+
+    expect(sortMembers(members).map((m) => m.line_user_id)).toEqual(['Ua', 'Ub', 'Uc']);
+  });
+});
+
+describe('resplitMembers', () => {
+  it('keeps the paid mark of a share that did not change', () => {
+    const members = [
+      member('Ua', { role: 'organizer', share_amount: 50, payment_status: 'paid', paid_at: PAID_AT }),
+      member('Ub', { share_amount: 50 }),
+    ];
+
+    expect(resplitMembers(members, 100)).toEqual(members);
+  });
+
+  it('clears the paid mark of a share that changed', () => {
+    const members = [
+      member('Ua', { role: 'organizer', share_amount: 100, payment_status: 'paid', paid_at: PAID_AT }),
+      member('Ub', { share_amount: 0 }),
+    ];
+
+    expect(resplitMembers(members, 100)).toEqual([
+      { ...members[0], share_amount: 50, payment_status: 'unpaid', paid_at: null },
+      { ...members[1], share_amount: 50 },
+    ]);
+  });
+
+  it('uses custom shares by LINE user when given', () => {
+    const members = [
+      member('Ub', { share_amount: 50, payment_status: 'paid', paid_at: PAID_AT }),
+      member('Ua', { role: 'organizer', share_amount: 50 }),
+    ];
+
+    const result = resplitMembers(members, 100, { Ua: 70, Ub: 30 });
+
+    expect(result.map((m) => [m.line_user_id, m.share_amount, m.payment_status])).toEqual([
+      ['Ua', 70, 'unpaid'],
+      ['Ub', 30, 'unpaid'],
+    ]);
+  });
+});
+
+describe('seatsLeft', () => {
+  it('never goes below zero', () => {
+    expect(seatsLeft(6, 4)).toBe(2);
+    expect(seatsLeft(2, 3)).toBe(0);
+  });
+});
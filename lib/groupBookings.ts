@@ -0,0 +1,67 @@
+// ============================================
+// Group bookings – fare splitting rules shared by the API routes,
+// the in-memory backend and the organizer's split editor
+// (supabase/sql/group_bookings.sql does the same in SQL)
+// ============================================
+
+import type { BookingMember } from '@/lib/types';
+
+export type ShareError = 'negative' | 'missing' | 'total';
+
+// Amounts are split in satang so the shares always add up exactly
+const toSatang = (amount: number) => Math.round(amount * 100);
+
+/**
+ * `total` divided between `count` passengers; the leftover satang go to
+ * the first shares (the organizer comes first)
+ */
+export const splitEvenly = (total: number, count: number): number[] => {
+  if (count <= 0) return [];
+  const satang = toSatang(total);
+  const base = Math.floor(satang / count);
+  const rest = satang - base * count;
+  return Array.from({ length: count }, (_, i) => (base + (i < rest ? 1 : 0)) / 100);
+};
+
+export const sharesTotal = (amounts: number[]) =>
+  amounts.reduce((sum, amount) => sum + toSatang(amount), 0) / 100;
+
+/**
+ * Custom shares must name every passenger, be non-negative and add up to the total
+ */
+export const validateShares = (
+  total: number, memberIds: string[], shares: Record<string, number>
+): ShareError | null => {
+  const amounts = memberIds.map((id) => shares[id]);
+  if (amounts.some((amount) => typeof amount !== 'number' || !Number.isFinite(amount))) return 'missing';
+  if (amounts.some((amount) => amount < 0)) return 'negative';
+  if (sharesTotal(amounts) !== sharesTotal([total])) return 'total';
+  return null;
+};
+
+export const SHARE_ERROR_MESSAGES: Record<ShareError, string> = {
+  negative: 'Shares must not be negative',
+  missing: 'Shares must list every passenger',
+  total: 'Shares must add up to the total price',
+};
+
+export const seatsLeft = (capacity: number, memberCount: number) => Math.max(0, capacity - memberCount);
+
+// Organizer first, then in the order people joined
+export const sortMembers = (members: BookingMember[]): BookingMember[] =>
+  [...members].sort((a, b) =>
+    a.role === b.role ? a.joined_at.localeCompare(b.joined_at) : a.role === 'organizer' ? -1 : 1
+  );
+
+// Share of each member after a re-split; a changed share loses its paid mark
+export const resplitMembers = (
+  members: BookingMember[], total: number, shares?: Record<string, number> | null
+): BookingMember[] => {
+  const ordered = sortMembers(members);
+  const even = splitEvenly(total, ordered.length);
+  return ordered.map((member, i) => {
+    const share = shares ? shares[member.line_user_id] : even[i];
+    if (toSatang(share) === toSatang(member.share_amount)) return member;
+    return { ...member, share_amount: share, payment_status: 'unpaid', paid_at: null };
+  });
+};
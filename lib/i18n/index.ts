@@ -0,0 +1,110 @@
+import { MESSAGES, type MessageKey } from '@/lib/i18n/messages';
+
+export type { MessageKey } from '@/lib/i18n/messages';
+
+export type Locale = keyof typeof MESSAGES;
+export type MessageVars = Record<string, string | number>;
+export type Translate = (key: MessageKey, vars?: MessageVars) => string;
+
+export const DEFAULT_LOCALE: Locale = 'th';
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'th', label: 'ไทย' },
+  { value: 'en', label: 'English' },
+  { value: 'zh', label: '中文' },
+];
+
+// Locale tag for Intl formatters
+export const INTL_LOCALES: Record<Locale, string> = {
+  th: 'th-TH',
+  en: 'en-US',
+  zh: 'zh-CN',
+};
+
+const STORAGE_KEY = 'daranee.locale';
+
+/**
+ * Map a language tag ("en-US", "zh-Hant-TW", "th") to a supported locale
+ */
+export const resolveLocale = (tag: string | null | undefined): Locale | null => {
+  if (!tag) return null;
+  const base = tag.toLowerCase().split(/[-_]/)[0];
+  return base in MESSAGES ? (base as Locale) : null;
+};
+
+export const translate = (locale: Locale, key: MessageKey, vars?: MessageVars): string => {
+  const template = MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key] ?? key;
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    vars[name] !== undefined ? String(vars[name]) : match
+  );
+};
+
+// ============================================
+// Active locale store (read with useSyncExternalStore in useI18n)
+// Priority: explicit choice > LIFF app language > browser locale
+// ============================================
+
+let activeLocale: Locale | null = null;
+const listeners = new Set<() => void>();
+
+const readStoredLocale = (): Locale | null => {
+  try {
+    return resolveLocale(window.localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return null;
+  }
+};
+
+const detectBrowserLocale = (): Locale => {
+  const tags = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of tags) {
+    const locale = resolveLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+};
+
+const commit = (locale: Locale) => {
+  if (locale === activeLocale) return;
+  activeLocale = locale;
+  document.documentElement.lang = locale;
+  listeners.forEach((listener) => listener());
+};
+
+export const getLocale = (): Locale => {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE;
+  if (!activeLocale) {
+    activeLocale = readStoredLocale() ?? detectBrowserLocale();
+    document.documentElement.lang = activeLocale;
+  }
+  return activeLocale;
+};
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Explicit choice from the language switcher – remembered on this device
+ */
+export const setLocale = (locale: Locale) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // storage unavailable (private mode) – still switch for this session
+  }
+  commit(locale);
+};
+
+/**
+ * Language reported by LIFF after init; ignored when the user picked one
+ */
+export const applyLiffLanguage = (tag: string | null | undefined) => {
+  const locale = resolveLocale(tag);
+  if (!locale || readStoredLocale()) return;
+  commit(locale);
+};
@@ -0,0 +1,1095 @@
+/**
+ * Message catalog. Thai is the source language – every other locale must
+ * provide the same keys (enforced by the `Messages` type).
+ * Placeholders use {name} and are filled by translate().
+ */
+const th = {
+  // Common
+  'common.close': 'ปิด',
+  'common.back': 'กลับ',
+  'common.loading': 'กำลังโหลด...',
+  'realtime.live': 'สด',
+  'realtime.connecting': 'กำลังเชื่อมต่อ',
+  'realtime.reconnecting': 'กำลังเชื่อมต่อใหม่',
+  'realtime.stale': 'ข้อมูลอาจไม่เป็นปัจจุบัน',
+  'realtime.staleHint': 'ขาดการเชื่อมต่อ ข้อมูลบนหน้าจออาจไม่อัปเดต จะรีเฟรชให้เมื่อเชื่อมต่อได้อีกครั้ง',
+  'offline.cachedBoats': 'ออฟไลน์ – แสดงเรือ {count} ลำ จากข้อมูลเมื่อ {time}',
+  'offline.availabilityUnknown': 'ออฟไลน์ – จะตรวจสอบว่าว่างหรือไม่ตอนส่งการจอง',
+  'offline.queueBooking': 'จองเมื่อกลับมาออนไลน์',
+  'offline.bookingQueued': 'บันทึกการจองไว้แล้ว',
+  'offline.bookingQueuedHint': 'ตอนนี้ไม่มีสัญญาณ ระบบจะส่งการจองให้อัตโนมัติเมื่อเชื่อมต่อได้ (ต้องเปิดแอปค้างไว้หรือเปิดใหม่)',
+  'offline.bookingsWaiting': 'มีการจอง {count} รายการรอส่ง',
+  'offline.queuedSent': 'ส่งการจองเรือ {name} ที่รอไว้แล้ว – ดูได้ใน การจองของฉัน',
+  'offline.queuedFailed': 'จองเรือ {name} ที่รอไว้ไม่สำเร็จ: {reason}',
+  'offline.queuedExpired': 'การจองเรือ {name} ที่รอไว้ไม่ได้ส่ง เพราะเลยเวลาเริ่มแล้ว',
+  'offline.queuedRepriced': 'ราคาการจองเรือ {name} ที่รอไว้เปลี่ยนจาก {from} เป็น {to}',
+  'offline.bookAtNewPrice': 'จองในราคาใหม่',
+  'offline.discardBooking': 'ยกเลิก',
+  'common.connectingLine': 'กำลังเชื่อมต่อ LINE...',
+  'common.loadFailed': 'ไม่สามารถโหลดข้อมูล',
+  'common.loadFailedDetail': 'ไม่สามารถโหลดข้อมูล: {detail}',
+  'common.done': 'เสร็จสิ้น',
+  'common.people': '{count} คน',
+  'common.perHour': '{price}/ชม.',
+  'common.hours': '{hours} ชม.',
+  'common.km': '{km} กม.',
+  'common.minutes': '~{minutes} นาที',
+  'common.rating': '★ {rating} ({trips} เที่ยว)',
+  'common.language': 'ภาษา',
+
+  // Boat status
+  'boatStatus.available': 'ว่าง',
+  'boatStatus.busy': 'ไม่ว่าง',
+  'boatStatus.booked': 'จองแล้ว',
+  'boatStatus.maintenance': 'ซ่อม',
+
+  // Boat type
+  'boatType.standard': 'ทั่วไป',
+  'boatType.premium': 'พรีเมียม',
+  'boatType.speedboat': 'เรือเร็ว',
+  'boatType.longtail': 'หางยาว',
+
+  // Booking status
+  'bookingStatus.pending': 'รอยืนยัน',
+  'bookingStatus.confirmed': 'ยืนยันแล้ว',
+  'bookingStatus.cancelled': 'ยกเลิก',
+  'bookingStatus.completed': 'เสร็จสิ้น',
+
+  // Errors
+  'error.loginRequired': 'กรุณาเข้าสู่ระบบ LINE ก่อนใช้งาน',
+  'error.geolocationUnsupported': 'เบราว์เซอร์ไม่รองรับ Geolocation',
+  'error.geolocationFailed': 'ไม่สามารถเข้าถึงตำแหน่งได้: {detail}',
+  'error.liffDevMode': '⚠️ Dev Mode: ไม่ได้เชื่อมต่อกับ LINE (ใช้สำหรับทดสอบเท่านั้น)',
+  'error.liffSdkFailed': 'LIFF SDK ไม่สามารถโหลดได้',
+  'error.liffNotInClient': '⚠️ กรุณาเปิดใน LINE app เพื่อใช้งานเต็มรูปแบบ',
+  'error.liffInitFailed': 'LIFF เริ่มต้นไม่สำเร็จ: {detail}',
+  'error.network': 'เชื่อมต่อไม่ได้ กรุณาตรวจสอบอินเทอร์เน็ต',
+  'error.notConfigured': 'ระบบยังไม่ได้ตั้งค่า กรุณาติดต่อผู้ดูแล',
+  'error.unexpectedResponse': 'ข้อมูลจากเซิร์ฟเวอร์ไม่ถูกต้อง กรุณาลองใหม่ภายหลัง',
+
+  // Boat finder (/liff)
+  'finder.title': 'ดารณี - Boat Finder',
+  'finder.myBookings': 'การจองของฉัน',
+  'finder.boatsOnMap': 'เรือในแผนที่',
+  'finder.filters': 'ตัวกรอง',
+  'finder.found': 'พบ {count} ลำ',
+  'finder.noBoats': 'ไม่พบเรือในบริเวณนี้',
+  'finder.book': 'จอง',
+  'finder.nearPier': 'ใกล้{pier}',
+  'finder.devMode': 'Dev Mode',
+  'finder.share': 'แชร์',
+  'finder.shared': 'แชร์เรือแล้ว',
+  'finder.linkCopied': 'คัดลอกลิงก์เรือแล้ว',
+  'finder.shareFailed': 'ไม่สามารถแชร์ได้',
+  'finder.sharedBoatNotFound': 'ไม่พบเรือที่แชร์มา',
+  'search.placeholder': 'ค้นหาเรือ ท่าเรือ หรือสถานที่',
+  'search.clear': 'ล้างการค้นหา',
+  'search.noResults': 'ไม่พบผลลัพธ์',
+  'search.pier': 'ท่าเรือ',
+  'search.landmark': 'สถานที่',
+  'search.boatsAround': 'เรือรอบ{place}',
+  'search.backToMe': 'กลับไปตำแหน่งของฉัน',
+  'search.boatNotFound': 'ไม่พบเรือ {name}',
+  'search.boatLoadFailed': 'โหลดข้อมูลเรือไม่สำเร็จ: {reason}',
+  'share.title': 'ชวนไปล่องเรือ: {name}',
+  'share.type': 'ประเภท',
+  'share.capacity': 'ความจุ',
+  'share.price': 'ราคา',
+  'share.open': 'ดูเรือลำนี้',
+
+  // Map
+  'map.loading': 'กำลังโหลดแผนที่...',
+  'map.youAreHere': 'คุณอยู่ที่นี่',
+  'map.pickup': 'จุดรับ',
+  'map.piersLayer': 'ท่าเรือ',
+  'map.pierDocks': 'เรือที่เทียบท่าได้: {types}',
+  'map.pickUpHere': 'ให้มารับที่ท่านี้',
+  'map.pierIsPickup': 'จุดรับของคุณ',
+  'map.pierCannotDock': 'เรือประเภท{type}เทียบท่านี้ไม่ได้',
+  'map.bookThisBoat': 'จองเรือลำนี้',
+  'map.waterDistance': '{km} กม. ทางน้ำ',
+
+  // Filters
+  'filters.boatType': 'ประเภทเรือ',
+  'filters.minCapacity': 'จุขั้นต่ำ (คน)',
+  'filters.minPrice': 'ราคาต่ำสุด/ชม.',
+  'filters.maxPrice': 'ราคาสูงสุด/ชม.',
+  'filters.radius': 'รัศมี',
+  'filters.sortBy': 'เรียงตาม',
+  'filters.sort.distance': 'ใกล้ที่สุด',
+  'filters.sort.price': 'ราคาต่ำสุด',
+  'filters.sort.capacity': 'จุคนมากสุด',
+  'filters.availableOnly': 'เฉพาะเรือว่าง',
+  'filters.reset': 'ล้างตัวกรอง',
+
+  // Booking sheet
+  'booking.title': 'จองเรือ {name}',
+  'booking.tapMapForPickup': 'แตะบนแผนที่เพื่อเลือกจุดรับ',
+  'booking.success': 'จองสำเร็จ',
+  'booking.bookingId': 'หมายเลขการจอง',
+  'booking.duration': 'ระยะเวลา',
+  'booking.totalPrice': 'ราคารวม',
+  'booking.startTime': 'เวลาเริ่มต้น',
+  'booking.endTime': 'เวลาสิ้นสุด',
+  'booking.pickup': 'จุดรับ',
+  'booking.pickupNotSet': 'ยังไม่ได้เลือก',
+  'booking.pickupPier': 'รับที่ท่าเรือ',
+  'booking.pickupNoPier': 'ตำแหน่งของฉัน / หมุดบนแผนที่',
+  'booking.dropPin': 'ปักหมุดบนแผนที่',
+  'booking.noPrice': 'ไม่ระบุราคา',
+  'booking.submitting': 'กำลังจอง...',
+  'booking.confirm': 'ยืนยันการจอง',
+  'booking.loginRequired': 'กรุณาเข้าสู่ระบบ LINE ก่อนทำการจอง',
+  'booking.failedRetry': 'ไม่สามารถจองได้ กรุณาลองใหม่อีกครั้ง',
+  'booking.conflict': 'มีคนจองช่วงเวลานี้ไปแล้ว กรุณาเลือกเวลาอื่น',
+  'booking.priceChanged': 'ราคาเปลี่ยนเป็น {total} กรุณาตรวจสอบแล้วกดยืนยันอีกครั้ง',
+  'booking.endBeforeStart': 'เวลาสิ้นสุดต้องอยู่หลังเวลาเริ่มต้น',
+  'booking.inPast': 'ไม่สามารถจองเวลาที่ผ่านไปแล้ว',
+  'booking.tooLong': 'จองได้ไม่เกิน {hours} ชั่วโมง',
+  'booking.checking': 'กำลังตรวจสอบคิวว่าง...',
+  'booking.available': 'ว่างในช่วงเวลานี้',
+  'booking.unavailable': 'ไม่ว่างในช่วงเวลานี้',
+
+  // Itemized price quote (lib/pricing.ts)
+  'quote.title': 'ราคา',
+  'quote.line.base': 'ค่าเรือ {hours} × {rate}',
+  'quote.line.minimum_hours': 'เพิ่มให้ครบเวลาขั้นต่ำ ({hours})',
+  'quote.line.boat_type': 'ประเภทเรือ {type} ×{multiplier}',
+  'quote.line.peak': 'ช่วงเวลาเร่งด่วน +{percent}% ({hours})',
+  'quote.line.holiday': 'วันหยุด +{percent}% ({hours})',
+  'quote.line.pickup': 'ค่ารับนอกจุดจอด ({distance})',
+  'quote.total': 'รวม',
+  'quote.chargedAtBooking': 'ราคานี้คือยอดที่เรียกเก็บเมื่อยืนยันการจอง',
+
+  // Availability calendar
+  'schedule.title': 'ตารางว่าง {days} วัน',
+  'schedule.hint': 'แตะช่องที่ว่างเพื่อเลือกเวลา',
+  'schedule.free': 'ว่าง',
+  'schedule.booking': 'มีการจอง',
+  'schedule.maintenance': 'ซ่อมบำรุง',
+  'schedule.past': 'ผ่านไปแล้ว',
+  'schedule.freeHours': 'ว่าง {count} ชม.',
+  'schedule.loadFailed': 'ไม่สามารถโหลดตารางว่าง',
+
+  // PromptPay payment
+  'payment.title': 'ชำระเงินผ่านพร้อมเพย์',
+  'payment.scanHint': 'สแกน QR ด้วยแอปธนาคารเพื่อชำระ {amount}',
+  'payment.amount': 'ยอดชำระ',
+  'payment.status': 'การชำระเงิน',
+  'payment.status.unpaid': 'รอชำระ',
+  'payment.status.paid': 'ชำระแล้ว',
+  'payment.paidAt': 'ชำระเมื่อ {time}',
+  'payment.notAvailable': 'ผู้ให้บริการยังไม่ได้ตั้งค่าพร้อมเพย์ กรุณาชำระกับผู้ให้บริการโดยตรง',
+  'payment.loadFailed': 'ไม่สามารถโหลดข้อมูลการชำระเงิน',
+
+  // My bookings (/liff/bookings)
+  'myBookings.title': 'การจองของฉัน',
+  'myBookings.tab.upcoming': 'กำลังจะถึง',
+  'myBookings.tab.past': 'ที่ผ่านมา',
+  'myBookings.tab.cancelled': 'ยกเลิกแล้ว',
+  'myBookings.loginRequired': 'กรุณาเข้าสู่ระบบผ่าน LINE เพื่อดูการจอง',
+  'myBookings.empty': 'ไม่มีรายการ',
+  'myBookings.boat': 'เรือ',
+  'myBookings.details': 'รายละเอียดการจอง',
+  'myBookings.status': 'สถานะ',
+  'myBookings.boatType': 'ประเภทเรือ',
+  'myBookings.start': 'เริ่ม',
+  'myBookings.end': 'สิ้นสุด',
+  'myBookings.bookedAt': 'จองเมื่อ {time}',
+  'myBookings.confirmCancel': 'ยืนยันการยกเลิกการจองนี้?',
+  'myBookings.cancelFailed': 'ไม่สามารถยกเลิกการจองได้',
+  'myBookings.cancelling': 'กำลังยกเลิก...',
+  'myBookings.cancel': 'ยกเลิกการจอง',
+
+  // Group bookings (join links, fare splitting)
+  'group.title': 'ผู้ร่วมทริป',
+  'group.seats': '{count}/{capacity} ที่นั่ง',
+  'group.seatsLeft': 'ที่นั่งว่าง',
+  'group.organizer': 'ผู้จอง',
+  'group.you': 'คุณ',
+  'group.passenger': 'ผู้โดยสาร {number}',
+  'group.invite': 'ชวนเพื่อนร่วมทริป',
+  'group.inviteShared': 'ส่งคำเชิญแล้ว',
+  'group.inviteCopied': 'คัดลอกลิงก์เชิญแล้ว',
+  'group.inviteFailed': 'ไม่สามารถสร้างคำเชิญได้',
+  'group.inviteTitle': 'มาล่องเรือด้วยกัน: {name}',
+  'group.when': 'เวลา',
+  'group.joinAction': 'เข้าร่วมทริป',
+  'group.full': 'ที่นั่งเต็มแล้ว',
+  'group.split.even': 'หารเท่ากัน',
+  'group.split.custom': 'กำหนดเอง',
+  'group.sharesSum': 'รวม {sum} จาก {total}',
+  'group.shareOf': 'ส่วนของ {name}',
+  'group.saveShares': 'บันทึก',
+  'group.cancelEdit': 'ยกเลิก',
+  'group.splitFailed': 'ไม่สามารถแบ่งค่าเรือได้',
+  'group.shareError.negative': 'จำนวนเงินต้องไม่ติดลบ',
+  'group.shareError.missing': 'กรุณาใส่จำนวนเงินของทุกคน',
+  'group.shareError.total': 'ยอดรวมต้องเท่ากับ {total}',
+  'group.paidCount': 'ชำระแล้ว {paid}/{count} คน',
+  'group.markPaidFailed': 'ไม่สามารถบันทึกการชำระเงินได้',
+  'group.joinedFrom': 'คุณร่วมทริปที่ {name} จองไว้',
+  'group.yourShare': 'ส่วนของคุณ',
+  'group.payOrganizer': 'ชำระส่วนของคุณกับผู้จอง',
+  'group.loadFailed': 'ไม่สามารถโหลดรายชื่อผู้ร่วมทริป',
+  'group.joinedTag': 'ร่วมทริป',
+  'group.joinTitle': 'คำเชิญร่วมทริป',
+  'group.loginRequired': 'กรุณาเข้าสู่ระบบผ่าน LINE เพื่อเข้าร่วมทริป',
+  'group.inviteNotFound': 'ไม่พบคำเชิญนี้',
+  'group.invitedBy': '{name} ชวนคุณล่องเรือ',
+  'group.join': 'เข้าร่วมทริป',
+  'group.joining': 'กำลังเข้าร่วม...',
+  'group.joined': 'คุณอยู่ในทริปนี้แล้ว',
+  'group.joinFailed': 'ไม่สามารถเข้าร่วมทริปได้',
+  'group.closed': 'ทริปนี้ปิดรับแล้ว',
+
+  // Post-trip reviews
+  'review.title': 'ให้คะแนนทริปนี้',
+  'review.star': '{count} ดาว',
+  'review.commentPlaceholder': 'เล่าประสบการณ์ของคุณ (ไม่บังคับ)',
+  'review.submit': 'ส่งรีวิว',
+  'review.submitting': 'กำลังส่ง...',
+  'review.failed': 'ไม่สามารถส่งรีวิวได้',
+  'review.thanks': 'ขอบคุณสำหรับรีวิว',
+  'review.yours': 'รีวิวของคุณ',
+  'review.recent': 'รีวิวล่าสุด',
+  'review.none': 'ยังไม่มีรีวิว',
+
+  // Live trip (/liff/trips/:id)
+  'trip.title': 'ติดตามทริป',
+  'trip.open': 'ติดตามทริป',
+  'trip.notFound': 'ไม่พบการจองนี้',
+  'trip.upcoming': 'ทริปจะเริ่ม {time}',
+  'trip.active': 'กำลังเดินทาง · สิ้นสุด {time}',
+  'trip.ended': 'ทริปจบแล้ว',
+  'trip.boatEta': 'เรือจะถึงคุณในประมาณ {minutes}',
+  'trip.boatEtaUnknown': 'ยังคำนวณเวลาที่เรือจะถึงไม่ได้',
+  'trip.sharingLocation': 'กำลังแชร์ตำแหน่งของคุณกับผู้ให้บริการจนจบทริป',
+  'trip.notSharing': 'ตำแหน่งของคุณจะแชร์กับผู้ให้บริการเฉพาะระหว่างทริปเท่านั้น',
+  'trip.lastShared': 'แชร์ล่าสุด {time}',
+
+  // Operator console (/operator)
+  'operator.title': 'ดารณี - ผู้ให้บริการ',
+  'operator.loginRequired': 'กรุณาเข้าสู่ระบบผ่าน LINE เพื่อใช้งานหน้าผู้ให้บริการ',
+  'operator.notRegistered': 'บัญชี LINE นี้ไม่ได้ลงทะเบียนเป็นผู้ให้บริการ',
+  'operator.noBoats': 'ยังไม่มีเรือในความดูแล',
+  'operator.statusChangeFailed': 'ไม่สามารถเปลี่ยนสถานะเรือ {name} ได้',
+  'operator.todayBookings': 'การจองวันนี้ ({count})',
+  'operator.noBookings': 'ไม่มีการจอง',
+  'operator.markPaid': 'ยืนยันรับชำระ',
+  'operator.markPaidFailed': 'ไม่สามารถบันทึกการชำระเงินได้',
+  'operator.endTrip': 'จบทริป',
+  'operator.confirmEndTrip': 'ยืนยันจบทริปนี้?',
+  'operator.endTripFailed': 'ไม่สามารถจบทริปได้',
+  'operator.passengerLocation': 'ตำแหน่งผู้โดยสาร · {time}',
+  'operator.passengerLocationWaiting': 'รอตำแหน่งผู้โดยสาร',
+  'operator.openMap': 'เปิดแผนที่',
+  'fleet.manage': 'จัดการกองเรือ',
+  'fleet.title': 'ดารณี - จัดการกองเรือ',
+  'fleet.adminBadge': 'ผู้ดูแลระบบ · จัดการเรือทุกลำ',
+  'fleet.addBoat': 'เพิ่มเรือ',
+  'fleet.editBoat': 'แก้ไขข้อมูลเรือ',
+  'fleet.edit': 'แก้ไข',
+  'fleet.save': 'บันทึก',
+  'fleet.saving': 'กำลังบันทึก...',
+  'fleet.cancel': 'ยกเลิก',
+  'fleet.saveFailed': 'ไม่สามารถบันทึกข้อมูลเรือได้',
+  'fleet.field.name': 'ชื่อเรือ',
+  'fleet.field.boatType': 'ประเภทเรือ',
+  'fleet.field.capacity': 'จำนวนที่นั่ง',
+  'fleet.field.pricePerHour': 'ราคาต่อชั่วโมง (บาท)',
+  'fleet.field.homeLatitude': 'ละติจูดท่าประจำ',
+  'fleet.field.homeLongitude': 'ลองจิจูดท่าประจำ',
+  'fleet.field.owner': 'เจ้าของเรือ',
+  'fleet.ownerSelf': 'ตัวฉันเอง',
+  'fleet.useMyLocation': 'ใช้ตำแหน่งปัจจุบันเป็นท่าประจำ',
+  'fleet.ownedBy': 'เจ้าของ: {name}',
+  'fleet.error.required': 'กรุณากรอกข้อมูล',
+  'fleet.error.tooLong': 'ยาวเกิน {max} ตัวอักษร',
+  'fleet.error.invalid': 'ข้อมูลไม่ถูกต้อง',
+  'fleet.error.outOfRange': 'ค่าอยู่นอกช่วงที่อนุญาต',
+  'fleet.retire': 'ปลดระวาง',
+  'fleet.retired': 'ปลดระวางแล้ว · {date}',
+  'fleet.confirmRetire': 'ปลดระวางเรือ {name}? เรือจะไม่แสดงบนแผนที่และไม่สามารถจองได้อีก',
+  'fleet.retireFailed': 'ไม่สามารถปลดระวางเรือ {name} ได้',
+  'fleet.maintenance.title': 'ซ่อมบำรุง',
+  'fleet.maintenance.none': 'ไม่มีกำหนดซ่อมบำรุง',
+  'fleet.maintenance.reason': 'เหตุผล (ไม่บังคับ)',
+  'fleet.maintenance.schedule': 'กำหนดช่วงซ่อมบำรุง',
+  'fleet.maintenance.cancel': 'ยกเลิก',
+  'fleet.maintenance.confirmCancel': 'ยกเลิกช่วงซ่อมบำรุงนี้?',
+  'fleet.maintenance.failed': 'ไม่สามารถบันทึกช่วงซ่อมบำรุงได้',
+  'fleet.maintenance.error.invalidWindow': 'เวลาสิ้นสุดต้องหลังเวลาเริ่ม',
+  'fleet.maintenance.error.inPast': 'ช่วงเวลานี้ผ่านไปแล้ว',
+  'fleet.maintenance.error.reasonTooLong': 'เหตุผลยาวเกินไป',
+  'fleet.audit.title': 'ประวัติการแก้ไข',
+  'fleet.audit.empty': 'ยังไม่มีประวัติ',
+  'fleet.audit.system': 'ระบบ (อัตโนมัติ)',
+  'fleet.audit.action.created': 'เพิ่มเรือ',
+  'fleet.audit.action.updated': 'แก้ไขข้อมูล',
+  'fleet.audit.action.retired': 'ปลดระวาง',
+  'fleet.audit.action.maintenance_scheduled': 'กำหนดซ่อมบำรุง',
+  'fleet.audit.action.maintenance_cancelled': 'ยกเลิกซ่อมบำรุง',
+  'fleet.audit.action.maintenance_started': 'เริ่มซ่อมบำรุง',
+  'fleet.audit.action.maintenance_ended': 'สิ้นสุดซ่อมบำรุง',
+  'analytics.open': 'สถิติ',
+  'analytics.title': 'ดารณี - สถิติการใช้งานและรายได้',
+  'analytics.lastDays': '{count} วันล่าสุด',
+  'analytics.revenue': 'รายได้',
+  'analytics.bookings': 'การจอง',
+  'analytics.utilization': 'อัตราการใช้งาน',
+  'analytics.averageLength': 'ระยะเวลาเฉลี่ย',
+  'analytics.cancellationRate': 'อัตราการยกเลิก',
+  'analytics.revenueOverTime': 'รายได้รายวัน',
+  'analytics.bookingCount': '{count} การจอง',
+  'analytics.byBoat': 'การใช้งานรายลำ',
+  'analytics.byType': 'การใช้งานตามประเภทเรือ',
+  'analytics.bookedOfOpen': 'จอง {booked} จาก {open}',
+  'analytics.maintenanceHours': 'ซ่อมบำรุง {hours}',
+  'analytics.demandMap': 'จุดรับผู้โดยสารยอดนิยม',
+  'analytics.noPickups': 'ยังไม่มีข้อมูลจุดรับในช่วงนี้',
+  'analytics.pickups': 'รับผู้โดยสาร {count} ครั้ง',
+  'analytics.export': 'ส่งออก CSV',
+  'analytics.exportBoats': 'สรุปรายลำ',
+  'analytics.exportRevenue': 'รายได้รายวัน',
+  'analytics.exportBookings': 'รายการจอง',
+
+  // LINE push notifications
+  'notify.created.passenger': 'ได้รับคำขอจองแล้ว',
+  'notify.created.operator': 'มีการจองใหม่',
+  'notify.confirmed.passenger': 'ยืนยันการจองแล้ว',
+  'notify.confirmed.operator': 'การจองได้รับการยืนยัน',
+  'notify.cancelled.passenger': 'การจองถูกยกเลิก',
+  'notify.cancelled.operator': 'ผู้โดยสารยกเลิกการจอง',
+  'notify.completed.passenger': 'ทริปเสร็จสิ้น ขอบคุณที่ใช้บริการ',
+  'notify.completed.operator': 'ทริปเสร็จสิ้น',
+  'notify.boatStatus': 'เรือ {name} เปลี่ยนสถานะ',
+  'notify.boatMaintenanceNote': 'เรืออยู่ระหว่างซ่อมบำรุง ผู้ให้บริการจะติดต่อเพื่อจัดเรือใหม่หรือยกเลิกการจอง',
+  'notify.boat': 'เรือ',
+  'notify.time': 'เวลา',
+  'notify.price': 'ราคา',
+  'notify.status': 'สถานะ',
+  'notify.viewBooking': 'ดูการจอง',
+  'notify.openConsole': 'เปิดหน้าผู้ให้บริการ',
+};
+
+export type MessageKey = keyof typeof th;
+export type Messages = Record<MessageKey, string>;
+
+const en: Messages = {
+  'common.close': 'Close',
+  'common.back': 'Back',
+  'common.loading': 'Loading...',
+  'realtime.live': 'Live',
+  'realtime.connecting': 'Connecting',
+  'realtime.reconnecting': 'Reconnecting',
+  'realtime.stale': 'May be outdated',
+  'realtime.staleHint': 'Connection lost – data on screen may be out of date. It refreshes once the connection is back.',
+  'offline.cachedBoats': 'Offline – showing {count} boats from {time}',
+  'offline.availabilityUnknown': 'Offline – availability is checked when the booking is sent',
+  'offline.queueBooking': 'Book when back online',
+  'offline.bookingQueued': 'Booking saved',
+  'offline.bookingQueuedHint': "There's no signal right now. The booking is sent automatically once you're connected (keep the app open or reopen it).",
+  'offline.bookingsWaiting': '{count} booking(s) waiting to be sent',
+  'offline.queuedSent': 'Your saved booking for {name} was sent – see My bookings',
+  'offline.queuedFailed': 'Your saved booking for {name} could not be made: {reason}',
+  'offline.queuedExpired': "Your saved booking for {name} wasn't sent because its start time has passed",
+  'offline.queuedRepriced': 'The price of your saved booking for {name} changed from {from} to {to}',
+  'offline.bookAtNewPrice': 'Book at the new price',
+  'offline.discardBooking': 'Discard',
+  'common.connectingLine': 'Connecting to LINE...',
+  'common.loadFailed': 'Could not load data',
+  'common.loadFailedDetail': 'Could not load data: {detail}',
+  'common.done': 'Done',
+  'common.people': '{count} people',
+  'common.perHour': '{price}/hr',
+  'common.hours': '{hours} hr',
+  'common.km': '{km} km',
+  'common.minutes': '~{minutes} min',
+  'common.rating': '★ {rating} ({trips} trips)',
+  'common.language': 'Language',
+
+  'boatStatus.available': 'Available',
+  'boatStatus.busy': 'Busy',
+  'boatStatus.booked': 'Booked',
+  'boatStatus.maintenance': 'Maintenance',
+
+  'boatType.standard': 'Standard',
+  'boatType.premium': 'Premium',
+  'boatType.speedboat': 'Speedboat',
+  'boatType.longtail': 'Longtail',
+
+  'bookingStatus.pending': 'Pending',
+  'bookingStatus.confirmed': 'Confirmed',
+  'bookingStatus.cancelled': 'Cancelled',
+  'bookingStatus.completed': 'Completed',
+
+  'error.loginRequired': 'Please log in with LINE first',
+  'error.geolocationUnsupported': 'This browser does not support geolocation',
+  'error.geolocationFailed': 'Could not access your location: {detail}',
+  'error.liffDevMode': '⚠️ Dev Mode: not connected to LINE (for testing only)',
+  'error.liffSdkFailed': 'Could not load the LIFF SDK',
+  'error.liffNotInClient': '⚠️ Please open this page in the LINE app for full features',
+  'error.liffInitFailed': 'LIFF failed to start: {detail}',
+  'error.network': 'Cannot connect. Please check your internet connection',
+  'error.notConfigured': 'The service is not set up yet. Please contact the administrator',
+  'error.unexpectedResponse': 'The server sent unexpected data. Please try again later',
+
+  'finder.title': 'Daranee - Boat Finder',
+  'finder.myBookings': 'My bookings',
+  'finder.boatsOnMap': 'Boats on map',
+  'finder.filters': 'Filters',
+  'finder.found': '{count} boats found',
+  'finder.noBoats': 'No boats in this area',
+  'finder.book': 'Book',
+  'finder.nearPier': 'Near {pier}',
+  'finder.devMode': 'Dev Mode',
+  'finder.share': 'Share',
+  'finder.shared': 'Boat shared',
+  'finder.linkCopied': 'Boat link copied',
+  'finder.shareFailed': 'Could not share',
+  'finder.sharedBoatNotFound': 'The shared boat was not found',
+  'search.placeholder': 'Search boats, piers or places',
+  'search.clear': 'Clear search',
+  'search.noResults': 'No matches',
+  'search.pier': 'Pier',
+  'search.landmark': 'Place',
+  'search.boatsAround': 'Boats around {place}',
+  'search.backToMe': 'Back to my location',
+  'search.boatNotFound': '{name} was not found',
+  'search.boatLoadFailed': 'Could not load the boat: {reason}',
+  'share.title': 'Join me on a boat: {name}',
+  'share.type': 'Type',
+  'share.capacity': 'Capacity',
+  'share.price': 'Price',
+  'share.open': 'View this boat',
+
+  'map.loading': 'Loading map...',
+  'map.youAreHere': 'You are here',
+  'map.pickup': 'Pickup point',
+  'map.piersLayer': 'Piers',
+  'map.pierDocks': 'Docks: {types}',
+  'map.pickUpHere': 'Pick me up here',
+  'map.pierIsPickup': 'Your pickup',
+  'map.pierCannotDock': "Can't dock here ({type})",
+  'map.bookThisBoat': 'Book this boat',
+  'map.waterDistance': '{km} km by water',
+
+  'filters.boatType': 'Boat type',
+  'filters.minCapacity': 'Min. capacity',
+  'filters.minPrice': 'Min. price/hr',
+  'filters.maxPrice': 'Max. price/hr',
+  'filters.radius': 'Radius',
+  'filters.sortBy': 'Sort by',
+  'filters.sort.distance': 'Nearest',
+  'filters.sort.price': 'Lowest price',
+  'filters.sort.capacity': 'Most seats',
+  'filters.availableOnly': 'Available only',
+  'filters.reset': 'Reset filters',
+
+  'booking.title': 'Book {name}',
+  'booking.tapMapForPickup': 'Tap the map to choose a pickup point',
+  'booking.success': 'Booking complete',
+  'booking.bookingId': 'Booking ID',
+  'booking.duration': 'Duration',
+  'booking.totalPrice': 'Total',
+  'booking.startTime': 'Start time',
+  'booking.endTime': 'End time',
+  'booking.pickup': 'Pickup',
+  'booking.pickupNotSet': 'Not selected',
+  'booking.pickupPier': 'Pick up at a pier',
+  'booking.pickupNoPier': 'My location / map pin',
+  'booking.dropPin': 'Drop a pin on the map',
+  'booking.noPrice': 'Price on request',
+  'booking.submitting': 'Booking...',
+  'booking.confirm': 'Confirm booking',
+  'booking.loginRequired': 'Please log in with LINE before booking',
+  'booking.failedRetry': 'Booking failed, please try again',
+  'booking.conflict': 'Someone just booked this time. Please choose another time',
+  'booking.priceChanged': 'The price has changed to {total}. Please check it and confirm again',
+  'booking.endBeforeStart': 'End time must be after start time',
+  'booking.inPast': 'Cannot book a time in the past',
+  'booking.tooLong': 'Bookings can be at most {hours} hours',
+  'booking.checking': 'Checking availability...',
+  'booking.available': 'Available for this time',
+  'booking.unavailable': 'Not available for this time',
+
+  // Itemized price quote (lib/pricing.ts)
+  'quote.title': 'Price',
+  'quote.line.base': 'Boat {hours} × {rate}',
+  'quote.line.minimum_hours': 'Minimum booking top-up ({hours})',
+  'quote.line.boat_type': 'Boat type: {type} ×{multiplier}',
+  'quote.line.peak': 'Peak hours +{percent}% ({hours})',
+  'quote.line.holiday': 'Weekend/holiday +{percent}% ({hours})',
+  'quote.line.pickup': 'Pickup fee ({distance})',
+  'quote.total': 'Total',
+  'quote.chargedAtBooking': 'This is the amount charged when you confirm',
+
+  'schedule.title': 'Availability, next {days} days',
+  'schedule.hint': 'Tap a free slot to choose a time',
+  'schedule.free': 'Free',
+  'schedule.booking': 'Booked',
+  'schedule.maintenance': 'Maintenance',
+  'schedule.past': 'Past',
+  'schedule.freeHours': '{count} hr free',
+  'schedule.loadFailed': 'Could not load availability',
+
+  // PromptPay payment
+  'payment.title': 'Pay with PromptPay',
+  'payment.scanHint': 'Scan the QR with your banking app to pay {amount}',
+  'payment.amount': 'Amount due',
+  'payment.status': 'Payment',
+  'payment.status.unpaid': 'Unpaid',
+  'payment.status.paid': 'Paid',
+  'payment.paidAt': 'Paid {time}',
+  'payment.notAvailable': 'This operator has no PromptPay set up yet, please pay them directly',
+  'payment.loadFailed': 'Could not load payment details',
+
+  'myBookings.title': 'My bookings',
+  'myBookings.tab.upcoming': 'Upcoming',
+  'myBookings.tab.past': 'Past',
+  'myBookings.tab.cancelled': 'Cancelled',
+  'myBookings.loginRequired': 'Log in with LINE to see your bookings',
+  'myBookings.empty': 'Nothing here yet',
+  'myBookings.boat': 'Boat',
+  'myBookings.details': 'Booking details',
+  'myBookings.status': 'Status',
+  'myBookings.boatType': 'Boat type',
+  'myBookings.start': 'Start',
+  'myBookings.end': 'End',
+  'myBookings.bookedAt': 'Booked on {time}',
+  'myBookings.confirmCancel': 'Cancel this booking?',
+  'myBookings.cancelFailed': 'Could not cancel the booking',
+  'myBookings.cancelling': 'Cancelling...',
+  'myBookings.cancel': 'Cancel booking',
+
+  // Group bookings (join links, fare splitting)
+  'group.title': 'Passengers',
+  'group.seats': '{count}/{capacity} seats',
+  'group.seatsLeft': 'Seats left',
+  'group.organizer': 'Organizer',
+  'group.you': 'you',
+  'group.passenger': 'Passenger {number}',
+  'group.invite': 'Invite friends',
+  'group.inviteShared': 'Invite sent',
+  'group.inviteCopied': 'Invite link copied',
+  'group.inviteFailed': 'Could not create the invite',
+  'group.inviteTitle': 'Join my boat trip: {name}',
+  'group.when': 'When',
+  'group.joinAction': 'Join the trip',
+  'group.full': 'Boat is full',
+  'group.split.even': 'Split evenly',
+  'group.split.custom': 'Custom shares',
+  'group.sharesSum': '{sum} of {total}',
+  'group.shareOf': 'Share of {name}',
+  'group.saveShares': 'Save',
+  'group.cancelEdit': 'Cancel',
+  'group.splitFailed': 'Could not split the fare',
+  'group.shareError.negative': 'Amounts cannot be negative',
+  'group.shareError.missing': 'Enter an amount for every passenger',
+  'group.shareError.total': 'Shares must add up to {total}',
+  'group.paidCount': '{paid} of {count} paid',
+  'group.markPaidFailed': 'Could not update the payment',
+  'group.joinedFrom': "You joined {name}'s booking",
+  'group.yourShare': 'Your share',
+  'group.payOrganizer': 'Pay your share to the organizer',
+  'group.loadFailed': 'Could not load the passengers',
+  'group.joinedTag': 'Joined',
+  'group.joinTitle': 'Trip invite',
+  'group.loginRequired': 'Please log in with LINE to join the trip',
+  'group.inviteNotFound': 'This invite was not found',
+  'group.invitedBy': '{name} invited you on a boat trip',
+  'group.join': 'Join the trip',
+  'group.joining': 'Joining...',
+  'group.joined': 'You are on this trip',
+  'group.joinFailed': 'Could not join the trip',
+  'group.closed': 'This trip is closed',
+
+  // Post-trip reviews
+  'review.title': 'Rate this trip',
+  'review.star': '{count} stars',
+  'review.commentPlaceholder': 'Tell us about your trip (optional)',
+  'review.submit': 'Submit review',
+  'review.submitting': 'Submitting...',
+  'review.failed': 'Could not submit your review',
+  'review.thanks': 'Thanks for your review',
+  'review.yours': 'Your review',
+  'review.recent': 'Recent reviews',
+  'review.none': 'No reviews yet',
+
+  // Live trip (/liff/trips/:id)
+  'trip.title': 'Trip',
+  'trip.open': 'Follow trip',
+  'trip.notFound': 'Booking not found',
+  'trip.upcoming': 'Trip starts {time}',
+  'trip.active': 'On the way · ends {time}',
+  'trip.ended': 'Trip ended',
+  'trip.boatEta': 'Your boat arrives in {minutes}',
+  'trip.boatEtaUnknown': 'Boat arrival time not available yet',
+  'trip.sharingLocation': 'Sharing your location with the operator until the trip ends',
+  'trip.notSharing': 'Your location is shared with the operator only during the trip',
+  'trip.lastShared': 'Last shared {time}',
+
+  'operator.title': 'Daranee - Operator',
+  'operator.loginRequired': 'Log in with LINE to use the operator console',
+  'operator.notRegistered': 'This LINE account is not registered as an operator',
+  'operator.noBoats': 'No boats assigned yet',
+  'operator.statusChangeFailed': 'Could not change the status of {name}',
+  'operator.todayBookings': "Today's bookings ({count})",
+  'operator.noBookings': 'No bookings',
+  'operator.markPaid': 'Mark as paid',
+  'operator.markPaidFailed': 'Could not record the payment',
+  'operator.endTrip': 'End trip',
+  'operator.confirmEndTrip': 'End this trip now?',
+  'operator.endTripFailed': 'Could not end the trip',
+  'operator.passengerLocation': 'Passenger location · {time}',
+  'operator.passengerLocationWaiting': 'Waiting for passenger location',
+  'operator.openMap': 'Open map',
+  'fleet.manage': 'Manage fleet',
+  'fleet.title': 'Daranee - Fleet',
+  'fleet.adminBadge': 'Admin · managing every boat',
+  'fleet.addBoat': 'Add boat',
+  'fleet.editBoat': 'Edit boat',
+  'fleet.edit': 'Edit',
+  'fleet.save': 'Save',
+  'fleet.saving': 'Saving...',
+  'fleet.cancel': 'Cancel',
+  'fleet.saveFailed': 'Could not save the boat',
+  'fleet.field.name': 'Boat name',
+  'fleet.field.boatType': 'Boat type',
+  'fleet.field.capacity': 'Seats',
+  'fleet.field.pricePerHour': 'Price per hour (THB)',
+  'fleet.field.homeLatitude': 'Home pier latitude',
+  'fleet.field.homeLongitude': 'Home pier longitude',
+  'fleet.field.owner': 'Owner',
+  'fleet.ownerSelf': 'Me',
+  'fleet.useMyLocation': 'Use my current location as home pier',
+  'fleet.ownedBy': 'Owner: {name}',
+  'fleet.error.required': 'Required',
+  'fleet.error.tooLong': 'Longer than {max} characters',
+  'fleet.error.invalid': 'Invalid value',
+  'fleet.error.outOfRange': 'Out of the allowed range',
+  'fleet.retire': 'Retire',
+  'fleet.retired': 'Retired · {date}',
+  'fleet.confirmRetire': 'Retire {name}? It will leave the map and can no longer be booked.',
+  'fleet.retireFailed': 'Could not retire {name}',
+  'fleet.maintenance.title': 'Maintenance',
+  'fleet.maintenance.none': 'No maintenance scheduled',
+  'fleet.maintenance.reason': 'Reason (optional)',
+  'fleet.maintenance.schedule': 'Schedule maintenance',
+  'fleet.maintenance.cancel': 'Cancel',
+  'fleet.maintenance.confirmCancel': 'Cancel this maintenance window?',
+  'fleet.maintenance.failed': 'Could not save the maintenance window',
+  'fleet.maintenance.error.invalidWindow': 'End time must be after start time',
+  'fleet.maintenance.error.inPast': 'This window has already ended',
+  'fleet.maintenance.error.reasonTooLong': 'Reason is too long',
+  'fleet.audit.title': 'History',
+  'fleet.audit.empty': 'No changes yet',
+  'fleet.audit.system': 'System (automatic)',
+  'fleet.audit.action.created': 'Boat added',
+  'fleet.audit.action.updated': 'Details updated',
+  'fleet.audit.action.retired': 'Retired',
+  'fleet.audit.action.maintenance_scheduled': 'Maintenance scheduled',
+  'fleet.audit.action.maintenance_cancelled': 'Maintenance cancelled',
+  'fleet.audit.action.maintenance_started': 'Maintenance started',
+  'fleet.audit.action.maintenance_ended': 'Maintenance ended',
+  'analytics.open': 'Analytics',
+  'analytics.title': 'Daranee - Utilization & revenue',
+  'analytics.lastDays': 'Last {count} days',
+  'analytics.revenue': 'Revenue',
+  'analytics.bookings': 'Bookings',
+  'analytics.utilization': 'Utilization',
+  'analytics.averageLength': 'Avg. booking',
+  'analytics.cancellationRate': 'Cancellation rate',
+  'analytics.revenueOverTime': 'Revenue per day',
+  'analytics.bookingCount': '{count} bookings',
+  'analytics.byBoat': 'Utilization by boat',
+  'analytics.byType': 'Utilization by boat type',
+  'analytics.bookedOfOpen': '{booked} booked of {open}',
+  'analytics.maintenanceHours': '{hours} maintenance',
+  'analytics.demandMap': 'Where demand comes from',
+  'analytics.noPickups': 'No pickup points in this range',
+  'analytics.pickups': '{count} pickups',
+  'analytics.export': 'Export CSV',
+  'analytics.exportBoats': 'Boat summary',
+  'analytics.exportRevenue': 'Daily revenue',
+  'analytics.exportBookings': 'Bookings',
+
+  // LINE push notifications
+  'notify.created.passenger': 'Booking request received',
+  'notify.created.operator': 'New booking',
+  'notify.confirmed.passenger': 'Booking confirmed',
+  'notify.confirmed.operator': 'Booking confirmed',
+  'notify.cancelled.passenger': 'Booking cancelled',
+  'notify.cancelled.operator': 'Passenger cancelled a booking',
+  'notify.completed.passenger': 'Trip completed – thank you for riding with us',
+  'notify.completed.operator': 'Trip completed',
+  'notify.boatStatus': '{name} changed status',
+  'notify.boatMaintenanceNote': 'The boat is under maintenance. The operator will contact you to rebook or cancel.',
+  'notify.boat': 'Boat',
+  'notify.time': 'Time',
+  'notify.price': 'Price',
+  'notify.status': 'Status',
+  'notify.viewBooking': 'View booking',
+  'notify.openConsole': 'Open operator console',
+};
+
+const zh: Messages = {
+  'common.close': '关闭',
+  'common.back': '返回',
+  'common.loading': '加载中...',
+  'realtime.live': '实时',
+  'realtime.connecting': '连接中',
+  'realtime.reconnecting': '正在重新连接',
+  'realtime.stale': '数据可能已过时',
+  'realtime.staleHint': '连接已断开，屏幕上的数据可能不是最新的。恢复连接后会自动刷新。',
+  'offline.cachedBoats': '离线 – 显示 {time} 时的 {count} 艘船',
+  'offline.availabilityUnknown': '离线 – 发送预订时再检查是否可用',
+  'offline.queueBooking': '恢复网络后预订',
+  'offline.bookingQueued': '预订已保存',
+  'offline.bookingQueuedHint': '当前没有信号。连接恢复后将自动发送预订（请保持应用打开或重新打开）。',
+  'offline.bookingsWaiting': '{count} 个预订等待发送',
+  'offline.queuedSent': '已发送 {name} 的待处理预订 – 请在「我的预订」中查看',
+  'offline.queuedFailed': '{name} 的待处理预订未能完成：{reason}',
+  'offline.queuedExpired': '{name} 的待处理预订因开始时间已过而未发送',
+  'offline.queuedRepriced': '{name} 的待处理预订价格已从 {from} 变为 {to}',
+  'offline.bookAtNewPrice': '按新价格预订',
+  'offline.discardBooking': '放弃',
+  'common.connectingLine': '正在连接 LINE...',
+  'common.loadFailed': '无法加载数据',
+  'common.loadFailedDetail': '无法加载数据：{detail}',
+  'common.done': '完成',
+  'common.people': '{count} 人',
+  'common.perHour': '{price}/小时',
+  'common.hours': '{hours} 小时',
+  'common.km': '{km} 公里',
+  'common.minutes': '约 {minutes} 分钟',
+  'common.rating': '★ {rating}（{trips} 次行程）',
+  'common.language': '语言',
+
+  'boatStatus.available': '空闲',
+  'boatStatus.busy': '忙碌',
+  'boatStatus.booked': '已预订',
+  'boatStatus.maintenance': '维修中',
+
+  'boatType.standard': '普通船',
+  'boatType.premium': '高级船',
+  'boatType.speedboat': '快艇',
+  'boatType.longtail': '长尾船',
+
+  'bookingStatus.pending': '待确认',
+  'bookingStatus.confirmed': '已确认',
+  'bookingStatus.cancelled': '已取消',
+  'bookingStatus.completed': '已完成',
+
+  'error.loginRequired': '请先登录 LINE',
+  'error.geolocationUnsupported': '此浏览器不支持定位',
+  'error.geolocationFailed': '无法获取您的位置：{detail}',
+  'error.liffDevMode': '⚠️ 开发模式：未连接 LINE（仅供测试）',
+  'error.liffSdkFailed': '无法加载 LIFF SDK',
+  'error.liffNotInClient': '⚠️ 请在 LINE 应用中打开以使用全部功能',
+  'error.liffInitFailed': 'LIFF 启动失败：{detail}',
+  'error.network': '无法连接，请检查网络',
+  'error.notConfigured': '服务尚未配置，请联系管理员',
+  'error.unexpectedResponse': '服务器返回的数据异常，请稍后重试',
+
+  'finder.title': 'Daranee - 找船',
+  'finder.myBookings': '我的预订',
+  'finder.boatsOnMap': '地图上的船',
+  'finder.filters': '筛选',
+  'finder.found': '找到 {count} 艘',
+  'finder.noBoats': '此区域没有船',
+  'finder.book': '预订',
+  'finder.nearPier': '靠近{pier}',
+  'finder.devMode': '开发模式',
+  'finder.share': '分享',
+  'finder.shared': '已分享船只',
+  'finder.linkCopied': '已复制船只链接',
+  'finder.shareFailed': '无法分享',
+  'finder.sharedBoatNotFound': '找不到分享的船只',
+  'search.placeholder': '搜索船只、码头或地点',
+  'search.clear': '清除搜索',
+  'search.noResults': '没有匹配结果',
+  'search.pier': '码头',
+  'search.landmark': '地点',
+  'search.boatsAround': '{place}附近的船只',
+  'search.backToMe': '回到我的位置',
+  'search.boatNotFound': '找不到 {name}',
+  'search.boatLoadFailed': '无法加载船只：{reason}',
+  'share.title': '一起坐船：{name}',
+  'share.type': '类型',
+  'share.capacity': '载客量',
+  'share.price': '价格',
+  'share.open': '查看这艘船',
+
+  'map.loading': '地图加载中...',
+  'map.youAreHere': '您在这里',
+  'map.pickup': '上船点',
+  'map.piersLayer': '码头',
+  'map.pierDocks': '可停靠：{types}',
+  'map.pickUpHere': '在这里接我',
+  'map.pierIsPickup': '您的上船点',
+  'map.pierCannotDock': '{type}无法停靠此码头',
+  'map.bookThisBoat': '预订这艘船',
+  'map.waterDistance': '水路 {km} 公里',
+
+  'filters.boatType': '船型',
+  'filters.minCapacity': '最少人数',
+  'filters.minPrice': '最低价/小时',
+  'filters.maxPrice': '最高价/小时',
+  'filters.radius': '范围',
+  'filters.sortBy': '排序',
+  'filters.sort.distance': '最近',
+  'filters.sort.price': '价格最低',
+  'filters.sort.capacity': '座位最多',
+  'filters.availableOnly': '仅显示空闲',
+  'filters.reset': '清除筛选',
+
+  'booking.title': '预订 {name}',
+  'booking.tapMapForPickup': '点击地图选择上船点',
+  'booking.success': '预订成功',
+  'booking.bookingId': '预订编号',
+  'booking.duration': '时长',
+  'booking.totalPrice': '总价',
+  'booking.startTime': '开始时间',
+  'booking.endTime': '结束时间',
+  'booking.pickup': '上船点',
+  'booking.pickupNotSet': '未选择',
+  'booking.pickupPier': '在码头上船',
+  'booking.pickupNoPier': '我的位置 / 地图标记',
+  'booking.dropPin': '在地图上标记',
+  'booking.noPrice': '价格面议',
+  'booking.submitting': '预订中...',
+  'booking.confirm': '确认预订',
+  'booking.loginRequired': '预订前请先登录 LINE',
+  'booking.failedRetry': '预订失败，请重试',
+  'booking.conflict': '该时段刚被预订，请选择其他时间',
+  'booking.priceChanged': '价格已变为 {total}，请确认后再次提交',
+  'booking.endBeforeStart': '结束时间必须晚于开始时间',
+  'booking.inPast': '不能预订过去的时间',
+  'booking.tooLong': '预订时长不能超过 {hours} 小时',
+  'booking.checking': '正在检查空闲时段...',
+  'booking.available': '此时段可预订',
+  'booking.unavailable': '此时段不可预订',
+
+  // Itemized price quote (lib/pricing.ts)
+  'quote.title': '价格',
+  'quote.line.base': '船费 {hours} × {rate}',
+  'quote.line.minimum_hours': '最低时长补足（{hours}）',
+  'quote.line.boat_type': '船型：{type} ×{multiplier}',
+  'quote.line.peak': '高峰时段 +{percent}%（{hours}）',
+  'quote.line.holiday': '周末/节假日 +{percent}%（{hours}）',
+  'quote.line.pickup': '接送费（{distance}）',
+  'quote.total': '合计',
+  'quote.chargedAtBooking': '确认预订时将按此金额收费',
+
+  'schedule.title': '未来 {days} 天空闲时段',
+  'schedule.hint': '点击空闲时段选择时间',
+  'schedule.free': '空闲',
+  'schedule.booking': '已预订',
+  'schedule.maintenance': '维修',
+  'schedule.past': '已过去',
+  'schedule.freeHours': '空闲 {count} 小时',
+  'schedule.loadFailed': '无法加载空闲时段',
+
+  // PromptPay payment
+  'payment.title': '使用 PromptPay 付款',
+  'payment.scanHint': '用银行应用扫描二维码支付 {amount}',
+  'payment.amount': '应付金额',
+  'payment.status': '付款',
+  'payment.status.unpaid': '未付款',
+  'payment.status.paid': '已付款',
+  'payment.paidAt': '付款时间 {time}',
+  'payment.notAvailable': '该船家尚未设置 PromptPay，请直接向船家付款',
+  'payment.loadFailed': '无法加载付款信息',
+
+  'myBookings.title': '我的预订',
+  'myBookings.tab.upcoming': '即将开始',
+  'myBookings.tab.past': '已结束',
+  'myBookings.tab.cancelled': '已取消',
+  'myBookings.loginRequired': '请通过 LINE 登录以查看预订',
+  'myBookings.empty': '暂无记录',
+  'myBookings.boat': '船',
+  'myBookings.details': '预订详情',
+  'myBookings.status': '状态',
+  'myBookings.boatType': '船型',
+  'myBookings.start': '开始',
+  'myBookings.end': '结束',
+  'myBookings.bookedAt': '预订于 {time}',
+  'myBookings.confirmCancel': '确定取消此预订？',
+  'myBookings.cancelFailed': '无法取消预订',
+  'myBookings.cancelling': '取消中...',
+  'myBookings.cancel': '取消预订',
+
+  // Group bookings (join links, fare splitting)
+  'group.title': '同行乘客',
+  'group.seats': '{count}/{capacity} 座',
+  'group.seatsLeft': '剩余座位',
+  'group.organizer': '发起人',
+  'group.you': '你',
+  'group.passenger': '乘客 {number}',
+  'group.invite': '邀请朋友',
+  'group.inviteShared': '邀请已发送',
+  'group.inviteCopied': '邀请链接已复制',
+  'group.inviteFailed': '无法创建邀请',
+  'group.inviteTitle': '一起坐船吧：{name}',
+  'group.when': '时间',
+  'group.joinAction': '加入行程',
+  'group.full': '座位已满',
+  'group.split.even': '平均分摊',
+  'group.split.custom': '自定义金额',
+  'group.sharesSum': '合计 {sum} / {total}',
+  'group.shareOf': '{name} 的份额',
+  'group.saveShares': '保存',
+  'group.cancelEdit': '取消',
+  'group.splitFailed': '无法分摊费用',
+  'group.shareError.negative': '金额不能为负数',
+  'group.shareError.missing': '请为每位乘客填写金额',
+  'group.shareError.total': '合计必须等于 {total}',
+  'group.paidCount': '已付款 {paid}/{count} 人',
+  'group.markPaidFailed': '无法更新付款状态',
+  'group.joinedFrom': '你已加入 {name} 的预订',
+  'group.yourShare': '你的份额',
+  'group.payOrganizer': '请将你的份额付给发起人',
+  'group.loadFailed': '无法加载同行乘客',
+  'group.joinedTag': '已加入',
+  'group.joinTitle': '行程邀请',
+  'group.loginRequired': '请通过 LINE 登录以加入行程',
+  'group.inviteNotFound': '找不到此邀请',
+  'group.invitedBy': '{name} 邀请你一起坐船',
+  'group.join': '加入行程',
+  'group.joining': '正在加入...',
+  'group.joined': '你已在此行程中',
+  'group.joinFailed': '无法加入行程',
+  'group.closed': '此行程已不再接受加入',
+
+  // Post-trip reviews
+  'review.title': '评价此行程',
+  'review.star': '{count} 星',
+  'review.commentPlaceholder': '分享您的行程体验（可选）',
+  'review.submit': '提交评价',
+  'review.submitting': '提交中...',
+  'review.failed': '无法提交评价',
+  'review.thanks': '感谢您的评价',
+  'review.yours': '您的评价',
+  'review.recent': '最新评价',
+  'review.none': '暂无评价',
+
+  // Live trip (/liff/trips/:id)
+  'trip.title': '行程',
+  'trip.open': '跟踪行程',
+  'trip.notFound': '找不到此预订',
+  'trip.upcoming': '行程将于 {time} 开始',
+  'trip.active': '行程中 · {time} 结束',
+  'trip.ended': '行程已结束',
+  'trip.boatEta': '船只约 {minutes} 后到达',
+  'trip.boatEtaUnknown': '暂时无法计算船只到达时间',
+  'trip.sharingLocation': '正在与船家共享您的位置，直到行程结束',
+  'trip.notSharing': '您的位置仅在行程期间与船家共享',
+  'trip.lastShared': '最近共享 {time}',
+
+  'operator.title': 'Daranee - 船主',
+  'operator.loginRequired': '请通过 LINE 登录以使用船主页面',
+  'operator.notRegistered': '此 LINE 账号未注册为船主',
+  'operator.noBoats': '暂无管理的船',
+  'operator.statusChangeFailed': '无法更改 {name} 的状态',
+  'operator.todayBookings': '今日预订（{count}）',
+  'operator.noBookings': '暂无预订',
+  'operator.markPaid': '确认已收款',
+  'operator.markPaidFailed': '无法记录付款',
+  'operator.endTrip': '结束行程',
+  'operator.confirmEndTrip': '现在结束此行程？',
+  'operator.endTripFailed': '无法结束行程',
+  'operator.passengerLocation': '乘客位置 · {time}',
+  'operator.passengerLocationWaiting': '等待乘客位置',
+  'operator.openMap': '打开地图',
+  'fleet.manage': '管理船队',
+  'fleet.title': 'Daranee - 船队管理',
+  'fleet.adminBadge': '管理员 · 管理所有船只',
+  'fleet.addBoat': '添加船只',
+  'fleet.editBoat': '编辑船只',
+  'fleet.edit': '编辑',
+  'fleet.save': '保存',
+  'fleet.saving': '保存中...',
+  'fleet.cancel': '取消',
+  'fleet.saveFailed': '无法保存船只信息',
+  'fleet.field.name': '船名',
+  'fleet.field.boatType': '船型',
+  'fleet.field.capacity': '座位数',
+  'fleet.field.pricePerHour': '每小时价格（泰铢）',
+  'fleet.field.homeLatitude': '常驻码头纬度',
+  'fleet.field.homeLongitude': '常驻码头经度',
+  'fleet.field.owner': '船主',
+  'fleet.ownerSelf': '我自己',
+  'fleet.useMyLocation': '使用当前位置作为常驻码头',
+  'fleet.ownedBy': '船主：{name}',
+  'fleet.error.required': '必填',
+  'fleet.error.tooLong': '超过 {max} 个字符',
+  'fleet.error.invalid': '无效的值',
+  'fleet.error.outOfRange': '超出允许范围',
+  'fleet.retire': '退役',
+  'fleet.retired': '已退役 · {date}',
+  'fleet.confirmRetire': '确定让 {name} 退役？该船将从地图上移除且无法再被预订。',
+  'fleet.retireFailed': '无法让 {name} 退役',
+  'fleet.maintenance.title': '维护',
+  'fleet.maintenance.none': '暂无维护计划',
+  'fleet.maintenance.reason': '原因（可选）',
+  'fleet.maintenance.schedule': '安排维护',
+  'fleet.maintenance.cancel': '取消',
+  'fleet.maintenance.confirmCancel': '取消此维护时段？',
+  'fleet.maintenance.failed': '无法保存维护时段',
+  'fleet.maintenance.error.invalidWindow': '结束时间必须晚于开始时间',
+  'fleet.maintenance.error.inPast': '该时段已结束',
+  'fleet.maintenance.error.reasonTooLong': '原因过长',
+  'fleet.audit.title': '修改记录',
+  'fleet.audit.empty': '暂无记录',
+  'fleet.audit.system': '系统（自动）',
+  'fleet.audit.action.created': '添加船只',
+  'fleet.audit.action.updated': '更新信息',
+  'fleet.audit.action.retired': '退役',
+  'fleet.audit.action.maintenance_scheduled': '安排维护',
+  'fleet.audit.action.maintenance_cancelled': '取消维护',
+  'fleet.audit.action.maintenance_started': '维护开始',
+  'fleet.audit.action.maintenance_ended': '维护结束',
+  'analytics.open': '数据分析',
+  'analytics.title': 'Daranee - 使用率与收入',
+  'analytics.lastDays': '最近 {count} 天',
+  'analytics.revenue': '收入',
+  'analytics.bookings': '预订',
+  'analytics.utilization': '使用率',
+  'analytics.averageLength': '平均时长',
+  'analytics.cancellationRate': '取消率',
+  'analytics.revenueOverTime': '每日收入',
+  'analytics.bookingCount': '{count} 个预订',
+  'analytics.byBoat': '各船使用率',
+  'analytics.byType': '各船型使用率',
+  'analytics.bookedOfOpen': '已预订 {booked} / 可用 {open}',
+  'analytics.maintenanceHours': '维护 {hours}',
+  'analytics.demandMap': '需求来源',
+  'analytics.noPickups': '此期间没有上船地点数据',
+  'analytics.pickups': '{count} 次上船',
+  'analytics.export': '导出 CSV',
+  'analytics.exportBoats': '船只汇总',
+  'analytics.exportRevenue': '每日收入',
+  'analytics.exportBookings': '预订列表',
+
+  // LINE push notifications
+  'notify.created.passenger': '已收到预订请求',
+  'notify.created.operator': '新预订',
+  'notify.confirmed.passenger': '预订已确认',
+  'notify.confirmed.operator': '预订已确认',
+  'notify.cancelled.passenger': '预订已取消',
+  'notify.cancelled.operator': '乘客取消了预订',
+  'notify.completed.passenger': '行程已完成，感谢乘坐',
+  'notify.completed.operator': '行程已完成',
+  'notify.boatStatus': '{name} 状态已变更',
+  'notify.boatMaintenanceNote': '该船正在维修，船家将联系您改期或取消。',
+  'notify.boat': '船只',
+  'notify.time': '时间',
+  'notify.price': '价格',
+  'notify.status': '状态',
+  'notify.viewBooking': '查看预订',
+  'notify.openConsole': '打开船家控制台',
+};
+
+export const MESSAGES = { th, en, zh } as const;
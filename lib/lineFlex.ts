@@ -0,0 +1,87 @@
+// ============================================
+// LINE Flex Message building blocks
+// Shared by server push notifications and client-side sharing
+// https://developers.line.biz/en/reference/messaging-api/#flex-message
+// ============================================
+
+// Only the parts of the Flex Message schema we build
+export interface FlexComponent {
+  type: 'box' | 'text' | 'button' | 'separator' | 'filler';
+  [key: string]: unknown;
+}
+
+export interface FlexBubble {
+  type: 'bubble';
+  size?: 'nano' | 'micro' | 'kilo' | 'mega' | 'giga';
+  header?: FlexComponent;
+  body?: FlexComponent;
+  footer?: FlexComponent;
+  styles?: Record<string, unknown>;
+}
+
+export type LineMessage =
+  | { type: 'text'; text: string }
+  | { type: 'flex'; altText: string; contents: FlexBubble };
+
+export interface CardRow {
+  label: string;
+  value: string;
+}
+
+export interface CardOptions {
+  title: string;
+  // Header background
+  color: string;
+  rows: CardRow[];
+  note?: string;
+  action?: { label: string; uri: string } | null;
+}
+
+const row = ({ label, value }: CardRow): FlexComponent => ({
+  type: 'box',
+  layout: 'baseline',
+  spacing: 'sm',
+  contents: [
+    { type: 'text', text: label, size: 'sm', color: '#999999', flex: 2 },
+    { type: 'text', text: value, size: 'sm', color: '#333333', flex: 5, wrap: true },
+  ],
+});
+
+/**
+ * One bubble: coloured header, label/value rows, optional note and button
+ */
+export const buildCard = ({ title, color, rows, note, action }: CardOptions): LineMessage => {
+  const body: FlexComponent[] = rows.map(row);
+  if (note) {
+    body.push({ type: 'separator', margin: 'md' });
+    body.push({ type: 'text', text: note, size: 'xs', color: '#666666', wrap: true, margin: 'md' });
+  }
+
+  return {
+    type: 'flex',
+    altText: [title, ...rows.map((r) => r.value)].join(' · ').slice(0, 400),
+    contents: {
+      type: 'bubble',
+      size: 'kilo',
+      header: {
+        type: 'box',
+        layout: 'vertical',
+        backgroundColor: color,
+        contents: [{ type: 'text', text: title, weight: 'bold', color: '#ffffff', wrap: true }],
+      },
+      body: { type: 'box', layout: 'vertical', spacing: 'sm', contents: body },
+      ...(action
+        ? {
+            footer: {
+              type: 'box',
+              layout: 'vertical',
+              contents: [{
+                type: 'button', style: 'primary', height: 'sm', color,
+                action: { type: 'uri', label: action.label, uri: action.uri },
+              }],
+            },
+          }
+        : {}),
+    },
+  };
+};
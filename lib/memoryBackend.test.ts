@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSeedDatabase, MemoryBackend, SEED_OPERATOR_LINE_USER_ID } from '@/lib/memoryBackend';
+import { HOUR_MS, MAX_BOOKING_HOURS, NO_PRICE_ERROR, PRICE_CHANGED_ERROR, quoteBooking } from '@/lib/pricing';
+import type { CreateBookingParams } from '@/lib/types';
+
+// A Monday morning in Bangkok: no weekend, holiday or peak surcharge
+const NOW = new Date('2026-03-02T03:00:00Z');
+const PASSENGER = 'Utest-passenger';
+
+const at = (hours: number) => new Date(NOW.getTime() + hours * HOUR_MS).toISOString();
+
+describe('MemoryBackend booking rules', () => {
+  let backend: MemoryBackend;
+
+  const book = (params: Partial<CreateBookingParams> & Pick<CreateBookingParams, 'boat_id'>) =>
+    backend.createBooking({ line_user_id: PASSENGER, start_time: at(24), end_time: at(26), ...params });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    backend = new MemoryBackend(createSeedDatabase(NOW));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('books a free window at the quoted price', () => {
+    const boat = backend.db.boats.find((b) => b.id === 'boat-4')!;
+    const quote = quoteBooking({ ...boat, start_time: at(24), end_time: at(26) });
+
+    const result = book({ boat_id: 'boat-4' });
+
+    expect(result).toMatchObject({ success: true, total_hours: 2, total_price: quote?.total });
+    expect(backend.db.bookings.find((b) => b.id === result.booking_id)).toMatchObject({
+      line_user_id: PASSENGER,
+      status: 'pending',
+      total_price: quote?.total,
+    });
+  });
+
+  it('refuses a window that overlaps an active booking', () => {
+    const taken = backend.db.bookings.find((b) => b.id === 'booking-1')!;
+    const halfway = new Date((Date.parse(taken.start_time) + Date.parse(taken.end_time)) / 2).toISOString();
+
+    expect(book({ boat_id: taken.boat_id, start_time: halfway, end_time: at(30) })).toEqual({
+      success: false,
+      error: 'Boat is not available for the requested time',
+    });
+  });
+
+  it('allows a window that only touches another booking', () => {
+    const taken = backend.db.bookings.find((b) => b.id === 'booking-1')!;
+    const end = new Date(Date.parse(taken.end_time) + 2 * HOUR_MS).toISOString();
+
+    expect(book({ boat_id: taken.boat_id, start_time: taken.end_time, end_time: end }).success).toBe(true);
+  });
+
+  it('refuses a window inside a scheduled maintenance window', () => {
+    const window = backend.db.maintenance_windows[0];
+    expect(backend.getBoatBusyIntervals({
+      boat_id: window.boat_id, range_start: window.start_time, range_end: window.end_time,
+    }).map((interval) => interval.kind)).toEqual(['maintenance']);
+
+    expect(book({ boat_id: window.boat_id, start_time: window.start_time, end_time: window.end_time })).toEqual({
+      success: false,
+      error: 'Boat is not available for the requested time',
+    });
+  });
+
+  it('refuses a boat that is in maintenance', () => {
+    expect(backend.db.boats.find((b) => b.id === 'boat-6')?.status).toBe('maintenance');
+    expect(book({ boat_id: 'boat-6' }).success).toBe(false);
+    expect(backend.checkBoatAvailability({ boat_id: 'boat-6', start_time: at(24), end_time: at(26) })).toBe(false);
+  });
+
+  it('refuses a retired boat', () => {
+    const retired = backend.retireBoat({ boat_id: 'boat-8', caller_line_user_id: 'Udev-operator-2' });
+    expect(retired.success).toBe(true);
+
+    expect(book({ boat_id: 'boat-8' })).toEqual({ success: false, error: 'Boat is retired' });
+    expect(backend.checkBoatAvailability({ boat_id: 'boat-8', start_time: at(24), end_time: at(26) })).toBe(false);
+    expect(backend.updateBoatStatus({
+      boat_id: 'boat-8', new_status: 'available', caller_line_user_id: 'Udev-operator-2',
+    })).toEqual({ success: false, error: 'Boat is retired' });
+  });
+
+  it('lets the owner and admins change a boat status, nobody else', () => {
+    const update = (boatId: string, caller: string) =>
+      backend.updateBoatStatus({ boat_id: boatId, new_status: 'busy', caller_line_user_id: caller }).success;
+
+    expect(update('boat-7', 'Udev-operator-2')).toBe(false);
+    expect(update('boat-4', 'Udev-operator-2')).toBe(true);
+    // op-1 is an admin; boat-8 belongs to op-2
+    expect(update('boat-8', SEED_OPERATOR_LINE_USER_ID)).toBe(true);
+  });
+
+  it('refuses a start time in the past', () => {
+    expect(book({ boat_id: 'boat-4', start_time: at(-1), end_time: at(1) })).toEqual({
+      success: false,
+      error: 'start_time must not be in the past',
+    });
+  });
+
+  it('refuses an end time before the start time', () => {
+    expect(book({ boat_id: 'boat-4', start_time: at(26), end_time: at(24) })).toEqual({
+      success: false,
+      error: 'end_time must be after start_time',
+    });
+  });
+
+  it('refuses a window longer than MAX_BOOKING_HOURS', () => {
+    const error = `Bookings may not exceed ${MAX_BOOKING_HOURS} hours`;
+
+    expect(book({ boat_id: 'boat-4', end_time: at(24 + MAX_BOOKING_HOURS + 1) })).toEqual({ success: false, error });
+    expect(backend.quoteBooking({
+      boat_id: 'boat-4', start_time: at(24), end_time: '+275760-09-13T00:00:00.000Z',
+    })).toEqual({ success: false, error });
+    expect(book({ boat_id: 'boat-4', end_time: at(24 + MAX_BOOKING_HOURS) }).success).toBe(true);
+  });
+
+  it('refuses a total the passenger was not quoted', () => {
+    const boat = backend.db.boats.find((b) => b.id === 'boat-4')!;
+    const quote = quoteBooking({ ...boat, start_time: at(24), end_time: at(26) })!;
+
+    expect(book({ boat_id: 'boat-4', quoted_price: quote.total + 100 })).toEqual({
+      success: false,
+      error: PRICE_CHANGED_ERROR,
+    });
+    expect(book({ boat_id: 'boat-4', quoted_price: quote.total }).success).toBe(true);
+  });
+
+  it('completes confirmed and cancels pending bookings once they have ended', () => {
+    const pending = book({ boat_id: 'boat-4', start_time: at(1), end_time: at(2) });
+    const confirmed = book({ boat_id: 'boat-4', start_time: at(3), end_time: at(4) });
+    backend.db.bookings.find((b) => b.id === confirmed.booking_id)!.status = 'confirmed';
+
+    vi.setSystemTime(Date.parse(at(5)));
+    backend.completeFinishedBookings();
+
+    const statusOf = (id?: string) => backend.db.bookings.find((b) => b.id === id)?.status;
+    expect(statusOf(pending.booking_id)).toBe('cancelled');
+    expect(statusOf(confirmed.booking_id)).toBe('completed');
+  });
+
+  it('limits the viewport query to radius_km around the reference point', () => {
+    const boat = backend.db.boats.find((b) => b.id === 'boat-4')!;
+    const query = (radiusKm?: number) => backend.findBoatsInBounds({
+      min_lat: 13.6, min_lon: 100.4, max_lat: 13.9, max_lon: 100.6,
+      ref_lat: boat.latitude, ref_lon: boat.longitude, radius_km: radiusKm,
+    }).map((b) => b.id);
+
+    expect(query(0.1)).toEqual(['boat-4']);
+    expect(query().length).toBeGreaterThan(1);
+  });
+
+  it('shows operators only their own boats and bookings in the console', () => {
+    const result = book({ boat_id: 'boat-4' });
+    const operatorConsole = backend.getOperatorConsole({
+      caller_line_user_id: 'Udev-operator-2', range_start: at(20), range_end: at(30),
+    });
+
+    expect(operatorConsole.operator?.id).toBe('op-2');
+    expect(operatorConsole.boats?.every((b) => b.owner_id === 'op-2')).toBe(true);
+    expect(operatorConsole.bookings?.map((b) => b.id)).toEqual([result.booking_id]);
+    expect(backend.getOperatorConsole({ caller_line_user_id: PASSENGER, range_start: at(20), range_end: at(30) }))
+      .toEqual({ success: false, error: 'Not registered as an operator' });
+  });
+
+  it('broadcasts booking changes with ids only', () => {
+    const broadcast = vi.spyOn(backend, 'emitBroadcast');
+
+    const result = book({ boat_id: 'boat-4' });
+
+    expect(broadcast).toHaveBeenCalledWith('booking_change', { id: result.booking_id, boat_id: 'boat-4' });
+  });
+
+  it('refuses a boat without a price instead of booking it for free', () => {
+    backend.db.boats.find((b) => b.id === 'boat-4')!.price_per_hour = null;
+
+    expect(book({ boat_id: 'boat-4' })).toEqual({ success: false, error: NO_PRICE_ERROR });
+  });
+});
@@ -0,0 +1,1791 @@
+// ============================================
+// In-memory backend for local dev and automated tests
+// Implements the subset of the Supabase client used by the app:
+// from() queries, rpc() functions and realtime channels,
+// with the same business rules as supabase/sql (overlap checks)
+// and the pricing engine in lib/pricing.ts
+// ============================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { distanceMeters } from '@/lib/geo';
+import { compareBoats, matchesBoatFilters } from '@/lib/boatFilters';
+import { isTripActive } from '@/lib/trips';
+import { bookingHours, bookingWindowError, NO_PRICE_ERROR, PRICE_CHANGED_ERROR, quoteBooking } from '@/lib/pricing';
+import {
+  describeBoatInputErrors,
+  diffBoatInput,
+  MAINTENANCE_WINDOW_ERROR_MESSAGES,
+  validateBoatInput,
+  validateMaintenanceWindow,
+} from '@/lib/fleet';
+import { canDock } from '@/lib/piers';
+import { resplitMembers, SHARE_ERROR_MESSAGES, sortMembers, validateShares } from '@/lib/groupBookings';
+import { averageRating, isValidRating, normalizeReviewComment, REVIEW_COMMENT_MAX_LENGTH } from '@/lib/reviews';
+import type {
+  Boat,
+  Booking,
+  BookingGroup,
+  BookingMember,
+  BoatStatus,
+  Operator,
+  Pier,
+  MaintenanceWindow,
+  NearbyBoat,
+  FindNearbyBoatsParams,
+  FindBoatsInBoundsParams,
+  GetBoatLocationParams,
+  UpdateBoatStatusParams,
+  UpdateBoatStatusResponse,
+  CheckBoatAvailabilityParams,
+  GetBoatBusyIntervalsParams,
+  BusyInterval,
+  CreateBookingParams,
+  CreateBookingResponse,
+  QuoteBookingRequest,
+  QuoteBookingResponse,
+  CancelBookingParams,
+  CancelBookingResponse,
+  BookingPaymentRecord,
+  GetBookingPaymentParams,
+  GetPassengerBookingsParams,
+  GetPassengerBookingsResponse,
+  GetBookingParams,
+  GetBookingResponse,
+  MarkBookingPaidParams,
+  MarkBookingPaidResponse,
+  TripLocation,
+  UpdateTripLocationParams,
+  UpdateTripLocationResponse,
+  GetTripLocationParams,
+  GetTripLocationResponse,
+  CompleteBookingParams,
+  CompleteBookingResponse,
+  Review,
+  SubmitReviewParams,
+  SubmitReviewResponse,
+  BoatAuditAction,
+  BoatAuditEntry,
+  BoatInput,
+  GetFleetParams,
+  GetFleetResponse,
+  GetOperatorConsoleParams,
+  GetOperatorConsoleResponse,
+  SaveBoatParams,
+  SaveBoatResponse,
+  RetireBoatParams,
+  RetireBoatResponse,
+  ScheduleMaintenanceParams,
+  ScheduleMaintenanceResponse,
+  CancelMaintenanceParams,
+  CancelMaintenanceResponse,
+  GetBoatAuditLogParams,
+  GetBoatAuditLogResponse,
+  BoatPositionUpdate,
+  BookingChangeSignal,
+  BoatStatusChange,
+  GetFleetAnalyticsParams,
+  GetFleetAnalyticsResponse,
+  GetBookingGroupParams,
+  GetBookingGroupResponse,
+  CreateBookingInviteParams,
+  CreateBookingInviteResponse,
+  GetBookingInviteParams,
+  GetBookingInviteResponse,
+  JoinBookingParams,
+  JoinBookingResponse,
+  SetBookingSplitParams,
+  SetBookingSplitResponse,
+  MarkMemberPaidParams,
+  MarkMemberPaidResponse,
+} from '@/lib/types';
+
+// Boats carry their location like the PostGIS column does
+export interface MemoryBoat extends Boat {
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  // Window that put the boat in maintenance (cleared when it ends)
+  maintenance_window_id: string | null;
+}
+
+export interface MemoryDatabase {
+  boats: MemoryBoat[];
+  bookings: Booking[];
+  operators: Operator[];
+  maintenance_windows: MaintenanceWindow[];
+  trip_locations: TripLocation[];
+  reviews: Review[];
+  boat_audit_log: BoatAuditEntry[];
+  boat_status_history: BoatStatusChange[];
+  piers: Pier[];
+  booking_groups: BookingGroup[];
+  booking_members: BookingMember[];
+}
+
+type Row = Record<string, unknown>;
+type TableName = keyof MemoryDatabase;
+type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// LINE user id of the seeded operator (use as NEXT_PUBLIC_DEV_LINE_USER_ID)
+export const SEED_OPERATOR_LINE_USER_ID = 'Udev-operator';
+
+const newId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `mem-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// ============================================
+// Business rules (mirror the SQL functions)
+// ============================================
+
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+/**
+ * Two [start, end) windows overlap when each starts before the other ends
+ */
+export const windowsOverlap = (
+  aStart: string, aEnd: string, bStart: string, bEnd: string
+): boolean =>
+  new Date(aStart).getTime() < new Date(bEnd).getTime() &&
+  new Date(bStart).getTime() < new Date(aEnd).getTime();
+
+// ============================================
+// Seed data: a small fleet on the Chao Phraya around Rattanakosin
+// ============================================
+
+// Keep in sync with supabase/sql/piers.sql
+const SEED_PIERS: Pier[] = [
+  { id: 'phra-arthit', name_th: 'ท่าพระอาทิตย์', name_en: 'Phra Arthit', latitude: 13.7625, longitude: 100.4942, boat_types: ['standard', 'premium', 'speedboat', 'longtail'] },
+  { id: 'wang-lang', name_th: 'ท่าวังหลัง', name_en: 'Wang Lang', latitude: 13.7560, longitude: 100.4865, boat_types: ['standard', 'longtail'] },
+  { id: 'tha-chang', name_th: 'ท่าช้าง', name_en: 'Tha Chang', latitude: 13.7527, longitude: 100.4897, boat_types: ['standard', 'premium', 'speedboat', 'longtail'] },
+  { id: 'tha-tien', name_th: 'ท่าเตียน', name_en: 'Tha Tien', latitude: 13.7465, longitude: 100.4912, boat_types: ['standard', 'premium', 'longtail'] },
+  { id: 'wat-arun', name_th: 'ท่าวัดอรุณ', name_en: 'Wat Arun', latitude: 13.7437, longitude: 100.4887, boat_types: ['standard', 'longtail'] },
+  { id: 'memorial-bridge', name_th: 'ท่าสะพานพุทธ', name_en: 'Memorial Bridge', latitude: 13.7396, longitude: 100.4979, boat_types: ['standard', 'longtail'] },
+  { id: 'ratchawong', name_th: 'ท่าราชวงศ์', name_en: 'Ratchawong', latitude: 13.7391, longitude: 100.5041, boat_types: ['standard', 'premium', 'speedboat', 'longtail'] },
+  { id: 'si-phraya', name_th: 'ท่าสี่พระยา', name_en: 'Si Phraya', latitude: 13.7290, longitude: 100.5135, boat_types: ['standard', 'premium', 'speedboat'] },
+  { id: 'iconsiam', name_th: 'ท่าไอคอนสยาม', name_en: 'ICONSIAM', latitude: 13.7266, longitude: 100.5103, boat_types: ['standard', 'premium', 'speedboat'] },
+  { id: 'oriental', name_th: 'ท่าโอเรียนเต็ล', name_en: 'Oriental', latitude: 13.7236, longitude: 100.5143, boat_types: ['premium', 'speedboat', 'longtail'] },
+  { id: 'sathorn', name_th: 'ท่าสาทร', name_en: 'Sathorn', latitude: 13.7187, longitude: 100.5134, boat_types: ['standard', 'premium', 'speedboat', 'longtail'] },
+  { id: 'asiatique', name_th: 'ท่าเอเชียทีค', name_en: 'Asiatique', latitude: 13.7046, longitude: 100.5030, boat_types: ['standard', 'premium'] },
+];
+
+// Piers where seeded passengers ask to be picked up
+const SEED_PICKUP_SPOTS: [number, number][] = [
+  [13.7527, 100.4897], // Tha Chang
+  [13.7465, 100.4912], // Tha Tien
+  [13.7437, 100.4887], // Wat Arun
+  [13.7266, 100.5103], // ICONSIAM
+  [13.7187, 100.5134], // Sathorn
+  [13.7046, 100.5030], // Asiatique
+];
+
+// Share of days each seeded boat gets a trip (boat-6 is mostly laid up)
+const SEED_DEMAND = [0.8, 0.6, 0.5, 0.7, 0.9, 0.1, 0.4, 0.3];
+
+/**
+ * Four weeks of finished trips for the analytics dashboard, with the
+ * status changes operators made around them. Deterministic so the
+ * dashboard looks the same on every reload.
+ */
+const seedHistory = (boats: MemoryBoat[], now: Date) => {
+  let seed = 19;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+
+  const bookings: Booking[] = [];
+  const statusHistory: BoatStatusChange[] = boats.map((b) => ({
+    boat_id: b.id, status: 'available', changed_at: b.created_at,
+  }));
+
+  for (let daysAgo = 28; daysAgo >= 2; daysAgo--) {
+    boats.forEach((boat, i) => {
+      // boat-6 went into maintenance three days ago
+      if (boat.id === 'boat-6' && daysAgo <= 4) return;
+
+      const trips = random() < SEED_DEMAND[i] ? (random() < 0.25 ? 2 : 1) : 0;
+      for (let trip = 0; trip < trips; trip++) {
+        const start = new Date(now);
+        start.setDate(start.getDate() - daysAgo);
+        start.setHours(trip === 0 ? 9 + Math.floor(random() * 4) : 15 + Math.floor(random() * 3), 0, 0, 0);
+        const end = new Date(start.getTime() + (1 + Math.floor(random() * 3)) * 60 * 60 * 1000);
+        const [lat, lon] = SEED_PICKUP_SPOTS[Math.floor(random() * SEED_PICKUP_SPOTS.length)];
+        const pickup = { lat: lat + (random() - 0.5) * 0.004, lon: lon + (random() - 0.5) * 0.004 };
+        const cancelled = random() < 0.12;
+        const quote = quoteBooking({ ...boat, start_time: start, end_time: end, pickup });
+
+        bookings.push({
+          id: `booking-history-${boat.id}-${daysAgo}-${trip}`,
+          boat_id: boat.id,
+          line_user_id: 'Udev-history',
+          start_time: start.toISOString(),
+          end_time: end.toISOString(),
+          status: cancelled ? 'cancelled' : 'completed',
+          total_price: quote?.total ?? 0,
+          payment_status: cancelled ? 'unpaid' : 'paid',
+          paid_at: cancelled ? null : start.toISOString(),
+          payment_ref: null,
+          pickup_lat: pickup.lat,
+          pickup_lon: pickup.lon,
+          pickup_pier_id: null,
+          created_at: new Date(start.getTime() - 24 * 60 * 60 * 1000).toISOString(),
+          updated_at: end.toISOString(),
+        });
+
+        if (!cancelled) {
+          statusHistory.push(
+            { boat_id: boat.id, status: 'busy', changed_at: start.toISOString() },
+            { boat_id: boat.id, status: 'available', changed_at: end.toISOString() },
+          );
+        }
+      }
+    });
+  }
+
+  // Current seeded statuses
+  boats.filter((b) => b.status !== 'available').forEach((b) => {
+    const hoursAgo = b.id === 'boat-6' ? 72 : 1;
+    statusHistory.push({
+      boat_id: b.id, status: b.status,
+      changed_at: new Date(now.getTime() - hoursAgo * 60 * 60 * 1000).toISOString(),
+    });
+  });
+
+  return { bookings, statusHistory };
+};
+
+export const createSeedDatabase = (now = new Date()): MemoryDatabase => {
+  const created = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
+  const stamp = now.toISOString();
+
+  const operators: Operator[] = [
+    {
+      id: 'op-1', line_user_id: SEED_OPERATOR_LINE_USER_ID, name: 'Daranee Boat Service',
+      phone: '0812345678', email: null, rating: 4.7, total_trips: 128, promptpay_id: '0812345678',
+      is_admin: true, created_at: created, updated_at: stamp,
+    },
+    {
+      id: 'op-2', line_user_id: 'Udev-operator-2', name: 'Chao Phraya Longtail',
+      phone: null, email: null, rating: 4.3, total_trips: 57, promptpay_id: '0898765432',
+      is_admin: false, created_at: created, updated_at: stamp,
+    },
+  ];
+
+  const boat = (
+    id: string, name: string, status: BoatStatus, boatType: Boat['boat_type'],
+    capacity: number, price: number | null, ownerId: string, lat: number, lon: number
+  ): MemoryBoat => ({
+    id, name, status, boat_type: boatType, capacity, price_per_hour: price, owner_id: ownerId,
+    home_latitude: lat, home_longitude: lon, retired_at: null, maintenance_window_id: null,
+    latitude: lat, longitude: lon, heading: null, created_at: created, updated_at: stamp,
+  });
+
+  const boats: MemoryBoat[] = [
+    boat('boat-1', 'ดารณี 1', 'available', 'standard', 10, 800, 'op-1', 13.7527, 100.4897),
+    boat('boat-2', 'ดารณี 2', 'available', 'premium', 8, 1500, 'op-1', 13.7465, 100.4905),
+    boat('boat-3', 'ดารณี สปีด', 'busy', 'speedboat', 6, 2500, 'op-1', 13.7556, 100.4880),
+    boat('boat-4', 'เจ้าพระยา หางยาว', 'available', 'longtail', 12, 1000, 'op-2', 13.7625, 100.4947),
+    boat('boat-5', 'วัดอรุณ ทัวร์', 'booked', 'standard', 20, 1200, 'op-2', 13.7437, 100.4887),
+    boat('boat-6', 'สะพานพุทธ', 'maintenance', 'longtail', 8, 900, 'op-2', 13.7396, 100.4979),
+    boat('boat-7', 'ราชวงศ์ พรีเมียม', 'available', 'premium', 15, 1800, 'op-1', 13.7391, 100.5041),
+    boat('boat-8', 'สาทร เอ็กซ์เพรส', 'available', 'speedboat', 6, 2200, 'op-2', 13.7187, 100.5134),
+  ];
+
+  // Two upcoming bookings on the seeded operator's boats,
+  // plus finished trips yesterday (one still waiting for its review)
+  const at = (hours: number) => {
+    const d = new Date(now);
+    d.setMinutes(0, 0, 0);
+    d.setHours(d.getHours() + hours);
+    return d.toISOString();
+  };
+
+  const bookings: Booking[] = [
+    {
+      id: 'booking-1', boat_id: 'boat-1', line_user_id: 'Udev-passenger',
+      start_time: at(2), end_time: at(4), status: 'confirmed', total_price: 1600,
+      payment_status: 'paid', paid_at: stamp, payment_ref: null, pickup_lat: null, pickup_lon: null, pickup_pier_id: null, created_at: stamp, updated_at: stamp,
+    },
+    {
+      id: 'booking-2', boat_id: 'boat-2', line_user_id: 'Udev-passenger',
+      start_time: at(3), end_time: at(4), status: 'pending', total_price: 1500,
+      payment_status: 'unpaid', paid_at: null, payment_ref: null, pickup_lat: null, pickup_lon: null, pickup_pier_id: null, created_at: stamp, updated_at: stamp,
+    },
+    {
+      id: 'booking-past-1', boat_id: 'boat-1', line_user_id: 'Udev-passenger',
+      start_time: at(-24), end_time: at(-22), status: 'completed', total_price: 1600,
+      payment_status: 'paid', paid_at: created, payment_ref: null, pickup_lat: null, pickup_lon: null, pickup_pier_id: null, created_at: created, updated_at: stamp,
+    },
+    {
+      id: 'booking-past-2', boat_id: 'boat-1', line_user_id: 'Udev-passenger-2',
+      start_time: at(-27), end_time: at(-26), status: 'completed', total_price: 800,
+      payment_status: 'paid', paid_at: created, payment_ref: null, pickup_lat: null, pickup_lon: null, pickup_pier_id: null, created_at: created, updated_at: stamp,
+    },
+  ];
+
+  const reviews: Review[] = [
+    {
+      id: 'review-1', booking_id: 'booking-past-2', boat_id: 'boat-1', operator_id: 'op-1',
+      rating: 5, comment: 'คนขับใจดี เรือสะอาด', created_at: at(-25),
+    },
+  ];
+
+  // Scheduled servicing tomorrow morning
+  const maintenance_windows: MaintenanceWindow[] = [
+    {
+      id: 'maintenance-1', boat_id: 'boat-2', start_time: at(24 + 9 - now.getHours()),
+      end_time: at(24 + 12 - now.getHours()), reason: 'Engine service', created_at: stamp,
+    },
+  ];
+
+  // booking-1 is a group trip: a friend joined and still owes their half
+  const booking_groups: BookingGroup[] = [
+    { booking_id: 'booking-1', invite_code: 'devinvite1', split_mode: 'even', created_at: stamp },
+  ];
+  const booking_members: BookingMember[] = [
+    {
+      id: 'member-1', booking_id: 'booking-1', line_user_id: 'Udev-passenger', display_name: 'Dev Passenger',
+      role: 'organizer', share_amount: 800, payment_status: 'paid', paid_at: stamp, joined_at: stamp,
+    },
+    {
+      id: 'member-2', booking_id: 'booking-1', line_user_id: 'Udev-friend', display_name: 'Dev Friend',
+      role: 'member', share_amount: 800, payment_status: 'unpaid', paid_at: null, joined_at: stamp,
+    },
+  ];
+
+  const history = seedHistory(boats, now);
+
+  return {
+    boats,
+    bookings: [...bookings, ...history.bookings],
+    operators,
+    maintenance_windows,
+    trip_locations: [],
+    reviews,
+    boat_audit_log: [],
+    boat_status_history: history.statusHistory,
+    piers: SEED_PIERS.map((pier) => ({ ...pier, boat_types: [...pier.boat_types] })),
+    booking_groups,
+    booking_members,
+  };
+};
+
+// ============================================
+// Realtime
+// ============================================
+
+interface PostgresListener {
+  kind: 'postgres_changes';
+  event: string;
+  table?: string;
+  filter?: string;
+  callback: (payload: Row) => void;
+}
+
+interface BroadcastListener {
+  kind: 'broadcast';
+  event: string;
+  callback: (message: { type: 'broadcast'; event: string; payload: unknown }) => void;
+}
+
+type Listener = PostgresListener | BroadcastListener;
+
+// Supports the `column=eq.value` and `column=in.(a,b)` filter syntax used by the hooks
+const matchesFilter = (filter: string | undefined, row: Row | undefined) => {
+  if (!filter) return true;
+  const match = filter.match(/^(\w+)=(eq|in)\.(.+)$/);
+  if (!match || !row) return false;
+  const [, column, op, value] = match;
+  const values = op === 'in' ? value.replace(/^\(|\)$/g, '').split(',') : [value];
+  return values.includes(String(row[column]));
+};
+
+// Realtime rows for boats omit the location, like the PostGIS payload
+const toPublicRow = (table: TableName, row: Row | undefined): Row | undefined => {
+  if (!row || table !== 'boats') return row;
+  const rest = { ...row };
+  delete rest.latitude;
+  delete rest.longitude;
+  delete rest.heading;
+  return rest;
+};
+
+// Boat as the table returns it (location is a PostGIS column, not a field)
+const toBoatRow = (boat: MemoryBoat): Boat => {
+  const row: Partial<MemoryBoat> = { ...boat };
+  delete row.latitude;
+  delete row.longitude;
+  delete row.heading;
+  delete row.maintenance_window_id;
+  return row as Boat;
+};
+
+// ============================================
+// Query builder for from()
+// ============================================
+
+type Predicate = (row: Row) => boolean;
+
+const compare = (a: unknown, b: unknown) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const left = String(a ?? '');
+  const right = String(b ?? '');
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+class MemoryQuery implements PromiseLike<{ data: unknown; error: Error | null }> {
+  private predicates: Predicate[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private limitCount: number | null = null;
+  private mode: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private values: Row | Row[] | null = null;
+  private singleMode: 'one' | 'maybe' | null = null;
+
+  constructor(private backend: MemoryBackend, private table: TableName) {}
+
+  // Column lists are ignored – rows are returned whole
+  select() {
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.mode = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row) {
+    this.mode = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.mode = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.predicates.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.predicates.push((row) => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.predicates.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  lt(column: string, value: unknown) {
+    this.predicates.push((row) => compare(row[column], value) < 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown) {
+    this.predicates.push((row) => compare(row[column], value) <= 0);
+    return this;
+  }
+
+  gt(column: string, value: unknown) {
+    this.predicates.push((row) => compare(row[column], value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: unknown) {
+    this.predicates.push((row) => compare(row[column], value) >= 0);
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    this.orders.push({ column, ascending: options?.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.limitCount = count;
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybe';
+    return this;
+  }
+
+  single() {
+    this.singleMode = 'one';
+    return this;
+  }
+
+  private run(): { data: unknown; error: Error | null } {
+    const rows = this.backend.db[this.table] as unknown as Row[];
+    const matches = (row: Row) => this.predicates.every((p) => p(row));
+
+    let result: Row[];
+
+    if (this.mode === 'insert') {
+      const inserted = (Array.isArray(this.values) ? this.values : [this.values!]).map((values) => {
+        const stamp = new Date().toISOString();
+        return { id: newId(), created_at: stamp, updated_at: stamp, ...values };
+      });
+      inserted.forEach((row) => this.backend.insertRow(this.table, row));
+      result = inserted;
+    } else if (this.mode === 'update') {
+      result = rows.filter(matches).map((row) => this.backend.updateRow(this.table, row.id as string, this.values as Row)!);
+    } else if (this.mode === 'delete') {
+      result = rows.filter(matches);
+      result.forEach((row) => this.backend.deleteRow(this.table, row.id as string));
+    } else {
+      result = rows.filter(matches).map((row) => ({ ...row }));
+    }
+
+    for (const { column, ascending } of [...this.orders].reverse()) {
+      result.sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]));
+    }
+    if (this.limitCount != null) result = result.slice(0, this.limitCount);
+
+    if (this.singleMode) {
+      if (result.length > 1 || (this.singleMode === 'one' && result.length === 0)) {
+        return { data: null, error: new Error(`Expected a single row, got ${result.length}`) };
+      }
+      return { data: result[0] ?? null, error: null };
+    }
+
+    return { data: result, error: null };
+  }
+
+  then<TResult1 = { data: unknown; error: Error | null }, TResult2 = never>(
+    onfulfilled?: ((value: { data: unknown; error: Error | null }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected);
+  }
+}
+
+// ============================================
+// Backend
+// ============================================
+
+export class MemoryBackend {
+  db: MemoryDatabase;
+  private listeners = new Set<Listener>();
+
+  constructor(db: MemoryDatabase = createSeedDatabase()) {
+    this.db = db;
+  }
+
+  // ---------- row mutations (emit postgres_changes) ----------
+
+  insertRow(table: TableName, row: Row) {
+    (this.db[table] as unknown as Row[]).push(row);
+    if (table === 'boats') this.recordStatus(row.id as string, row.status as BoatStatus);
+    this.emitChange(table, 'INSERT', row, undefined);
+  }
+
+  updateRow(table: TableName, id: string, values: Row): Row | null {
+    const rows = this.db[table] as unknown as Row[];
+    const index = rows.findIndex((r) => r.id === id);
+    if (index === -1) return null;
+
+    const old = rows[index];
+    const next: Row = { ...old, ...values, updated_at: new Date().toISOString() };
+    rows[index] = next;
+    if (table === 'boats' && next.status !== old.status) this.recordStatus(id, next.status as BoatStatus);
+    this.emitChange(table, 'UPDATE', next, old);
+    return { ...next };
+  }
+
+  // What the boats status trigger does in SQL
+  private recordStatus(boatId: string, status: BoatStatus) {
+    this.db.boat_status_history.push({ boat_id: boatId, status, changed_at: new Date().toISOString() });
+  }
+
+  deleteRow(table: TableName, id: string) {
+    const rows = this.db[table] as unknown as Row[];
+    const index = rows.findIndex((r) => r.id === id);
+    if (index === -1) return;
+
+    const [old] = rows.splice(index, 1);
+    this.emitChange(table, 'DELETE', undefined, old);
+  }
+
+  /**
+   * Report a GPS fix for a boat (what the position trigger does in SQL)
+   */
+  moveBoat(id: string, latitude: number, longitude: number, heading: number | null = null) {
+    const boat = this.db.boats.find((b) => b.id === id);
+    if (!boat) return;
+
+    Object.assign(boat, { latitude, longitude, heading });
+    const update: BoatPositionUpdate = {
+      id, latitude, longitude, heading, timestamp: new Date().toISOString(),
+    };
+    this.emitBroadcast('position', update);
+  }
+
+  private emitChange(table: TableName, eventType: ChangeEvent, newRow?: Row, oldRow?: Row) {
+    const payload = {
+      eventType,
+      schema: 'daranee',
+      table,
+      commit_timestamp: new Date().toISOString(),
+      new: toPublicRow(table, newRow) ?? {},
+      old: toPublicRow(table, oldRow) ?? {},
+    };
+
+    this.listeners.forEach((listener) => {
+      if (listener.kind !== 'postgres_changes') return;
+      if (listener.table && listener.table !== table) return;
+      if (listener.event !== '*' && listener.event !== eventType) return;
+      if (!matchesFilter(listener.filter, newRow ?? oldRow)) return;
+      // Deliver asynchronously like a websocket would
+      setTimeout(() => listener.callback(payload), 0);
+    });
+
+    // What the bookings broadcast trigger does in SQL
+    const booking = newRow ?? oldRow;
+    if (table === 'bookings' && booking) {
+      const signal: BookingChangeSignal = { id: booking.id as string, boat_id: booking.boat_id as string };
+      this.emitBroadcast('booking_change', signal);
+    }
+  }
+
+  emitBroadcast(event: string, payload: unknown) {
+    this.listeners.forEach((listener) => {
+      if (listener.kind !== 'broadcast' || listener.event !== event) return;
+      setTimeout(() => listener.callback({ type: 'broadcast', event, payload }), 0);
+    });
+  }
+
+  // ---------- RPC functions ----------
+
+  private toNearbyBoat(b: MemoryBoat, center: { lat: number; lon: number }): NearbyBoat {
+    const operator = this.db.operators.find((o) => o.id === b.owner_id);
+    return {
+      id: b.id,
+      name: b.name,
+      status: b.status,
+      boat_type: b.boat_type,
+      capacity: b.capacity,
+      price_per_hour: b.price_per_hour,
+      latitude: b.latitude,
+      longitude: b.longitude,
+      heading: b.heading,
+      updated_at: b.updated_at,
+      distance_m: distanceMeters(center, { lat: b.latitude, lon: b.longitude }),
+      operator_rating: operator?.rating ?? null,
+      operator_total_trips: operator?.total_trips ?? null,
+    };
+  }
+
+  // Retiring clears a boat's location in SQL, so it drops out of every map query
+  private mappedBoats(): MemoryBoat[] {
+    return this.db.boats.filter((b) => !b.retired_at);
+  }
+
+  findNearbyBoats(params: FindNearbyBoatsParams): NearbyBoat[] {
+    const radiusM = (params.radius_km ?? 5) * 1000;
+    const center = { lat: params.lat, lon: params.lon };
+
+    return this.mappedBoats()
+      .map((b) => this.toNearbyBoat(b, center))
+      .filter((b) => b.distance_m <= radiusM && matchesBoatFilters(b, params))
+      .sort(compareBoats(params.sort_by ?? 'distance'));
+  }
+
+  findBoatsInBounds(params: FindBoatsInBoundsParams): NearbyBoat[] {
+    const center = { lat: params.ref_lat, lon: params.ref_lon };
+
+    return this.mappedBoats()
+      .filter((b) =>
+        b.latitude >= params.min_lat && b.latitude <= params.max_lat &&
+        b.longitude >= params.min_lon && b.longitude <= params.max_lon
+      )
+      .map((b) => this.toNearbyBoat(b, center))
+      .filter((b) => (params.radius_km == null || b.distance_m <= params.radius_km * 1000) && matchesBoatFilters(b, params))
+      .sort(compareBoats(params.sort_by ?? 'distance'));
+  }
+
+  getBoatLocation(params: GetBoatLocationParams): NearbyBoat[] {
+    const boat = this.mappedBoats().find((b) => b.id === params.boat_id);
+    if (!boat) return [];
+
+    const center = params.ref_lat != null && params.ref_lon != null
+      ? { lat: params.ref_lat, lon: params.ref_lon }
+      : { lat: boat.latitude, lon: boat.longitude };
+    return [this.toNearbyBoat(boat, center)];
+  }
+
+  updateBoatStatus(params: UpdateBoatStatusParams): UpdateBoatStatusResponse {
+    const boat = this.db.boats.find((b) => b.id === params.boat_id);
+    if (!boat) return { success: false, error: 'Boat not found' };
+
+    if (!this.canManageBoat(this.operatorFor(params.caller_line_user_id), boat)) {
+      return { success: false, error: 'Not allowed to update this boat' };
+    }
+    if (boat.retired_at) return { success: false, error: 'Boat is retired' };
+
+    const updated = this.updateRow('boats', boat.id, { status: params.new_status })!;
+    return {
+      success: true,
+      boat_id: boat.id,
+      status: params.new_status,
+      updated_at: updated.updated_at as string,
+    };
+  }
+
+  checkBoatAvailability(params: CheckBoatAvailabilityParams): boolean {
+    const boat = this.db.boats.find((b) => b.id === params.boat_id);
+    if (!boat || boat.retired_at || boat.status === 'maintenance') return false;
+
+    return this.getBoatBusyIntervals({
+      boat_id: params.boat_id,
+      range_start: params.start_time,
+      range_end: params.end_time,
+    }).length === 0;
+  }
+
+  getBoatBusyIntervals(params: GetBoatBusyIntervalsParams): BusyInterval[] {
+    const boat = this.db.boats.find((b) => b.id === params.boat_id);
+    if (!boat) return [];
+
+    // Out of service until further notice → the whole range is blocked
+    if (boat.status === 'maintenance') {
+      return [{ start_time: params.range_start, end_time: params.range_end, kind: 'maintenance' }];
+    }
+
+    const inRange = (start: string, end: string) =>
+      windowsOverlap(start, end, params.range_start, params.range_end);
+
+    const bookings: BusyInterval[] = this.db.bookings
+      .filter((bk) =>
+        bk.boat_id === params.boat_id &&
+        ACTIVE_BOOKING_STATUSES.includes(bk.status) &&
+        inRange(bk.start_time, bk.end_time)
+      )
+      .map((bk) => ({ start_time: bk.start_time, end_time: bk.end_time, kind: 'booking' }));
+
+    const maintenance: BusyInterval[] = this.db.maintenance_windows
+      .filter((w) => w.boat_id === params.boat_id && inRange(w.start_time, w.end_time))
+      .map((w) => ({ start_time: w.start_time, end_time: w.end_time, kind: 'maintenance' }));
+
+    return [...bookings, ...maintenance].sort((a, b) => (a.start_time < b.start_time ? -1 : 1));
+  }
+
+  // A named pier overrides the raw pickup point
+  private bookingPickup(
+    boat: Boat,
+    params: { pickup_lat?: number; pickup_lon?: number; pickup_pier_id?: string }
+  ): { lat: number | null; lon: number | null; pier: Pier | null } | { error: string } {
+    if (params.pickup_pier_id == null) {
+      return { lat: params.pickup_lat ?? null, lon: params.pickup_lon ?? null, pier: null };
+    }
+    const pier = this.db.piers.find((p) => p.id === params.pickup_pier_id);
+    if (!pier) return { error: 'Pier not found' };
+    if (!canDock(pier, boat.boat_type)) return { error: 'This boat cannot dock at the pier' };
+    return { lat: pier.latitude, lon: pier.longitude, pier };
+  }
+
+  /**
+   * What POST /api/bookings/quote answers – the route prices in TypeScript, not in SQL
+   */
+  quoteBooking(params: QuoteBookingRequest): QuoteBookingResponse {
+    const boat = this.db.boats.find((b) => b.id === params.boat_id);
+    if (!boat) return { success: false, error: 'Boat not found' };
+
+    const windowError = bookingWindowError(params.start_time, params.end_time);
+    if (windowError) return { success: false, error: windowError };
+
+    const pickup = this.bookingPickup(boat, params);
+    if ('error' in pickup) return { success: false, error: pickup.error };
+
+    const quote = quoteBooking({
+      ...boat,
+      start_time: params.start_time,
+      end_time: params.end_time,
+      pickup: pickup.lat != null && pickup.lon != null ? { lat: pickup.lat, lon: pickup.lon } : null,
+    });
+    return quote ? { success: true, quote } : { success: false, error: NO_PRICE_ERROR };
+  }
+
+  createBooking(params: CreateBookingParams): CreateBookingResponse {
+    const boat = this.db.boats.find((b) => b.id === params.boat_id);
+    if (!boat) return { success: false, error: 'Boat not found' };
+    if (boat.retired_at) return { success: false, error: 'Boat is retired' };
+
+    const windowError = bookingWindowError(params.start_time, params.end_time);
+    if (windowError) return { success: false, error: windowError };
+    if (new Date(params.start_time).getTime() < Date.now()) {
+      return { success: false, error: 'start_time must not be in the past' };
+    }
+
+    const pickup = this.bookingPickup(boat, params);
+    if ('error' in pickup) return { success: false, error: pickup.error };
+    const { lat: pickupLat, lon: pickupLon, pier } = pickup;
+
+    if (!this.checkBoatAvailability(params)) {
+      return { success: false, error: 'Boat is not available for the requested time' };
+    }
+
+    // ✅ Same engine as the quote in the booking sheet; a boat without a rate can't be booked
+    const quote = quoteBooking({
+      ...boat,
+      start_time: params.start_time,
+      end_time: params.end_time,
+      pickup: pickupLat != null && pickupLon != null ? { lat: pickupLat, lon: pickupLon } : null,
+    });
+    if (!quote) return { success: false, error: NO_PRICE_ERROR };
+    // POST /api/bookings refuses a total the passenger didn't see
+    if (params.quoted_price != null && params.quoted_price !== quote.total) {
+      return { success: false, error: PRICE_CHANGED_ERROR };
+    }
+    const totalPrice = quote.total;
+    const stamp = new Date().toISOString();
+    const booking: Booking = {
+      id: newId(),
+      boat_id: boat.id,
+      line_user_id: params.line_user_id,
+      start_time: new Date(params.start_time).toISOString(),
+      end_time: new Date(params.end_time).toISOString(),
+      status: 'pending',
+      total_price: totalPrice,
+      payment_status: 'unpaid',
+      paid_at: null,
+      payment_ref: null,
+      pickup_lat: pickupLat,
+      pickup_lon: pickupLon,
+      pickup_pier_id: pier?.id ?? null,
+      created_at: stamp,
+      updated_at: stamp,
+    };
+
+    this.insertRow('bookings', booking as unknown as Row);
+    return {
+      success: true,
+      booking_id: booking.id,
+      total_hours: bookingHours(params.start_time, params.end_time),
+      total_price: totalPrice,
+      quote,
+    };
+  }
+
+  cancelBooking(params: CancelBookingParams): CancelBookingResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+    if (booking.line_user_id !== params.caller_line_user_id) {
+      return { success: false, error: 'Not allowed to cancel this booking' };
+    }
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+      return { success: false, error: 'Booking can no longer be cancelled' };
+    }
+
+    this.updateRow('bookings', booking.id, { status: 'cancelled' });
+    return { success: true, booking_id: booking.id, status: 'cancelled' };
+  }
+
+  getPassengerBookings(params: GetPassengerBookingsParams): GetPassengerBookingsResponse {
+    // Made by the caller or joined through an invite
+    const joined = new Set(this.db.booking_members
+      .filter((m) => m.line_user_id === params.caller_line_user_id)
+      .map((m) => m.booking_id));
+    const bookings = this.db.bookings
+      .filter((b) => b.line_user_id === params.caller_line_user_id || joined.has(b.id))
+      .sort((a, b) => b.start_time.localeCompare(a.start_time))
+      .map((b) => ({ ...b }));
+    const bookingIds = new Set(bookings.map((b) => b.id));
+    const boatIds = new Set(bookings.map((b) => b.boat_id));
+
+    return {
+      success: true,
+      bookings,
+      boats: this.db.boats.filter((b) => boatIds.has(b.id)).map((b) => toBoatRow(b)),
+      reviews: this.db.reviews.filter((r) => bookingIds.has(r.booking_id)).map((r) => ({ ...r })),
+    };
+  }
+
+  getBooking(params: GetBookingParams): GetBookingResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+    if (booking.line_user_id !== params.caller_line_user_id) {
+      return { success: false, error: 'Not allowed to view this booking' };
+    }
+    return { success: true, booking: { ...booking } };
+  }
+
+  // Operator that owns the boat of a booking (receives the payment)
+  private bookingOperator(booking: Booking): Operator | undefined {
+    const boat = this.db.boats.find((b) => b.id === booking.boat_id);
+    return boat ? this.db.operators.find((o) => o.id === boat.owner_id) : undefined;
+  }
+
+  // total_trips and rating recomputed from completed bookings and reviews, like refresh_operator_stats
+  private refreshOperatorStats(operator: Operator): Operator {
+    const boatIds = new Set(this.db.boats.filter((b) => b.owner_id === operator.id).map((b) => b.id));
+    const totalTrips = this.db.bookings.filter((b) => boatIds.has(b.boat_id) && b.status === 'completed').length;
+    const rating = averageRating(this.db.reviews.filter((r) => r.operator_id === operator.id).map((r) => r.rating));
+    this.updateRow('operators', operator.id, { rating: rating ?? operator.rating, total_trips: totalTrips });
+    return this.db.operators.find((o) => o.id === operator.id) ?? operator;
+  }
+
+  getBookingPayment(params: GetBookingPaymentParams): BookingPaymentRecord {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+
+    const operator = this.bookingOperator(booking);
+    const isPassenger = booking.line_user_id === params.caller_line_user_id;
+    const isOperator = operator?.line_user_id === params.caller_line_user_id;
+    if (!isPassenger && !isOperator) {
+      return { success: false, error: 'Not allowed to view this booking' };
+    }
+
+    return {
+      success: true,
+      booking_id: booking.id,
+      amount: booking.total_price ?? 0,
+      payment_status: booking.payment_status,
+      paid_at: booking.paid_at,
+      promptpay_id: operator?.promptpay_id ?? null,
+    };
+  }
+
+  markBookingPaid(params: MarkBookingPaidParams): MarkBookingPaidResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+
+    // A null caller is the trusted payment callback; operators may only mark their own boats
+    if (params.caller_line_user_id !== null &&
+        this.bookingOperator(booking)?.line_user_id !== params.caller_line_user_id) {
+      return { success: false, error: 'Not allowed to update this booking' };
+    }
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+      return { success: false, error: 'Booking can no longer be paid' };
+    }
+    if (booking.payment_status === 'paid') {
+      return {
+        success: true, booking_id: booking.id, status: booking.status,
+        payment_status: 'paid', paid_at: booking.paid_at ?? undefined,
+      };
+    }
+
+    // ✅ Payment confirms a pending booking
+    const status = booking.status === 'pending' ? 'confirmed' : booking.status;
+    const paidAt = new Date().toISOString();
+    this.updateRow('bookings', booking.id, {
+      payment_status: 'paid', paid_at: paidAt, payment_ref: params.payment_ref ?? null, status,
+    });
+    return { success: true, booking_id: booking.id, status, payment_status: 'paid', paid_at: paidAt };
+  }
+
+  // ---------- group bookings ----------
+
+  private bookingMembers(bookingId: string): BookingMember[] {
+    return sortMembers(this.db.booking_members.filter((m) => m.booking_id === bookingId));
+  }
+
+  // Write re-split shares back; the booking is touched so realtime listeners reload
+  private saveShares(booking: Booking, members: BookingMember[]) {
+    members.forEach((member) => {
+      const { share_amount, payment_status, paid_at } = member;
+      this.updateRow('booking_members', member.id, { share_amount, payment_status, paid_at });
+    });
+    this.updateRow('bookings', booking.id, {});
+  }
+
+  private isJoinable(booking: Booking) {
+    return ACTIVE_BOOKING_STATUSES.includes(booking.status) && new Date(booking.end_time).getTime() > Date.now();
+  }
+
+  createBookingInvite(params: CreateBookingInviteParams): CreateBookingInviteResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+    if (booking.line_user_id !== params.caller_line_user_id) {
+      return { success: false, error: 'Not allowed to invite to this booking' };
+    }
+
+    const existing = this.db.booking_groups.find((g) => g.booking_id === booking.id);
+    if (existing) return { success: true, invite_code: existing.invite_code };
+    if (!this.isJoinable(booking)) return { success: false, error: 'Booking can no longer be shared' };
+
+    const stamp = new Date().toISOString();
+    const group: BookingGroup = {
+      booking_id: booking.id,
+      invite_code: newId().replace(/-/g, ''),
+      split_mode: 'even',
+      created_at: stamp,
+    };
+    this.db.booking_groups.push(group);
+    this.insertRow('booking_members', {
+      id: newId(), booking_id: booking.id, line_user_id: booking.line_user_id,
+      display_name: params.caller_name?.slice(0, 60) ?? null, role: 'organizer',
+      share_amount: booking.total_price ?? 0, payment_status: 'unpaid', paid_at: null, joined_at: stamp,
+    });
+    return { success: true, invite_code: group.invite_code };
+  }
+
+  getBookingGroup(params: GetBookingGroupParams): GetBookingGroupResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+
+    const members = this.bookingMembers(booking.id);
+    const isOrganizer = booking.line_user_id === params.caller_line_user_id;
+    if (!isOrganizer && !members.some((m) => m.line_user_id === params.caller_line_user_id)) {
+      return { success: false, error: 'Not allowed to view this booking' };
+    }
+
+    const group = this.db.booking_groups.find((g) => g.booking_id === booking.id);
+    return {
+      success: true,
+      booking_id: booking.id,
+      is_organizer: isOrganizer,
+      invite_code: isOrganizer ? group?.invite_code ?? null : null,
+      split_mode: group?.split_mode ?? 'even',
+      total_price: booking.total_price ?? 0,
+      capacity: this.db.boats.find((b) => b.id === booking.boat_id)?.capacity,
+      members,
+    };
+  }
+
+  getBookingInvite(params: GetBookingInviteParams): GetBookingInviteResponse {
+    const group = this.db.booking_groups.find((g) => g.invite_code === params.invite_code);
+    const booking = group && this.db.bookings.find((b) => b.id === group.booking_id);
+    if (!booking) return { success: false, error: 'Invite not found' };
+
+    const boat = this.db.boats.find((b) => b.id === booking.boat_id);
+    const members = this.bookingMembers(booking.id);
+    return {
+      success: true,
+      booking_id: booking.id,
+      boat_name: boat?.name,
+      boat_type: boat?.boat_type,
+      start_time: booking.start_time,
+      end_time: booking.end_time,
+      status: booking.status,
+      organizer_name: members.find((m) => m.role === 'organizer')?.display_name ?? null,
+      capacity: boat?.capacity,
+      member_count: members.length,
+      is_member: members.some((m) => m.line_user_id === params.caller_line_user_id),
+    };
+  }
+
+  joinBooking(params: JoinBookingParams): JoinBookingResponse {
+    const group = this.db.booking_groups.find((g) => g.invite_code === params.invite_code);
+    const booking = group && this.db.bookings.find((b) => b.id === group.booking_id);
+    if (!group || !booking) return { success: false, error: 'Invite not found' };
+
+    const members = this.bookingMembers(booking.id);
+    const existing = members.find((m) => m.line_user_id === params.caller_line_user_id);
+    if (existing) return { success: true, booking_id: booking.id, share_amount: existing.share_amount };
+
+    if (!this.isJoinable(booking)) return { success: false, error: 'Booking can no longer be joined' };
+    const capacity = this.db.boats.find((b) => b.id === booking.boat_id)?.capacity ?? 0;
+    if (members.length >= capacity) return { success: false, error: 'Booking is full' };
+
+    // Custom splits start the newcomer at 0 until the organizer adjusts
+    const member: BookingMember = {
+      id: newId(), booking_id: booking.id, line_user_id: params.caller_line_user_id,
+      display_name: params.caller_name?.slice(0, 60) ?? null, role: 'member',
+      share_amount: 0, payment_status: 'unpaid', paid_at: null, joined_at: new Date().toISOString(),
+    };
+    this.insertRow('booking_members', member as unknown as Row);
+
+    const all = [...members, member];
+    const shared = group.split_mode === 'even' ? resplitMembers(all, booking.total_price ?? 0) : all;
+    this.saveShares(booking, shared);
+
+    const share = shared.find((m) => m.id === member.id)?.share_amount ?? 0;
+    return { success: true, booking_id: booking.id, share_amount: share };
+  }
+
+  setBookingSplit(params: SetBookingSplitParams): SetBookingSplitResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+    if (booking.line_user_id !== params.caller_line_user_id) {
+      return { success: false, error: 'Not allowed to manage this booking' };
+    }
+
+    const group = this.db.booking_groups.find((g) => g.booking_id === booking.id);
+    if (!group) return { success: false, error: 'Group booking not found' };
+    if (!ACTIVE_BOOKING_STATUSES.includes(booking.status)) {
+      return { success: false, error: 'Booking can no longer be changed' };
+    }
+    if (params.split_mode !== 'even' && params.split_mode !== 'custom') {
+      return { success: false, error: 'Invalid split mode' };
+    }
+
+    const members = this.bookingMembers(booking.id);
+    const total = booking.total_price ?? 0;
+    if (params.split_mode === 'custom') {
+      const shareError = validateShares(total, members.map((m) => m.line_user_id), params.shares ?? {});
+      if (shareError) return { success: false, error: SHARE_ERROR_MESSAGES[shareError] };
+    }
+
+    group.split_mode = params.split_mode;
+    this.saveShares(booking, resplitMembers(members, total, params.split_mode === 'custom' ? params.shares : null));
+    return { success: true, booking_id: booking.id, split_mode: params.split_mode };
+  }
+
+  markMemberPaid(params: MarkMemberPaidParams): MarkMemberPaidResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+    if (booking.line_user_id !== params.caller_line_user_id) {
+      return { success: false, error: 'Not allowed to manage this booking' };
+    }
+
+    const member = this.db.booking_members.find(
+      (m) => m.booking_id === booking.id && m.line_user_id === params.member_line_user_id
+    );
+    if (!member) return { success: false, error: 'Passenger not found' };
+
+    const paidAt = params.paid ? new Date().toISOString() : null;
+    const paymentStatus = params.paid ? 'paid' : 'unpaid';
+    this.updateRow('booking_members', member.id, { payment_status: paymentStatus, paid_at: paidAt });
+    this.updateRow('bookings', booking.id, {});
+    return {
+      success: true, booking_id: booking.id, line_user_id: member.line_user_id,
+      payment_status: paymentStatus, paid_at: paidAt,
+    };
+  }
+
+  // ---------- live trips ----------
+
+  updateTripLocation(params: UpdateTripLocationParams): UpdateTripLocationResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+    if (booking.line_user_id !== params.caller_line_user_id) {
+      return { success: false, error: 'Not allowed to share location for this booking' };
+    }
+    // ✅ Shared only while the trip runs
+    if (!isTripActive(booking, Date.now())) {
+      return { success: false, error: 'Trip is not in progress' };
+    }
+
+    const location: TripLocation = {
+      booking_id: booking.id,
+      latitude: params.lat,
+      longitude: params.lon,
+      updated_at: new Date().toISOString(),
+    };
+    this.db.trip_locations = [
+      ...this.db.trip_locations.filter((l) => l.booking_id !== booking.id),
+      location,
+    ];
+    return { success: true, updated_at: location.updated_at };
+  }
+
+  getTripLocation(params: GetTripLocationParams): GetTripLocationResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+    if (this.bookingOperator(booking)?.line_user_id !== params.caller_line_user_id) {
+      return { success: false, error: 'Not allowed to view this trip' };
+    }
+    if (!isTripActive(booking, Date.now())) {
+      return { success: true, location: null };
+    }
+
+    const location = this.db.trip_locations.find((l) => l.booking_id === booking.id) ?? null;
+    return { success: true, location };
+  }
+
+  private finishTrip(booking: Booking) {
+    this.db.trip_locations = this.db.trip_locations.filter((l) => l.booking_id !== booking.id);
+    this.updateRow('bookings', booking.id, { status: 'completed' });
+    const operator = this.bookingOperator(booking);
+    if (operator) this.refreshOperatorStats(operator);
+  }
+
+  /**
+   * Operator ends the trip once it has started; the passenger only once end_time has passed
+   */
+  completeBooking(params: CompleteBookingParams): CompleteBookingResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+
+    const isOperator = this.bookingOperator(booking)?.line_user_id === params.caller_line_user_id;
+    const isPassenger = booking.line_user_id === params.caller_line_user_id;
+    if (!isOperator && !(isPassenger && new Date(booking.end_time).getTime() <= Date.now())) {
+      return { success: false, error: 'Not allowed to complete this booking' };
+    }
+    if (booking.status === 'completed') {
+      return { success: true, booking_id: booking.id, status: 'completed' };
+    }
+    if (booking.status !== 'confirmed') {
+      return { success: false, error: 'Only confirmed bookings can be completed' };
+    }
+    if (Date.now() < new Date(booking.start_time).getTime()) {
+      return { success: false, error: 'Trip has not started yet' };
+    }
+
+    this.finishTrip(booking);
+    return { success: true, booking_id: booking.id, status: 'completed' };
+  }
+
+  /**
+   * Scheduled sweep for passed end times: confirmed bookings are completed,
+   * pending (never confirmed or paid) ones are cancelled so they stop blocking the boat
+   */
+  completeFinishedBookings(): number {
+    const now = Date.now();
+    const ended = this.db.bookings.filter(
+      (b) => ACTIVE_BOOKING_STATUSES.includes(b.status) && new Date(b.end_time).getTime() <= now
+    );
+    ended.forEach((b) => {
+      if (b.status === 'confirmed') this.finishTrip(b);
+      else this.updateRow('bookings', b.id, { status: 'cancelled' });
+    });
+    return ended.length;
+  }
+
+  // ---------- fleet administration ----------
+
+  private operatorFor(lineUserId: string): Operator | undefined {
+    return this.db.operators.find((o) => o.line_user_id === lineUserId);
+  }
+
+  // Admins manage every boat, owners their own
+  private canManageBoat(operator: Operator | undefined, boat: Boat): operator is Operator {
+    return !!operator && (operator.is_admin || boat.owner_id === operator.id);
+  }
+
+  private audit(
+    boatId: string, actor: Operator | null, action: BoatAuditAction,
+    changes: BoatAuditEntry['changes'] = null
+  ) {
+    const entry: BoatAuditEntry = {
+      id: newId(),
+      boat_id: boatId,
+      actor_line_user_id: actor?.line_user_id ?? null,
+      actor_name: actor?.name ?? null,
+      action,
+      changes,
+      created_at: new Date().toISOString(),
+    };
+    this.insertRow('boat_audit_log', entry as unknown as Row);
+  }
+
+  getFleet(params: GetFleetParams): GetFleetResponse {
+    const operator = this.operatorFor(params.caller_line_user_id);
+    if (!operator) return { success: false, error: 'Not registered as an operator' };
+
+    const boats = this.db.boats
+      .filter((b) => this.canManageBoat(operator, b))
+      .map((b) => toBoatRow(b))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const boatIds = new Set(boats.map((b) => b.id));
+    const now = Date.now();
+
+    return {
+      success: true,
+      operator_id: operator.id,
+      is_admin: operator.is_admin,
+      boats,
+      operators: this.db.operators.map((o) => ({ id: o.id, name: o.name })),
+      maintenance_windows: this.db.maintenance_windows
+        .filter((w) => boatIds.has(w.boat_id) && new Date(w.end_time).getTime() > now)
+        .sort((a, b) => (a.start_time < b.start_time ? -1 : 1)),
+    };
+  }
+
+  /**
+   * Operator console: the caller's own boats that are still in service
+   * and their bookings overlapping the range
+   */
+  getOperatorConsole(params: GetOperatorConsoleParams): GetOperatorConsoleResponse {
+    const operator = this.operatorFor(params.caller_line_user_id);
+    if (!operator) return { success: false, error: 'Not registered as an operator' };
+
+    const from = new Date(params.range_start).getTime();
+    const to = new Date(params.range_end).getTime();
+    if (isNaN(from) || isNaN(to) || to <= from) {
+      return { success: false, error: 'range_end must be after range_start' };
+    }
+
+    const boats = this.db.boats
+      .filter((b) => b.owner_id === operator.id && !b.retired_at)
+      .map((b) => toBoatRow(b))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const boatIds = new Set(boats.map((b) => b.id));
+
+    return {
+      success: true,
+      operator: { id: operator.id, name: operator.name, rating: operator.rating, total_trips: operator.total_trips },
+      boats,
+      bookings: this.db.bookings
+        .filter((b) =>
+          boatIds.has(b.boat_id) &&
+          new Date(b.start_time).getTime() < to &&
+          new Date(b.end_time).getTime() > from
+        )
+        .sort((a, b) => a.start_time.localeCompare(b.start_time))
+        .map((b) => ({ ...b })),
+    };
+  }
+
+  /**
+   * Create (boat_id null) or edit a boat; every change lands in the audit log
+   */
+  saveBoat(params: SaveBoatParams): SaveBoatResponse {
+    const operator = this.operatorFor(params.caller_line_user_id);
+    if (!operator) return { success: false, error: 'Not registered as an operator' };
+
+    const boatId = params.boat_id;
+    const input: BoatInput = {
+      name: params.name,
+      boat_type: params.boat_type,
+      capacity: params.capacity,
+      price_per_hour: params.price_per_hour,
+      home_latitude: params.home_latitude,
+      home_longitude: params.home_longitude,
+      owner_id: params.owner_id,
+    };
+    const errors = validateBoatInput(input);
+    if (Object.keys(errors).length > 0) return { success: false, error: describeBoatInputErrors(errors) };
+
+    const existing = boatId ? this.db.boats.find((b) => b.id === boatId) : undefined;
+    if (boatId && !existing) return { success: false, error: 'Boat not found' };
+    if (existing && !this.canManageBoat(operator, existing)) {
+      return { success: false, error: 'Not allowed to update this boat' };
+    }
+    if (existing?.retired_at) return { success: false, error: 'Boat is retired' };
+
+    // Owners may hand their own boats to another operator; only admins create boats for others
+    const ownerId = input.owner_id ?? existing?.owner_id ?? operator.id;
+    if (!this.db.operators.some((o) => o.id === ownerId)) {
+      return { success: false, error: 'Owner not found' };
+    }
+    if (!existing && ownerId !== operator.id && !operator.is_admin) {
+      return { success: false, error: 'Not allowed to assign this owner' };
+    }
+
+    const values = { ...input, owner_id: ownerId };
+
+    if (!existing) {
+      const stamp = new Date().toISOString();
+      const boat: MemoryBoat = {
+        id: newId(),
+        ...values,
+        status: 'available',
+        retired_at: null,
+        maintenance_window_id: null,
+        latitude: values.home_latitude,
+        longitude: values.home_longitude,
+        heading: null,
+        created_at: stamp,
+        updated_at: stamp,
+      };
+      this.insertRow('boats', boat as unknown as Row);
+      this.audit(boat.id, operator, 'created', diffBoatInput({}, values));
+      return { success: true, boat_id: boat.id };
+    }
+
+    const changes = diffBoatInput(existing, values);
+    if (changes) {
+      this.updateRow('boats', existing.id, values);
+      this.audit(existing.id, operator, 'updated', changes);
+    }
+    return { success: true, boat_id: existing.id };
+  }
+
+  /**
+   * Take a boat out of the fleet: off the map and closed for bookings
+   */
+  retireBoat(params: RetireBoatParams): RetireBoatResponse {
+    const boat = this.db.boats.find((b) => b.id === params.boat_id);
+    if (!boat) return { success: false, error: 'Boat not found' };
+
+    const operator = this.operatorFor(params.caller_line_user_id);
+    if (!this.canManageBoat(operator, boat)) return { success: false, error: 'Not allowed to retire this boat' };
+    if (boat.retired_at) return { success: true, boat_id: boat.id, retired_at: boat.retired_at };
+
+    const now = Date.now();
+    const upcoming = this.db.bookings.some((bk) =>
+      bk.boat_id === boat.id &&
+      ACTIVE_BOOKING_STATUSES.includes(bk.status) &&
+      new Date(bk.end_time).getTime() > now
+    );
+    if (upcoming) return { success: false, error: 'Boat has upcoming bookings' };
+
+    const retiredAt = new Date(now).toISOString();
+    this.updateRow('boats', boat.id, { retired_at: retiredAt, status: 'maintenance', maintenance_window_id: null });
+    this.audit(boat.id, operator, 'retired', {
+      retired_at: { from: null, to: retiredAt },
+      status: { from: boat.status, to: 'maintenance' },
+    });
+    return { success: true, boat_id: boat.id, retired_at: retiredAt };
+  }
+
+  scheduleMaintenance(params: ScheduleMaintenanceParams): ScheduleMaintenanceResponse {
+    const boat = this.db.boats.find((b) => b.id === params.boat_id);
+    if (!boat) return { success: false, error: 'Boat not found' };
+
+    const operator = this.operatorFor(params.caller_line_user_id);
+    if (!this.canManageBoat(operator, boat)) return { success: false, error: 'Not allowed to update this boat' };
+    if (boat.retired_at) return { success: false, error: 'Boat is retired' };
+
+    const reason = params.reason?.trim() || null;
+    const windowError = validateMaintenanceWindow(params.start_time, params.end_time, reason);
+    if (windowError) return { success: false, error: MAINTENANCE_WINDOW_ERROR_MESSAGES[windowError] };
+
+    const startTime = new Date(params.start_time).toISOString();
+    const endTime = new Date(params.end_time).toISOString();
+    const clashes = this.db.bookings.some((bk) =>
+      bk.boat_id === boat.id &&
+      ACTIVE_BOOKING_STATUSES.includes(bk.status) &&
+      windowsOverlap(bk.start_time, bk.end_time, startTime, endTime)
+    );
+    if (clashes) return { success: false, error: 'Maintenance window overlaps existing bookings' };
+
+    const window: MaintenanceWindow = {
+      id: newId(),
+      boat_id: boat.id,
+      start_time: startTime,
+      end_time: endTime,
+      reason,
+      created_at: new Date().toISOString(),
+    };
+    this.insertRow('maintenance_windows', window as unknown as Row);
+    this.audit(boat.id, operator, 'maintenance_scheduled', {
+      start_time: { from: null, to: startTime },
+      end_time: { from: null, to: endTime },
+      reason: { from: null, to: reason },
+    });
+
+    // A window that has already started takes effect now
+    this.applyMaintenanceWindows();
+    return { success: true, window_id: window.id };
+  }
+
+  cancelMaintenance(params: CancelMaintenanceParams): CancelMaintenanceResponse {
+    const window = this.db.maintenance_windows.find((w) => w.id === params.window_id);
+    if (!window) return { success: false, error: 'Maintenance window not found' };
+
+    const boat = this.db.boats.find((b) => b.id === window.boat_id);
+    const operator = this.operatorFor(params.caller_line_user_id);
+    if (!boat || !this.canManageBoat(operator, boat)) {
+      return { success: false, error: 'Not allowed to update this boat' };
+    }
+
+    this.deleteRow('maintenance_windows', window.id);
+    this.audit(boat.id, operator, 'maintenance_cancelled', {
+      start_time: { from: window.start_time, to: null },
+      end_time: { from: window.end_time, to: null },
+    });
+
+    this.applyMaintenanceWindows();
+    return { success: true, window_id: window.id };
+  }
+
+  getBoatAuditLog(params: GetBoatAuditLogParams): GetBoatAuditLogResponse {
+    const boat = this.db.boats.find((b) => b.id === params.boat_id);
+    if (!boat) return { success: false, error: 'Boat not found' };
+
+    const operator = this.operatorFor(params.caller_line_user_id);
+    if (!this.canManageBoat(operator, boat)) return { success: false, error: 'Not allowed to view this boat' };
+
+    return {
+      success: true,
+      entries: this.db.boat_audit_log
+        .filter((e) => e.boat_id === boat.id)
+        .sort((a, b) => (a.created_at < b.created_at ? 1 : -1)),
+    };
+  }
+
+  /**
+   * Scheduled sweep: boats enter maintenance when a window starts
+   * and go back to available when the window that started it ends
+   * (unless someone changed the status in between)
+   */
+  applyMaintenanceWindows(): number {
+    const now = Date.now();
+    let changed = 0;
+
+    this.db.boats.filter((b) => !b.retired_at).forEach((boat) => {
+      const active = this.db.maintenance_windows.find((w) =>
+        w.boat_id === boat.id &&
+        new Date(w.start_time).getTime() <= now &&
+        new Date(w.end_time).getTime() > now
+      );
+
+      if (active && boat.maintenance_window_id !== active.id && boat.status !== 'maintenance') {
+        this.updateRow('boats', boat.id, { status: 'maintenance', maintenance_window_id: active.id });
+        this.audit(boat.id, null, 'maintenance_started', { status: { from: boat.status, to: 'maintenance' } });
+        changed++;
+      } else if (!active && boat.maintenance_window_id) {
+        const reopen = boat.status === 'maintenance';
+        this.updateRow('boats', boat.id, { maintenance_window_id: null, ...(reopen ? { status: 'available' } : {}) });
+        if (reopen) {
+          this.audit(boat.id, null, 'maintenance_ended', { status: { from: 'maintenance', to: 'available' } });
+          changed++;
+        }
+      }
+    });
+
+    return changed;
+  }
+
+  // ---------- analytics ----------
+
+  /**
+   * Raw rows behind the analytics dashboard for the boats the caller manages
+   * (retired ones included – their past still counts)
+   */
+  getFleetAnalytics(params: GetFleetAnalyticsParams): GetFleetAnalyticsResponse {
+    const operator = this.operatorFor(params.caller_line_user_id);
+    if (!operator) return { success: false, error: 'Not registered as an operator' };
+
+    const from = new Date(params.range_start).getTime();
+    const to = new Date(params.range_end).getTime();
+    if (isNaN(from) || isNaN(to) || to <= from) {
+      return { success: false, error: 'range_end must be after range_start' };
+    }
+
+    const boats = this.db.boats.filter((b) => this.canManageBoat(operator, b));
+    const boatIds = new Set(boats.map((b) => b.id));
+
+    // Changes inside the range plus the last one before it (the status at range_start)
+    const history = this.db.boat_status_history.filter((c) => boatIds.has(c.boat_id));
+    const before = new Map<string, BoatStatusChange>();
+    history.forEach((c) => {
+      if (new Date(c.changed_at).getTime() >= from) return;
+      const last = before.get(c.boat_id);
+      if (!last || c.changed_at > last.changed_at) before.set(c.boat_id, c);
+    });
+    const inRange = history.filter((c) => {
+      const t = new Date(c.changed_at).getTime();
+      return t >= from && t < to;
+    });
+
+    return {
+      success: true,
+      boats: boats.map((b) => ({
+        id: b.id, name: b.name, boat_type: b.boat_type, owner_id: b.owner_id,
+        created_at: b.created_at, retired_at: b.retired_at,
+      })),
+      bookings: this.db.bookings
+        .filter((bk) =>
+          boatIds.has(bk.boat_id) &&
+          windowsOverlap(bk.start_time, bk.end_time, params.range_start, params.range_end)
+        )
+        .map((bk) => ({
+          id: bk.id, boat_id: bk.boat_id, start_time: bk.start_time, end_time: bk.end_time,
+          status: bk.status, total_price: bk.total_price, pickup_lat: bk.pickup_lat,
+          pickup_lon: bk.pickup_lon, created_at: bk.created_at,
+        }))
+        .sort((a, b) => (a.start_time < b.start_time ? -1 : 1)),
+      status_history: [...before.values(), ...inRange]
+        .sort((a, b) => (a.changed_at < b.changed_at ? -1 : 1)),
+    };
+  }
+
+  // ---------- reviews ----------
+
+  /**
+   * Passenger rates a completed trip once; the operator's running average
+   * and trip count take the new rating in
+   */
+  submitReview(params: SubmitReviewParams): SubmitReviewResponse {
+    const booking = this.db.bookings.find((b) => b.id === params.booking_id);
+    if (!booking) return { success: false, error: 'Booking not found' };
+    if (booking.line_user_id !== params.caller_line_user_id) {
+      return { success: false, error: 'Not allowed to review this booking' };
+    }
+    if (booking.status !== 'completed') {
+      return { success: false, error: 'Only completed trips can be reviewed' };
+    }
+    if (!isValidRating(params.rating)) {
+      return { success: false, error: 'Rating must be a whole number from 1 to 5' };
+    }
+    const comment = normalizeReviewComment(params.comment);
+    if (comment && comment.length > REVIEW_COMMENT_MAX_LENGTH) {
+      return { success: false, error: `Comment may not exceed ${REVIEW_COMMENT_MAX_LENGTH} characters` };
+    }
+    if (this.db.reviews.some((r) => r.booking_id === booking.id)) {
+      return { success: false, error: 'This booking has already been reviewed' };
+    }
+
+    const operator = this.bookingOperator(booking);
+    const review: Review = {
+      id: newId(),
+      booking_id: booking.id,
+      boat_id: booking.boat_id,
+      operator_id: operator?.id ?? null,
+      rating: params.rating,
+      comment,
+      created_at: new Date().toISOString(),
+    };
+    this.insertRow('reviews', review as unknown as Row);
+
+    if (!operator) return { success: true, review_id: review.id };
+
+    const updated = this.refreshOperatorStats(operator);
+    return {
+      success: true,
+      review_id: review.id,
+      operator_rating: updated.rating,
+      operator_total_trips: updated.total_trips,
+    };
+  }
+
+  rpc(fn: string, args: Record<string, unknown> = {}): unknown {
+    switch (fn) {
+      case 'find_nearby_boats':
+        return this.findNearbyBoats(args as unknown as FindNearbyBoatsParams);
+      case 'find_boats_in_bounds':
+        return this.findBoatsInBounds(args as unknown as FindBoatsInBoundsParams);
+      case 'get_boat_location':
+        return this.getBoatLocation(args as unknown as GetBoatLocationParams);
+      case 'update_boat_status':
+        return this.updateBoatStatus(args as unknown as UpdateBoatStatusParams);
+      case 'check_boat_availability':
+        return this.checkBoatAvailability(args as unknown as CheckBoatAvailabilityParams);
+      case 'get_boat_busy_intervals':
+        return this.getBoatBusyIntervals(args as unknown as GetBoatBusyIntervalsParams);
+      case 'quote_booking':
+        return this.quoteBooking(args as unknown as QuoteBookingRequest);
+      case 'create_booking':
+        return this.createBooking(args as unknown as CreateBookingParams);
+      case 'get_passenger_bookings':
+        return this.getPassengerBookings(args as unknown as GetPassengerBookingsParams);
+      case 'get_booking':
+        return this.getBooking(args as unknown as GetBookingParams);
+      case 'cancel_booking':
+        return this.cancelBooking(args as unknown as CancelBookingParams);
+      case 'update_trip_location':
+        return this.updateTripLocation(args as unknown as UpdateTripLocationParams);
+      case 'get_trip_location':
+        return this.getTripLocation(args as unknown as GetTripLocationParams);
+      case 'complete_booking':
+        return this.completeBooking(args as unknown as CompleteBookingParams);
+      case 'complete_finished_bookings':
+        return this.completeFinishedBookings();
+      case 'get_booking_payment':
+        return this.getBookingPayment(args as unknown as GetBookingPaymentParams);
+      case 'mark_booking_paid':
+        return this.markBookingPaid(args as unknown as MarkBookingPaidParams);
+      case 'get_fleet':
+        return this.getFleet(args as unknown as GetFleetParams);
+      case 'get_operator_console':
+        return this.getOperatorConsole(args as unknown as GetOperatorConsoleParams);
+      case 'save_boat':
+        return this.saveBoat(args as unknown as SaveBoatParams);
+      case 'retire_boat':
+        return this.retireBoat(args as unknown as RetireBoatParams);
+      case 'schedule_maintenance':
+        return this.scheduleMaintenance(args as unknown as ScheduleMaintenanceParams);
+      case 'cancel_maintenance':
+        return this.cancelMaintenance(args as unknown as CancelMaintenanceParams);
+      case 'get_boat_audit_log':
+        return this.getBoatAuditLog(args as unknown as GetBoatAuditLogParams);
+      case 'apply_maintenance_windows':
+        return this.applyMaintenanceWindows();
+      case 'get_fleet_analytics':
+        return this.getFleetAnalytics(args as unknown as GetFleetAnalyticsParams);
+      case 'submit_review':
+        return this.submitReview(args as unknown as SubmitReviewParams);
+      case 'create_booking_invite':
+        return this.createBookingInvite(args as unknown as CreateBookingInviteParams);
+      case 'get_booking_group':
+        return this.getBookingGroup(args as unknown as GetBookingGroupParams);
+      case 'get_booking_invite':
+        return this.getBookingInvite(args as unknown as GetBookingInviteParams);
+      case 'join_booking':
+        return this.joinBooking(args as unknown as JoinBookingParams);
+      case 'set_booking_split':
+        return this.setBookingSplit(args as unknown as SetBookingSplitParams);
+      case 'mark_member_paid':
+        return this.markMemberPaid(args as unknown as MarkMemberPaidParams);
+      default:
+        throw new Error(`Unknown RPC function: ${fn}`);
+    }
+  }
+
+  // ---------- Supabase client surface ----------
+
+  channel(name: string) {
+    const own: Listener[] = [];
+
+    const channel = {
+      topic: name,
+      on: (type: string, filter: Record<string, string>, callback: (payload: never) => void) => {
+        if (type === 'postgres_changes') {
+          own.push({
+            kind: 'postgres_changes', event: filter.event ?? '*', table: filter.table, filter: filter.filter,
+            callback: callback as PostgresListener['callback'],
+          });
+        } else if (type === 'broadcast') {
+          own.push({ kind: 'broadcast', event: filter.event, callback: callback as BroadcastListener['callback'] });
+        }
+        return channel;
+      },
+      subscribe: (callback?: (status: string) => void) => {
+        own.forEach((l) => this.listeners.add(l));
+        setTimeout(() => callback?.('SUBSCRIBED'), 0);
+        return channel;
+      },
+      send: async (message: { type: string; event: string; payload: unknown }) => {
+        if (message.type === 'broadcast') this.emitBroadcast(message.event, message.payload);
+        return 'ok';
+      },
+      unsubscribe: async () => {
+        own.forEach((l) => this.listeners.delete(l));
+        return 'ok';
+      },
+    };
+
+    return channel;
+  }
+}
+
+// One backend per JS runtime (browser tab or server process)
+let sharedBackend: MemoryBackend | null = null;
+
+export const getMemoryBackend = (): MemoryBackend => {
+  if (!sharedBackend) sharedBackend = new MemoryBackend();
+  return sharedBackend;
+};
+
+/**
+ * Reset the shared backend (tests), optionally with custom data
+ */
+export const resetMemoryBackend = (db?: MemoryDatabase): MemoryBackend => {
+  sharedBackend = new MemoryBackend(db);
+  return sharedBackend;
+};
+
+/**
+ * Client object shaped like SupabaseClient for the calls the app makes
+ * Resolves the shared backend per call, so resetMemoryBackend() takes effect
+ */
+export const createMemoryClient = (
+  resolve: () => MemoryBackend = getMemoryBackend
+): SupabaseClient => {
+  const runRpc = (fn: string, args?: Record<string, unknown>) =>
+    Promise.resolve().then(() => {
+      try {
+        return { data: resolve().rpc(fn, args), error: null };
+      } catch (err) {
+        return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
+      }
+    });
+
+  const scoped = {
+    from: (table: TableName) => new MemoryQuery(resolve(), table),
+    rpc: runRpc,
+  };
+
+  const client = {
+    ...scoped,
+    schema: () => scoped,
+    channel: (name: string) => resolve().channel(name),
+    removeChannel: async (channel: { unsubscribe: () => Promise<string> }) => channel.unsubscribe(),
+    auth: {
+      getSession: () => Promise.resolve({ data: { session: null }, error: null }),
+      getUser: () => Promise.resolve({ data: { user: null }, error: null }),
+    },
+  };
+
+  return client as unknown as SupabaseClient;
+};
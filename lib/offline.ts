@@ -0,0 +1,142 @@
+// ============================================
+// Offline support – last known fleet and bookings made without signal
+// Both live in localStorage so they survive the LIFF webview being closed
+// ============================================
+
+import { array, nearbyBoatSchema, number, object, optional, string, type Schema } from '@/lib/schema';
+import type { NearbyBoat, CreateBookingRequest } from '@/lib/types';
+
+const FLEET_KEY = 'daranee.lastFleet';
+const QUEUE_KEY = 'daranee.bookingQueue';
+
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const readJson = <T,>(key: string, parse: (value: unknown) => T): T | null => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? parse(JSON.parse(raw)) : null;
+  } catch (err) {
+    // Corrupt or from an older shape – drop it rather than break the page
+    console.warn(`[offline] Ignoring stored ${key}:`, err);
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // storage unavailable (private mode / quota) – offline fallback just won't work
+  }
+};
+
+// ============================================
+// Last fleet snapshot
+// ============================================
+
+export interface FleetSnapshot {
+  boats: NearbyBoat[];
+  saved_at: string;
+}
+
+const fleetSnapshotSchema: Schema<FleetSnapshot> = object({
+  boats: array(nearbyBoatSchema),
+  saved_at: string,
+});
+
+export const saveFleetSnapshot = (boats: NearbyBoat[]) => {
+  writeJson(FLEET_KEY, { boats, saved_at: new Date().toISOString() } satisfies FleetSnapshot);
+};
+
+export const readFleetSnapshot = (): FleetSnapshot | null => readJson(FLEET_KEY, fleetSnapshotSchema);
+
+// ============================================
+// Booking queue (read with useSyncExternalStore in useBookingQueue)
+// One queue per LINE user, so on a shared device a booking is only
+// ever sent for the passenger who made it
+// ============================================
+
+export interface QueuedBooking {
+  id: string;
+  request: CreateBookingRequest;
+  boat_name: string;
+  queued_at: string;
+  // Server's total when it no longer matches request.quoted_total;
+  // the entry waits until the passenger accepts or discards it
+  repriced_total?: number;
+}
+
+const queuedBookingSchema: Schema<QueuedBooking> = object({
+  id: string,
+  request: object({
+    boat_id: string,
+    start_time: string,
+    end_time: string,
+    pickup_lat: optional(number),
+    pickup_lon: optional(number),
+    pickup_pier_id: optional(string),
+    quoted_total: number,
+  }),
+  boat_name: string,
+  queued_at: string,
+  repriced_total: optional(number),
+});
+
+const NO_BOOKINGS: QueuedBooking[] = [];
+
+const queueKey = (lineUserId: string) => `${QUEUE_KEY}.${lineUserId}`;
+
+// Cached per user so useSyncExternalStore sees the same array until the queue changes
+const queues = new Map<string, QueuedBooking[]>();
+const listeners = new Set<() => void>();
+
+export const getQueuedBookings = (lineUserId: string | null): QueuedBooking[] => {
+  if (typeof window === 'undefined' || !lineUserId) return NO_BOOKINGS;
+  let queue = queues.get(lineUserId);
+  if (!queue) {
+    queue = readJson(queueKey(lineUserId), array(queuedBookingSchema)) ?? NO_BOOKINGS;
+    queues.set(lineUserId, queue);
+  }
+  return queue;
+};
+
+export const getServerQueuedBookings = () => NO_BOOKINGS;
+
+export const subscribeBookingQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const commitQueue = (lineUserId: string, next: QueuedBooking[]) => {
+  queues.set(lineUserId, next);
+  writeJson(queueKey(lineUserId), next);
+  listeners.forEach((listener) => listener());
+};
+
+export const enqueueBooking = (lineUserId: string, request: CreateBookingRequest, boatName: string): QueuedBooking => {
+  const entry: QueuedBooking = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    request,
+    boat_name: boatName,
+    queued_at: new Date().toISOString(),
+  };
+  commitQueue(lineUserId, [...getQueuedBookings(lineUserId), entry]);
+  console.log(`[offline] Booking for ${boatName} queued`);
+  return entry;
+};
+
+export const updateQueuedBooking = (lineUserId: string, id: string, entry: QueuedBooking) => {
+  commitQueue(lineUserId, getQueuedBookings(lineUserId).map((current) => (current.id === id ? entry : current)));
+};
+
+export const removeQueuedBooking = (lineUserId: string, id: string) => {
+  commitQueue(lineUserId, getQueuedBookings(lineUserId).filter((entry) => entry.id !== id));
+};
+
+/**
+ * True once the booking window has started – too late to send it
+ */
+export const isQueuedBookingExpired = (entry: QueuedBooking, now: number): boolean =>
+  new Date(entry.request.start_time).getTime() < now;
@@ -0,0 +1,36 @@
+// ============================================
+// Booking payments – turns the RPC record into what the client renders
+// ============================================
+
+import { buildPromptPayPayload } from '@/lib/promptpay';
+import type { BookingPayment, BookingPaymentRecord } from '@/lib/types';
+
+/**
+ * Attach a PromptPay QR payload for the booking amount
+ * Throws with the RPC's error when the record is not readable by the caller
+ */
+export const toBookingPayment = (record: BookingPaymentRecord): BookingPayment => {
+  if (!record.success || !record.booking_id) {
+    throw new Error(record.error || 'Payment not available');
+  }
+
+  const amount = record.amount ?? 0;
+  let promptpayPayload: string | null = null;
+
+  if (record.promptpay_id && amount > 0) {
+    try {
+      promptpayPayload = buildPromptPayPayload({ promptpayId: record.promptpay_id, amount });
+    } catch (err) {
+      // Misconfigured id on the operator – show the booking without a QR
+      console.warn('[Payments] Cannot build PromptPay payload:', err);
+    }
+  }
+
+  return {
+    booking_id: record.booking_id,
+    amount,
+    payment_status: record.payment_status ?? 'unpaid',
+    paid_at: record.paid_at ?? null,
+    promptpay_payload: promptpayPayload,
+  };
+};
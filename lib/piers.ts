@@ -0,0 +1,43 @@
+import { distanceMeters } from '@/lib/geo';
+import type { Locale } from '@/lib/i18n';
+import type { BoatType, MapCenter, Pier } from '@/lib/types';
+
+// ============================================
+// Piers (ท่าเรือ) – named pickup points, see supabase/sql/piers.sql
+// ============================================
+
+// Further than this from any pier a boat isn't "at" one
+export const NEAREST_PIER_MAX_M = 2000;
+
+export const canDock = (pier: Pier, boatType: BoatType) => pier.boat_types.includes(boatType);
+
+// Thai name for Thai, English otherwise (piers have no Chinese names)
+export const pierName = (pier: Pier, locale: Locale) => (locale === 'th' ? pier.name_th : pier.name_en);
+
+export const pierPosition = (pier: Pier): MapCenter => ({ lat: pier.latitude, lon: pier.longitude });
+
+/**
+ * Piers ordered by distance from `point`, optionally only those `boatType` can dock at
+ */
+export const piersByDistance = (
+  piers: Pier[],
+  point: MapCenter,
+  boatType?: BoatType
+): { pier: Pier; distance_m: number }[] =>
+  piers
+    .filter((pier) => !boatType || canDock(pier, boatType))
+    .map((pier) => ({ pier, distance_m: distanceMeters(point, pierPosition(pier)) }))
+    .sort((a, b) => a.distance_m - b.distance_m);
+
+/**
+ * Closest pier within `maxMeters`, or null when there is none
+ */
+export const nearestPier = (
+  piers: Pier[],
+  point: MapCenter,
+  boatType?: BoatType,
+  maxMeters = NEAREST_PIER_MAX_M
+): { pier: Pier; distance_m: number } | null => {
+  const [closest] = piersByDistance(piers, point, boatType);
+  return closest && closest.distance_m <= maxMeters ? closest : null;
+};
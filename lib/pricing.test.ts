@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { bookingWindowError, HOUR_MS, isHoliday, isPeak, MAX_BOOKING_HOURS, quoteBooking, type QuoteInput } from '@/lib/pricing';
+
+// Bangkok wall-clock time (UTC+7) as an ISO instant
+const bkk = (date: string, time: string) => new Date(`${date}T${time}:00+07:00`).toISOString();
+
+const standard = (start: string, end: string, extra: Partial<QuoteInput> = {}): QuoteInput => ({
+  boat_type: 'standard', price_per_hour: 500, start_time: start, end_time: end, ...extra,
+});
+
+const kinds = (input: QuoteInput) => quoteBooking(input)?.lines.map((line) => line.kind);
+
+describe('isHoliday / isPeak', () => {
+  it('uses Bangkok time, not UTC', () => {
+    // Friday 23:30 UTC is already Saturday in Bangkok
+    expect(isHoliday(Date.parse('2026-03-06T23:30:00Z'))).toBe(true);
+    expect(isHoliday(Date.parse(bkk('2026-03-06', '23:30')))).toBe(false);
+    expect(isPeak(Date.parse(bkk('2026-03-02', '16:00')))).toBe(true);
+    expect(isPeak(Date.parse(bkk('2026-03-02', '19:00')))).toBe(false);
+  });
+
+  it('counts fixed-date public holidays on weekdays', () => {
+    // Monday, Songkran
+    expect(isHoliday(Date.parse(bkk('2026-04-13', '10:00')))).toBe(true);
+  });
+});
+
+describe('quoteBooking', () => {
+  it('charges only the base rate on a weekday outside peak hours', () => {
+    const quote = quoteBooking(standard(bkk('2026-03-02', '10:00'), bkk('2026-03-02', '12:00')));
+
+    expect(quote).toEqual({
+      hours: 2,
+      billed_hours: 2,
+      lines: [{ kind: 'base', hours: 2, rate: 500, amount: 1000 }],
+      total: 1000,
+    });
+  });
+
+  it('adds the weekend surcharge on a Saturday', () => {
+    const quote = quoteBooking(standard(bkk('2026-03-07', '10:00'), bkk('2026-03-07', '12:00')));
+
+    expect(quote?.lines).toContainEqual({ kind: 'holiday', hours: 2, multiplier: 0.25, amount: 250 });
+    expect(quote?.total).toBe(1250);
+  });
+
+  it('adds the holiday surcharge on a weekday public holiday', () => {
+    expect(kinds(standard(bkk('2026-04-13', '10:00'), bkk('2026-04-13', '12:00')))).toEqual(['base', 'holiday']);
+  });
+
+  it('surcharges only the hours that fall on the weekend', () => {
+    // Friday 23:00 → Saturday 01:00
+    const quote = quoteBooking(standard(bkk('2026-03-06', '23:00'), bkk('2026-03-07', '01:00')));
+
+    expect(quote?.lines).toContainEqual({ kind: 'holiday', hours: 1, multiplier: 0.25, amount: 125 });
+  });
+
+  it('surcharges only the hours inside the peak window', () => {
+    const quote = quoteBooking(standard(bkk('2026-03-02', '15:00'), bkk('2026-03-02', '17:00')));
+
+    expect(quote?.lines).toContainEqual({ kind: 'peak', hours: 1, multiplier: 0.2, amount: 100 });
+    expect(quote?.total).toBe(1100);
+  });
+
+  it('counts the peak window on every day of a multi-day booking', () => {
+    const quote = quoteBooking(standard(bkk('2026-03-02', '12:00'), bkk('2026-03-04', '12:00')));
+
+    expect(quote?.lines.find((line) => line.kind === 'peak')).toMatchObject({ hours: 6 });
+  });
+
+  it('bills short bookings as the minimum hours', () => {
+    const quote = quoteBooking(standard(bkk('2026-03-02', '10:00'), bkk('2026-03-02', '10:30')));
+
+    expect(quote).toMatchObject({ hours: 0.5, billed_hours: 1, total: 500 });
+    expect(quote?.lines).toContainEqual({ kind: 'minimum_hours', hours: 0.5, rate: 500, amount: 250 });
+  });
+
+  it('rounds every line to satang and totals the rounded lines', () => {
+    const quote = quoteBooking(standard(bkk('2026-03-02', '10:00'), bkk('2026-03-02', '11:00'), {
+      boat_type: 'premium', price_per_hour: 333.33,
+    }));
+
+    expect(quote?.lines).toEqual([
+      { kind: 'base', hours: 1, rate: 333.33, amount: 333.33 },
+      { kind: 'boat_type', multiplier: 1.2, amount: 66.67 },
+    ]);
+    expect(quote?.total).toBe(400);
+  });
+
+  it('charges pickups by the started km beyond the first', () => {
+    const boat = { latitude: 13.7, longitude: 100.5 };
+    const window = [bkk('2026-03-02', '10:00'), bkk('2026-03-02', '11:00')] as const;
+
+    // About 2.5 km north of the boat
+    const far = quoteBooking(standard(...window, { ...boat, pickup: { lat: 13.7225, lon: 100.5 } }));
+    expect(far?.lines.find((line) => line.kind === 'pickup')).toMatchObject({ rate: 40, amount: 80 });
+
+    const near = quoteBooking(standard(...window, { ...boat, pickup: { lat: 13.705, lon: 100.5 } }));
+    expect(near?.lines.map((line) => line.kind)).toEqual(['base']);
+  });
+
+  it('quotes nothing for a boat without a price or an invalid window', () => {
+    const start = bkk('2026-03-02', '10:00');
+
+    expect(quoteBooking(standard(start, bkk('2026-03-02', '12:00'), { price_per_hour: null }))).toBeNull();
+    expect(quoteBooking(standard(start, start))).toBeNull();
+    expect(quoteBooking(standard('not a date', start))).toBeNull();
+  });
+
+  it('quotes up to MAX_BOOKING_HOURS and no longer', () => {
+    const start = Date.parse(bkk('2026-03-02', '10:00'));
+    const end = (hours: number) => new Date(start + hours * HOUR_MS).toISOString();
+
+    expect(quoteBooking(standard(new Date(start).toISOString(), end(MAX_BOOKING_HOURS)))?.hours).toBe(MAX_BOOKING_HOURS);
+    expect(quoteBooking(standard(new Date(start).toISOString(), end(MAX_BOOKING_HOURS + 1)))).toBeNull();
+  });
+});
+
+describe('bookingWindowError', () => {
+  it('explains why a window is refused', () => {
+    const start = bkk('2026-03-02', '10:00');
+
+    expect(bookingWindowError(start, bkk('2026-03-02', '12:00'))).toBeNull();
+    expect(bookingWindowError('soon', start)).toBe('start_time and end_time must be valid dates');
+    expect(bookingWindowError(start, start)).toBe('end_time must be after start_time');
+    expect(bookingWindowError(start, bkk('2026-03-06', '10:00'))).toBe(`Bookings may not exceed ${MAX_BOOKING_HOURS} hours`);
+  });
+});
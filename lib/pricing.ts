@@ -0,0 +1,175 @@
+// ============================================
+// Pricing engine – itemized quote for a booking window
+// Pure functions: the booking sheet shows the quote live and
+// create_booking charges exactly the same total
+// ============================================
+
+import { distanceMeters } from '@/lib/geo';
+import type { BoatType, MapCenter, PriceLine, PriceQuote } from '@/lib/types';
+
+// Bangkok has no DST, so local time is a fixed offset from UTC
+const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000;
+export const HOUR_MS = 60 * 60 * 1000;
+
+export const PRICING = {
+  // Rate multiplier on price_per_hour per boat type
+  boatTypeMultiplier: {
+    standard: 1,
+    premium: 1.2,
+    speedboat: 1.3,
+    longtail: 1,
+  } as Record<BoatType, number>,
+  // Shorter bookings are charged as this many hours
+  minimumHours: 1,
+  // Evening rush, [startHour, endHour) Bangkok time
+  peakHours: [{ start: 16, end: 19 }],
+  peakSurcharge: 0.2,
+  // Weekends and fixed-date public holidays (MM-DD, Bangkok time)
+  holidaySurcharge: 0.25,
+  holidays: [
+    '01-01', '04-06', '04-13', '04-14', '04-15', '05-01', '06-03',
+    '07-28', '08-12', '10-13', '10-23', '12-05', '12-10', '12-31',
+  ],
+  // Pickup away from the boat: first km free, then per started km
+  // (whole km, so a drifting boat doesn't change the fee by cents)
+  pickupFreeKm: 1,
+  pickupFeePerKm: 40,
+} as const;
+
+export interface QuoteInput {
+  boat_type: BoatType;
+  price_per_hour: number | null;
+  // Boat position, for the pickup fee
+  latitude?: number | null;
+  longitude?: number | null;
+  start_time: string | Date;
+  end_time: string | Date;
+  pickup?: MapCenter | null;
+}
+
+// Longest booking window; keep in sync with create_booking in supabase/sql/piers.sql
+export const MAX_BOOKING_HOURS = 72;
+
+// A boat without price_per_hour can't be quoted, so it can't be booked
+export const NO_PRICE_ERROR = 'This boat has no price set';
+// The quote the passenger confirmed no longer matches the server's
+export const PRICE_CHANGED_ERROR = 'Price has changed';
+
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Bangkok wall-clock date for a UTC instant
+const bangkokDate = (ms: number) => new Date(ms + BANGKOK_OFFSET_MS);
+
+/**
+ * Length of a booking window in hours, rounded to 2 decimals
+ */
+export const bookingHours = (start: string | Date, end: string | Date): number =>
+  round2((new Date(end).getTime() - new Date(start).getTime()) / HOUR_MS);
+
+/**
+ * Why a booking window can't be booked, or null when it can
+ */
+export const bookingWindowError = (start: string | Date, end: string | Date): string | null => {
+  const startMs = new Date(start).getTime();
+  const endMs = new Date(end).getTime();
+  if (isNaN(startMs) || isNaN(endMs)) return 'start_time and end_time must be valid dates';
+  if (endMs <= startMs) return 'end_time must be after start_time';
+  if (endMs - startMs > MAX_BOOKING_HOURS * HOUR_MS) return `Bookings may not exceed ${MAX_BOOKING_HOURS} hours`;
+  return null;
+};
+
+// Saturday, Sunday or a listed public holiday in Bangkok
+export const isHoliday = (ms: number): boolean => {
+  const local = bangkokDate(ms);
+  const day = local.getUTCDay();
+  if (day === 0 || day === 6) return true;
+  const mmdd = `${String(local.getUTCMonth() + 1).padStart(2, '0')}-${String(local.getUTCDate()).padStart(2, '0')}`;
+  return (PRICING.holidays as readonly string[]).includes(mmdd);
+};
+
+// Inside one of the peak windows in Bangkok
+export const isPeak = (ms: number): boolean => {
+  const hour = bangkokDate(ms).getUTCHours();
+  return PRICING.peakHours.some((w) => hour >= w.start && hour < w.end);
+};
+
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Hours of [start, end) that fall in peak time and on holidays
+ * Walks the window one Bangkok day at a time and overlaps each day with its peak windows
+ */
+const surchargeHours = (startMs: number, endMs: number) => {
+  let peak = 0;
+  let holiday = 0;
+
+  for (let t = startMs; t < endMs;) {
+    const dayStart = Math.floor((t + BANGKOK_OFFSET_MS) / DAY_MS) * DAY_MS - BANGKOK_OFFSET_MS;
+    const pieceEnd = Math.min(dayStart + DAY_MS, endMs);
+    if (isHoliday(t)) holiday += (pieceEnd - t) / HOUR_MS;
+    for (const w of PRICING.peakHours) {
+      const overlap = Math.min(pieceEnd, dayStart + w.end * HOUR_MS) - Math.max(t, dayStart + w.start * HOUR_MS);
+      if (overlap > 0) peak += overlap / HOUR_MS;
+    }
+    t = pieceEnd;
+  }
+
+  return { peak, holiday };
+};
+
+/**
+ * Itemized quote, or null when the window is invalid (see bookingWindowError) or the boat has no rate
+ */
+export const quoteBooking = (input: QuoteInput): PriceQuote | null => {
+  if (bookingWindowError(input.start_time, input.end_time) || input.price_per_hour == null) return null;
+  const startMs = new Date(input.start_time).getTime();
+  const endMs = new Date(input.end_time).getTime();
+
+  const rate = input.price_per_hour;
+  const multiplier = PRICING.boatTypeMultiplier[input.boat_type] ?? 1;
+  const hours = bookingHours(input.start_time, input.end_time);
+  const billedHours = Math.max(hours, PRICING.minimumHours);
+  const { peak, holiday } = surchargeHours(startMs, endMs);
+
+  const lines: PriceLine[] = [{ kind: 'base', hours, rate, amount: round2(hours * rate) }];
+
+  if (billedHours > hours) {
+    const extra = round2(billedHours - hours);
+    lines.push({ kind: 'minimum_hours', hours: extra, rate, amount: round2(extra * rate) });
+  }
+  if (multiplier !== 1) {
+    lines.push({ kind: 'boat_type', multiplier, amount: round2(billedHours * rate * (multiplier - 1)) });
+  }
+
+  const typedRate = rate * multiplier;
+  if (peak > 0) {
+    lines.push({
+      kind: 'peak', hours: round2(peak), multiplier: PRICING.peakSurcharge,
+      amount: round2(peak * typedRate * PRICING.peakSurcharge),
+    });
+  }
+  if (holiday > 0) {
+    lines.push({
+      kind: 'holiday', hours: round2(holiday), multiplier: PRICING.holidaySurcharge,
+      amount: round2(holiday * typedRate * PRICING.holidaySurcharge),
+    });
+  }
+
+  if (input.pickup && input.latitude != null && input.longitude != null) {
+    const distance = distanceMeters(input.pickup, { lat: input.latitude, lon: input.longitude });
+    const chargedKm = Math.max(0, Math.ceil(distance / 1000 - PRICING.pickupFreeKm));
+    if (chargedKm > 0) {
+      lines.push({
+        kind: 'pickup', distance_m: Math.round(distance), rate: PRICING.pickupFeePerKm,
+        amount: round2(chargedKm * PRICING.pickupFeePerKm),
+      });
+    }
+  }
+
+  return {
+    hours,
+    billed_hours: billedHours,
+    lines,
+    total: round2(lines.reduce((sum, line) => sum + line.amount, 0)),
+  };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildPromptPayPayload, crc16Ccitt, formatPromptPayTarget } from '@/lib/promptpay';
+
+describe('crc16Ccitt', () => {
+  it('matches the CRC-16/CCITT-FALSE check value', () => {
+    expect(crc16Ccitt('123456789')).toBe('29B1');
+  });
+
+  it('pads to 4 uppercase hex digits', () => {
+    expect(crc16Ccitt('')).toBe('FFFF');
+    expect(crc16Ccitt('123456789')).toMatch(/^[0-9A-F]{4}$/);
+  });
+});
+
+describe('formatPromptPayTarget', () => {
+  it('turns a Thai mobile number into 0066 + 9 digits', () => {
+    expect(formatPromptPayTarget('080-123-4567')).toEqual({ type: 'phone', value: '0066801234567' });
+    expect(formatPromptPayTarget('+66 80 123 4567')).toEqual({ type: 'phone', value: '0066801234567' });
+  });
+
+  it('keeps national ids and e-wallet ids as digits', () => {
+    expect(formatPromptPayTarget('1-1111-11111-11-1')).toEqual({ type: 'nationalId', value: '1111111111111' });
+    expect(formatPromptPayTarget('123456789012345')).toEqual({ type: 'eWallet', value: '123456789012345' });
+  });
+
+  it('rejects anything else', () => {
+    expect(() => formatPromptPayTarget('12345')).toThrow('Invalid PromptPay id');
+  });
+});
+
+describe('buildPromptPayPayload', () => {
+  it('builds a static QR for a phone number', () => {
+    expect(buildPromptPayPayload({ promptpayId: '0801234567' })).toBe(
+      '00020101021129370016A000000677010111011300668012345675802TH530376463046197'
+    );
+  });
+
+  it('builds a dynamic QR with the amount', () => {
+    expect(buildPromptPayPayload({ promptpayId: '0801234567', amount: 4.22 })).toBe(
+      '00020101021229370016A000000677010111011300668012345675802TH530376454044.22630444FE'
+    );
+  });
+
+  it('builds a QR for a national id', () => {
+    expect(buildPromptPayPayload({ promptpayId: '1111111111111' })).toBe(
+      '00020101021129370016A000000677010111021311111111111115802TH530376463047B5A'
+    );
+  });
+
+  it('ends with the CRC of everything before it', () => {
+    const payload = buildPromptPayPayload({ promptpayId: '0812345678', amount: 1500 });
+
+    expect(payload).toContain('54071500.00');
+    expect(payload.slice(-8, -4)).toBe('6304');
+    expect(payload.slice(-4)).toBe(crc16Ccitt(payload.slice(0, -4)));
+  });
+
+  it('treats a zero amount as a static QR', () => {
+    expect(buildPromptPayPayload({ promptpayId: '0801234567', amount: 0 })).toBe(
+      buildPromptPayPayload({ promptpayId: '0801234567' })
+    );
+  });
+
+  it('rejects a negative or non-finite amount', () => {
+    expect(() => buildPromptPayPayload({ promptpayId: '0801234567', amount: -1 })).toThrow('Invalid amount');
+    expect(() => buildPromptPayPayload({ promptpayId: '0801234567', amount: Infinity })).toThrow('Invalid amount');
+  });
+});
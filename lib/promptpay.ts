@@ -0,0 +1,91 @@
+// ============================================
+// PromptPay (Thai QR Payment) payload – EMVCo merchant-presented QR
+// Pure functions: no network, no DOM
+// ============================================
+
+// Application id for PromptPay credit transfer
+const PROMPTPAY_AID = 'A000000677010111';
+const CURRENCY_THB = '764';
+const COUNTRY_TH = 'TH';
+
+// Merchant account sub-tags under tag 29
+const TARGET_TAG = {
+  phone: '01',
+  nationalId: '02',
+  eWallet: '03',
+} as const;
+
+export type PromptPayTargetType = keyof typeof TARGET_TAG;
+
+export interface PromptPayTarget {
+  type: PromptPayTargetType;
+  value: string;
+}
+
+export interface PromptPayPayloadOptions {
+  // Phone number, 13-digit national/tax id or 15-digit e-wallet id
+  promptpayId: string;
+  // Omit for a static QR where the payer types the amount
+  amount?: number | null;
+}
+
+/**
+ * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF) as 4 uppercase hex digits
+ */
+export const crc16Ccitt = (input: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < input.length; i++) {
+    crc ^= input.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// EMVCo TLV field: 2-digit tag, 2-digit length, value
+const field = (tag: string, value: string) => `${tag}${String(value.length).padStart(2, '0')}${value}`;
+
+/**
+ * Normalize a PromptPay id. Phone numbers become 0066XXXXXXXXX (13 digits).
+ */
+export const formatPromptPayTarget = (promptpayId: string): PromptPayTarget => {
+  const digits = promptpayId.replace(/\D/g, '');
+
+  if (digits.length === 15) return { type: 'eWallet', value: digits };
+  if (digits.length === 13) return { type: 'nationalId', value: digits };
+  if (digits.length === 10 && digits.startsWith('0')) {
+    return { type: 'phone', value: `0066${digits.slice(1)}` };
+  }
+  if (digits.length === 11 && digits.startsWith('66')) {
+    return { type: 'phone', value: `00${digits}` };
+  }
+
+  throw new Error('Invalid PromptPay id');
+};
+
+/**
+ * Build the QR payload string, including the trailing CRC field (tag 63)
+ */
+export const buildPromptPayPayload = ({ promptpayId, amount }: PromptPayPayloadOptions): string => {
+  const target = formatPromptPayTarget(promptpayId);
+  const hasAmount = amount != null && amount > 0;
+
+  if (amount != null && (!Number.isFinite(amount) || amount < 0)) {
+    throw new Error('Invalid amount');
+  }
+
+  const payload = [
+    field('00', '01'),
+    // 11 = static (reusable), 12 = dynamic (one payment, fixed amount)
+    field('01', hasAmount ? '12' : '11'),
+    field('29', field('00', PROMPTPAY_AID) + field(TARGET_TAG[target.type], target.value)),
+    field('58', COUNTRY_TH),
+    field('53', CURRENCY_THB),
+    hasAmount ? field('54', amount.toFixed(2)) : '',
+  ].join('');
+
+  // CRC covers everything up to and including "6304"
+  const withCrcHeader = `${payload}6304`;
+  return withCrcHeader + crc16Ccitt(withCrcHeader);
+};
@@ -0,0 +1,34 @@
+// ============================================
+// Realtime connection policy – reconnect backoff and the
+// live / reconnecting / stale state shown to the user
+// ============================================
+
+export type RealtimeStatus = 'connecting' | 'live' | 'reconnecting' | 'stale';
+
+export const RECONNECT_BASE_MS = 1000;
+export const RECONNECT_MAX_MS = 30_000;
+
+// After this many failed attempts in a row the data on screen counts as stale
+export const STALE_AFTER_ATTEMPTS = 3;
+
+/**
+ * Delay before reconnect attempt `attempt` (1-based): exponential, capped,
+ * with ±25% jitter so clients dropped together don't retry in lockstep
+ */
+export const reconnectDelay = (attempt: number, random: () => number = Math.random): number => {
+  const base = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(base * (0.75 + random() * 0.5));
+};
+
+const SEVERITY: Record<RealtimeStatus, number> = {
+  live: 0,
+  connecting: 1,
+  reconnecting: 2,
+  stale: 3,
+};
+
+/**
+ * One status for a screen fed by several channels – the least healthy wins
+ */
+export const worstStatus = (...statuses: RealtimeStatus[]): RealtimeStatus =>
+  statuses.reduce<RealtimeStatus>((worst, status) => (SEVERITY[status] > SEVERITY[worst] ? status : worst), 'live');
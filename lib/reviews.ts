@@ -0,0 +1,38 @@
+// ============================================
+// Post-trip reviews – rules shared by the API route,
+// the in-memory backend and the review form
+// ============================================
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const REVIEW_COMMENT_MAX_LENGTH = 500;
+
+// Reviews shown in the boat detail
+export const RECENT_REVIEWS_LIMIT = 5;
+
+export const isValidRating = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= MIN_RATING && value <= MAX_RATING;
+
+/**
+ * Trimmed comment, or null when empty
+ */
+export const normalizeReviewComment = (comment: unknown): string | null => {
+  if (typeof comment !== 'string') return null;
+  const trimmed = comment.trim();
+  return trimmed ? trimmed : null;
+};
+
+/**
+ * Filled and empty stars for a whole-number rating, e.g. ★★★★☆
+ */
+export const ratingStars = (rating: number): string =>
+  '★'.repeat(rating) + '☆'.repeat(Math.max(0, MAX_RATING - rating));
+
+/**
+ * Average of all ratings, rounded to 2 decimals like numeric(3,2); null without ratings
+ * Always recomputed from the reviews so rounding never accumulates
+ */
+export const averageRating = (ratings: number[]): number | null =>
+  ratings.length
+    ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 100) / 100
+    : null;
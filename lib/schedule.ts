@@ -0,0 +1,79 @@
+import type { BusyInterval, BusyIntervalKind } from '@/lib/types';
+
+export const SCHEDULE_DAYS = 14;
+// Boats operate 06:00–22:00 local time
+export const OPEN_HOUR = 6;
+export const CLOSE_HOUR = 22;
+export const SLOT_MINUTES = 60;
+
+export type SlotState = 'free' | BusyIntervalKind | 'past';
+
+export interface ScheduleSlot {
+  start: Date;
+  end: Date;
+  state: SlotState;
+}
+
+export interface ScheduleDay {
+  date: Date;
+  slots: ScheduleSlot[];
+  freeSlots: number;
+}
+
+const overlaps = (interval: BusyInterval, start: number, end: number) =>
+  new Date(interval.start_time).getTime() < end && new Date(interval.end_time).getTime() > start;
+
+/**
+ * Local midnight today → midnight `days` later
+ */
+export const scheduleRange = (now: number, days = SCHEDULE_DAYS) => {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + days);
+  return { start, end };
+};
+
+/**
+ * True when no busy interval touches [start, end)
+ */
+export const isWindowFree = (intervals: BusyInterval[], start: Date, end: Date) =>
+  !intervals.some((i) => overlaps(i, start.getTime(), end.getTime()));
+
+/**
+ * Split the next `days` into operating-hour slots and mark each one
+ * free / booking / maintenance / past. Maintenance wins over bookings.
+ */
+export const buildSchedule = (
+  intervals: BusyInterval[],
+  now: number,
+  days = SCHEDULE_DAYS
+): ScheduleDay[] => {
+  const { start: firstDay } = scheduleRange(now, days);
+  const result: ScheduleDay[] = [];
+
+  for (let d = 0; d < days; d++) {
+    const date = new Date(firstDay);
+    date.setDate(date.getDate() + d);
+
+    const slots: ScheduleSlot[] = [];
+    for (let minutes = OPEN_HOUR * 60; minutes < CLOSE_HOUR * 60; minutes += SLOT_MINUTES) {
+      const start = new Date(date);
+      start.setMinutes(minutes);
+      const end = new Date(start.getTime() + SLOT_MINUTES * 60 * 1000);
+
+      const hits = intervals.filter((i) => overlaps(i, start.getTime(), end.getTime()));
+      const state: SlotState = start.getTime() < now
+        ? 'past'
+        : hits.some((i) => i.kind === 'maintenance')
+          ? 'maintenance'
+          : hits.length > 0 ? 'booking' : 'free';
+
+      slots.push({ start, end, state });
+    }
+
+    result.push({ date, slots, freeSlots: slots.filter((s) => s.state === 'free').length });
+  }
+
+  return result;
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  array,
+  boatChangeSchema,
+  boatSchema,
+  createBookingResponseSchema,
+  nearbyBoatSchema,
+  nullable,
+  number,
+  object,
+  optional,
+  SchemaError,
+  string,
+} from '@/lib/schema';
+
+const BOAT = {
+  id: 'boat-1',
+  name: 'Arun Star',
+  status: 'available',
+  boat_type: 'standard',
+  capacity: 8,
+  price_per_hour: 500,
+  owner_id: 'op-1',
+  home_latitude: 13.7,
+  home_longitude: 100.5,
+  retired_at: null,
+  created_at: '2026-03-02T03:00:00.000Z',
+  updated_at: '2026-03-02T03:00:00.000Z',
+};
+
+describe('primitives', () => {
+  it('reject the wrong type with the path in the message', () => {
+    expect(() => string(1, 'boat.name')).toThrow('boat.name: expected string, got number');
+    expect(() => number(NaN, 'capacity')).toThrow(SchemaError);
+    expect(() => number('8')).toThrow('response: expected number, got string');
+  });
+
+  it('tell null apart from an absent field', () => {
+    expect(nullable(string)(null)).toBeNull();
+    expect(optional(string)(undefined)).toBeUndefined();
+    expect(() => optional(string)(null, 'x')).toThrow('x: expected string, got null');
+  });
+});
+
+describe('object / array', () => {
+  it('report the path of a nested failure', () => {
+    const schema = array(object({ name: string }));
+
+    expect(() => schema([{ name: 'a' }, { name: 2 }], 'boats')).toThrow('boats[1].name: expected string, got number');
+  });
+
+  it('keep fields the shape does not list and leave absent optional fields out', () => {
+    const parsed = object({ id: string, note: optional(string) })({ id: 'a', extra: true });
+
+    expect(parsed).toEqual({ id: 'a', extra: true });
+    expect('note' in parsed).toBe(false);
+  });
+});
+
+describe('row schemas', () => {
+  it('accept a boat row and refuse an unknown status', () => {
+    expect(boatSchema(BOAT)).toEqual(BOAT);
+    expect(() => boatSchema({ ...BOAT, status: 'sunk' })).toThrow('status: expected available | busy | booked | maintenance');
+  });
+
+  it('allow a nearby boat without heading but not one without a distance', () => {
+    const nearby = {
+      id: 'boat-1', name: 'Arun Star', status: 'available', boat_type: 'standard', capacity: 8, price_per_hour: 500,
+      latitude: 13.7, longitude: 100.5, updated_at: BOAT.updated_at, distance_m: 120,
+      operator_rating: null, operator_total_trips: null,
+    };
+
+    expect(nearbyBoatSchema(nearby)).toEqual(nearby);
+    expect(() => nearbyBoatSchema({ ...nearby, distance_m: undefined })).toThrow('distance_m');
+  });
+});
+
+describe('RPC responses', () => {
+  it('accept a failure with only success and error', () => {
+    expect(createBookingResponseSchema({ success: false, error: 'Boat is not available' })).toEqual({
+      success: false, error: 'Boat is not available',
+    });
+  });
+
+  it('check the fields that are present', () => {
+    expect(() => createBookingResponseSchema({ success: true, booking_id: 'b-1', total_price: '500' }))
+      .toThrow('total_price: expected number, got string');
+  });
+});
+
+describe('realtime payloads', () => {
+  const envelope = { schema: 'daranee', table: 'boats', commit_timestamp: BOAT.updated_at };
+
+  it('require a whole new row on UPDATE', () => {
+    expect(boatChangeSchema({ ...envelope, eventType: 'UPDATE', new: BOAT, old: { id: 'boat-1' } })).toEqual({
+      eventType: 'UPDATE', schema: 'daranee', table: 'boats', new: BOAT, old: { id: 'boat-1' },
+    });
+    expect(() => boatChangeSchema({ ...envelope, eventType: 'UPDATE', new: { id: 'boat-1' }, old: {} }))
+      .toThrow('new.name');
+  });
+
+  it('take a partial old row on DELETE', () => {
+    expect(boatChangeSchema({ ...envelope, eventType: 'DELETE', new: {}, old: { id: 'boat-1' } })).toMatchObject({
+      eventType: 'DELETE', new: undefined, old: { id: 'boat-1' },
+    });
+  });
+});
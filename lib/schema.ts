@@ -0,0 +1,501 @@
+// ============================================
+// Runtime schemas for data crossing the network
+// Each schema checks an unknown value against a type in lib/types.ts
+// and returns it typed, or throws SchemaError naming the bad field.
+// Objects keep fields the schema doesn't list, so the server can add
+// columns without breaking older clients.
+// ============================================
+
+import type {
+  Boat,
+  BoatAuditAction,
+  BoatAuditEntry,
+  BoatPositionUpdate,
+  BoatStatus,
+  BoatStatusChange,
+  BoatType,
+  Booking,
+  BookingChangeSignal,
+  BookingMember,
+  BookingMemberRole,
+  BookingPayment,
+  BookingStatus,
+  BusyInterval,
+  CancelBookingResponse,
+  CancelMaintenanceResponse,
+  CompleteBookingResponse,
+  CreateBookingInviteResponse,
+  CreateBookingResponse,
+  FareSplitMode,
+  FleetOperator,
+  GetBoatAuditLogResponse,
+  GetBookingGroupResponse,
+  GetBookingInviteResponse,
+  GetFleetAnalyticsResponse,
+  GetBookingResponse,
+  GetFleetResponse,
+  GetOperatorConsoleResponse,
+  GetPassengerBookingsResponse,
+  GetTripLocationResponse,
+  JoinBookingResponse,
+  MaintenanceWindow,
+  MarkBookingPaidResponse,
+  MarkMemberPaidResponse,
+  NearbyBoat,
+  Operator,
+  PaymentStatus,
+  Pier,
+  PriceLineKind,
+  PriceQuote,
+  RealtimePayload,
+  RetireBoatResponse,
+  Review,
+  SaveBoatResponse,
+  ScheduleMaintenanceResponse,
+  SetBookingSplitResponse,
+  SubmitReviewResponse,
+  TripLocation,
+  UpdateBoatStatusResponse,
+  UpdateTripLocationResponse,
+} from '@/lib/types';
+
+export type Schema<T> = (value: unknown, path?: string) => T;
+
+type Shape = Record<string, Schema<unknown>>;
+type ShapeType<S extends Shape> = { [K in keyof S]: ReturnType<S[K]> };
+
+export class SchemaError extends Error {
+  constructor(readonly path: string, expected: string, value: unknown) {
+    super(`${path || 'response'}: expected ${expected}, got ${value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value}`);
+    this.name = 'SchemaError';
+  }
+}
+
+const at = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+// ---------- primitives ----------
+
+export const string: Schema<string> = (value, path = '') => {
+  if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+  return value;
+};
+
+export const number: Schema<number> = (value, path = '') => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaError(path, 'number', value);
+  return value;
+};
+
+export const boolean: Schema<boolean> = (value, path = '') => {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+  return value;
+};
+
+export const unknown: Schema<unknown> = (value) => value;
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => (value, path = '') => {
+  if (!values.includes(value as T)) throw new SchemaError(path, values.join(' | '), value);
+  return value as T;
+};
+
+// ---------- combinators ----------
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => (value, path) =>
+  value === null ? null : schema(value, path);
+
+// Absent (or undefined) fields pass; null does not – use nullable for that
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value === undefined ? undefined : schema(value, path);
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (value, path = '') => {
+  if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+  return value.map((entry, i) => item(entry, at(path, i)));
+};
+
+export const record = <T>(item: Schema<T>): Schema<Record<string, T>> => (value, path = '') => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new SchemaError(path, 'object', value);
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, item(entry, at(path, key))]));
+};
+
+export const object = <S extends Shape>(shape: S): Schema<ShapeType<S>> => (value, path = '') => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new SchemaError(path, 'object', value);
+
+  const result: Record<string, unknown> = { ...value };
+  for (const key of Object.keys(shape)) {
+    const checked = shape[key]((value as Record<string, unknown>)[key], at(path, key));
+    // Don't add absent optional fields – spreading the result must not blank them
+    if (checked !== undefined) result[key] = checked;
+  }
+  return result as ShapeType<S>;
+};
+
+/**
+ * Same object with every field optional – realtime `old` rows only
+ * carry the primary key unless the table uses REPLICA IDENTITY FULL
+ */
+export const partial = <S extends Shape>(shape: S): Schema<Partial<ShapeType<S>>> =>
+  object(Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, optional(schema)]))) as Schema<
+    Partial<ShapeType<S>>
+  >;
+
+// { success, error? } plus the fields of a successful RPC
+const rpcResponse = <S extends Shape>(shape: S) => {
+  const fields = Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, optional(schema)]));
+  return object({ success: boolean, error: optional(string), ...fields }) as Schema<
+    { success: boolean; error?: string } & Partial<ShapeType<S>>
+  >;
+};
+
+// ---------- lib/types.ts ----------
+
+const BOAT_STATUSES: readonly BoatStatus[] = ['available', 'busy', 'booked', 'maintenance'];
+const BOAT_TYPES: readonly BoatType[] = ['standard', 'premium', 'speedboat', 'longtail'];
+const BOOKING_STATUSES: readonly BookingStatus[] = ['pending', 'confirmed', 'cancelled', 'completed'];
+const PAYMENT_STATUSES: readonly PaymentStatus[] = ['unpaid', 'paid'];
+const PRICE_LINE_KINDS: readonly PriceLineKind[] = ['base', 'minimum_hours', 'boat_type', 'peak', 'holiday', 'pickup'];
+const FARE_SPLIT_MODES: readonly FareSplitMode[] = ['even', 'custom'];
+const MEMBER_ROLES: readonly BookingMemberRole[] = ['organizer', 'member'];
+const AUDIT_ACTIONS: readonly BoatAuditAction[] = [
+  'created', 'updated', 'retired', 'maintenance_scheduled', 'maintenance_cancelled', 'maintenance_started', 'maintenance_ended',
+];
+
+export const boatStatusSchema = oneOf(BOAT_STATUSES);
+export const boatTypeSchema = oneOf(BOAT_TYPES);
+export const bookingStatusSchema = oneOf(BOOKING_STATUSES);
+export const paymentStatusSchema = oneOf(PAYMENT_STATUSES);
+
+const boatShape = {
+  id: string,
+  name: string,
+  status: boatStatusSchema,
+  boat_type: boatTypeSchema,
+  capacity: number,
+  price_per_hour: nullable(number),
+  owner_id: nullable(string),
+  home_latitude: nullable(number),
+  home_longitude: nullable(number),
+  retired_at: nullable(string),
+  created_at: string,
+  updated_at: string,
+};
+export const boatSchema: Schema<Boat> = object(boatShape);
+
+const bookingShape = {
+  id: string,
+  boat_id: string,
+  line_user_id: string,
+  start_time: string,
+  end_time: string,
+  status: bookingStatusSchema,
+  total_price: nullable(number),
+  payment_status: paymentStatusSchema,
+  paid_at: nullable(string),
+  payment_ref: nullable(string),
+  pickup_lat: nullable(number),
+  pickup_lon: nullable(number),
+  pickup_pier_id: nullable(string),
+  created_at: string,
+  updated_at: string,
+};
+export const bookingSchema: Schema<Booking> = object(bookingShape);
+
+export const operatorSchema: Schema<Operator> = object({
+  id: string,
+  line_user_id: string,
+  name: string,
+  phone: nullable(string),
+  email: nullable(string),
+  rating: number,
+  total_trips: number,
+  promptpay_id: nullable(string),
+  is_admin: boolean,
+  created_at: string,
+  updated_at: string,
+});
+
+export const reviewSchema: Schema<Review> = object({
+  id: string,
+  booking_id: string,
+  boat_id: string,
+  operator_id: nullable(string),
+  rating: number,
+  comment: nullable(string),
+  created_at: string,
+});
+
+export const pierSchema: Schema<Pier> = object({
+  id: string,
+  name_th: string,
+  name_en: string,
+  latitude: number,
+  longitude: number,
+  boat_types: array(boatTypeSchema),
+});
+
+export const nearbyBoatSchema: Schema<NearbyBoat> = object({
+  id: string,
+  name: string,
+  status: boatStatusSchema,
+  boat_type: boatTypeSchema,
+  capacity: number,
+  price_per_hour: nullable(number),
+  latitude: number,
+  longitude: number,
+  updated_at: string,
+  distance_m: number,
+  heading: optional(nullable(number)),
+  operator_rating: nullable(number),
+  operator_total_trips: nullable(number),
+});
+
+export const boatPositionUpdateSchema: Schema<BoatPositionUpdate> = object({
+  id: string,
+  latitude: number,
+  longitude: number,
+  heading: nullable(number),
+  timestamp: string,
+});
+
+export const bookingChangeSignalSchema: Schema<BookingChangeSignal> = object({ id: string, boat_id: string });
+
+const maintenanceWindowSchema: Schema<MaintenanceWindow> = object({
+  id: string,
+  boat_id: string,
+  start_time: string,
+  end_time: string,
+  reason: nullable(string),
+  created_at: string,
+});
+
+const fleetOperatorSchema: Schema<FleetOperator> = object({ id: string, name: string });
+
+const auditEntrySchema: Schema<BoatAuditEntry> = object({
+  id: string,
+  boat_id: string,
+  actor_line_user_id: nullable(string),
+  actor_name: nullable(string),
+  action: oneOf(AUDIT_ACTIONS),
+  changes: nullable(record(object({ from: unknown, to: unknown }))),
+  created_at: string,
+});
+
+const priceQuoteSchema: Schema<PriceQuote> = object({
+  hours: number,
+  billed_hours: number,
+  lines: array(object({
+    kind: oneOf(PRICE_LINE_KINDS),
+    amount: number,
+    hours: optional(number),
+    rate: optional(number),
+    multiplier: optional(number),
+    distance_m: optional(number),
+  })),
+  total: number,
+});
+
+const tripLocationSchema: Schema<TripLocation> = object({
+  booking_id: string,
+  latitude: number,
+  longitude: number,
+  updated_at: string,
+});
+
+const statusChangeSchema: Schema<BoatStatusChange> = object({
+  boat_id: string,
+  status: boatStatusSchema,
+  changed_at: string,
+});
+
+// ---------- API route and RPC responses ----------
+
+export const updateBoatStatusResponseSchema: Schema<UpdateBoatStatusResponse> = rpcResponse({
+  boat_id: string, status: boatStatusSchema, updated_at: string,
+});
+
+export const availabilityResponseSchema = object({ available: boolean });
+
+export const busyIntervalsResponseSchema: Schema<{ intervals: BusyInterval[] }> = object({
+  intervals: array(object({ start_time: string, end_time: string, kind: oneOf(['booking', 'maintenance'] as const) })),
+});
+
+// POST /api/bookings/quote answers failures with a 4xx, so success always has the quote
+export const quoteBookingResponseSchema = object({ quote: priceQuoteSchema });
+
+export const createBookingResponseSchema: Schema<CreateBookingResponse> = rpcResponse({
+  booking_id: string, total_price: number, total_hours: number, quote: priceQuoteSchema,
+});
+
+export const getPassengerBookingsResponseSchema: Schema<GetPassengerBookingsResponse> = rpcResponse({
+  bookings: array(bookingSchema), boats: array(boatSchema), reviews: array(reviewSchema),
+});
+
+export const getBookingResponseSchema: Schema<GetBookingResponse> = rpcResponse({ booking: bookingSchema });
+
+export const cancelBookingResponseSchema: Schema<CancelBookingResponse> = rpcResponse({
+  booking_id: string, status: bookingStatusSchema,
+});
+
+export const markBookingPaidResponseSchema: Schema<MarkBookingPaidResponse> = rpcResponse({
+  booking_id: string, status: bookingStatusSchema, payment_status: paymentStatusSchema, paid_at: string,
+});
+
+export const completeBookingResponseSchema: Schema<CompleteBookingResponse> = rpcResponse({
+  booking_id: string, status: bookingStatusSchema,
+});
+
+export const submitReviewResponseSchema: Schema<SubmitReviewResponse> = rpcResponse({
+  review_id: string, operator_rating: number, operator_total_trips: number,
+});
+
+export const bookingPaymentSchema: Schema<BookingPayment> = object({
+  booking_id: string,
+  amount: number,
+  payment_status: paymentStatusSchema,
+  paid_at: nullable(string),
+  promptpay_payload: nullable(string),
+});
+
+const bookingMemberSchema: Schema<BookingMember> = object({
+  id: string,
+  booking_id: string,
+  line_user_id: string,
+  display_name: nullable(string),
+  role: oneOf(MEMBER_ROLES),
+  share_amount: number,
+  payment_status: paymentStatusSchema,
+  paid_at: nullable(string),
+  joined_at: string,
+});
+
+export const getBookingGroupResponseSchema: Schema<GetBookingGroupResponse> = rpcResponse({
+  booking_id: string,
+  is_organizer: boolean,
+  invite_code: nullable(string),
+  split_mode: oneOf(FARE_SPLIT_MODES),
+  total_price: number,
+  capacity: number,
+  members: array(bookingMemberSchema),
+});
+
+export const createBookingInviteResponseSchema: Schema<CreateBookingInviteResponse> = rpcResponse({
+  invite_code: string,
+});
+
+export const getBookingInviteResponseSchema: Schema<GetBookingInviteResponse> = rpcResponse({
+  booking_id: string,
+  boat_name: string,
+  boat_type: boatTypeSchema,
+  start_time: string,
+  end_time: string,
+  status: bookingStatusSchema,
+  organizer_name: nullable(string),
+  capacity: number,
+  member_count: number,
+  is_member: boolean,
+});
+
+export const joinBookingResponseSchema: Schema<JoinBookingResponse> = rpcResponse({
+  booking_id: string, share_amount: number,
+});
+
+export const setBookingSplitResponseSchema: Schema<SetBookingSplitResponse> = rpcResponse({
+  booking_id: string, split_mode: oneOf(FARE_SPLIT_MODES),
+});
+
+export const markMemberPaidResponseSchema: Schema<MarkMemberPaidResponse> = rpcResponse({
+  booking_id: string, line_user_id: string, payment_status: paymentStatusSchema, paid_at: nullable(string),
+});
+
+export const updateTripLocationResponseSchema: Schema<UpdateTripLocationResponse> = rpcResponse({
+  updated_at: string,
+});
+
+export const getTripLocationResponseSchema: Schema<GetTripLocationResponse> = rpcResponse({
+  location: nullable(tripLocationSchema),
+});
+
+export const getFleetResponseSchema: Schema<GetFleetResponse> = rpcResponse({
+  operator_id: string,
+  is_admin: boolean,
+  boats: array(boatSchema),
+  operators: array(fleetOperatorSchema),
+  maintenance_windows: array(maintenanceWindowSchema),
+});
+
+export const getOperatorConsoleResponseSchema: Schema<GetOperatorConsoleResponse> = rpcResponse({
+  operator: object({ id: string, name: string, rating: number, total_trips: number }),
+  boats: array(boatSchema),
+  bookings: array(bookingSchema),
+});
+
+export const saveBoatResponseSchema: Schema<SaveBoatResponse> = rpcResponse({ boat_id: string });
+
+export const retireBoatResponseSchema: Schema<RetireBoatResponse> = rpcResponse({
+  boat_id: string, retired_at: string,
+});
+
+export const scheduleMaintenanceResponseSchema: Schema<ScheduleMaintenanceResponse> = rpcResponse({
+  window_id: string,
+});
+
+export const cancelMaintenanceResponseSchema: Schema<CancelMaintenanceResponse> = rpcResponse({
+  window_id: string,
+});
+
+export const getBoatAuditLogResponseSchema: Schema<GetBoatAuditLogResponse> = rpcResponse({
+  entries: array(auditEntrySchema),
+});
+
+export const getFleetAnalyticsResponseSchema: Schema<GetFleetAnalyticsResponse> = rpcResponse({
+  boats: array(object({
+    id: string,
+    name: string,
+    boat_type: boatTypeSchema,
+    owner_id: nullable(string),
+    created_at: string,
+    retired_at: nullable(string),
+  })),
+  bookings: array(object({
+    id: string,
+    boat_id: string,
+    start_time: string,
+    end_time: string,
+    status: bookingStatusSchema,
+    total_price: nullable(number),
+    pickup_lat: nullable(number),
+    pickup_lon: nullable(number),
+    created_at: string,
+  })),
+  status_history: array(statusChangeSchema),
+});
+
+// ---------- realtime ----------
+
+const realtimeEnvelopeSchema = object({
+  eventType: oneOf(['INSERT', 'UPDATE', 'DELETE'] as const),
+  schema: string,
+  table: string,
+  new: unknown,
+  old: unknown,
+});
+
+const hasFields = (value: unknown) => !!value && typeof value === 'object' && Object.keys(value).length > 0;
+
+/**
+ * postgres_changes payload: `new` must be a whole row (INSERT/UPDATE),
+ * `old` may be partial – see RealtimePayload
+ */
+const realtimePayload = <S extends Shape, T>(row: Schema<T>, shape: S): Schema<RealtimePayload<T>> =>
+  (value, path = '') => {
+    const envelope = realtimeEnvelopeSchema(value, path);
+    return {
+      eventType: envelope.eventType,
+      schema: envelope.schema,
+      table: envelope.table,
+      new: envelope.eventType !== 'DELETE' ? row(envelope.new, at(path, 'new')) : undefined,
+      old: hasFields(envelope.old) ? (partial(shape)(envelope.old, at(path, 'old')) as Partial<T>) : undefined,
+    };
+  };
+
+export const boatChangeSchema = realtimePayload(boatSchema, boatShape);
+export const bookingChangeSchema = realtimePayload(bookingSchema, bookingShape);
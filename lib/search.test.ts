@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { matchScore, normalizeSearchText, searchSuggestions } from '@/lib/search';
+import type { Landmark, Pier } from '@/lib/types';
+
+const boat = (id: string, name: string) => ({ id, name, boat_type: 'standard' as const, status: 'available' as const });
+
+const PIERS: Pier[] = [
+  { id: 'tha-tien', name_th: 'ท่าเตียน', name_en: 'Tha Tien', latitude: 13.7466, longitude: 100.4899, boat_types: ['standard'] },
+];
+
+const LANDMARKS: Landmark[] = [
+  { id: 'wat-arun', name_th: 'วัดอรุณราชวราราม', name_en: 'Wat Arun', aliases: ['วัดอรุณ', 'Temple of Dawn'], latitude: 13.7437, longitude: 100.4889 },
+];
+
+describe('normalizeSearchText', () => {
+  it('drops case, spaces, punctuation and Latin accents', () => {
+    expect(normalizeSearchText('Wat Arun')).toBe('watarun');
+    expect(normalizeSearchText("Café d'Orient")).toBe('cafedorient');
+  });
+
+  it('drops Thai tone marks', () => {
+    expect(normalizeSearchText('ท่าช้าง')).toBe('ทาชาง');
+  });
+
+  it('treats nikhahit + sara aa as sara am', () => {
+    expect(normalizeSearchText('ท่านํา')).toBe(normalizeSearchText('ท่าน้ำ'));
+  });
+});
+
+describe('matchScore', () => {
+  it('ranks exact > prefix > substring > typo > letters in order', () => {
+    const scores = ['wat arun', 'wat', 'arun', 'wataron', 'wtarn'].map((query) => matchScore(query, 'Wat Arun'));
+
+    expect(scores[0]).toBe(1);
+    expect(scores[1]).toBe(0.9);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(scores.every((score) => score > 0)).toBe(true);
+  });
+
+  it('prefers a substring near the start', () => {
+    expect(matchScore('arun', 'Wat Arun')).toBeGreaterThan(matchScore('arun', 'Temple Arun'));
+  });
+
+  it('matches Thai typed without tone marks', () => {
+    expect(matchScore('ทาชาง', 'ท่าช้าง')).toBe(1);
+  });
+
+  it('allows no typos in short queries', () => {
+    expect(matchScore('wxt', 'Wat Arun')).toBe(0);
+    expect(matchScore('', 'Wat Arun')).toBe(0);
+  });
+});
+
+describe('searchSuggestions', () => {
+  const sources = { boats: [boat('b-1', 'Arun Star'), boat('b-2', 'River Queen')], piers: PIERS, landmarks: LANDMARKS };
+
+  it('ranks boats, piers and landmarks together by score', () => {
+    const results = searchSuggestions('arun', sources, 'en');
+
+    expect(results.map((s) => [s.kind, s.id])).toEqual([['boat', 'b-1'], ['landmark', 'wat-arun']]);
+  });
+
+  it('matches every name of a place but labels it in the UI language', () => {
+    const [landmark] = searchSuggestions('วัดอรุณ', sources, 'en');
+
+    expect(landmark).toMatchObject({ kind: 'landmark', label: 'Wat Arun', score: 1, position: { lat: 13.7437, lon: 100.4889 } });
+    expect(searchSuggestions('tha tien', sources, 'th')[0]).toMatchObject({ kind: 'pier', label: 'ท่าเตียน' });
+  });
+
+  it('returns nothing for an empty query and respects the limit', () => {
+    expect(searchSuggestions('  ', sources, 'en')).toEqual([]);
+    expect(searchSuggestions('r', sources, 'en', 1)).toHaveLength(1);
+  });
+});
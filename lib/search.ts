@@ -0,0 +1,136 @@
+// ============================================
+// Search box – fuzzy matching over boat names, piers and landmarks
+// Thai is typed without spaces and tone marks are often skipped on a
+// phone keyboard, so both sides are normalized before comparing
+// ============================================
+
+import { landmarkName, landmarkPosition } from '@/lib/gazetteer';
+import { pierName, pierPosition } from '@/lib/piers';
+import type { Locale } from '@/lib/i18n';
+import type { Boat, Landmark, MapCenter, Pier } from '@/lib/types';
+
+export const SEARCH_MIN_CHARS = 1;
+export const SEARCH_MAX_RESULTS = 8;
+
+export type SearchSuggestion =
+  | { kind: 'boat'; id: string; label: string; score: number; boat: Pick<Boat, 'id' | 'name' | 'boat_type' | 'status'> }
+  | { kind: 'pier'; id: string; label: string; score: number; position: MapCenter }
+  | { kind: 'landmark'; id: string; label: string; score: number; position: MapCenter };
+
+// Tone marks (่ ้ ๊ ๋), thanthakhat (์) and mai taikhu (็)
+const THAI_OPTIONAL_MARKS = /[\u0E47-\u0E4C]/g;
+// Latin accents left after NFD
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+// Anything that isn't a Latin letter, digit or Thai character
+const SEPARATORS = /[^a-z0-9\u0E01-\u0E5B]/g;
+
+/**
+ * Comparable form of a name: lowercase, no accents, no Thai tone marks,
+ * no spaces or punctuation ("ท่าช้าง" → "ทาชาง", "Wat Arun" → "watarun")
+ */
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(COMBINING_MARKS, '')
+    .normalize('NFC')
+    .toLowerCase()
+    // sara am typed as nikhahit + sara aa
+    .replace(/\u0E4D\u0E32/g, '\u0E33')
+    .replace(THAI_OPTIONAL_MARKS, '')
+    .replace(SEPARATORS, '');
+
+// Fewest edits to turn `query` into any substring of `text` (Sellers' algorithm)
+const substringEditDistance = (query: string, text: string): number => {
+  let previous = new Array<number>(text.length + 1).fill(0);
+  for (let i = 1; i <= query.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= text.length; j++) {
+      const cost = query[i - 1] === text[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return Math.min(...previous);
+};
+
+const isSubsequence = (query: string, text: string) => {
+  let i = 0;
+  for (const char of text) {
+    if (char === query[i]) i++;
+    if (i === query.length) return true;
+  }
+  return false;
+};
+
+/**
+ * How well `query` matches `text`, 0 (no match) to 1 (same name)
+ * exact > prefix > substring > a typo or two > letters in order
+ */
+export const matchScore = (query: string, text: string): number => {
+  const q = normalizeSearchText(query);
+  const target = normalizeSearchText(text);
+  if (!q || !target) return 0;
+
+  if (target === q) return 1;
+  if (target.startsWith(q)) return 0.9;
+
+  const index = target.indexOf(q);
+  if (index >= 0) return 0.8 - Math.min(0.2, index * 0.02);
+
+  // Short queries get no typo allowance – everything would match
+  const allowedEdits = q.length >= 8 ? 2 : q.length >= 5 ? 1 : 0;
+  if (allowedEdits > 0) {
+    const edits = substringEditDistance(q, target);
+    if (edits <= allowedEdits) return 0.55 - edits * 0.1;
+  }
+
+  // Skipped letters, e.g. "wtarn" → "watarun"
+  if (q.length >= 4 && isSubsequence(q, target)) return 0.2 + (0.1 * q.length) / target.length;
+
+  return 0;
+};
+
+const bestScore = (query: string, names: string[]) => Math.max(0, ...names.map((name) => matchScore(query, name)));
+
+/**
+ * Ranked suggestions for the search box. Every name of a place (Thai,
+ * English, aliases) is matched whatever the UI language; the label is
+ * in the UI language.
+ */
+export const searchSuggestions = (
+  query: string,
+  sources: { boats: Pick<Boat, 'id' | 'name' | 'boat_type' | 'status'>[]; piers: Pier[]; landmarks: Landmark[] },
+  locale: Locale,
+  limit = SEARCH_MAX_RESULTS
+): SearchSuggestion[] => {
+  if (normalizeSearchText(query).length < SEARCH_MIN_CHARS) return [];
+
+  const suggestions: SearchSuggestion[] = [
+    ...sources.boats.map((boat): SearchSuggestion => ({
+      kind: 'boat',
+      id: boat.id,
+      label: boat.name,
+      score: bestScore(query, [boat.name]),
+      boat,
+    })),
+    ...sources.piers.map((pier): SearchSuggestion => ({
+      kind: 'pier',
+      id: pier.id,
+      label: pierName(pier, locale),
+      score: bestScore(query, [pier.name_th, pier.name_en]),
+      position: pierPosition(pier),
+    })),
+    ...sources.landmarks.map((landmark): SearchSuggestion => ({
+      kind: 'landmark',
+      id: landmark.id,
+      label: landmarkName(landmark, locale),
+      score: bestScore(query, [landmark.name_th, landmark.name_en, ...(landmark.aliases ?? [])]),
+      position: landmarkPosition(landmark),
+    })),
+  ];
+
+  return suggestions
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label, locale))
+    .slice(0, limit);
+};
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { LineAuthError } from '@/lib/server/lineAuth';
+import { SchemaError } from '@/lib/schema';
+
+export const jsonError = (error: string, status: number) =>
+  NextResponse.json({ success: false, error }, { status });
+
+/**
+ * Map thrown errors to JSON responses (auth → 401/503, malformed payload → 400,
+ * everything else → 500)
+ */
+export const handleRouteError = (tag: string, err: unknown) => {
+  if (err instanceof LineAuthError) {
+    return jsonError(err.message, err.status);
+  }
+
+  if (err instanceof SchemaError) {
+    console.warn(`[${tag}] Malformed payload:`, err.message);
+    return jsonError(err.message, 400);
+  }
+
+  console.error(`[${tag}] Error:`, err);
+  return jsonError(err instanceof Error ? err.message : String(err), 500);
+};
+
+export const notConfigured = () => jsonError('Supabase service credential is not configured', 503);
@@ -0,0 +1,94 @@
+// ============================================
+// Server-side quote for a booking request
+// POST /api/bookings and POST /api/bookings/quote price through here,
+// so the price a passenger confirms is the price they are charged
+// ============================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { bookingWindowError, NO_PRICE_ERROR, quoteBooking } from '@/lib/pricing';
+import { canDock } from '@/lib/piers';
+import type { GetBoatLocationParams, NearbyBoat, Pier, PriceQuote } from '@/lib/types';
+
+export interface BookingQuoteInput {
+  boat_id: string;
+  start_time: string;
+  end_time: string;
+  pickup_lat?: number;
+  pickup_lon?: number;
+  pickup_pier_id?: string;
+}
+
+export type BookingQuoteResult =
+  | { success: true; quote: PriceQuote; pickup_lat?: number; pickup_lon?: number }
+  | { success: false; error: string; status: number };
+
+/**
+ * Quote with the boat's rate, type and position from get_boat_location
+ * A pickup at a named pier is priced from the pier (create_booking checks it again)
+ * Failures carry the HTTP status the routes answer with
+ */
+export async function quoteBookingRequest(
+  supabase: SupabaseClient,
+  input: BookingQuoteInput
+): Promise<BookingQuoteResult> {
+  // A bad window is the caller's input, not a pricing problem
+  const windowError = bookingWindowError(input.start_time, input.end_time);
+  if (windowError) return { success: false, error: windowError, status: 400 };
+
+  let pickupLat = input.pickup_lat;
+  let pickupLon = input.pickup_lon;
+
+  const boatParams: GetBoatLocationParams = { boat_id: input.boat_id };
+  const { data: boatRows, error: boatError } = await supabase
+    .schema('daranee')
+    .rpc('get_boat_location', boatParams);
+  if (boatError) throw boatError;
+
+  const boat = ((boatRows as NearbyBoat[]) || [])[0];
+  if (!boat) return { success: false, error: 'Boat not found', status: 404 };
+
+  if (input.pickup_pier_id) {
+    const { data: pierRows, error: pierError } = await supabase
+      .schema('daranee')
+      .from('piers')
+      .select('*')
+      .eq('id', input.pickup_pier_id)
+      .limit(1);
+    if (pierError) throw pierError;
+
+    const pier = ((pierRows as Pier[]) || [])[0];
+    if (!pier) return { success: false, error: 'Pier not found', status: 404 };
+    if (!canDock(pier, boat.boat_type)) {
+      return { success: false, error: 'This boat cannot dock at the pier', status: 400 };
+    }
+    pickupLat = pier.latitude;
+    pickupLon = pier.longitude;
+  }
+
+  const quote = quoteBooking({
+    ...boat,
+    start_time: input.start_time,
+    end_time: input.end_time,
+    pickup: pickupLat != null && pickupLon != null ? { lat: pickupLat, lon: pickupLon } : null,
+  });
+  if (!quote) return { success: false, error: NO_PRICE_ERROR, status: 422 };
+
+  return { success: true, quote, pickup_lat: pickupLat, pickup_lon: pickupLon };
+}
+
+/**
+ * Booking request fields from a JSON body, or null when boat_id/start_time/end_time are missing
+ */
+export const readBookingQuoteInput = (body: Record<string, unknown> | null): BookingQuoteInput | null => {
+  if (typeof body?.boat_id !== 'string' || typeof body.start_time !== 'string' || typeof body.end_time !== 'string') {
+    return null;
+  }
+  return {
+    boat_id: body.boat_id,
+    start_time: body.start_time,
+    end_time: body.end_time,
+    pickup_lat: typeof body.pickup_lat === 'number' ? body.pickup_lat : undefined,
+    pickup_lon: typeof body.pickup_lon === 'number' ? body.pickup_lon : undefined,
+    pickup_pier_id: typeof body.pickup_pier_id === 'string' ? body.pickup_pier_id : undefined,
+  };
+};
@@ -0,0 +1,38 @@
+// ============================================
+// Formatting and deep links for push notification cards
+// Server-rendered, so times are formatted in Bangkok time explicitly
+// ============================================
+
+import { INTL_LOCALES, translate, type Locale } from '@/lib/i18n';
+
+const TIME_ZONE = 'Asia/Bangkok';
+
+export const formatNotificationTime = (locale: Locale, iso: string) =>
+  new Date(iso).toLocaleString(INTL_LOCALES[locale], {
+    timeZone: TIME_ZONE, day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit',
+  });
+
+export const formatNotificationWindow = (locale: Locale, start: string, end: string) => {
+  const endTime = new Date(end).toLocaleTimeString(INTL_LOCALES[locale], {
+    timeZone: TIME_ZONE, hour: '2-digit', minute: '2-digit',
+  });
+  return `${formatNotificationTime(locale, start)} – ${endTime}`;
+};
+
+export const formatNotificationPrice = (locale: Locale, amount: number) =>
+  new Intl.NumberFormat(INTL_LOCALES[locale], {
+    style: 'currency', currency: 'THB', currencyDisplay: 'narrowSymbol', maximumFractionDigits: 2,
+  }).format(amount);
+
+/**
+ * Deep links: passengers land in the LIFF app, operators in the console
+ */
+export const passengerLink = (locale: Locale, path = '/bookings') => {
+  const liffId = process.env.NEXT_PUBLIC_LIFF_ID;
+  return liffId ? { label: translate(locale, 'notify.viewBooking'), uri: `https://liff.line.me/${liffId}${path}` } : null;
+};
+
+export const operatorLink = (locale: Locale) => {
+  const baseUrl = process.env.APP_BASE_URL;
+  return baseUrl ? { label: translate(locale, 'notify.openConsole'), uri: `${baseUrl.replace(/\/$/, '')}/operator` } : null;
+};
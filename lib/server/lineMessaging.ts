@@ -0,0 +1,91 @@
+// ============================================
+// LINE Messaging API client (push messages)
+// Behind an interface so tests and DEV mode can capture messages
+// instead of sending them
+// ============================================
+
+import type { LineMessage } from '@/lib/lineFlex';
+
+export interface LineMessagingClient {
+  pushMessage(to: string, messages: LineMessage[]): Promise<void>;
+}
+
+export interface SentLineMessage {
+  to: string;
+  messages: LineMessage[];
+}
+
+export class LineMessagingError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LineMessagingError';
+    this.status = status;
+  }
+}
+
+/**
+ * Sends through the Messaging API with a channel access token
+ * https://developers.line.biz/en/reference/messaging-api/#send-push-message
+ */
+export const createLineMessagingClient = (channelAccessToken: string): LineMessagingClient => ({
+  async pushMessage(to, messages) {
+    const res = await fetch('https://api.line.me/v2/bot/message/push', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${channelAccessToken}`,
+      },
+      body: JSON.stringify({ to, messages }),
+    });
+
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new LineMessagingError(body?.message || `Push failed (${res.status})`, res.status);
+    }
+  },
+});
+
+/**
+ * Local client for tests and DEV mode – keeps every push in `sent`
+ */
+export const createStubMessagingClient = () => {
+  const sent: SentLineMessage[] = [];
+
+  const client: LineMessagingClient & { sent: SentLineMessage[] } = {
+    sent,
+    async pushMessage(to, messages) {
+      sent.push({ to, messages });
+      console.log(`[lineMessaging] (stub) push to ${to}:`, messages.map((m) => (m.type === 'flex' ? m.altText : m.text)));
+    },
+  };
+
+  return client;
+};
+
+let messagingClient: LineMessagingClient | null = null;
+
+/**
+ * Replace the active client (e.g. with a stub from a test setup)
+ */
+export const setMessagingClient = (next: LineMessagingClient | null) => {
+  messagingClient = next;
+};
+
+/**
+ * Active client; null in production when no channel access token is configured
+ */
+export const getMessagingClient = (): LineMessagingClient | null => {
+  if (messagingClient) return messagingClient;
+
+  const token = process.env.LINE_MESSAGING_CHANNEL_ACCESS_TOKEN;
+  if (token) {
+    messagingClient = createLineMessagingClient(token);
+  } else if (process.env.NODE_ENV !== 'production') {
+    console.warn('[lineMessaging] LINE_MESSAGING_CHANNEL_ACCESS_TOKEN missing – capturing messages locally');
+    messagingClient = createStubMessagingClient();
+  }
+
+  return messagingClient;
+};
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryClient, createSeedDatabase, MemoryBackend, SEED_OPERATOR_LINE_USER_ID } from '@/lib/memoryBackend';
+import { notifyBoatChange, notifyBookingChange } from '@/lib/server/notifications';
+import { createStubMessagingClient, setMessagingClient } from '@/lib/server/lineMessaging';
+import type { Boat, Booking, RealtimePayload } from '@/lib/types';
+
+const change = <T>(eventType: RealtimePayload['eventType'], next: T, old?: Partial<T>): RealtimePayload<T> => ({
+  eventType, schema: 'daranee', table: 'bookings', new: next, old,
+});
+
+describe('notifications', () => {
+  let backend: MemoryBackend;
+  let stub: ReturnType<typeof createStubMessagingClient>;
+  const client = createMemoryClient(() => backend);
+
+  const booking = (id: string) => ({ ...backend.db.bookings.find((b) => b.id === id)! }) as Booking;
+  const recipients = () => stub.sent.map((message) => message.to);
+
+  beforeEach(() => {
+    backend = new MemoryBackend(createSeedDatabase());
+    stub = createStubMessagingClient();
+    setMessagingClient(stub);
+  });
+
+  afterEach(() => {
+    setMessagingClient(null);
+  });
+
+  it('tells the passenger and the boat operator about a new booking', async () => {
+    // booking-2 is Udev-passenger's booking of boat-2, owned by op-1
+    await notifyBookingChange(client, change('INSERT', booking('booking-2')));
+
+    expect(recipients().sort()).toEqual([SEED_OPERATOR_LINE_USER_ID, 'Udev-passenger'].sort());
+    expect(stub.sent.every((message) => message.messages[0].type === 'flex')).toBe(true);
+  });
+
+  it('stays quiet when the booking status did not change', async () => {
+    const row = booking('booking-2');
+
+    await notifyBookingChange(client, change('UPDATE', row, { status: row.status }));
+
+    expect(stub.sent).toEqual([]);
+  });
+
+  it('tells passengers with upcoming bookings when their boat changes status', async () => {
+    // boat-1 has one upcoming booking (booking-1) and two finished ones
+    const boat = { ...backend.db.boats.find((b) => b.id === 'boat-1')!, status: 'maintenance' } as unknown as Boat;
+
+    await notifyBoatChange(client, { ...change('UPDATE', boat, { status: 'available' }), table: 'boats' });
+
+    expect(recipients()).toEqual(['Udev-passenger']);
+  });
+
+  it('does not fail when a push fails', async () => {
+    setMessagingClient({
+      async pushMessage() {
+        throw new Error('LINE is down');
+      },
+    });
+
+    await expect(notifyBookingChange(client, change('INSERT', booking('booking-2')))).resolves.toBeUndefined();
+  });
+});
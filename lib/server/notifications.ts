@@ -0,0 +1,192 @@
+// ============================================
+// Booking / boat notifications over LINE push
+// Driven by row changes: the database webhook in production,
+// the in-memory backend's realtime feed in DEV mode
+// ============================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_LOCALE, translate, type Locale } from '@/lib/i18n';
+import { BOOKING_STATUS_COLORS, BOAT_STATUS_COLORS } from '@/lib/format';
+import { buildCard, type LineMessage } from '@/lib/lineFlex';
+import { getMessagingClient } from '@/lib/server/lineMessaging';
+import {
+  formatNotificationPrice,
+  formatNotificationWindow,
+  operatorLink,
+  passengerLink,
+} from '@/lib/server/flexMessages';
+import { boatChangeSchema, bookingChangeSchema } from '@/lib/schema';
+import type { Boat, Booking, Operator, RealtimePayload } from '@/lib/types';
+
+export type BookingEvent = 'created' | 'confirmed' | 'cancelled' | 'completed';
+
+type Audience = 'passenger' | 'operator';
+
+// Push messages go out in the app's default language
+const LOCALE: Locale = DEFAULT_LOCALE;
+
+const EVENT_COLORS: Record<BookingEvent, string> = {
+  created: BOOKING_STATUS_COLORS.pending,
+  confirmed: BOOKING_STATUS_COLORS.confirmed,
+  cancelled: '#7f8c8d',
+  completed: BOOKING_STATUS_COLORS.completed,
+};
+
+/**
+ * Which lifecycle event a booking row change represents, if any
+ */
+export const describeBookingChange = (change: RealtimePayload<Booking>): BookingEvent | null => {
+  const next = change.new;
+  if (!next?.id) return null;
+
+  if (change.eventType === 'INSERT') return 'created';
+  if (change.eventType !== 'UPDATE' || change.old?.status === next.status) return null;
+
+  switch (next.status) {
+    case 'confirmed':
+    case 'cancelled':
+    case 'completed':
+      return next.status;
+    default:
+      return null;
+  }
+};
+
+const loadBoatWithOperator = async (supabase: SupabaseClient, boatId: string) => {
+  const db = supabase.schema('daranee');
+
+  const { data: boat, error } = await db
+    .from('boats')
+    .select('id, name, status, owner_id')
+    .eq('id', boatId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!boat) return { boat: null, operator: null };
+
+  const { data: operator, error: operatorError } = await db
+    .from('operators')
+    .select('id, name, line_user_id')
+    .eq('id', (boat as Boat).owner_id)
+    .maybeSingle();
+  if (operatorError) throw operatorError;
+
+  return {
+    boat: boat as Pick<Boat, 'id' | 'name' | 'status' | 'owner_id'>,
+    operator: operator as Pick<Operator, 'id' | 'name' | 'line_user_id'> | null,
+  };
+};
+
+const push = async (to: string, message: LineMessage) => {
+  const client = getMessagingClient();
+  if (!client) return;
+
+  try {
+    await client.pushMessage(to, [message]);
+  } catch (err) {
+    // A failed push must never fail the change that caused it
+    console.error(`[Notifications] Push to ${to} failed:`, err);
+  }
+};
+
+const bookingCard = (
+  event: BookingEvent,
+  audience: Audience,
+  booking: Booking,
+  boatName: string
+): LineMessage =>
+  buildCard({
+    title: translate(LOCALE, `notify.${event}.${audience}`),
+    color: EVENT_COLORS[event],
+    rows: [
+      { label: translate(LOCALE, 'notify.boat'), value: boatName },
+      { label: translate(LOCALE, 'notify.time'), value: formatNotificationWindow(LOCALE, booking.start_time, booking.end_time) },
+      ...(booking.total_price != null
+        ? [{ label: translate(LOCALE, 'notify.price'), value: formatNotificationPrice(LOCALE, booking.total_price) }]
+        : []),
+      { label: translate(LOCALE, 'notify.status'), value: translate(LOCALE, `bookingStatus.${booking.status}`) },
+    ],
+    action: audience === 'passenger' ? passengerLink(LOCALE) : operatorLink(LOCALE),
+  });
+
+/**
+ * Tell the passenger and the boat's operator about a booking lifecycle event
+ */
+export const notifyBookingChange = async (supabase: SupabaseClient, change: RealtimePayload<Booking>) => {
+  const event = describeBookingChange(change);
+  const booking = change.new;
+  if (!event || !booking) return;
+
+  const { boat, operator } = await loadBoatWithOperator(supabase, booking.boat_id);
+  const boatName = boat?.name ?? booking.boat_id;
+
+  console.log(`[Notifications] Booking ${booking.id} ${event}`);
+
+  await Promise.all([
+    push(booking.line_user_id, bookingCard(event, 'passenger', booking, boatName)),
+    operator?.line_user_id
+      ? push(operator.line_user_id, bookingCard(event, 'operator', booking, boatName))
+      : Promise.resolve(),
+  ]);
+};
+
+/**
+ * A boat with upcoming bookings changed status → tell those passengers
+ */
+export const notifyBoatChange = async (supabase: SupabaseClient, change: RealtimePayload<Boat>) => {
+  const boat = change.new;
+  if (change.eventType !== 'UPDATE' || !boat?.id || !change.old?.status || change.old.status === boat.status) {
+    return;
+  }
+
+  const { data, error } = await supabase
+    .schema('daranee')
+    .from('bookings')
+    .select('*')
+    .eq('boat_id', boat.id)
+    .in('status', ['pending', 'confirmed'])
+    .gt('end_time', new Date().toISOString())
+    .order('start_time');
+  if (error) throw error;
+
+  const bookings = (data as Booking[]) || [];
+  if (bookings.length === 0) return;
+
+  console.log(`[Notifications] Boat ${boat.id} → ${boat.status}, notifying ${bookings.length} bookings`);
+
+  await Promise.all(bookings.map((booking) =>
+    push(booking.line_user_id, buildCard({
+      title: translate(LOCALE, 'notify.boatStatus', { name: boat.name }),
+      color: BOAT_STATUS_COLORS[boat.status],
+      rows: [
+        { label: translate(LOCALE, 'notify.status'), value: translate(LOCALE, `boatStatus.${boat.status}`) },
+        { label: translate(LOCALE, 'notify.time'), value: formatNotificationWindow(LOCALE, booking.start_time, booking.end_time) },
+      ],
+      note: boat.status === 'maintenance' ? translate(LOCALE, 'notify.boatMaintenanceNote') : undefined,
+      action: passengerLink(LOCALE),
+    }))
+  ));
+};
+
+/**
+ * Route a row change from any source to the matching notifier
+ * Rows are checked against lib/schema.ts first (throws SchemaError)
+ */
+export const handleRowChange = async (supabase: SupabaseClient, change: RealtimePayload<unknown>) => {
+  if (change.table === 'bookings') return notifyBookingChange(supabase, bookingChangeSchema(change));
+  if (change.table === 'boats') return notifyBoatChange(supabase, boatChangeSchema(change));
+};
+
+/**
+ * DEV mode: the in-memory backend has no webhooks, so follow its realtime feed
+ */
+export const watchRowChanges = (supabase: SupabaseClient) => {
+  const onChange = (payload: RealtimePayload) => {
+    handleRowChange(supabase, payload).catch((err) => console.error('[Notifications] Error:', err));
+  };
+
+  supabase
+    .channel('daranee:notifications')
+    .on('postgres_changes', { event: '*', schema: 'daranee', table: 'bookings' }, onChange)
+    .on('postgres_changes', { event: '*', schema: 'daranee', table: 'boats' }, onChange)
+    .subscribe();
+};
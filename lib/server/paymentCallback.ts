@@ -0,0 +1,14 @@
+// ============================================
+// Trusted payment callbacks (bank / payment gateway webhook)
+// The caller proves itself with a shared secret header instead of a LINE token
+// ============================================
+
+import { hasSharedSecret } from '@/lib/server/sharedSecret';
+
+export const PAYMENT_CALLBACK_HEADER = 'x-payment-callback-secret';
+
+/**
+ * True when the request carries PAYMENT_CALLBACK_SECRET
+ */
+export const isPaymentCallback = (request: Request): boolean =>
+  hasSharedSecret(request, PAYMENT_CALLBACK_HEADER, process.env.PAYMENT_CALLBACK_SECRET);
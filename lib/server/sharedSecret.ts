@@ -0,0 +1,19 @@
+// ============================================
+// Shared-secret headers for server-to-server callers
+// (payment gateway, database webhooks) that have no LINE token
+// ============================================
+
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * True when `header` carries `secret` (constant-time compare)
+ * Always false when the secret is not configured
+ */
+export const hasSharedSecret = (request: Request, header: string, secret: string | undefined): boolean => {
+  const provided = request.headers.get(header);
+  if (!secret || !provided) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
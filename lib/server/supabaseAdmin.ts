@@ -0,0 +1,42 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createMemoryClient } from '@/lib/memoryBackend';
+import { watchRowChanges } from '@/lib/server/notifications';
+
+// Server-only environment variables (never expose to the browser)
+// NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+let adminClient: SupabaseClient | null = null;
+
+/**
+ * Supabase client with the service credential, for API route handlers
+ * Outside production, falls back to the in-memory backend when not configured;
+ * returns null in production so routes can answer 503
+ */
+export const getSupabaseAdmin = (): SupabaseClient | null => {
+  if (adminClient) return adminClient;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    if (process.env.NODE_ENV === 'production') return null;
+    console.warn('[supabaseAdmin] Service credential missing – using in-memory backend');
+    adminClient = createMemoryClient();
+    // No database webhooks in memory – notify from the realtime feed instead
+    watchRowChanges(adminClient);
+    // …and stand in for the pg_cron jobs (finished trips, maintenance windows)
+    const client = adminClient;
+    setInterval(() => {
+      client.rpc('complete_finished_bookings');
+      client.rpc('apply_maintenance_windows');
+    }, 60_000).unref?.();
+    return adminClient;
+  }
+
+  adminClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  return adminClient;
+};
+
+export default getSupabaseAdmin;
@@ -0,0 +1,81 @@
+// ============================================
+// Sharing a boat to LINE chats
+// The card links back to /liff?boat=<id>, which opens the map on that boat
+// Group booking invites link to /liff/join/<code> instead
+// ============================================
+
+import { buildCard, type LineMessage } from '@/lib/lineFlex';
+import type { Translate } from '@/lib/i18n';
+import type { Formatter } from '@/lib/format';
+import type { BoatType, NearbyBoat } from '@/lib/types';
+
+export const SHARED_BOAT_PARAM = 'boat';
+
+const LIFF_ID = process.env.NEXT_PUBLIC_LIFF_ID || '';
+const hasLiffId = () => !!LIFF_ID && LIFF_ID !== 'your_liff_id';
+
+/**
+ * Deep link to a boat: through liff.line.me when LIFF is configured
+ * (opens inside LINE), else straight to this site's /liff page
+ */
+export const boatShareUrl = (boatId: string): string => {
+  const query = `${SHARED_BOAT_PARAM}=${encodeURIComponent(boatId)}`;
+  if (hasLiffId()) return `https://liff.line.me/${LIFF_ID}?${query}`;
+  return `${window.location.origin}/liff?${query}`;
+};
+
+/**
+ * Join link for a group booking – liff.line.me appends the path to the
+ * LIFF endpoint (/liff), so both forms land on /liff/join/<code>
+ */
+export const bookingInviteUrl = (inviteCode: string): string => {
+  const path = `join/${encodeURIComponent(inviteCode)}`;
+  if (hasLiffId()) return `https://liff.line.me/${LIFF_ID}/${path}`;
+  return `${window.location.origin}/liff/${path}`;
+};
+
+/**
+ * Boat id from the page query, if the page was opened from a shared card
+ */
+export const readSharedBoatId = (search: string): string | null =>
+  new URLSearchParams(search).get(SHARED_BOAT_PARAM) || null;
+
+/**
+ * Flex card with the boat's name, type, capacity and price
+ */
+export const buildBoatShareMessage = (boat: NearbyBoat, t: Translate, fmt: Formatter): LineMessage =>
+  buildCard({
+    title: t('share.title', { name: boat.name }),
+    color: '#007aff',
+    rows: [
+      { label: t('share.type'), value: fmt.boatType(boat.boat_type) },
+      { label: t('share.capacity'), value: fmt.people(boat.capacity) },
+      { label: t('share.price'), value: boat.price_per_hour ? fmt.pricePerHour(boat.price_per_hour) : t('booking.noPrice') },
+    ],
+    action: { label: t('share.open'), uri: boatShareUrl(boat.id) },
+  });
+
+export interface InviteTrip {
+  boat_name: string;
+  boat_type: BoatType;
+  start_time: string;
+  end_time: string;
+  seats_left: number;
+}
+
+/**
+ * Flex card inviting friends into a booking: boat, time and free seats
+ */
+export const buildBookingInviteMessage = (
+  trip: InviteTrip, inviteCode: string, t: Translate, fmt: Formatter
+): LineMessage =>
+  buildCard({
+    title: t('group.inviteTitle', { name: trip.boat_name }),
+    color: '#2ecc71',
+    rows: [
+      { label: t('share.type'), value: fmt.boatType(trip.boat_type) },
+      { label: t('group.when'), value: `${fmt.dateTime(trip.start_time)} – ${fmt.time(trip.end_time)}` },
+      { label: t('group.seatsLeft'), value: fmt.people(trip.seats_left) },
+    ],
+    action: { label: t('group.joinAction'), uri: bookingInviteUrl(inviteCode) },
+  });
@@ -1,4 +1,5 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@supabase/supabase-js';
+import { createMemoryClient } from '@/lib/memoryBackend';
 
 // Environment variables (set these in your Next.js environment)
 // NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY
@@ -21,39 +22,20 @@ NEXT_PUBLIC_LIFF_ID=your-liff-id-here
 
 📝 See .env.local.example for template
 📚 See SETUP.md for detailed instructions
+
+ℹ️  Using the in-memory backend with a seeded fleet meanwhile
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   `);
 }
 
-// Create a mock client for development without credentials
-// This prevents build errors but will show warnings at runtime
-const createMockClient = (): SupabaseClient => {
-  const mockClient = {
-    from: () => ({
-      select: () => Promise.resolve({ data: [], error: new Error('Supabase not configured') }),
-      insert: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
-      update: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
-      delete: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
-    }),
-    rpc: () => Promise.resolve({ data: [], error: new Error('Supabase not configured. Please set environment variables.') }),
-    channel: () => ({
-      on: () => ({ subscribe: () => ({ unsubscribe: () => {} }) }),
-      subscribe: () => {},
-      unsubscribe: () => {},
-    }),
-    auth: {
-      getSession: () => Promise.resolve({ data: { session: null }, error: null }),
-      getUser: () => Promise.resolve({ data: { user: null }, error: null }),
-    },
-  } as any;
-  
-  return mockClient;
-};
+// Without credentials, fall back to the in-memory backend (seeded fleet)
+// so local dev and automated tests can run the whole LIFF flow offline
+export const isMemoryBackend = !hasEnvVars;
 
 export const supabase = hasEnvVars
   ? createClient(supabaseUrl!, supabaseAnonKey!, {
       realtime: { params: { eventsPerSecond: 10 } },
     })
-  : createMockClient();
+  : createMemoryClient();
 
 export default supabase;
@@ -0,0 +1,29 @@
+// ============================================
+// Live trip rules (mirror supabase/sql/live_trips.sql)
+// A trip runs from start_time to end_time of a confirmed booking;
+// the passenger's position is shared only inside that window
+// ============================================
+
+import type { Booking } from '@/lib/types';
+
+export type TripPhase = 'upcoming' | 'active' | 'ended';
+
+// How often the operator console asks for the passenger's position
+export const TRIP_LOCATION_POLL_MS = 10_000;
+
+/**
+ * Where a booking is in its trip lifecycle at `now`
+ * Cancelled/completed bookings and passed end times are 'ended'
+ */
+export const tripPhase = (
+  booking: Pick<Booking, 'status' | 'start_time' | 'end_time'>,
+  now: number
+): TripPhase => {
+  if (booking.status === 'cancelled' || booking.status === 'completed') return 'ended';
+  if (now >= new Date(booking.end_time).getTime()) return 'ended';
+  if (now < new Date(booking.start_time).getTime()) return 'upcoming';
+  return booking.status === 'confirmed' ? 'active' : 'upcoming';
+};
+
+export const isTripActive = (booking: Pick<Booking, 'status' | 'start_time' | 'end_time'>, now: number) =>
+  tripPhase(booking, now) === 'active';
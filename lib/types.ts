@@ -6,6 +6,7 @@
 export type BoatStatus = 'available' | 'busy' | 'booked' | 'maintenance';
 export type BoatType = 'standard' | 'premium' | 'speedboat' | 'longtail';
 export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed';
+export type PaymentStatus = 'unpaid' | 'paid';
 
 // Database table types
 export interface Boat {
@@ -16,6 +17,11 @@ export interface Boat {
   capacity: number;
   price_per_hour: number | null;
   owner_id: string | null;
+  // Where the boat is moored when not on a trip
+  home_latitude: number | null;
+  home_longitude: number | null;
+  // Set when the owner takes the boat out of the fleet
+  retired_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -28,10 +34,62 @@ export interface Booking {
   end_time: string;
   status: BookingStatus;
   total_price: number | null;
+  payment_status: PaymentStatus;
+  paid_at: string | null;
+  // Bank / gateway reference from the payment callback
+  payment_ref: string | null;
+  // Where the passenger asked to be picked up (demand heat map)
+  pickup_lat: number | null;
+  pickup_lon: number | null;
+  // Named pier chosen as the pickup (pickup_lat/lon are then the pier's)
+  pickup_pier_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// How a group booking's total_price is divided between its passengers
+export type FareSplitMode = 'even' | 'custom';
+export type BookingMemberRole = 'organizer' | 'member';
+
+// Invite link of a group booking (one per booking, created by the organizer)
+export interface BookingGroup {
+  booking_id: string;
+  invite_code: string;
+  split_mode: FareSplitMode;
+  created_at: string;
+}
+
+// Passenger on a group booking – the organizer is the booking's line_user_id.
+// payment_status is between friends: the organizer collects the shares
+export interface BookingMember {
+  id: string;
+  booking_id: string;
+  line_user_id: string;
+  display_name: string | null;
+  role: BookingMemberRole;
+  share_amount: number;
+  payment_status: PaymentStatus;
+  paid_at: string | null;
+  joined_at: string;
+}
+
+// One row per status change, written by a trigger on boats
+export interface BoatStatusChange {
+  boat_id: string;
+  status: BoatStatus;
+  changed_at: string;
+}
+
+// Boat blocked for servicing over [start_time, end_time)
+export interface MaintenanceWindow {
+  id: string;
+  boat_id: string;
+  start_time: string;
+  end_time: string;
+  reason: string | null;
+  created_at: string;
+}
+
 export interface Operator {
   id: string;
   line_user_id: string;
@@ -40,10 +98,83 @@ export interface Operator {
   email: string | null;
   rating: number;
   total_trips: number;
+  // Phone number, national id or e-wallet id that receives payments
+  promptpay_id: string | null;
+  // Fleet admins manage every boat, not only their own
+  is_admin: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// Named pickup point (ท่าเรือ); only `boat_types` can come alongside
+export interface Pier {
+  id: string;
+  name_th: string;
+  name_en: string;
+  latitude: number;
+  longitude: number;
+  boat_types: BoatType[];
+}
+
+// Well-known place for the search box (lib/gazetteer.ts) – not stored in the database
+export interface Landmark {
+  id: string;
+  name_th: string;
+  name_en: string;
+  // Other spellings people type (short names, old names)
+  aliases?: string[];
+  latitude: number;
+  longitude: number;
+}
+
+// Passenger's rating of a completed trip – one per booking, publicly readable
+export interface Review {
+  id: string;
+  booking_id: string;
+  boat_id: string;
+  operator_id: string | null;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+}
+
+export type BoatAuditAction =
+  | 'created'
+  | 'updated'
+  | 'retired'
+  | 'maintenance_scheduled'
+  | 'maintenance_cancelled'
+  | 'maintenance_started'
+  | 'maintenance_ended';
+
+// Who changed what on a boat; actor is null for the scheduled maintenance sweep
+export interface BoatAuditEntry {
+  id: string;
+  boat_id: string;
+  actor_line_user_id: string | null;
+  actor_name: string | null;
+  action: BoatAuditAction;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  created_at: string;
+}
+
+// Editable fields of a boat in the fleet admin
+export interface BoatInput {
+  name: string;
+  boat_type: BoatType;
+  capacity: number;
+  price_per_hour: number | null;
+  home_latitude: number;
+  home_longitude: number;
+  // null keeps the current owner (or the caller, for a new boat)
+  owner_id: string | null;
+}
+
+export type FleetOperator = Pick<Operator, 'id' | 'name'>;
+
+// What the operator console shows about the signed-in operator
+export type ConsoleOperator = Pick<Operator, 'id' | 'name' | 'rating' | 'total_trips'>;
+
 // RPC function return types
 export interface NearbyBoat {
   id: string;
@@ -56,6 +187,10 @@ export interface NearbyBoat {
   longitude: number;
   updated_at: string;
   distance_m: number;
+  heading?: number | null;
+  // Aggregate of the boat's operator; null when the boat has no operator
+  operator_rating: number | null;
+  operator_total_trips: number | null;
 }
 
 export interface UpdateBoatStatusResponse {
@@ -66,11 +201,266 @@ export interface UpdateBoatStatusResponse {
   error?: string;
 }
 
+// One item of a price quote (see lib/pricing.ts)
+export type PriceLineKind = 'base' | 'minimum_hours' | 'boat_type' | 'peak' | 'holiday' | 'pickup';
+
+export interface PriceLine {
+  kind: PriceLineKind;
+  amount: number;
+  hours?: number;
+  // ฿ per hour (base, minimum_hours) or per km (pickup)
+  rate?: number;
+  // Boat type multiplier, or surcharge fraction for peak/holiday
+  multiplier?: number;
+  distance_m?: number;
+}
+
+export interface PriceQuote {
+  hours: number;
+  billed_hours: number;
+  lines: PriceLine[];
+  total: number;
+}
+
 export interface CreateBookingResponse {
   success: boolean;
   booking_id?: string;
   total_price?: number;
   total_hours?: number;
+  quote?: PriceQuote;
+  error?: string;
+}
+
+export interface QuoteBookingResponse {
+  success: boolean;
+  quote?: PriceQuote;
+  error?: string;
+}
+
+// Busy time of a boat – no passenger details, safe to show publicly
+export type BusyIntervalKind = 'booking' | 'maintenance';
+
+export interface BusyInterval {
+  start_time: string;
+  end_time: string;
+  kind: BusyIntervalKind;
+}
+
+// Passenger position shared with the operator during a trip
+export interface TripLocation {
+  booking_id: string;
+  latitude: number;
+  longitude: number;
+  updated_at: string;
+}
+
+// get_booking_payment RPC result (raw; the API adds the QR payload)
+export interface BookingPaymentRecord {
+  success: boolean;
+  booking_id?: string;
+  amount?: number;
+  payment_status?: PaymentStatus;
+  paid_at?: string | null;
+  promptpay_id?: string | null;
+  error?: string;
+}
+
+// GET /api/bookings/:id/payment
+export interface BookingPayment {
+  booking_id: string;
+  amount: number;
+  payment_status: PaymentStatus;
+  paid_at: string | null;
+  // null when the operator has no PromptPay id on file
+  promptpay_payload: string | null;
+}
+
+export interface MarkBookingPaidResponse {
+  success: boolean;
+  booking_id?: string;
+  status?: BookingStatus;
+  payment_status?: PaymentStatus;
+  paid_at?: string;
+  error?: string;
+}
+
+// GET /api/bookings – the caller's bookings with their boats and reviews
+export interface GetPassengerBookingsResponse {
+  success: boolean;
+  bookings?: Booking[];
+  boats?: Boat[];
+  reviews?: Review[];
+  error?: string;
+}
+
+// GET /api/bookings/:id – one of the caller's bookings
+export interface GetBookingResponse {
+  success: boolean;
+  booking?: Booking;
+  error?: string;
+}
+
+export interface UpdateTripLocationResponse {
+  success: boolean;
+  updated_at?: string;
+  error?: string;
+}
+
+// GET /api/bookings/:id/trip-location – location is null until the passenger shares one
+export interface GetTripLocationResponse {
+  success: boolean;
+  location?: TripLocation | null;
+  error?: string;
+}
+
+export interface CompleteBookingResponse {
+  success: boolean;
+  booking_id?: string;
+  status?: BookingStatus;
+  error?: string;
+}
+
+export interface SubmitReviewResponse {
+  success: boolean;
+  review_id?: string;
+  // Operator aggregate after this review
+  operator_rating?: number;
+  operator_total_trips?: number;
+  error?: string;
+}
+
+// GET /api/fleet – boats the caller may manage
+export interface GetFleetResponse {
+  success: boolean;
+  operator_id?: string;
+  is_admin?: boolean;
+  boats?: Boat[];
+  // Possible owners
+  operators?: FleetOperator[];
+  // Current and upcoming windows of the listed boats
+  maintenance_windows?: MaintenanceWindow[];
+  error?: string;
+}
+
+export interface GetOperatorConsoleResponse {
+  success: boolean;
+  operator?: ConsoleOperator;
+  // Owned boats that are not retired
+  boats?: Boat[];
+  // Bookings of those boats overlapping the range
+  bookings?: Booking[];
+  error?: string;
+}
+
+export interface SaveBoatResponse {
+  success: boolean;
+  boat_id?: string;
+  error?: string;
+}
+
+export interface RetireBoatResponse {
+  success: boolean;
+  boat_id?: string;
+  retired_at?: string;
+  error?: string;
+}
+
+export interface ScheduleMaintenanceResponse {
+  success: boolean;
+  window_id?: string;
+  error?: string;
+}
+
+export interface CancelMaintenanceResponse {
+  success: boolean;
+  window_id?: string;
+  error?: string;
+}
+
+export interface GetBoatAuditLogResponse {
+  success: boolean;
+  entries?: BoatAuditEntry[];
+  error?: string;
+}
+
+// GET /api/analytics – raw rows for the caller's boats; lib/analytics.ts aggregates them
+export interface GetFleetAnalyticsResponse {
+  success: boolean;
+  boats?: Pick<Boat, 'id' | 'name' | 'boat_type' | 'owner_id' | 'created_at' | 'retired_at'>[];
+  // Bookings overlapping the range
+  bookings?: Pick<
+    Booking,
+    'id' | 'boat_id' | 'start_time' | 'end_time' | 'status' | 'total_price' | 'pickup_lat' | 'pickup_lon' | 'created_at'
+  >[];
+  // Changes inside the range plus each boat's last change before it
+  status_history?: BoatStatusChange[];
+  error?: string;
+}
+
+// GET /api/bookings/:id/group – organizer or member only
+export interface GetBookingGroupResponse {
+  success: boolean;
+  booking_id?: string;
+  is_organizer?: boolean;
+  // Organizer only; null until an invite was created
+  invite_code?: string | null;
+  split_mode?: FareSplitMode;
+  total_price?: number;
+  capacity?: number;
+  // Organizer first; empty until an invite was created
+  members?: BookingMember[];
+  error?: string;
+}
+
+export interface CreateBookingInviteResponse {
+  success: boolean;
+  invite_code?: string;
+  error?: string;
+}
+
+// GET /api/invites/:code – what the join page shows before joining
+export interface GetBookingInviteResponse {
+  success: boolean;
+  booking_id?: string;
+  boat_name?: string;
+  boat_type?: BoatType;
+  start_time?: string;
+  end_time?: string;
+  status?: BookingStatus;
+  organizer_name?: string | null;
+  capacity?: number;
+  member_count?: number;
+  is_member?: boolean;
+  error?: string;
+}
+
+export interface JoinBookingResponse {
+  success: boolean;
+  booking_id?: string;
+  share_amount?: number;
+  error?: string;
+}
+
+export interface SetBookingSplitResponse {
+  success: boolean;
+  booking_id?: string;
+  split_mode?: FareSplitMode;
+  error?: string;
+}
+
+export interface MarkMemberPaidResponse {
+  success: boolean;
+  booking_id?: string;
+  line_user_id?: string;
+  payment_status?: PaymentStatus;
+  paid_at?: string | null;
+  error?: string;
+}
+
+export interface CancelBookingResponse {
+  success: boolean;
+  booking_id?: string;
+  status?: BookingStatus;
   error?: string;
 }
 
@@ -80,7 +470,35 @@ export interface RealtimePayload<T = any> {
   schema: string;
   table: string;
   new?: T;
-  old?: T;
+  // Only the primary key unless the table uses REPLICA IDENTITY FULL
+  old?: Partial<T>;
+}
+
+// Search filters chosen in the LIFF filter panel
+export interface BoatSearchFilters {
+  boat_types: BoatType[];
+  min_capacity: number | null;
+  min_price: number | null;
+  max_price: number | null;
+  radius_km: number;
+  available_only: boolean;
+  sort_by: BoatSort;
+}
+
+// Broadcast on 'daranee:boat_positions' whenever a boat reports a GPS fix
+export interface BoatPositionUpdate {
+  id: string;
+  latitude: number;
+  longitude: number;
+  heading: number | null;
+  timestamp: string;
+}
+
+// Broadcast when a booking row changes – ids only, clients refetch
+// what they may see through the API
+export interface BookingChangeSignal {
+  id: string;
+  boat_id: string;
 }
 
 // UI types
@@ -89,16 +507,54 @@ export interface MapCenter {
   lon: number;
 }
 
+// Point chosen in the search box – boats are searched around it instead of GPS
+export interface SearchPlace extends MapCenter {
+  label: string;
+}
+
+// Visible map area (degrees)
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
 export interface BoatWithDistance extends NearbyBoat {
   // Already includes distance_m from NearbyBoat
 }
 
 // Supabase RPC parameters
+export type BoatSort = 'distance' | 'price' | 'capacity';
+
 export interface FindNearbyBoatsParams {
   lat: number;
   lon: number;
   radius_km?: number;
   boat_status?: BoatStatus | null;
+  boat_types?: BoatType[] | null;
+  min_capacity?: number | null;
+  min_price?: number | null;
+  max_price?: number | null;
+  sort_by?: BoatSort | null;
+}
+
+// Same filters as find_nearby_boats, but over a bounding box;
+// distance_m and radius_km are measured from ref_lat/ref_lon (the passenger)
+export interface FindBoatsInBoundsParams extends Omit<FindNearbyBoatsParams, 'lat' | 'lon'> {
+  min_lat: number;
+  min_lon: number;
+  max_lat: number;
+  max_lon: number;
+  ref_lat: number;
+  ref_lon: number;
+}
+
+// One boat by id, wherever it is (shared deep links); distance from ref when given
+export interface GetBoatLocationParams {
+  boat_id: string;
+  ref_lat?: number | null;
+  ref_lon?: number | null;
 }
 
 export interface UpdateBoatStatusParams {
@@ -113,6 +569,12 @@ export interface CheckBoatAvailabilityParams {
   end_time: string;
 }
 
+export interface GetBoatBusyIntervalsParams {
+  boat_id: string;
+  range_start: string;
+  range_end: string;
+}
+
 export interface CreateBookingParams {
   boat_id: string;
   line_user_id: string;
@@ -120,4 +582,153 @@ export interface CreateBookingParams {
   end_time: string;
   pickup_lat?: number;
   pickup_lon?: number;
+  // Overrides pickup_lat/lon with the pier's position
+  pickup_pier_id?: string;
+  // Total from lib/pricing.ts, computed by the API route (trusted caller only)
+  quoted_price?: number | null;
+}
+
+export interface GetBookingPaymentParams {
+  booking_id: string;
+  caller_line_user_id: string;
+}
+
+export interface MarkBookingPaidParams {
+  booking_id: string;
+  // Operator marking it by hand; null when a trusted payment callback confirms it
+  caller_line_user_id: string | null;
+  payment_ref?: string | null;
+}
+
+export interface GetPassengerBookingsParams {
+  caller_line_user_id: string;
 }
+
+export interface GetBookingParams {
+  booking_id: string;
+  caller_line_user_id: string;
+}
+
+export interface UpdateTripLocationParams {
+  booking_id: string;
+  caller_line_user_id: string;
+  lat: number;
+  lon: number;
+}
+
+export interface GetTripLocationParams {
+  booking_id: string;
+  caller_line_user_id: string;
+}
+
+export interface CompleteBookingParams {
+  booking_id: string;
+  caller_line_user_id: string;
+}
+
+export interface SubmitReviewParams {
+  booking_id: string;
+  caller_line_user_id: string;
+  rating: number;
+  comment?: string | null;
+}
+
+export interface GetFleetParams {
+  caller_line_user_id: string;
+}
+
+export interface GetOperatorConsoleParams {
+  caller_line_user_id: string;
+  range_start: string;
+  range_end: string;
+}
+
+// boat_id null creates a boat
+export interface SaveBoatParams extends BoatInput {
+  boat_id: string | null;
+  caller_line_user_id: string;
+}
+
+export interface RetireBoatParams {
+  boat_id: string;
+  caller_line_user_id: string;
+}
+
+export interface ScheduleMaintenanceParams {
+  boat_id: string;
+  caller_line_user_id: string;
+  start_time: string;
+  end_time: string;
+  reason?: string | null;
+}
+
+export interface CancelMaintenanceParams {
+  window_id: string;
+  caller_line_user_id: string;
+}
+
+export interface GetBoatAuditLogParams {
+  boat_id: string;
+  caller_line_user_id: string;
+}
+
+export interface GetFleetAnalyticsParams {
+  caller_line_user_id: string;
+  range_start: string;
+  range_end: string;
+}
+
+export interface CancelBookingParams {
+  booking_id: string;
+  caller_line_user_id: string;
+}
+
+// API route request types (LINE user id is derived on the server)
+export interface GetBookingGroupParams {
+  booking_id: string;
+  caller_line_user_id: string;
+}
+
+// caller_name comes from the verified ID token (shown to the other passengers)
+export interface CreateBookingInviteParams {
+  booking_id: string;
+  caller_line_user_id: string;
+  caller_name?: string | null;
+}
+
+export interface GetBookingInviteParams {
+  invite_code: string;
+  caller_line_user_id: string;
+}
+
+export interface JoinBookingParams {
+  invite_code: string;
+  caller_line_user_id: string;
+  caller_name?: string | null;
+}
+
+// shares: line_user_id → amount for every passenger, custom mode only
+export interface SetBookingSplitParams {
+  booking_id: string;
+  caller_line_user_id: string;
+  split_mode: FareSplitMode;
+  shares?: Record<string, number> | null;
+}
+
+export interface MarkMemberPaidParams {
+  booking_id: string;
+  caller_line_user_id: string;
+  member_line_user_id: string;
+  paid: boolean;
+}
+
+export type UpdateBoatStatusRequest = Omit<UpdateBoatStatusParams, 'caller_line_user_id'>;
+// quoted_total: the total the passenger confirmed; the booking is refused if the price changed since
+export type CreateBookingRequest = Omit<CreateBookingParams, 'line_user_id' | 'quoted_price'> & { quoted_total: number };
+export type QuoteBookingRequest = Omit<CreateBookingRequest, 'quoted_total'>;
+export type CancelBookingRequest = Omit<CancelBookingParams, 'caller_line_user_id'>;
+export type SubmitReviewRequest = Omit<SubmitReviewParams, 'caller_line_user_id'>;
+export type SaveBoatRequest = Omit<SaveBoatParams, 'boat_id' | 'caller_line_user_id'>;
+export type ScheduleMaintenanceRequest = Omit<ScheduleMaintenanceParams, 'boat_id' | 'caller_line_user_id'>;
+export type SetBookingSplitRequest = Omit<SetBookingSplitParams, 'caller_line_user_id'>;
+export type MarkMemberPaidRequest = Omit<MarkMemberPaidParams, 'caller_line_user_id'>;
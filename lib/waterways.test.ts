@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { distanceMeters } from '@/lib/geo';
+import {
+  buildWaterwayGraph,
+  createWaterRouter,
+  estimateTravelMinutes,
+  type WaterwayFeature,
+  type WaterwayFeatureCollection,
+} from '@/lib/waterways';
+
+const line = (...coordinates: [number, number][]): WaterwayFeature => ({
+  type: 'Feature',
+  properties: null,
+  geometry: { type: 'LineString', coordinates },
+});
+
+// An L of two lines that meet at the corner ([lon, lat] order)
+const START = { lat: 13.7, lon: 100.5 };
+const CORNER = { lat: 13.7, lon: 100.51 };
+const END = { lat: 13.71, lon: 100.51 };
+const RIVER: WaterwayFeatureCollection = {
+  type: 'FeatureCollection',
+  features: [line([START.lon, START.lat], [CORNER.lon, CORNER.lat]), line([CORNER.lon, CORNER.lat], [END.lon, END.lat])],
+};
+
+describe('buildWaterwayGraph', () => {
+  it('splits long segments and joins lines at a shared vertex', () => {
+    const graph = buildWaterwayGraph(RIVER);
+
+    expect(graph.edges.every((edges) => edges.every((edge) => edge.meters <= 150))).toBe(true);
+    const corners = graph.nodes.filter((node) => node.lat === CORNER.lat && node.lon === CORNER.lon);
+    expect(corners).toHaveLength(1);
+  });
+});
+
+describe('createWaterRouter', () => {
+  const graph = buildWaterwayGraph(RIVER);
+
+  it('routes along the water instead of in a straight line', () => {
+    const route = createWaterRouter(graph, END)(START);
+    const alongWater = distanceMeters(START, CORNER) + distanceMeters(CORNER, END);
+
+    expect(route?.distance_m).toBeCloseTo(alongWater, 0);
+    expect(route?.distance_m).toBeGreaterThan(distanceMeters(START, END));
+    expect(route?.path[0]).toEqual(START);
+    expect(route?.path[route.path.length - 1]).toEqual(END);
+  });
+
+  it('adds the legs on and off the network', () => {
+    const offshore = { lat: START.lat - 0.001, lon: START.lon };
+    const route = createWaterRouter(graph, END)(offshore);
+
+    expect(route?.distance_m).toBeCloseTo(
+      distanceMeters(offshore, START) + distanceMeters(START, CORNER) + distanceMeters(CORNER, END),
+      0
+    );
+  });
+
+  it('finds no route from far away or between unconnected waterways', () => {
+    expect(createWaterRouter(graph, END)({ lat: 13.8, lon: 100.5 })).toBeNull();
+
+    const split = buildWaterwayGraph({
+      type: 'FeatureCollection',
+      features: [line([100.5, 13.7], [100.501, 13.7]), line([100.51, 13.71], [100.511, 13.71])],
+    });
+    expect(createWaterRouter(split, { lat: 13.71, lon: 100.511 })({ lat: 13.7, lon: 100.5 })).toBeNull();
+  });
+});
+
+describe('estimateTravelMinutes', () => {
+  it('uses the cruising speed of the boat type', () => {
+    expect(estimateTravelMinutes(5000, 'standard')).toBe(20);
+    expect(estimateTravelMinutes(5000, 'speedboat')).toBe(8);
+  });
+
+  it('never says less than a minute', () => {
+    expect(estimateTravelMinutes(10, 'speedboat')).toBe(1);
+  });
+});
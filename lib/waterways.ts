@@ -0,0 +1,180 @@
+import { distanceMeters } from '@/lib/geo';
+import type { BoatType, MapCenter } from '@/lib/types';
+
+// Minimal GeoJSON shapes used by public/geo/waterways.geojson ([lon, lat] order)
+export interface WaterwayFeature {
+  type: 'Feature';
+  properties: { name?: string; name_en?: string } | null;
+  geometry:
+    | { type: 'LineString'; coordinates: [number, number][] }
+    | { type: 'MultiLineString'; coordinates: [number, number][][] };
+}
+
+export interface WaterwayFeatureCollection {
+  type: 'FeatureCollection';
+  features: WaterwayFeature[];
+}
+
+export interface WaterwayGraph {
+  nodes: MapCenter[];
+  // adjacency list, edge weights in meters
+  edges: { to: number; meters: number }[][];
+}
+
+export interface WaterRoute {
+  // boat → … → target, including the straight legs on/off the network
+  path: MapCenter[];
+  distance_m: number;
+}
+
+// Long segments are split so snapping to the nearest vertex stays accurate
+const MAX_SEGMENT_M = 150;
+// Farther than this from any waterway → not reachable by boat
+const MAX_SNAP_M = 1500;
+
+// Typical cruising speeds on the river (km/h)
+export const BOAT_SPEED_KMH: Record<BoatType, number> = {
+  standard: 15,
+  premium: 18,
+  longtail: 25,
+  speedboat: 40,
+};
+
+/**
+ * Build a routable graph from waterway lines. Lines that share a vertex
+ * (same coordinate to ~1 m) are joined at that vertex.
+ */
+export const buildWaterwayGraph = (
+  collection: WaterwayFeatureCollection,
+  maxSegmentM = MAX_SEGMENT_M
+): WaterwayGraph => {
+  const nodes: MapCenter[] = [];
+  const edges: { to: number; meters: number }[][] = [];
+  const indexByKey = new Map<string, number>();
+
+  const nodeFor = (point: MapCenter, shared: boolean) => {
+    const key = `${point.lat.toFixed(5)},${point.lon.toFixed(5)}`;
+    if (shared) {
+      const existing = indexByKey.get(key);
+      if (existing !== undefined) return existing;
+    }
+    nodes.push(point);
+    edges.push([]);
+    if (shared) indexByKey.set(key, nodes.length - 1);
+    return nodes.length - 1;
+  };
+
+  const link = (a: number, b: number) => {
+    const meters = distanceMeters(nodes[a], nodes[b]);
+    edges[a].push({ to: b, meters });
+    edges[b].push({ to: a, meters });
+  };
+
+  const addLine = (coordinates: [number, number][]) => {
+    let prev: number | null = null;
+
+    coordinates.forEach(([lon, lat]) => {
+      const point = { lat, lon };
+      const current = nodeFor(point, true);
+
+      if (prev !== null && prev !== current) {
+        // Densify: intermediate vertices are private to this segment
+        const from = nodes[prev];
+        const steps = Math.ceil(distanceMeters(from, point) / maxSegmentM);
+        let last = prev;
+        for (let i = 1; i < steps; i++) {
+          const t = i / steps;
+          const mid = nodeFor({
+            lat: from.lat + (point.lat - from.lat) * t,
+            lon: from.lon + (point.lon - from.lon) * t,
+          }, false);
+          link(last, mid);
+          last = mid;
+        }
+        link(last, current);
+      }
+      prev = current;
+    });
+  };
+
+  for (const feature of collection.features) {
+    if (feature.geometry.type === 'LineString') {
+      addLine(feature.geometry.coordinates);
+    } else {
+      feature.geometry.coordinates.forEach(addLine);
+    }
+  }
+
+  return { nodes, edges };
+};
+
+const nearestNode = (graph: WaterwayGraph, point: MapCenter) => {
+  let best = -1;
+  let bestDistance = Infinity;
+  graph.nodes.forEach((node, i) => {
+    const d = distanceMeters(node, point);
+    if (d < bestDistance) {
+      best = i;
+      bestDistance = d;
+    }
+  });
+  return best >= 0 && bestDistance <= MAX_SNAP_M ? { index: best, distance_m: bestDistance } : null;
+};
+
+/**
+ * Single-source shortest paths from `target` over the waterway graph.
+ * Returns a function that routes any point to the target, so one pass
+ * serves the ETA for every boat in the list.
+ */
+export const createWaterRouter = (graph: WaterwayGraph, target: MapCenter) => {
+  const origin = nearestNode(graph, target);
+  const dist = new Float64Array(graph.nodes.length).fill(Infinity);
+  const next = new Int32Array(graph.nodes.length).fill(-1);
+
+  if (origin) {
+    // Dijkstra with a linear scan – the graph is a few hundred nodes
+    const done = new Uint8Array(graph.nodes.length);
+    dist[origin.index] = 0;
+
+    for (;;) {
+      let u = -1;
+      for (let i = 0; i < dist.length; i++) {
+        if (!done[i] && dist[i] !== Infinity && (u < 0 || dist[i] < dist[u])) u = i;
+      }
+      if (u < 0) break;
+      done[u] = 1;
+
+      for (const { to, meters } of graph.edges[u]) {
+        if (dist[u] + meters < dist[to]) {
+          dist[to] = dist[u] + meters;
+          next[to] = u;
+        }
+      }
+    }
+  }
+
+  return (from: MapCenter): WaterRoute | null => {
+    if (!origin) return null;
+    const start = nearestNode(graph, from);
+    if (!start || dist[start.index] === Infinity) return null;
+
+    const path: MapCenter[] = [from];
+    for (let i = start.index; i >= 0; i = next[i]) {
+      path.push(graph.nodes[i]);
+    }
+    path.push(target);
+
+    return {
+      path,
+      distance_m: start.distance_m + dist[start.index] + origin.distance_m,
+    };
+  };
+};
+
+/**
+ * Travel time in minutes for a boat type over a water distance
+ */
+export const estimateTravelMinutes = (distance_m: number, boatType: BoatType): number => {
+  const kmh = BOAT_SPEED_KMH[boatType] ?? BOAT_SPEED_KMH.standard;
+  return Math.max(1, Math.round((distance_m / 1000 / kmh) * 60));
+};
@@ -0,0 +1,91 @@
+// ============================================
+// Daranee service worker – keeps the boat finder usable without signal
+// - Map tiles (Carto, OpenSeaMap): cache-first, so areas already viewed
+//   still draw offline; oldest tiles are dropped past MAX_TILES
+// - Next.js build assets: cache-first (file names are content-hashed)
+// - Pages + /geo data: network-first, falling back to the last copy
+// API / Supabase calls are not cached here – useNearbyBoats keeps the last
+// fleet and useBookingQueue holds bookings made offline (lib/offline.ts)
+// ============================================
+
+const VERSION = 'v1';
+const TILE_CACHE = `daranee-tiles-${VERSION}`;
+const ASSET_CACHE = `daranee-assets-${VERSION}`;
+const PAGE_CACHE = `daranee-pages-${VERSION}`;
+const CACHES = [TILE_CACHE, ASSET_CACHE, PAGE_CACHE];
+
+const TILE_HOSTS = ['basemaps.cartocdn.com', 'tiles.openseamap.org'];
+const MAX_TILES = 1500;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    // Drop caches from older versions
+    const names = await caches.keys();
+    await Promise.all(
+      names.filter((name) => name.startsWith('daranee-') && !CACHES.includes(name)).map((name) => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+const isTile = (url) => TILE_HOSTS.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`));
+
+// Cross-origin <img> tiles come back opaque (status 0) – still worth keeping
+const cacheable = (response) => response.ok || response.type === 'opaque';
+
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  // keys() is in insertion order → delete the oldest first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (cacheable(response)) {
+    await cache.put(request, response.clone());
+    if (maxEntries) trimCache(cacheName, maxEntries);
+  }
+  return response;
+};
+
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (isTile(url)) {
+    event.respondWith(cacheFirst(request, TILE_CACHE, MAX_TILES));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+  } else if (request.mode === 'navigate' || url.pathname.startsWith('/geo/')) {
+    event.respondWith(networkFirst(request, PAGE_CACHE));
+  }
+});
@@ -0,0 +1,126 @@
+-- ============================================
+-- Fleet analytics
+-- Bookings keep their pickup point (demand heat map) and every boat
+-- status change is logged by a trigger. get_fleet_analytics returns
+-- the raw rows for a date range; lib/analytics.ts aggregates them
+-- into utilization, revenue and cancellation figures.
+-- ============================================
+
+-- Filled by create_booking (piers.sql)
+ALTER TABLE daranee.bookings
+  ADD COLUMN IF NOT EXISTS pickup_lat double precision CHECK (pickup_lat BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS pickup_lon double precision CHECK (pickup_lon BETWEEN -180 AND 180);
+
+CREATE TABLE IF NOT EXISTS daranee.boat_status_history (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  boat_id uuid NOT NULL REFERENCES daranee.boats(id) ON DELETE CASCADE,
+  status text NOT NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS boat_status_history_boat_changed_idx
+  ON daranee.boat_status_history (boat_id, changed_at);
+
+-- No policies: read through get_fleet_analytics only
+ALTER TABLE daranee.boat_status_history ENABLE ROW LEVEL SECURITY;
+
+-- History starts now; boats count as in their current status since they were created
+INSERT INTO daranee.boat_status_history (boat_id, status, changed_at)
+SELECT b.id, b.status, b.created_at
+FROM daranee.boats b
+WHERE NOT EXISTS (SELECT 1 FROM daranee.boat_status_history h WHERE h.boat_id = b.id);
+
+CREATE OR REPLACE FUNCTION daranee.log_boat_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO daranee.boat_status_history (boat_id, status) VALUES (NEW.id, NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS boats_log_status ON daranee.boats;
+CREATE TRIGGER boats_log_status
+  AFTER INSERT OR UPDATE OF status ON daranee.boats
+  FOR EACH ROW EXECUTE FUNCTION daranee.log_boat_status();
+
+-- --------------------------------------------
+-- get_fleet_analytics: boats the caller manages (all for admins),
+-- bookings overlapping the range, and status changes inside it plus
+-- each boat's last change before it
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_fleet_analytics(
+  caller_line_user_id text,
+  range_start timestamptz,
+  range_end timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_operator daranee.operators%ROWTYPE;
+BEGIN
+  SELECT * INTO v_operator FROM daranee.operators o WHERE o.line_user_id = caller_line_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not registered as an operator');
+  END IF;
+
+  IF range_end <= range_start THEN
+    RETURN jsonb_build_object('success', false, 'error', 'range_end must be after range_start');
+  END IF;
+
+  RETURN (
+    WITH managed AS (
+      SELECT b.* FROM daranee.boats b WHERE daranee.can_manage_boat(v_operator, b)
+    )
+    SELECT jsonb_build_object(
+      'success', true,
+      'boats', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'id', m.id, 'name', m.name, 'boat_type', m.boat_type, 'owner_id', m.owner_id,
+          'created_at', m.created_at, 'retired_at', m.retired_at
+        ) ORDER BY m.name)
+        FROM managed m
+      ), '[]'::jsonb),
+      'bookings', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'id', bk.id, 'boat_id', bk.boat_id, 'start_time', bk.start_time, 'end_time', bk.end_time,
+          'status', bk.status, 'total_price', bk.total_price, 'pickup_lat', bk.pickup_lat,
+          'pickup_lon', bk.pickup_lon, 'created_at', bk.created_at
+        ) ORDER BY bk.start_time)
+        FROM daranee.bookings bk
+        JOIN managed m ON m.id = bk.boat_id
+        WHERE bk.start_time < range_end AND bk.end_time > range_start
+      ), '[]'::jsonb),
+      'status_history', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'boat_id', h.boat_id, 'status', h.status, 'changed_at', h.changed_at
+        ) ORDER BY h.changed_at)
+        FROM (
+          SELECT h.* FROM daranee.boat_status_history h
+          JOIN managed m ON m.id = h.boat_id
+          WHERE h.changed_at >= range_start AND h.changed_at < range_end
+          UNION ALL
+          (
+            SELECT DISTINCT ON (h.boat_id) h.* FROM daranee.boat_status_history h
+            JOIN managed m ON m.id = h.boat_id
+            WHERE h.changed_at < range_start
+            ORDER BY h.boat_id, h.changed_at DESC
+          )
+        ) h
+      ), '[]'::jsonb)
+    )
+  );
+END;
+$$;
+
+-- Called from /api/analytics with the service credential only
+REVOKE EXECUTE ON FUNCTION public.get_fleet_analytics(text, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_fleet_analytics(text, timestamptz, timestamptz) TO service_role;
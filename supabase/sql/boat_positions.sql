@@ -0,0 +1,47 @@
+-- ============================================
+-- Boat position broadcast
+-- Sends id/lat/lon/heading/timestamp on 'daranee:boat_positions'
+-- so clients can move markers without calling find_nearby_boats again
+-- ============================================
+
+ALTER TABLE daranee.boats
+  ADD COLUMN IF NOT EXISTS heading real;
+
+CREATE OR REPLACE FUNCTION daranee.broadcast_boat_position()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+BEGIN
+  IF NEW.location IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.location IS NOT DISTINCT FROM OLD.location
+     AND NEW.heading IS NOT DISTINCT FROM OLD.heading THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM realtime.send(
+    jsonb_build_object(
+      'id', NEW.id,
+      'latitude', ST_Y(NEW.location::geometry),
+      'longitude', ST_X(NEW.location::geometry),
+      'heading', NEW.heading,
+      'timestamp', now()
+    ),
+    'position',
+    'daranee:boat_positions',
+    false
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS boats_broadcast_position ON daranee.boats;
+CREATE TRIGGER boats_broadcast_position
+  AFTER INSERT OR UPDATE OF location, heading ON daranee.boats
+  FOR EACH ROW EXECUTE FUNCTION daranee.broadcast_boat_position();
@@ -0,0 +1,108 @@
+-- ============================================
+-- Boat schedule: maintenance windows + busy intervals
+-- A boat is busy while it has a pending/confirmed booking,
+-- a maintenance window, or status = 'maintenance' (open-ended)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS daranee.maintenance_windows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  boat_id uuid NOT NULL REFERENCES daranee.boats(id) ON DELETE CASCADE,
+  start_time timestamptz NOT NULL,
+  end_time timestamptz NOT NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS maintenance_windows_boat_time_idx
+  ON daranee.maintenance_windows (boat_id, start_time, end_time);
+
+ALTER TABLE daranee.maintenance_windows ENABLE ROW LEVEL SECURITY;
+
+-- Windows are written through the service credential only
+DROP POLICY IF EXISTS maintenance_windows_read ON daranee.maintenance_windows;
+CREATE POLICY maintenance_windows_read ON daranee.maintenance_windows
+  FOR SELECT TO anon, authenticated USING (true);
+
+-- --------------------------------------------
+-- get_boat_busy_intervals: busy time inside [range_start, range_end)
+-- Returns only times and kind – never who booked
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_boat_busy_intervals(
+  boat_id uuid,
+  range_start timestamptz,
+  range_end timestamptz
+)
+RETURNS TABLE (
+  start_time timestamptz,
+  end_time timestamptz,
+  kind text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+  SELECT range_start, range_end, 'maintenance'
+  FROM daranee.boats b
+  WHERE b.id = get_boat_busy_intervals.boat_id
+    AND b.status = 'maintenance'
+
+  UNION ALL
+
+  SELECT bk.start_time, bk.end_time, 'booking'
+  FROM daranee.bookings bk
+  WHERE bk.boat_id = get_boat_busy_intervals.boat_id
+    AND bk.status IN ('pending', 'confirmed')
+    AND bk.start_time < range_end
+    AND bk.end_time > range_start
+    AND NOT EXISTS (
+      SELECT 1 FROM daranee.boats b
+      WHERE b.id = get_boat_busy_intervals.boat_id AND b.status = 'maintenance'
+    )
+
+  UNION ALL
+
+  SELECT w.start_time, w.end_time, 'maintenance'
+  FROM daranee.maintenance_windows w
+  WHERE w.boat_id = get_boat_busy_intervals.boat_id
+    AND w.start_time < range_end
+    AND w.end_time > range_start
+    AND NOT EXISTS (
+      SELECT 1 FROM daranee.boats b
+      WHERE b.id = get_boat_busy_intervals.boat_id AND b.status = 'maintenance'
+    )
+
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_boat_busy_intervals(uuid, timestamptz, timestamptz)
+  TO anon, authenticated, service_role;
+
+-- --------------------------------------------
+-- check_boat_availability now also respects maintenance windows
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.check_boat_availability(
+  boat_id uuid,
+  start_time timestamptz,
+  end_time timestamptz
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM daranee.boats b
+    WHERE b.id = check_boat_availability.boat_id
+  )
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.get_boat_busy_intervals(
+      check_boat_availability.boat_id,
+      check_boat_availability.start_time,
+      check_boat_availability.end_time
+    )
+  );
+$$;
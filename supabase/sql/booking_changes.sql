@@ -0,0 +1,39 @@
+-- ============================================
+-- Booking change broadcast
+-- Sends id/boat_id on 'daranee:booking_changes' whenever a booking row
+-- changes. No user ids, times or pickup points: clients refetch what
+-- they may see through the API
+-- ============================================
+
+CREATE OR REPLACE FUNCTION daranee.broadcast_booking_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_booking := OLD;
+  ELSE
+    v_booking := NEW;
+  END IF;
+
+  PERFORM realtime.send(
+    jsonb_build_object('id', v_booking.id, 'boat_id', v_booking.boat_id),
+    'booking_change',
+    'daranee:booking_changes',
+    false
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_broadcast_change ON daranee.bookings;
+CREATE TRIGGER bookings_broadcast_change
+  AFTER INSERT OR UPDATE OR DELETE ON daranee.bookings
+  FOR EACH ROW EXECUTE FUNCTION daranee.broadcast_booking_change();
+
+REVOKE EXECUTE ON FUNCTION daranee.broadcast_booking_change() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,140 @@
+-- ============================================
+-- Booking payments: PromptPay QR + mark paid
+-- The QR payload is built by the API from the amount and the
+-- boat operator's promptpay_id; the database only tracks status
+-- ============================================
+
+ALTER TABLE daranee.bookings
+  ADD COLUMN IF NOT EXISTS payment_status text NOT NULL DEFAULT 'unpaid'
+    CHECK (payment_status IN ('unpaid', 'paid')),
+  ADD COLUMN IF NOT EXISTS paid_at timestamptz,
+  ADD COLUMN IF NOT EXISTS payment_ref text;
+
+ALTER TABLE daranee.operators
+  ADD COLUMN IF NOT EXISTS promptpay_id text;
+
+-- --------------------------------------------
+-- get_booking_payment: amount, status and payee for a booking
+-- Readable by the passenger and by the boat's operator
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_booking_payment(
+  booking_id uuid,
+  caller_line_user_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+  v_operator daranee.operators%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = get_booking_payment.booking_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  SELECT o.* INTO v_operator
+  FROM daranee.boats bt
+  JOIN daranee.operators o ON o.id = bt.owner_id
+  WHERE bt.id = v_booking.boat_id;
+
+  IF v_booking.line_user_id <> caller_line_user_id
+     AND v_operator.line_user_id IS DISTINCT FROM caller_line_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to view this booking');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking.id,
+    'amount', COALESCE(v_booking.total_price, 0),
+    'payment_status', v_booking.payment_status,
+    'paid_at', v_booking.paid_at,
+    'promptpay_id', v_operator.promptpay_id
+  );
+END;
+$$;
+
+-- --------------------------------------------
+-- mark_booking_paid: record a payment
+-- caller_line_user_id = boat operator, or NULL for the trusted payment callback
+-- A pending booking becomes confirmed once paid
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.mark_booking_paid(
+  booking_id uuid,
+  caller_line_user_id text,
+  payment_ref text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+  v_status text;
+  v_paid_at timestamptz := now();
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = mark_booking_paid.booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF caller_line_user_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM daranee.boats bt
+    JOIN daranee.operators o ON o.id = bt.owner_id
+    WHERE bt.id = v_booking.boat_id AND o.line_user_id = caller_line_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to update this booking');
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking can no longer be paid');
+  END IF;
+
+  -- Already paid: idempotent for repeated callbacks
+  IF v_booking.payment_status = 'paid' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'booking_id', v_booking.id,
+      'status', v_booking.status,
+      'payment_status', 'paid',
+      'paid_at', v_booking.paid_at
+    );
+  END IF;
+
+  v_status := CASE WHEN v_booking.status = 'pending' THEN 'confirmed' ELSE v_booking.status END;
+
+  UPDATE daranee.bookings
+  SET payment_status = 'paid',
+      paid_at = v_paid_at,
+      payment_ref = mark_booking_paid.payment_ref,
+      status = v_status,
+      updated_at = now()
+  WHERE id = v_booking.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking.id,
+    'status', v_status,
+    'payment_status', 'paid',
+    'paid_at', v_paid_at
+  );
+END;
+$$;
+
+-- Called from /api/bookings/:id/payment and /paid with the service credential only
+REVOKE EXECUTE ON FUNCTION public.get_booking_payment(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_booking_payment(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.mark_booking_paid(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_booking_paid(uuid, text, text) TO service_role;
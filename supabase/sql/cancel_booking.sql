@@ -0,0 +1,49 @@
+-- ============================================
+-- cancel_booking: passenger cancels own booking
+-- Only pending/confirmed bookings can be cancelled
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.cancel_booking(
+  booking_id uuid,
+  caller_line_user_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = cancel_booking.booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF v_booking.line_user_id <> caller_line_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to cancel this booking');
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking can no longer be cancelled');
+  END IF;
+
+  UPDATE daranee.bookings
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = v_booking.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking.id,
+    'status', 'cancelled'
+  );
+END;
+$$;
+
+-- Called from /api/bookings/:id/cancel with the service credential only
+REVOKE EXECUTE ON FUNCTION public.cancel_booking(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_booking(uuid, text) TO service_role;
@@ -0,0 +1,89 @@
+-- ============================================
+-- find_boats_in_bounds: boats inside the visible map area
+-- Same filters as find_nearby_boats; distance_m is measured
+-- from ref_lat/ref_lon (the passenger), not the box center, and
+-- radius_km (when set) keeps only boats that close to it
+-- ============================================
+
+-- The signature gained radius_km: drop the old one before re-creating
+DROP FUNCTION IF EXISTS daranee.find_boats_in_bounds(
+  double precision, double precision, double precision, double precision, double precision, double precision,
+  text, text[], integer, numeric, numeric, text
+);
+
+CREATE OR REPLACE FUNCTION daranee.find_boats_in_bounds(
+  min_lat double precision,
+  min_lon double precision,
+  max_lat double precision,
+  max_lon double precision,
+  ref_lat double precision,
+  ref_lon double precision,
+  radius_km double precision DEFAULT NULL,
+  boat_status text DEFAULT NULL,
+  boat_types text[] DEFAULT NULL,
+  min_capacity integer DEFAULT NULL,
+  min_price numeric DEFAULT NULL,
+  max_price numeric DEFAULT NULL,
+  sort_by text DEFAULT 'distance'
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  status text,
+  boat_type text,
+  capacity integer,
+  price_per_hour numeric,
+  latitude double precision,
+  longitude double precision,
+  heading real,
+  updated_at timestamptz,
+  distance_m double precision,
+  operator_rating numeric,
+  operator_total_trips integer
+)
+LANGUAGE sql
+STABLE
+-- Reads operator ratings, which the browser may not select (operator_console.sql)
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(ref_lon, ref_lat), 4326)::geography AS point
+  )
+  SELECT
+    b.id,
+    b.name,
+    b.status,
+    b.boat_type,
+    b.capacity,
+    b.price_per_hour,
+    ST_Y(b.location::geometry) AS latitude,
+    ST_X(b.location::geometry) AS longitude,
+    b.heading,
+    b.updated_at,
+    ST_Distance(b.location, origin.point) AS distance_m,
+    o.rating AS operator_rating,
+    o.total_trips AS operator_total_trips
+  FROM daranee.boats b
+  CROSS JOIN origin
+  LEFT JOIN daranee.operators o ON o.id = b.owner_id
+  WHERE b.location IS NOT NULL
+    -- && uses the GiST index on location
+    AND b.location::geometry && ST_MakeEnvelope(min_lon, min_lat, max_lon, max_lat, 4326)
+    AND (radius_km IS NULL OR ST_DWithin(b.location, origin.point, radius_km * 1000))
+    AND (find_boats_in_bounds.boat_status IS NULL OR b.status = find_boats_in_bounds.boat_status)
+    AND (boat_types IS NULL OR b.boat_type = ANY (boat_types))
+    AND (min_capacity IS NULL OR b.capacity >= min_capacity)
+    AND (min_price IS NULL OR b.price_per_hour >= min_price)
+    AND (max_price IS NULL OR b.price_per_hour <= max_price)
+  ORDER BY
+    CASE WHEN sort_by = 'price' THEN b.price_per_hour END ASC NULLS LAST,
+    CASE WHEN sort_by = 'capacity' THEN b.capacity END DESC,
+    distance_m ASC
+  LIMIT 500;
+$$;
+
+GRANT EXECUTE ON FUNCTION daranee.find_boats_in_bounds(
+  double precision, double precision, double precision, double precision, double precision, double precision,
+  double precision, text, text[], integer, numeric, numeric, text
+) TO anon, authenticated;
@@ -0,0 +1,623 @@
+-- ============================================
+-- Fleet administration
+-- Owners create, edit and retire their boats and schedule maintenance;
+-- operators with is_admin manage every boat. All writes go through
+-- /api/fleet and /api/boats/** with the service credential, and every
+-- change is written to boat_audit_log.
+-- ============================================
+
+ALTER TABLE daranee.boats
+  ADD COLUMN IF NOT EXISTS home_latitude double precision
+    CHECK (home_latitude BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS home_longitude double precision
+    CHECK (home_longitude BETWEEN -180 AND 180),
+  ADD COLUMN IF NOT EXISTS retired_at timestamptz,
+  -- Window that put the boat in maintenance (cleared when it ends)
+  ADD COLUMN IF NOT EXISTS maintenance_window_id uuid
+    REFERENCES daranee.maintenance_windows(id) ON DELETE SET NULL;
+
+ALTER TABLE daranee.operators
+  ADD COLUMN IF NOT EXISTS is_admin boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS daranee.boat_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  boat_id uuid NOT NULL REFERENCES daranee.boats(id) ON DELETE CASCADE,
+  -- NULL for the scheduled maintenance sweep
+  actor_line_user_id text,
+  actor_operator_id uuid REFERENCES daranee.operators(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN (
+    'created', 'updated', 'retired',
+    'maintenance_scheduled', 'maintenance_cancelled', 'maintenance_started', 'maintenance_ended'
+  )),
+  changes jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS boat_audit_log_boat_created_idx
+  ON daranee.boat_audit_log (boat_id, created_at DESC);
+
+-- No policies: read through get_boat_audit_log only
+ALTER TABLE daranee.boat_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- --------------------------------------------
+-- Helpers
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION daranee.can_manage_boat(p_operator daranee.operators, p_boat daranee.boats)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_operator.id IS NOT NULL AND (p_operator.is_admin OR p_boat.owner_id = p_operator.id);
+$$;
+
+CREATE OR REPLACE FUNCTION daranee.write_boat_audit(
+  p_boat_id uuid,
+  p_actor daranee.operators,
+  p_action text,
+  p_changes jsonb
+)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO daranee.boat_audit_log (boat_id, actor_line_user_id, actor_operator_id, action, changes)
+  VALUES (p_boat_id, p_actor.line_user_id, p_actor.id, p_action, p_changes);
+$$;
+
+-- { field: { from, to } } for the fields that differ
+CREATE OR REPLACE FUNCTION daranee.jsonb_changes(p_before jsonb, p_after jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(
+    COALESCE(jsonb_object_agg(key, jsonb_build_object('from', p_before -> key, 'to', value)), '{}'::jsonb),
+    '{}'::jsonb
+  )
+  FROM jsonb_each(p_after)
+  WHERE (p_before -> key) IS DISTINCT FROM value;
+$$;
+
+-- --------------------------------------------
+-- get_fleet: boats the caller may manage, possible owners, open windows
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_fleet(caller_line_user_id text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_operator daranee.operators%ROWTYPE;
+BEGIN
+  SELECT * INTO v_operator FROM daranee.operators o WHERE o.line_user_id = caller_line_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not registered as an operator');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'operator_id', v_operator.id,
+    'is_admin', v_operator.is_admin,
+    'boats', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', b.id, 'name', b.name, 'status', b.status, 'boat_type', b.boat_type,
+        'capacity', b.capacity, 'price_per_hour', b.price_per_hour, 'owner_id', b.owner_id,
+        'home_latitude', b.home_latitude, 'home_longitude', b.home_longitude,
+        'retired_at', b.retired_at, 'created_at', b.created_at, 'updated_at', b.updated_at
+      ) ORDER BY b.name)
+      FROM daranee.boats b
+      WHERE daranee.can_manage_boat(v_operator, b)
+    ), '[]'::jsonb),
+    'operators', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', o.id, 'name', o.name) ORDER BY o.name)
+      FROM daranee.operators o
+    ), '[]'::jsonb),
+    'maintenance_windows', COALESCE((
+      SELECT jsonb_agg(to_jsonb(w) ORDER BY w.start_time)
+      FROM daranee.maintenance_windows w
+      JOIN daranee.boats b ON b.id = w.boat_id
+      WHERE w.end_time > now() AND daranee.can_manage_boat(v_operator, b)
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- --------------------------------------------
+-- save_boat: create (boat_id NULL) or edit a boat
+-- Owners may hand their own boats to another operator;
+-- only admins create boats for someone else
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.save_boat(
+  boat_id uuid,
+  caller_line_user_id text,
+  name text,
+  boat_type text,
+  capacity integer,
+  price_per_hour numeric,
+  home_latitude double precision,
+  home_longitude double precision,
+  owner_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_operator daranee.operators%ROWTYPE;
+  v_boat daranee.boats%ROWTYPE;
+  v_owner_id uuid;
+  v_name text := btrim(save_boat.name);
+  v_values jsonb;
+  v_changes jsonb;
+BEGIN
+  SELECT * INTO v_operator FROM daranee.operators o WHERE o.line_user_id = caller_line_user_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not registered as an operator');
+  END IF;
+
+  -- Same rules as lib/fleet.ts validateBoatInput
+  IF v_name = '' OR char_length(v_name) > 60
+     OR save_boat.boat_type NOT IN ('standard', 'premium', 'speedboat', 'longtail')
+     OR save_boat.capacity IS NULL OR save_boat.capacity NOT BETWEEN 1 AND 100
+     OR (save_boat.price_per_hour IS NOT NULL AND save_boat.price_per_hour NOT BETWEEN 0 AND 100000)
+     OR save_boat.home_latitude IS NULL OR abs(save_boat.home_latitude) > 90
+     OR save_boat.home_longitude IS NULL OR abs(save_boat.home_longitude) > 180 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid boat');
+  END IF;
+
+  IF save_boat.boat_id IS NOT NULL THEN
+    SELECT * INTO v_boat FROM daranee.boats b WHERE b.id = save_boat.boat_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Boat not found');
+    END IF;
+    IF NOT daranee.can_manage_boat(v_operator, v_boat) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Not allowed to update this boat');
+    END IF;
+    IF v_boat.retired_at IS NOT NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Boat is retired');
+    END IF;
+  END IF;
+
+  v_owner_id := COALESCE(save_boat.owner_id, v_boat.owner_id, v_operator.id);
+
+  IF NOT EXISTS (SELECT 1 FROM daranee.operators o WHERE o.id = v_owner_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Owner not found');
+  END IF;
+
+  IF save_boat.boat_id IS NULL AND v_owner_id <> v_operator.id AND NOT v_operator.is_admin THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to assign this owner');
+  END IF;
+
+  v_values := jsonb_build_object(
+    'name', v_name,
+    'boat_type', save_boat.boat_type,
+    'capacity', save_boat.capacity,
+    'price_per_hour', save_boat.price_per_hour,
+    'home_latitude', save_boat.home_latitude,
+    'home_longitude', save_boat.home_longitude,
+    'owner_id', v_owner_id
+  );
+
+  IF save_boat.boat_id IS NULL THEN
+    INSERT INTO daranee.boats (
+      name, status, boat_type, capacity, price_per_hour, owner_id,
+      home_latitude, home_longitude, location
+    )
+    VALUES (
+      v_name, 'available', save_boat.boat_type, save_boat.capacity, save_boat.price_per_hour, v_owner_id,
+      save_boat.home_latitude, save_boat.home_longitude,
+      ST_SetSRID(ST_MakePoint(save_boat.home_longitude, save_boat.home_latitude), 4326)::geography
+    )
+    RETURNING * INTO v_boat;
+
+    PERFORM daranee.write_boat_audit(v_boat.id, v_operator, 'created', daranee.jsonb_changes('{}'::jsonb, v_values));
+    RETURN jsonb_build_object('success', true, 'boat_id', v_boat.id);
+  END IF;
+
+  v_changes := daranee.jsonb_changes(
+    jsonb_build_object(
+      'name', v_boat.name,
+      'boat_type', v_boat.boat_type,
+      'capacity', v_boat.capacity,
+      'price_per_hour', v_boat.price_per_hour,
+      'home_latitude', v_boat.home_latitude,
+      'home_longitude', v_boat.home_longitude,
+      'owner_id', v_boat.owner_id
+    ),
+    v_values
+  );
+
+  IF v_changes IS NOT NULL THEN
+    UPDATE daranee.boats b
+    SET name = v_name,
+        boat_type = save_boat.boat_type,
+        capacity = save_boat.capacity,
+        price_per_hour = save_boat.price_per_hour,
+        home_latitude = save_boat.home_latitude,
+        home_longitude = save_boat.home_longitude,
+        owner_id = v_owner_id,
+        updated_at = now()
+    WHERE b.id = v_boat.id;
+
+    PERFORM daranee.write_boat_audit(v_boat.id, v_operator, 'updated', v_changes);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'boat_id', v_boat.id);
+END;
+$$;
+
+-- --------------------------------------------
+-- retire_boat: off the map (location cleared) and closed for bookings
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.retire_boat(boat_id uuid, caller_line_user_id text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_operator daranee.operators%ROWTYPE;
+  v_boat daranee.boats%ROWTYPE;
+  v_retired_at timestamptz := now();
+BEGIN
+  SELECT * INTO v_boat FROM daranee.boats b WHERE b.id = retire_boat.boat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Boat not found');
+  END IF;
+
+  SELECT * INTO v_operator FROM daranee.operators o WHERE o.line_user_id = caller_line_user_id;
+  IF NOT daranee.can_manage_boat(v_operator, v_boat) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to retire this boat');
+  END IF;
+
+  IF v_boat.retired_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'boat_id', v_boat.id, 'retired_at', v_boat.retired_at);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM daranee.bookings bk
+    WHERE bk.boat_id = v_boat.id
+      AND bk.status IN ('pending', 'confirmed')
+      AND bk.end_time > now()
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Boat has upcoming bookings');
+  END IF;
+
+  UPDATE daranee.boats b
+  SET retired_at = v_retired_at,
+      status = 'maintenance',
+      maintenance_window_id = NULL,
+      location = NULL,
+      updated_at = now()
+  WHERE b.id = v_boat.id;
+
+  PERFORM daranee.write_boat_audit(v_boat.id, v_operator, 'retired', jsonb_build_object(
+    'retired_at', jsonb_build_object('from', NULL, 'to', v_retired_at),
+    'status', jsonb_build_object('from', v_boat.status, 'to', 'maintenance')
+  ));
+
+  RETURN jsonb_build_object('success', true, 'boat_id', v_boat.id, 'retired_at', v_retired_at);
+END;
+$$;
+
+-- --------------------------------------------
+-- update_boat_status: redefined so a retired boat stays out of service
+-- (the status buttons would otherwise put it back on the map); owners
+-- and admins, as for every other fleet write
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.update_boat_status(
+  boat_id uuid,
+  new_status text,
+  caller_line_user_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_operator daranee.operators%ROWTYPE;
+  v_boat daranee.boats%ROWTYPE;
+  v_updated_at timestamptz := now();
+BEGIN
+  SELECT * INTO v_boat FROM daranee.boats b WHERE b.id = update_boat_status.boat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Boat not found');
+  END IF;
+
+  SELECT * INTO v_operator FROM daranee.operators o WHERE o.line_user_id = caller_line_user_id;
+  IF NOT daranee.can_manage_boat(v_operator, v_boat) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to update this boat');
+  END IF;
+
+  IF v_boat.retired_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Boat is retired');
+  END IF;
+
+  IF new_status NOT IN ('available', 'busy', 'booked', 'maintenance') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid status');
+  END IF;
+
+  UPDATE daranee.boats b
+  SET status = new_status, updated_at = v_updated_at
+  WHERE b.id = v_boat.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'boat_id', v_boat.id,
+    'status', new_status,
+    'updated_at', v_updated_at
+  );
+END;
+$$;
+
+-- --------------------------------------------
+-- check_boat_availability: as in boat_schedule.sql, and never for a retired boat
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.check_boat_availability(
+  boat_id uuid,
+  start_time timestamptz,
+  end_time timestamptz
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM daranee.boats b
+    WHERE b.id = check_boat_availability.boat_id
+      AND b.retired_at IS NULL
+  )
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.get_boat_busy_intervals(
+      check_boat_availability.boat_id,
+      check_boat_availability.start_time,
+      check_boat_availability.end_time
+    )
+  );
+$$;
+
+-- --------------------------------------------
+-- schedule_maintenance / cancel_maintenance
+-- Windows already block bookings (get_boat_busy_intervals);
+-- apply_maintenance_windows flips the status when they start and end
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.schedule_maintenance(
+  boat_id uuid,
+  caller_line_user_id text,
+  start_time timestamptz,
+  end_time timestamptz,
+  reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_operator daranee.operators%ROWTYPE;
+  v_boat daranee.boats%ROWTYPE;
+  v_reason text := NULLIF(btrim(schedule_maintenance.reason), '');
+  v_window_id uuid;
+BEGIN
+  SELECT * INTO v_boat FROM daranee.boats b WHERE b.id = schedule_maintenance.boat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Boat not found');
+  END IF;
+
+  SELECT * INTO v_operator FROM daranee.operators o WHERE o.line_user_id = caller_line_user_id;
+  IF NOT daranee.can_manage_boat(v_operator, v_boat) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to update this boat');
+  END IF;
+
+  IF v_boat.retired_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Boat is retired');
+  END IF;
+
+  IF schedule_maintenance.end_time <= schedule_maintenance.start_time THEN
+    RETURN jsonb_build_object('success', false, 'error', 'end_time must be after start_time');
+  END IF;
+
+  IF schedule_maintenance.end_time <= now() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Maintenance window has already ended');
+  END IF;
+
+  IF char_length(v_reason) > 200 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reason may not exceed 200 characters');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM daranee.bookings bk
+    WHERE bk.boat_id = v_boat.id
+      AND bk.status IN ('pending', 'confirmed')
+      AND bk.start_time < schedule_maintenance.end_time
+      AND bk.end_time > schedule_maintenance.start_time
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Maintenance window overlaps existing bookings');
+  END IF;
+
+  INSERT INTO daranee.maintenance_windows (boat_id, start_time, end_time, reason)
+  VALUES (v_boat.id, schedule_maintenance.start_time, schedule_maintenance.end_time, v_reason)
+  RETURNING id INTO v_window_id;
+
+  PERFORM daranee.write_boat_audit(v_boat.id, v_operator, 'maintenance_scheduled', jsonb_build_object(
+    'start_time', jsonb_build_object('from', NULL, 'to', schedule_maintenance.start_time),
+    'end_time', jsonb_build_object('from', NULL, 'to', schedule_maintenance.end_time),
+    'reason', jsonb_build_object('from', NULL, 'to', v_reason)
+  ));
+
+  -- A window that has already started takes effect now
+  PERFORM daranee.apply_maintenance_windows();
+
+  RETURN jsonb_build_object('success', true, 'window_id', v_window_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_maintenance(window_id uuid, caller_line_user_id text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_operator daranee.operators%ROWTYPE;
+  v_boat daranee.boats%ROWTYPE;
+  v_window daranee.maintenance_windows%ROWTYPE;
+BEGIN
+  SELECT * INTO v_window FROM daranee.maintenance_windows w WHERE w.id = cancel_maintenance.window_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Maintenance window not found');
+  END IF;
+
+  SELECT * INTO v_boat FROM daranee.boats b WHERE b.id = v_window.boat_id FOR UPDATE;
+  SELECT * INTO v_operator FROM daranee.operators o WHERE o.line_user_id = caller_line_user_id;
+  IF NOT daranee.can_manage_boat(v_operator, v_boat) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to update this boat');
+  END IF;
+
+  DELETE FROM daranee.maintenance_windows w WHERE w.id = v_window.id;
+
+  PERFORM daranee.write_boat_audit(v_boat.id, v_operator, 'maintenance_cancelled', jsonb_build_object(
+    'start_time', jsonb_build_object('from', v_window.start_time, 'to', NULL),
+    'end_time', jsonb_build_object('from', v_window.end_time, 'to', NULL)
+  ));
+
+  PERFORM daranee.apply_maintenance_windows();
+
+  RETURN jsonb_build_object('success', true, 'window_id', v_window.id);
+END;
+$$;
+
+-- --------------------------------------------
+-- get_boat_audit_log: newest first, with the actor's name
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_boat_audit_log(boat_id uuid, caller_line_user_id text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_operator daranee.operators%ROWTYPE;
+  v_boat daranee.boats%ROWTYPE;
+BEGIN
+  SELECT * INTO v_boat FROM daranee.boats b WHERE b.id = get_boat_audit_log.boat_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Boat not found');
+  END IF;
+
+  SELECT * INTO v_operator FROM daranee.operators o WHERE o.line_user_id = caller_line_user_id;
+  IF NOT daranee.can_manage_boat(v_operator, v_boat) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to view this boat');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'entries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', l.id, 'boat_id', l.boat_id, 'actor_line_user_id', l.actor_line_user_id,
+        'actor_name', o.name, 'action', l.action, 'changes', l.changes, 'created_at', l.created_at
+      ) ORDER BY l.created_at DESC)
+      FROM daranee.boat_audit_log l
+      LEFT JOIN daranee.operators o ON o.id = l.actor_operator_id
+      WHERE l.boat_id = v_boat.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- --------------------------------------------
+-- apply_maintenance_windows: boats enter maintenance when a window
+-- starts and go back to available when the window that started it
+-- ends (unless someone changed the status in between)
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION daranee.apply_maintenance_windows()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_started integer;
+  v_ended integer;
+BEGIN
+  WITH due AS (
+    SELECT DISTINCT ON (b.id) b.id, b.status AS old_status, w.id AS window_id
+    FROM daranee.boats b
+    JOIN daranee.maintenance_windows w ON w.boat_id = b.id
+    WHERE w.start_time <= now() AND w.end_time > now()
+      AND b.retired_at IS NULL
+      AND b.status <> 'maintenance'
+      -- A status set by hand during the window sticks
+      AND b.maintenance_window_id IS DISTINCT FROM w.id
+    ORDER BY b.id, w.start_time
+  ), started AS (
+    UPDATE daranee.boats b
+    SET status = 'maintenance', maintenance_window_id = d.window_id, updated_at = now()
+    FROM due d
+    WHERE b.id = d.id
+    RETURNING b.id, d.old_status
+  ), logged AS (
+    INSERT INTO daranee.boat_audit_log (boat_id, action, changes)
+    SELECT s.id, 'maintenance_started',
+      jsonb_build_object('status', jsonb_build_object('from', s.old_status, 'to', 'maintenance'))
+    FROM started s
+  )
+  SELECT count(*) INTO v_started FROM started;
+
+  WITH ended AS (
+    UPDATE daranee.boats b
+    SET status = CASE WHEN b.status = 'maintenance' THEN 'available' ELSE b.status END,
+        maintenance_window_id = NULL,
+        updated_at = now()
+    WHERE b.maintenance_window_id IS NOT NULL
+      AND b.retired_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM daranee.maintenance_windows w
+        WHERE w.id = b.maintenance_window_id AND w.start_time <= now() AND w.end_time > now()
+      )
+    RETURNING b.id, b.status
+  ), logged AS (
+    INSERT INTO daranee.boat_audit_log (boat_id, action, changes)
+    SELECT e.id, 'maintenance_ended', jsonb_build_object('status', jsonb_build_object('from', 'maintenance', 'to', 'available'))
+    FROM ended e
+    WHERE e.status = 'available'
+  )
+  SELECT count(*) INTO v_ended FROM ended;
+
+  RETURN v_started + v_ended;
+END;
+$$;
+
+-- Every minute (requires the pg_cron extension)
+SELECT cron.schedule(
+  'daranee-apply-maintenance-windows',
+  '* * * * *',
+  $$SELECT daranee.apply_maintenance_windows()$$
+);
+
+-- Called from the fleet API routes with the service credential only
+REVOKE EXECUTE ON FUNCTION public.get_fleet(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_fleet(text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.save_boat(uuid, text, text, text, integer, numeric, double precision, double precision, uuid)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.save_boat(uuid, text, text, text, integer, numeric, double precision, double precision, uuid)
+  TO service_role;
+REVOKE EXECUTE ON FUNCTION public.retire_boat(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.retire_boat(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.update_boat_status(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_boat_status(uuid, text, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.schedule_maintenance(uuid, text, timestamptz, timestamptz, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.schedule_maintenance(uuid, text, timestamptz, timestamptz, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.cancel_maintenance(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_maintenance(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_boat_audit_log(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_boat_audit_log(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION daranee.apply_maintenance_windows() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,60 @@
+-- ============================================
+-- get_boat_location: one boat by id, with no radius limit
+-- Used when a shared link (/liff?boat=<id>) opens the map on a boat;
+-- distance_m is measured from ref_lat/ref_lon when given, else 0
+-- ============================================
+
+-- Return columns changed: drop before re-creating
+DROP FUNCTION IF EXISTS daranee.get_boat_location(uuid, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION daranee.get_boat_location(
+  boat_id uuid,
+  ref_lat double precision DEFAULT NULL,
+  ref_lon double precision DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  status text,
+  boat_type text,
+  capacity integer,
+  price_per_hour numeric,
+  latitude double precision,
+  longitude double precision,
+  heading real,
+  updated_at timestamptz,
+  distance_m double precision,
+  operator_rating numeric,
+  operator_total_trips integer
+)
+LANGUAGE sql
+STABLE
+-- Reads operator ratings, which the browser may not select (operator_console.sql)
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+  SELECT
+    b.id,
+    b.name,
+    b.status,
+    b.boat_type,
+    b.capacity,
+    b.price_per_hour,
+    ST_Y(b.location::geometry) AS latitude,
+    ST_X(b.location::geometry) AS longitude,
+    b.heading,
+    b.updated_at,
+    CASE
+      WHEN ref_lat IS NULL OR ref_lon IS NULL THEN 0
+      ELSE ST_Distance(b.location, ST_SetSRID(ST_MakePoint(ref_lon, ref_lat), 4326)::geography)
+    END AS distance_m,
+    o.rating AS operator_rating,
+    o.total_trips AS operator_total_trips
+  FROM daranee.boats b
+  LEFT JOIN daranee.operators o ON o.id = b.owner_id
+  WHERE b.id = get_boat_location.boat_id
+    AND b.location IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION daranee.get_boat_location(uuid, double precision, double precision)
+  TO anon, authenticated;
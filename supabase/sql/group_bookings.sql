@@ -0,0 +1,528 @@
+-- ============================================
+-- Group bookings – LINE friends join a booking through an invite link
+-- The booker (bookings.line_user_id) is the organizer. Everyone on the
+-- booking, organizer included, has a booking_members row and counts
+-- against boats.capacity. total_price is split evenly or by custom
+-- shares; each share's payment_status is between friends (the
+-- organizer collects and marks them), bookings.payment_status stays
+-- the payment to the operator.
+-- Keep the rules in sync with lib/groupBookings.ts
+-- ============================================
+
+-- No policies: invite codes are only handed out by the RPCs below
+CREATE TABLE IF NOT EXISTS daranee.booking_groups (
+  booking_id uuid PRIMARY KEY REFERENCES daranee.bookings(id) ON DELETE CASCADE,
+  invite_code text NOT NULL UNIQUE,
+  split_mode text NOT NULL DEFAULT 'even' CHECK (split_mode IN ('even', 'custom')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE daranee.booking_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS daranee.booking_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES daranee.bookings(id) ON DELETE CASCADE,
+  line_user_id text NOT NULL,
+  display_name text CHECK (char_length(display_name) <= 60),
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('organizer', 'member')),
+  share_amount numeric(10, 2) NOT NULL DEFAULT 0 CHECK (share_amount >= 0),
+  payment_status text NOT NULL DEFAULT 'unpaid' CHECK (payment_status IN ('unpaid', 'paid')),
+  paid_at timestamptz,
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (booking_id, line_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS booking_members_line_user_idx
+  ON daranee.booking_members (line_user_id);
+
+-- No policies: memberships name LINE users, so they are only read through
+-- the RPCs below and get_passenger_bookings (drops the earlier open policy)
+ALTER TABLE daranee.booking_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Booking members are readable" ON daranee.booking_members;
+REVOKE SELECT ON daranee.booking_members FROM anon, authenticated;
+
+-- --------------------------------------------
+-- split_booking_evenly: total_price over every member, in satang;
+-- leftover satang go to the organizer, then the earliest joiners.
+-- A member whose share changes loses the paid mark.
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION daranee.split_booking_evenly(p_booking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_total_satang bigint;
+  v_count integer;
+BEGIN
+  SELECT round(COALESCE(b.total_price, 0) * 100)::bigint INTO v_total_satang
+  FROM daranee.bookings b
+  WHERE b.id = p_booking_id;
+
+  SELECT count(*) INTO v_count
+  FROM daranee.booking_members m
+  WHERE m.booking_id = p_booking_id;
+
+  IF v_count = 0 THEN
+    RETURN;
+  END IF;
+
+  WITH ordered AS (
+    SELECT m.id, row_number() OVER (ORDER BY (m.role = 'organizer') DESC, m.joined_at) - 1 AS idx
+    FROM daranee.booking_members m
+    WHERE m.booking_id = p_booking_id
+  ),
+  shares AS (
+    SELECT o.id,
+           ((v_total_satang / v_count) + CASE WHEN o.idx < v_total_satang % v_count THEN 1 ELSE 0 END) / 100.0 AS share
+    FROM ordered o
+  )
+  UPDATE daranee.booking_members m
+  SET share_amount = s.share,
+      payment_status = CASE WHEN m.share_amount = s.share THEN m.payment_status ELSE 'unpaid' END,
+      paid_at = CASE WHEN m.share_amount = s.share THEN m.paid_at ELSE NULL END
+  FROM shares s
+  WHERE m.id = s.id;
+END;
+$$;
+
+-- --------------------------------------------
+-- create_booking_invite: organizer gets the invite code (created once)
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.create_booking_invite(
+  booking_id uuid,
+  caller_line_user_id text,
+  caller_name text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+  v_code text;
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = create_booking_invite.booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF v_booking.line_user_id <> caller_line_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to invite to this booking');
+  END IF;
+
+  SELECT g.invite_code INTO v_code
+  FROM daranee.booking_groups g
+  WHERE g.booking_id = v_booking.id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', true, 'invite_code', v_code);
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') OR v_booking.end_time <= now() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking can no longer be shared');
+  END IF;
+
+  v_code := replace(gen_random_uuid()::text, '-', '');
+
+  INSERT INTO daranee.booking_groups (booking_id, invite_code)
+  VALUES (v_booking.id, v_code);
+
+  INSERT INTO daranee.booking_members (booking_id, line_user_id, display_name, role, share_amount)
+  VALUES (v_booking.id, v_booking.line_user_id, left(caller_name, 60), 'organizer', COALESCE(v_booking.total_price, 0));
+
+  RETURN jsonb_build_object('success', true, 'invite_code', v_code);
+END;
+$$;
+
+-- --------------------------------------------
+-- get_booking_group: members, shares and payments
+-- Organizer or member only; the invite code only for the organizer
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_booking_group(
+  booking_id uuid,
+  caller_line_user_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+  v_group daranee.booking_groups%ROWTYPE;
+  v_is_organizer boolean;
+  v_capacity integer;
+  v_members jsonb;
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = get_booking_group.booking_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  v_is_organizer := v_booking.line_user_id = caller_line_user_id;
+
+  IF NOT v_is_organizer AND NOT EXISTS (
+    SELECT 1 FROM daranee.booking_members m
+    WHERE m.booking_id = v_booking.id AND m.line_user_id = caller_line_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to view this booking');
+  END IF;
+
+  SELECT * INTO v_group FROM daranee.booking_groups g WHERE g.booking_id = v_booking.id;
+  SELECT bt.capacity INTO v_capacity FROM daranee.boats bt WHERE bt.id = v_booking.boat_id;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(m) ORDER BY (m.role = 'organizer') DESC, m.joined_at), '[]'::jsonb)
+  INTO v_members
+  FROM daranee.booking_members m
+  WHERE m.booking_id = v_booking.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking.id,
+    'is_organizer', v_is_organizer,
+    'invite_code', CASE WHEN v_is_organizer THEN v_group.invite_code END,
+    'split_mode', COALESCE(v_group.split_mode, 'even'),
+    'total_price', COALESCE(v_booking.total_price, 0),
+    'capacity', v_capacity,
+    'members', v_members
+  );
+END;
+$$;
+
+-- --------------------------------------------
+-- get_booking_invite: what the join page shows before joining
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_booking_invite(
+  invite_code text,
+  caller_line_user_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+  v_boat daranee.boats%ROWTYPE;
+  v_organizer_name text;
+  v_member_count integer;
+BEGIN
+  SELECT b.* INTO v_booking
+  FROM daranee.booking_groups g
+  JOIN daranee.bookings b ON b.id = g.booking_id
+  WHERE g.invite_code = get_booking_invite.invite_code;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invite not found');
+  END IF;
+
+  SELECT * INTO v_boat FROM daranee.boats bt WHERE bt.id = v_booking.boat_id;
+
+  SELECT m.display_name INTO v_organizer_name
+  FROM daranee.booking_members m
+  WHERE m.booking_id = v_booking.id AND m.role = 'organizer';
+
+  SELECT count(*) INTO v_member_count
+  FROM daranee.booking_members m
+  WHERE m.booking_id = v_booking.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking.id,
+    'boat_name', v_boat.name,
+    'boat_type', v_boat.boat_type,
+    'start_time', v_booking.start_time,
+    'end_time', v_booking.end_time,
+    'status', v_booking.status,
+    'organizer_name', v_organizer_name,
+    'capacity', v_boat.capacity,
+    'member_count', v_member_count,
+    'is_member', EXISTS (
+      SELECT 1 FROM daranee.booking_members m
+      WHERE m.booking_id = v_booking.id AND m.line_user_id = caller_line_user_id
+    )
+  );
+END;
+$$;
+
+-- --------------------------------------------
+-- join_booking: take a seat through the invite (idempotent)
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.join_booking(
+  invite_code text,
+  caller_line_user_id text,
+  caller_name text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_group daranee.booking_groups%ROWTYPE;
+  v_booking daranee.bookings%ROWTYPE;
+  v_capacity integer;
+  v_share numeric;
+BEGIN
+  SELECT * INTO v_group
+  FROM daranee.booking_groups g
+  WHERE g.invite_code = join_booking.invite_code;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invite not found');
+  END IF;
+
+  -- Lock the booking so two friends can't take the last seat together
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = v_group.booking_id
+  FOR UPDATE;
+
+  SELECT m.share_amount INTO v_share
+  FROM daranee.booking_members m
+  WHERE m.booking_id = v_booking.id AND m.line_user_id = caller_line_user_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', true, 'booking_id', v_booking.id, 'share_amount', v_share);
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') OR v_booking.end_time <= now() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking can no longer be joined');
+  END IF;
+
+  SELECT bt.capacity INTO v_capacity FROM daranee.boats bt WHERE bt.id = v_booking.boat_id;
+
+  IF (SELECT count(*) FROM daranee.booking_members m WHERE m.booking_id = v_booking.id) >= v_capacity THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking is full');
+  END IF;
+
+  -- Custom splits start the newcomer at 0 until the organizer adjusts
+  INSERT INTO daranee.booking_members (booking_id, line_user_id, display_name, role, share_amount)
+  VALUES (v_booking.id, caller_line_user_id, left(caller_name, 60), 'member', 0);
+
+  IF v_group.split_mode = 'even' THEN
+    PERFORM daranee.split_booking_evenly(v_booking.id);
+  END IF;
+
+  -- Touch the booking so the organizer's screen reloads over realtime
+  UPDATE daranee.bookings SET updated_at = now() WHERE id = v_booking.id;
+
+  SELECT m.share_amount INTO v_share
+  FROM daranee.booking_members m
+  WHERE m.booking_id = v_booking.id AND m.line_user_id = caller_line_user_id;
+
+  RETURN jsonb_build_object('success', true, 'booking_id', v_booking.id, 'share_amount', v_share);
+END;
+$$;
+
+-- --------------------------------------------
+-- set_booking_split: organizer switches to an even split, or sets
+-- custom shares (line_user_id → amount) that add up to total_price
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.set_booking_split(
+  booking_id uuid,
+  caller_line_user_id text,
+  split_mode text,
+  shares jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = set_booking_split.booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF v_booking.line_user_id <> caller_line_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to manage this booking');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM daranee.booking_groups g WHERE g.booking_id = v_booking.id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Group booking not found');
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking can no longer be changed');
+  END IF;
+
+  IF split_mode NOT IN ('even', 'custom') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid split mode');
+  END IF;
+
+  IF split_mode = 'custom' THEN
+    IF shares IS NULL OR jsonb_typeof(shares) <> 'object' OR EXISTS (
+      SELECT 1 FROM daranee.booking_members m
+      WHERE m.booking_id = v_booking.id
+        AND COALESCE(jsonb_typeof(shares -> m.line_user_id), '') <> 'number'
+    ) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Shares must list every passenger');
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM daranee.booking_members m
+      WHERE m.booking_id = v_booking.id AND (shares ->> m.line_user_id)::numeric < 0
+    ) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Shares must not be negative');
+    END IF;
+
+    IF (
+      SELECT sum(round((shares ->> m.line_user_id)::numeric, 2))
+      FROM daranee.booking_members m
+      WHERE m.booking_id = v_booking.id
+    ) <> round(COALESCE(v_booking.total_price, 0), 2) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Shares must add up to the total price');
+    END IF;
+
+    UPDATE daranee.booking_members m
+    SET share_amount = round((shares ->> m.line_user_id)::numeric, 2),
+        payment_status = CASE WHEN m.share_amount = round((shares ->> m.line_user_id)::numeric, 2) THEN m.payment_status ELSE 'unpaid' END,
+        paid_at = CASE WHEN m.share_amount = round((shares ->> m.line_user_id)::numeric, 2) THEN m.paid_at ELSE NULL END
+    WHERE m.booking_id = v_booking.id;
+  ELSE
+    PERFORM daranee.split_booking_evenly(v_booking.id);
+  END IF;
+
+  UPDATE daranee.booking_groups g
+  SET split_mode = set_booking_split.split_mode
+  WHERE g.booking_id = v_booking.id;
+
+  UPDATE daranee.bookings SET updated_at = now() WHERE id = v_booking.id;
+
+  RETURN jsonb_build_object('success', true, 'booking_id', v_booking.id, 'split_mode', split_mode);
+END;
+$$;
+
+-- --------------------------------------------
+-- mark_member_paid: organizer records (or undoes) a friend's payment
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.mark_member_paid(
+  booking_id uuid,
+  caller_line_user_id text,
+  member_line_user_id text,
+  paid boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+  v_paid_at timestamptz := CASE WHEN paid THEN now() END;
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = mark_member_paid.booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF v_booking.line_user_id <> caller_line_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to manage this booking');
+  END IF;
+
+  UPDATE daranee.booking_members m
+  SET payment_status = CASE WHEN paid THEN 'paid' ELSE 'unpaid' END,
+      paid_at = v_paid_at
+  WHERE m.booking_id = v_booking.id AND m.line_user_id = member_line_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Passenger not found');
+  END IF;
+
+  UPDATE daranee.bookings SET updated_at = now() WHERE id = v_booking.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking.id,
+    'line_user_id', member_line_user_id,
+    'payment_status', CASE WHEN paid THEN 'paid' ELSE 'unpaid' END,
+    'paid_at', v_paid_at
+  );
+END;
+$$;
+
+-- --------------------------------------------
+-- get_passenger_bookings: as in passenger_bookings.sql, plus the
+-- bookings the caller joined through an invite
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_passenger_bookings(caller_line_user_id text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+BEGIN
+  RETURN (
+    WITH mine AS (
+      SELECT * FROM daranee.bookings b
+      WHERE b.line_user_id = get_passenger_bookings.caller_line_user_id
+         OR EXISTS (
+           SELECT 1 FROM daranee.booking_members m
+           WHERE m.booking_id = b.id AND m.line_user_id = get_passenger_bookings.caller_line_user_id
+         )
+    )
+    SELECT jsonb_build_object(
+      'success', true,
+      'bookings', COALESCE((SELECT jsonb_agg(to_jsonb(m) ORDER BY m.start_time DESC) FROM mine m), '[]'::jsonb),
+      'boats', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'id', bt.id, 'name', bt.name, 'status', bt.status, 'boat_type', bt.boat_type,
+          'capacity', bt.capacity, 'price_per_hour', bt.price_per_hour, 'owner_id', bt.owner_id,
+          'home_latitude', bt.home_latitude, 'home_longitude', bt.home_longitude,
+          'retired_at', bt.retired_at, 'created_at', bt.created_at, 'updated_at', bt.updated_at
+        ))
+        FROM daranee.boats bt
+        WHERE bt.id IN (SELECT m.boat_id FROM mine m)
+      ), '[]'::jsonb),
+      'reviews', COALESCE((
+        SELECT jsonb_agg(to_jsonb(r))
+        FROM daranee.reviews r
+        WHERE r.booking_id IN (SELECT m.id FROM mine m)
+      ), '[]'::jsonb)
+    )
+  );
+END;
+$$;
+
+-- Called from /api/bookings[/:id/{group,invite,split,member-payment}] and
+-- /api/invites/:code[/join] with the service credential only
+REVOKE EXECUTE ON FUNCTION daranee.split_booking_evenly(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_booking_invite(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_booking_invite(uuid, text, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_booking_group(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_booking_group(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_booking_invite(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_booking_invite(text, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.join_booking(text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.join_booking(text, text, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.set_booking_split(uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_booking_split(uuid, text, text, jsonb) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.mark_member_paid(uuid, text, text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_member_paid(uuid, text, text, boolean) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_passenger_bookings(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_passenger_bookings(text) TO service_role;
@@ -0,0 +1,222 @@
+-- ============================================
+-- Live trips: passenger location sharing + trip completion
+-- A trip runs from start_time to end_time of a confirmed booking.
+-- The passenger's position is stored only inside that window and is
+-- readable only by the boat's operator (service credential, via the API)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS daranee.trip_locations (
+  booking_id uuid PRIMARY KEY REFERENCES daranee.bookings(id) ON DELETE CASCADE,
+  latitude double precision NOT NULL,
+  longitude double precision NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- No policies: never exposed to anon/authenticated
+ALTER TABLE daranee.trip_locations ENABLE ROW LEVEL SECURITY;
+
+-- --------------------------------------------
+-- update_trip_location: passenger shares their position during the trip
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.update_trip_location(
+  booking_id uuid,
+  caller_line_user_id text,
+  lat double precision,
+  lon double precision
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+  v_updated_at timestamptz := now();
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = update_trip_location.booking_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF v_booking.line_user_id <> caller_line_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to share location for this booking');
+  END IF;
+
+  IF v_booking.status <> 'confirmed' OR now() < v_booking.start_time OR now() >= v_booking.end_time THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Trip is not in progress');
+  END IF;
+
+  INSERT INTO daranee.trip_locations (booking_id, latitude, longitude, updated_at)
+  VALUES (v_booking.id, lat, lon, v_updated_at)
+  ON CONFLICT ON CONSTRAINT trip_locations_pkey DO UPDATE
+  SET latitude = EXCLUDED.latitude,
+      longitude = EXCLUDED.longitude,
+      updated_at = EXCLUDED.updated_at;
+
+  RETURN jsonb_build_object('success', true, 'updated_at', v_updated_at);
+END;
+$$;
+
+-- --------------------------------------------
+-- get_trip_location: the boat's operator reads the passenger's position
+-- Outside the trip window the location is always null
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_trip_location(
+  booking_id uuid,
+  caller_line_user_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+  v_location daranee.trip_locations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = get_trip_location.booking_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM daranee.boats bt
+    JOIN daranee.operators o ON o.id = bt.owner_id
+    WHERE bt.id = v_booking.boat_id AND o.line_user_id = caller_line_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to view this trip');
+  END IF;
+
+  IF v_booking.status <> 'confirmed' OR now() < v_booking.start_time OR now() >= v_booking.end_time THEN
+    RETURN jsonb_build_object('success', true, 'location', NULL);
+  END IF;
+
+  SELECT * INTO v_location
+  FROM daranee.trip_locations l
+  WHERE l.booking_id = v_booking.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'location', CASE WHEN FOUND THEN to_jsonb(v_location) ELSE NULL END
+  );
+END;
+$$;
+
+-- --------------------------------------------
+-- complete_booking: operator ends the trip once it has started,
+-- the passenger only once end_time has passed
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.complete_booking(
+  booking_id uuid,
+  caller_line_user_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+  v_is_operator boolean;
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = complete_booking.booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM daranee.boats bt
+    JOIN daranee.operators o ON o.id = bt.owner_id
+    WHERE bt.id = v_booking.boat_id AND o.line_user_id = caller_line_user_id
+  ) INTO v_is_operator;
+
+  IF NOT v_is_operator
+     AND NOT (v_booking.line_user_id = caller_line_user_id AND v_booking.end_time <= now()) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to complete this booking');
+  END IF;
+
+  IF v_booking.status = 'completed' THEN
+    RETURN jsonb_build_object('success', true, 'booking_id', v_booking.id, 'status', 'completed');
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only confirmed bookings can be completed');
+  END IF;
+
+  IF now() < v_booking.start_time THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Trip has not started yet');
+  END IF;
+
+  UPDATE daranee.bookings
+  SET status = 'completed', updated_at = now()
+  WHERE id = v_booking.id;
+
+  DELETE FROM daranee.trip_locations l WHERE l.booking_id = v_booking.id;
+
+  RETURN jsonb_build_object('success', true, 'booking_id', v_booking.id, 'status', 'completed');
+END;
+$$;
+
+-- --------------------------------------------
+-- complete_finished_bookings: scheduled sweep for passed end times
+-- Confirmed bookings are completed; pending ones were never confirmed
+-- or paid, so they are cancelled and stop blocking the boat
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION daranee.complete_finished_bookings()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH finished AS (
+    UPDATE daranee.bookings
+    SET status = 'completed', updated_at = now()
+    WHERE status = 'confirmed' AND end_time <= now()
+    RETURNING id
+  ), lapsed AS (
+    UPDATE daranee.bookings
+    SET status = 'cancelled', updated_at = now()
+    WHERE status = 'pending' AND end_time <= now()
+    RETURNING id
+  ), cleared AS (
+    DELETE FROM daranee.trip_locations l
+    USING finished f
+    WHERE l.booking_id = f.id
+  )
+  SELECT (SELECT count(*) FROM finished) + (SELECT count(*) FROM lapsed) INTO v_count;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Every minute (requires the pg_cron extension)
+SELECT cron.schedule(
+  'daranee-complete-finished-bookings',
+  '* * * * *',
+  $$SELECT daranee.complete_finished_bookings()$$
+);
+
+-- Called from /api/bookings/:id/trip-location and /complete with the service credential only
+REVOKE EXECUTE ON FUNCTION public.update_trip_location(uuid, text, double precision, double precision) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_trip_location(uuid, text, double precision, double precision) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_trip_location(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_trip_location(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.complete_booking(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_booking(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION daranee.complete_finished_bookings() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,34 @@
+-- ============================================
+-- Database webhooks → /api/webhooks/database
+-- Drives LINE push notifications for booking lifecycle events
+-- and boat status changes (lib/server/notifications.ts)
+--
+-- Replace <APP_URL> and <DATABASE_WEBHOOK_SECRET> before running;
+-- the secret must match the DATABASE_WEBHOOK_SECRET env var of the app
+-- ============================================
+
+DROP TRIGGER IF EXISTS bookings_notify_webhook ON daranee.bookings;
+CREATE TRIGGER bookings_notify_webhook
+  AFTER INSERT OR UPDATE OF status ON daranee.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION supabase_functions.http_request(
+    '<APP_URL>/api/webhooks/database',
+    'POST',
+    '{"Content-Type":"application/json","x-webhook-secret":"<DATABASE_WEBHOOK_SECRET>"}',
+    '{}',
+    '5000'
+  );
+
+-- Only status changes matter; position updates must not fire the webhook
+DROP TRIGGER IF EXISTS boats_notify_webhook ON daranee.boats;
+CREATE TRIGGER boats_notify_webhook
+  AFTER UPDATE OF status ON daranee.boats
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION supabase_functions.http_request(
+    '<APP_URL>/api/webhooks/database',
+    'POST',
+    '{"Content-Type":"application/json","x-webhook-secret":"<DATABASE_WEBHOOK_SECRET>"}',
+    '{}',
+    '5000'
+  );
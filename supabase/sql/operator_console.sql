@@ -0,0 +1,75 @@
+-- ============================================
+-- Operator console: the signed-in operator's boats and today's bookings
+-- The operator is the verified LINE user of GET /api/operator, so this
+-- runs with the service credential only. Operators are no longer
+-- readable from the browser; the public map functions that show operator
+-- ratings are SECURITY DEFINER for this reason, so re-run their files.
+-- Apply after fleet_admin.sql and reviews.sql
+-- ============================================
+
+-- --------------------------------------------
+-- get_operator_console: the caller's profile, the boats they own
+-- that are still in service and their bookings overlapping the range
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_operator_console(
+  caller_line_user_id text,
+  range_start timestamptz,
+  range_end timestamptz
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_operator daranee.operators%ROWTYPE;
+BEGIN
+  SELECT * INTO v_operator FROM daranee.operators o WHERE o.line_user_id = caller_line_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not registered as an operator');
+  END IF;
+
+  IF range_end <= range_start THEN
+    RETURN jsonb_build_object('success', false, 'error', 'range_end must be after range_start');
+  END IF;
+
+  RETURN (
+    WITH owned AS (
+      SELECT * FROM daranee.boats b
+      WHERE b.owner_id = v_operator.id AND b.retired_at IS NULL
+    )
+    SELECT jsonb_build_object(
+      'success', true,
+      'operator', jsonb_build_object(
+        'id', v_operator.id, 'name', v_operator.name,
+        'rating', v_operator.rating, 'total_trips', v_operator.total_trips
+      ),
+      'boats', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'id', b.id, 'name', b.name, 'status', b.status, 'boat_type', b.boat_type,
+          'capacity', b.capacity, 'price_per_hour', b.price_per_hour, 'owner_id', b.owner_id,
+          'home_latitude', b.home_latitude, 'home_longitude', b.home_longitude,
+          'retired_at', b.retired_at, 'created_at', b.created_at, 'updated_at', b.updated_at
+        ) ORDER BY b.name)
+        FROM owned b
+      ), '[]'::jsonb),
+      'bookings', COALESCE((
+        SELECT jsonb_agg(to_jsonb(bk) ORDER BY bk.start_time)
+        FROM daranee.bookings bk
+        WHERE bk.boat_id IN (SELECT o.id FROM owned o)
+          AND bk.start_time < get_operator_console.range_end
+          AND bk.end_time > get_operator_console.range_start
+      ), '[]'::jsonb)
+    )
+  );
+END;
+$$;
+
+-- Called from GET /api/operator with the service credential only
+REVOKE EXECUTE ON FUNCTION public.get_operator_console(text, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_operator_console(text, timestamptz, timestamptz) TO service_role;
+
+-- Phone numbers, e-mail and PromptPay ids stay on the server
+REVOKE SELECT ON daranee.operators FROM anon, authenticated;
@@ -0,0 +1,88 @@
+-- ============================================
+-- Passenger reads: My bookings and the live trip screen
+-- The passenger is the verified LINE user of the API request, so these
+-- run with the service credential only – the browser never filters
+-- bookings by a line_user_id it supplies itself
+-- ============================================
+
+-- --------------------------------------------
+-- get_passenger_bookings: every booking of the caller,
+-- plus the boats they reference and the reviews left on them
+-- (group_bookings.sql adds the bookings the caller joined)
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_passenger_bookings(caller_line_user_id text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+BEGIN
+  RETURN (
+    WITH mine AS (
+      SELECT * FROM daranee.bookings b WHERE b.line_user_id = get_passenger_bookings.caller_line_user_id
+    )
+    SELECT jsonb_build_object(
+      'success', true,
+      'bookings', COALESCE((SELECT jsonb_agg(to_jsonb(m) ORDER BY m.start_time DESC) FROM mine m), '[]'::jsonb),
+      'boats', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'id', bt.id, 'name', bt.name, 'status', bt.status, 'boat_type', bt.boat_type,
+          'capacity', bt.capacity, 'price_per_hour', bt.price_per_hour, 'owner_id', bt.owner_id,
+          'home_latitude', bt.home_latitude, 'home_longitude', bt.home_longitude,
+          'retired_at', bt.retired_at, 'created_at', bt.created_at, 'updated_at', bt.updated_at
+        ))
+        FROM daranee.boats bt
+        WHERE bt.id IN (SELECT m.boat_id FROM mine m)
+      ), '[]'::jsonb),
+      'reviews', COALESCE((
+        SELECT jsonb_agg(to_jsonb(r))
+        FROM daranee.reviews r
+        WHERE r.booking_id IN (SELECT m.id FROM mine m)
+      ), '[]'::jsonb)
+    )
+  );
+END;
+$$;
+
+-- --------------------------------------------
+-- get_booking: one booking, for the passenger who made it
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_booking(
+  booking_id uuid,
+  caller_line_user_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = get_booking.booking_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF v_booking.line_user_id <> caller_line_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to view this booking');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'booking', to_jsonb(v_booking));
+END;
+$$;
+
+-- Called from GET /api/bookings and /api/bookings/:id with the service credential only
+REVOKE EXECUTE ON FUNCTION public.get_passenger_bookings(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_passenger_bookings(text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_booking(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_booking(uuid, text) TO service_role;
+
+-- Bookings name LINE users and pickup points: the browser reads them through
+-- the API only and learns about changes from booking_changes.sql
+REVOKE SELECT ON daranee.bookings FROM anon, authenticated;
@@ -0,0 +1,159 @@
+-- ============================================
+-- Piers (ท่าเรือ) – named pickup points on the river
+-- Each pier lists the boat types that can come alongside. A booking
+-- may name a pier as its pickup; create_booking then takes the pickup
+-- point from the pier and refuses boats that can't dock there.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS daranee.piers (
+  id text PRIMARY KEY,
+  name_th text NOT NULL,
+  name_en text NOT NULL,
+  latitude double precision NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude double precision NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  boat_types text[] NOT NULL CHECK (boat_types <@ ARRAY['standard', 'premium', 'speedboat', 'longtail']),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE daranee.piers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Piers are public" ON daranee.piers;
+CREATE POLICY "Piers are public"
+  ON daranee.piers FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+GRANT SELECT ON daranee.piers TO anon, authenticated;
+
+-- Keep in sync with SEED_PIERS in lib/memoryBackend.ts
+INSERT INTO daranee.piers (id, name_th, name_en, latitude, longitude, boat_types) VALUES
+  ('phra-arthit', 'ท่าพระอาทิตย์', 'Phra Arthit', 13.7625, 100.4942, ARRAY['standard', 'premium', 'speedboat', 'longtail']),
+  ('wang-lang', 'ท่าวังหลัง', 'Wang Lang', 13.7560, 100.4865, ARRAY['standard', 'longtail']),
+  ('tha-chang', 'ท่าช้าง', 'Tha Chang', 13.7527, 100.4897, ARRAY['standard', 'premium', 'speedboat', 'longtail']),
+  ('tha-tien', 'ท่าเตียน', 'Tha Tien', 13.7465, 100.4912, ARRAY['standard', 'premium', 'longtail']),
+  ('wat-arun', 'ท่าวัดอรุณ', 'Wat Arun', 13.7437, 100.4887, ARRAY['standard', 'longtail']),
+  ('memorial-bridge', 'ท่าสะพานพุทธ', 'Memorial Bridge', 13.7396, 100.4979, ARRAY['standard', 'longtail']),
+  ('ratchawong', 'ท่าราชวงศ์', 'Ratchawong', 13.7391, 100.5041, ARRAY['standard', 'premium', 'speedboat', 'longtail']),
+  ('si-phraya', 'ท่าสี่พระยา', 'Si Phraya', 13.7290, 100.5135, ARRAY['standard', 'premium', 'speedboat']),
+  ('iconsiam', 'ท่าไอคอนสยาม', 'ICONSIAM', 13.7266, 100.5103, ARRAY['standard', 'premium', 'speedboat']),
+  ('oriental', 'ท่าโอเรียนเต็ล', 'Oriental', 13.7236, 100.5143, ARRAY['premium', 'speedboat', 'longtail']),
+  ('sathorn', 'ท่าสาทร', 'Sathorn', 13.7187, 100.5134, ARRAY['standard', 'premium', 'speedboat', 'longtail']),
+  ('asiatique', 'ท่าเอเชียทีค', 'Asiatique', 13.7046, 100.5030, ARRAY['standard', 'premium'])
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE daranee.bookings
+  ADD COLUMN IF NOT EXISTS pickup_pier_id text REFERENCES daranee.piers(id) ON DELETE SET NULL;
+
+-- --------------------------------------------
+-- create_booking: the only definition. It charges the quoted_price
+-- computed by lib/pricing.ts in POST /api/bookings, stores the pickup
+-- point (analytics.sql adds the columns) and takes an optional pier.
+-- Apply after fleet_admin.sql, which adds boats.retired_at.
+-- --------------------------------------------
+
+-- Drop the earlier signatures so calls stay unambiguous
+DROP FUNCTION IF EXISTS public.create_booking(uuid, text, timestamptz, timestamptz, double precision, double precision);
+DROP FUNCTION IF EXISTS public.create_booking(uuid, text, timestamptz, timestamptz, double precision, double precision, numeric);
+
+CREATE OR REPLACE FUNCTION public.create_booking(
+  boat_id uuid,
+  line_user_id text,
+  start_time timestamptz,
+  end_time timestamptz,
+  pickup_lat double precision DEFAULT NULL,
+  pickup_lon double precision DEFAULT NULL,
+  quoted_price numeric DEFAULT NULL,
+  pickup_pier_id text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_boat daranee.boats%ROWTYPE;
+  v_pier daranee.piers%ROWTYPE;
+  v_pickup_lat double precision := create_booking.pickup_lat;
+  v_pickup_lon double precision := create_booking.pickup_lon;
+  v_booking_id uuid;
+  v_total_hours numeric;
+  v_total_price numeric;
+BEGIN
+  -- Lock the boat so two requests can't book the same window
+  SELECT * INTO v_boat
+  FROM daranee.boats b
+  WHERE b.id = create_booking.boat_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Boat not found');
+  END IF;
+
+  IF v_boat.retired_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Boat is retired');
+  END IF;
+
+  IF create_booking.end_time <= create_booking.start_time THEN
+    RETURN jsonb_build_object('success', false, 'error', 'end_time must be after start_time');
+  END IF;
+
+  -- MAX_BOOKING_HOURS in lib/pricing.ts
+  IF create_booking.end_time - create_booking.start_time > interval '72 hours' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Bookings may not exceed 72 hours');
+  END IF;
+
+  IF create_booking.start_time < now() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'start_time must not be in the past');
+  END IF;
+
+  -- A named pier overrides the raw pickup point
+  IF create_booking.pickup_pier_id IS NOT NULL THEN
+    SELECT * INTO v_pier FROM daranee.piers p WHERE p.id = create_booking.pickup_pier_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Pier not found');
+    END IF;
+
+    IF NOT (v_boat.boat_type = ANY (v_pier.boat_types)) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'This boat cannot dock at the pier');
+    END IF;
+
+    v_pickup_lat := v_pier.latitude;
+    v_pickup_lon := v_pier.longitude;
+  END IF;
+
+  IF NOT public.check_boat_availability(v_boat.id, create_booking.start_time, create_booking.end_time) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Boat is not available for the requested time');
+  END IF;
+
+  -- No quote (e.g. no price_per_hour) is never a free booking
+  IF create_booking.quoted_price IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'quoted_price is required');
+  END IF;
+
+  v_total_hours := round(extract(epoch FROM create_booking.end_time - create_booking.start_time) / 3600, 2);
+  v_total_price := round(create_booking.quoted_price, 2);
+
+  INSERT INTO daranee.bookings (
+    boat_id, line_user_id, start_time, end_time, status, total_price, pickup_lat, pickup_lon, pickup_pier_id
+  )
+  VALUES (
+    v_boat.id, create_booking.line_user_id, create_booking.start_time, create_booking.end_time,
+    'pending', v_total_price, v_pickup_lat, v_pickup_lon, v_pier.id
+  )
+  RETURNING id INTO v_booking_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking_id,
+    'total_hours', v_total_hours,
+    'total_price', v_total_price
+  );
+END;
+$$;
+
+-- quoted_price is trusted, so passengers must go through /api/bookings
+REVOKE EXECUTE ON FUNCTION public.create_booking(uuid, text, timestamptz, timestamptz, double precision, double precision, numeric, text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_booking(uuid, text, timestamptz, timestamptz, double precision, double precision, numeric, text)
+  TO service_role;
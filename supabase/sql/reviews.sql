@@ -0,0 +1,166 @@
+-- ============================================
+-- Post-trip reviews
+-- One rating (1–5) + optional comment per completed booking.
+-- Reviews are public (no passenger id is stored); submitting goes
+-- through /api/bookings/:id/review with the service credential.
+-- operators.total_trips counts the completed bookings of the operator's
+-- boats and operators.rating is the average of their reviews; both are
+-- recomputed from those rows (refresh_operator_stats), never accumulated.
+-- An operator without reviews keeps the rating from before the app
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS daranee.reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL UNIQUE REFERENCES daranee.bookings(id) ON DELETE CASCADE,
+  boat_id uuid NOT NULL REFERENCES daranee.boats(id) ON DELETE CASCADE,
+  operator_id uuid REFERENCES daranee.operators(id) ON DELETE SET NULL,
+  rating smallint NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment text CHECK (char_length(comment) <= 500),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS reviews_boat_created_idx
+  ON daranee.reviews (boat_id, created_at DESC);
+
+ALTER TABLE daranee.reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Reviews are public" ON daranee.reviews;
+CREATE POLICY "Reviews are public"
+  ON daranee.reviews FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+GRANT SELECT ON daranee.reviews TO anon, authenticated;
+
+-- --------------------------------------------
+-- refresh_operator_stats: total_trips and rating from the rows they summarize
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION daranee.refresh_operator_stats(p_operator_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+BEGIN
+  UPDATE daranee.operators o
+  SET total_trips = (
+        SELECT count(*)
+        FROM daranee.bookings b
+        JOIN daranee.boats bt ON bt.id = b.boat_id
+        WHERE bt.owner_id = o.id AND b.status = 'completed'
+      ),
+      rating = COALESCE((
+        SELECT round(avg(r.rating), 2)
+        FROM daranee.reviews r
+        WHERE r.operator_id = o.id
+      ), o.rating),
+      updated_at = now()
+  WHERE o.id = p_operator_id;
+END;
+$$;
+
+-- A trip counts once it is completed, reviewed or not
+CREATE OR REPLACE FUNCTION daranee.bookings_refresh_operator_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+BEGIN
+  PERFORM daranee.refresh_operator_stats(bt.owner_id)
+  FROM daranee.boats bt
+  WHERE bt.id = NEW.boat_id AND bt.owner_id IS NOT NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_refresh_operator_stats ON daranee.bookings;
+CREATE TRIGGER bookings_refresh_operator_stats
+  AFTER UPDATE OF status ON daranee.bookings
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION daranee.bookings_refresh_operator_stats();
+
+-- --------------------------------------------
+-- submit_review: the passenger rates a completed trip once
+-- --------------------------------------------
+CREATE OR REPLACE FUNCTION public.submit_review(
+  booking_id uuid,
+  caller_line_user_id text,
+  rating integer,
+  comment text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = daranee, public
+AS $$
+DECLARE
+  v_booking daranee.bookings%ROWTYPE;
+  v_operator daranee.operators%ROWTYPE;
+  v_comment text := NULLIF(btrim(submit_review.comment), '');
+  v_review_id uuid;
+BEGIN
+  SELECT * INTO v_booking
+  FROM daranee.bookings b
+  WHERE b.id = submit_review.booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF v_booking.line_user_id <> caller_line_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed to review this booking');
+  END IF;
+
+  IF v_booking.status <> 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only completed trips can be reviewed');
+  END IF;
+
+  IF submit_review.rating IS NULL OR submit_review.rating NOT BETWEEN 1 AND 5 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Rating must be a whole number from 1 to 5');
+  END IF;
+
+  IF char_length(v_comment) > 500 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Comment may not exceed 500 characters');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM daranee.reviews r WHERE r.booking_id = v_booking.id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This booking has already been reviewed');
+  END IF;
+
+  -- Lock the operator so concurrent reviews don't lose an update
+  SELECT o.* INTO v_operator
+  FROM daranee.boats bt
+  JOIN daranee.operators o ON o.id = bt.owner_id
+  WHERE bt.id = v_booking.boat_id
+  FOR UPDATE OF o;
+
+  INSERT INTO daranee.reviews (booking_id, boat_id, operator_id, rating, comment)
+  VALUES (v_booking.id, v_booking.boat_id, v_operator.id, submit_review.rating, v_comment)
+  RETURNING id INTO v_review_id;
+
+  IF v_operator.id IS NULL THEN
+    RETURN jsonb_build_object('success', true, 'review_id', v_review_id);
+  END IF;
+
+  PERFORM daranee.refresh_operator_stats(v_operator.id);
+  SELECT * INTO v_operator FROM daranee.operators o WHERE o.id = v_operator.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'review_id', v_review_id,
+    'operator_rating', v_operator.rating,
+    'operator_total_trips', v_operator.total_trips
+  );
+END;
+$$;
+
+-- Bring the stored values in line with the rows once
+SELECT daranee.refresh_operator_stats(o.id) FROM daranee.operators o;
+
+-- Called from /api/bookings/:id/review with the service credential only
+REVOKE EXECUTE ON FUNCTION public.submit_review(uuid, text, integer, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_review(uuid, text, integer, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION daranee.refresh_operator_stats(uuid) FROM PUBLIC, anon, authenticated;